@@ -5,13 +5,40 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Dashboard from "@/pages/dashboard";
 import Jobs from "@/pages/jobs";
+import Quotes from "@/pages/quotes";
 import Customers from "@/pages/customers";
+import Printers from "@/pages/printers";
+import Timeline from "@/pages/timeline";
+import Materials from "@/pages/materials";
+import PurchaseOrders from "@/pages/purchase-orders";
+import Pricing from "@/pages/pricing";
+import InvoiceTemplates from "@/pages/invoice-templates";
+import NotificationTemplates from "@/pages/notification-templates";
+import Users from "@/pages/users";
+import AuthPage from "@/pages/auth";
 
 import Reports from "@/pages/reports";
 import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/layout/sidebar";
+import { useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+  useLiveUpdates(!!user);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <div className="flex h-screen bg-slate-50">
       <Sidebar />
@@ -19,9 +46,18 @@ function Router() {
         <Switch>
           <Route path="/" component={Dashboard} />
           <Route path="/jobs" component={Jobs} />
+          <Route path="/quotes" component={Quotes} />
           <Route path="/customers" component={Customers} />
+          <Route path="/printers" component={Printers} />
+          <Route path="/timeline" component={Timeline} />
+          <Route path="/materials" component={Materials} />
+          <Route path="/purchase-orders" component={PurchaseOrders} />
+          <Route path="/pricing" component={Pricing} />
+          <Route path="/invoice-templates" component={InvoiceTemplates} />
+          <Route path="/email-templates" component={NotificationTemplates} />
 
           <Route path="/reports" component={Reports} />
+          <Route path="/users" component={Users} />
           <Route component={NotFound} />
         </Switch>
       </div>
@@ -4,10 +4,12 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { notificationRuleLabels } from "@/components/notifications/notification-settings-form";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { insertCustomerSchema } from "@shared/schema";
-import type { Customer, InsertCustomer } from "@shared/schema";
+import { insertCustomerSchema, notificationRules } from "@shared/schema";
+import type { Customer, InsertCustomer, NotificationRule } from "@shared/schema";
 
 interface CustomerFormProps {
   customer?: Customer;
@@ -25,9 +27,22 @@ export default function CustomerForm({ customer, onSuccess }: CustomerFormProps)
       email: "",
       phone: "",
       company: "",
+      autoNotify: true,
+      mutedNotificationRules: [],
     },
   });
 
+  const autoNotify = form.watch("autoNotify") ?? true;
+  const mutedRules = form.watch("mutedNotificationRules") ?? [];
+
+  const toggleRule = (rule: NotificationRule, wanted: boolean) => {
+    form.setValue(
+      "mutedNotificationRules",
+      wanted ? mutedRules.filter(mutedRule => mutedRule !== rule) : [...mutedRules, rule],
+      { shouldDirty: true },
+    );
+  };
+
   const mutation = useMutation({
     mutationFn: (data: InsertCustomer) => {
       if (customer) {
@@ -103,6 +118,30 @@ export default function CustomerForm({ customer, onSuccess }: CustomerFormProps)
         />
       </div>
 
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="autoNotify">Automatic emails</Label>
+          <Switch
+            id="autoNotify"
+            checked={autoNotify}
+            onCheckedChange={(checked) => form.setValue("autoNotify", checked, { shouldDirty: true })}
+          />
+        </div>
+        {autoNotify && (
+          <div className="grid grid-cols-2 gap-2">
+            {notificationRules.map((rule) => (
+              <label key={rule} className="flex items-center justify-between p-2 bg-slate-50 rounded text-sm">
+                {notificationRuleLabels[rule]}
+                <Switch
+                  checked={!mutedRules.includes(rule)}
+                  onCheckedChange={(checked) => toggleRule(rule, checked)}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
       <Button type="submit" disabled={mutation.isPending}>
         {mutation.isPending 
           ? (customer ? "Updating..." : "Creating...") 
@@ -0,0 +1,496 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, FlaskConical, Save, AlertTriangle, Plus, Trash2 } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { LOW_CONFIDENCE_THRESHOLD } from "@shared/schema";
+import type { ExtractedInvoice, InvoiceTemplate, InvoiceTemplateColumn } from "@shared/schema";
+
+interface PdfTextRow {
+  page: number;
+  y: number;
+  cells: Array<{ x: number; text: string }>;
+}
+
+type ColumnField = InvoiceTemplateColumn["field"];
+
+interface TemplateEditorProps {
+  template: InvoiceTemplate | null;
+  onDone: () => void;
+}
+
+const emptyTemplate = {
+  name: "",
+  priority: 100,
+  enabled: true,
+  identifierPattern: "",
+  invoiceNumberPattern: "",
+  customerNamePattern: "",
+  tableStartPattern: "",
+  tableEndPattern: "",
+  lineItemPattern: "",
+  columns: [] as InvoiceTemplateColumn[],
+};
+
+// Header cells that are this far left of their values still catch right-aligned numbers
+const COLUMN_SLACK = 10;
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\t/g, "\\t");
+
+const rowText = (row: PdfTextRow) => row.cells.map(cell => cell.text).join("\t");
+
+function guessField(header: string): ColumnField | "ignore" {
+  if (/desc|item|activity|product|service/i.test(header)) return "description";
+  if (/qty|quantity|units?\b/i.test(header)) return "quantity";
+  if (/price|rate|unit|each/i.test(header)) return "unitPrice";
+  if (/amount|total|line/i.test(header)) return "amount";
+  return "ignore";
+}
+
+export default function TemplateEditor({ template, onDone }: TemplateEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState(emptyTemplate);
+  const [mode, setMode] = useState<"columns" | "pattern">("columns");
+  const [rows, setRows] = useState<PdfTextRow[]>([]);
+  const [sampleName, setSampleName] = useState<string | null>(null);
+  const [selectedRow, setSelectedRow] = useState<number | null>(null);
+  const [testResult, setTestResult] = useState<ExtractedInvoice | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (template) {
+      setFormData({
+        name: template.name,
+        priority: template.priority,
+        enabled: template.enabled,
+        identifierPattern: template.identifierPattern,
+        invoiceNumberPattern: template.invoiceNumberPattern || "",
+        customerNamePattern: template.customerNamePattern || "",
+        tableStartPattern: template.tableStartPattern || "",
+        tableEndPattern: template.tableEndPattern || "",
+        lineItemPattern: template.lineItemPattern || "",
+        columns: template.columns || [],
+      });
+      setMode(template.columns?.length ? "columns" : "pattern");
+    } else {
+      setFormData(emptyTemplate);
+      setMode("columns");
+    }
+    setTestResult(undefined);
+  }, [template]);
+
+  const toPayload = () => ({
+    ...formData,
+    invoiceNumberPattern: formData.invoiceNumberPattern || null,
+    customerNamePattern: formData.customerNamePattern || null,
+    tableStartPattern: formData.tableStartPattern || null,
+    tableEndPattern: formData.tableEndPattern || null,
+    lineItemPattern: mode === "pattern" ? formData.lineItemPattern || null : null,
+    columns: mode === "columns" ? formData.columns : null,
+  });
+
+  const sampleMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append('pdf', file);
+      const response = await fetch('/api/invoice-templates/sample', {
+        method: 'POST',
+        body,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to read sample PDF');
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setRows(data.rows);
+      setSampleName(data.originalFilename);
+      setSelectedRow(null);
+      setTestResult(undefined);
+    },
+    onError: () => {
+      toast({ title: "Failed to read sample PDF", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/invoice-templates/test", { template: toPayload(), rows });
+      return response.json();
+    },
+    onSuccess: (data) => setTestResult(data.invoice),
+    onError: (error: Error) => {
+      toast({ title: "Template is not valid yet", description: apiErrorMessage(error) ?? error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => template
+      ? apiRequest("PUT", `/api/invoice-templates/${template.id}`, toPayload())
+      : apiRequest("POST", "/api/invoice-templates", toPayload()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-templates"] });
+      toast({ title: template ? "Template updated successfully" : "Template created successfully" });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save template", description: apiErrorMessage(error) ?? error.message, variant: "destructive" });
+    },
+  });
+
+  const setField = (field: keyof typeof emptyTemplate, value: unknown) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Mark-up actions turn the selected sample row into the matching pattern
+  const markRow = (role: "identifier" | "invoiceNumber" | "customerName" | "tableStart" | "tableEnd") => {
+    if (selectedRow === null) return;
+    const row = rows[selectedRow];
+    const text = rowText(row);
+
+    switch (role) {
+      case "identifier":
+        setField("identifierPattern", `^${escapeRegex(text)}`);
+        break;
+      case "invoiceNumber": {
+        // The number is the last token on the row, everything before it is the label
+        const label = text.replace(/\S+$/, "").trimEnd();
+        setField("invoiceNumberPattern", label ? `${escapeRegex(label)}\\s*(\\S+)` : `^(\\S+)$`);
+        break;
+      }
+      case "customerName": {
+        const labelled = row.cells[0].text.match(/^(.*?:)\s*\S/);
+        if (labelled) {
+          setField("customerNamePattern", `${escapeRegex(labelled[1])}\\s*([^\\t\\n]+)`);
+        } else if (selectedRow > 0) {
+          // An unlabelled name sits on the row below its label ("Bill To:")
+          setField("customerNamePattern", `^${escapeRegex(rowText(rows[selectedRow - 1]))}\\n([^\\t\\n]+)`);
+        } else {
+          setField("customerNamePattern", `^([^\\t\\n]+)`);
+        }
+        break;
+      }
+      case "tableStart":
+        setField("tableStartPattern", `^${escapeRegex(text)}$`);
+        setField("columns", row.cells
+          .map((cell, index) => ({
+            field: guessField(cell.text),
+            fromX: index === 0 ? 0 : cell.x - COLUMN_SLACK,
+            toX: index < row.cells.length - 1 ? row.cells[index + 1].x - COLUMN_SLACK : null,
+          }))
+          .filter((column): column is InvoiceTemplateColumn => column.field !== "ignore"));
+        break;
+      case "tableEnd":
+        setField("tableEndPattern", `^${escapeRegex(row.cells[0].text)}\\b`);
+        break;
+    }
+  };
+
+  const updateColumn = (index: number, field: keyof InvoiceTemplateColumn, value: unknown) => {
+    const columns = [...formData.columns];
+    columns[index] = { ...columns[index], [field]: value };
+    setField("columns", columns);
+  };
+
+  const handleSampleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      sampleMutation.mutate(e.target.files[0]);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      {/* Sample PDF mark-up */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Sample Invoice</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-3">
+            <input
+              type="file"
+              accept=".pdf"
+              onChange={handleSampleInput}
+              className="hidden"
+              id="template-sample-upload"
+              disabled={sampleMutation.isPending}
+            />
+            <Button asChild variant="outline" disabled={sampleMutation.isPending} className="cursor-pointer">
+              <label htmlFor="template-sample-upload">
+                <Upload className="w-4 h-4 mr-2" />
+                {sampleMutation.isPending ? "Reading..." : "Load Sample PDF"}
+              </label>
+            </Button>
+            {sampleName && <span className="text-sm text-slate-600 truncate">{sampleName}</span>}
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Load a sample invoice from this supplier, then click a line and mark what it is.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" disabled={selectedRow === null} onClick={() => markRow("identifier")}>
+                  Identifies layout
+                </Button>
+                <Button size="sm" variant="outline" disabled={selectedRow === null} onClick={() => markRow("invoiceNumber")}>
+                  Invoice number
+                </Button>
+                <Button size="sm" variant="outline" disabled={selectedRow === null} onClick={() => markRow("customerName")}>
+                  Customer name
+                </Button>
+                <Button size="sm" variant="outline" disabled={selectedRow === null} onClick={() => markRow("tableStart")}>
+                  Table header
+                </Button>
+                <Button size="sm" variant="outline" disabled={selectedRow === null} onClick={() => markRow("tableEnd")}>
+                  Table end
+                </Button>
+              </div>
+              <div className="border border-slate-200 rounded-lg max-h-[32rem] overflow-auto font-mono text-xs">
+                {rows.map((row, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "flex items-center px-2 py-1 cursor-pointer border-b border-slate-100",
+                      selectedRow === index ? "bg-primary/10" : "hover:bg-slate-50"
+                    )}
+                    onClick={() => setSelectedRow(index)}
+                  >
+                    {row.cells.map((cell, cellIndex) => (
+                      <span
+                        key={cellIndex}
+                        title={`x = ${cell.x}`}
+                        className="mr-2 px-1 rounded bg-slate-100 whitespace-nowrap"
+                      >
+                        {cell.text}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Template definition */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{template ? `Edit ${template.name}` : "New Template"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <Label>Name *</Label>
+              <Input
+                placeholder="Supplier or accounting package"
+                value={formData.name}
+                onChange={(e) => setField("name", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Priority</Label>
+              <Input
+                type="number"
+                value={formData.priority}
+                onChange={(e) => setField("priority", parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch checked={formData.enabled} onCheckedChange={(checked) => setField("enabled", checked)} />
+            <Label>Enabled</Label>
+          </div>
+
+          <div>
+            <Label>Identifier pattern *</Label>
+            <Input
+              className="font-mono text-xs"
+              value={formData.identifierPattern}
+              onChange={(e) => setField("identifierPattern", e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Invoice number pattern</Label>
+              <Input
+                className="font-mono text-xs"
+                value={formData.invoiceNumberPattern}
+                onChange={(e) => setField("invoiceNumberPattern", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Customer name pattern</Label>
+              <Input
+                className="font-mono text-xs"
+                value={formData.customerNamePattern}
+                onChange={(e) => setField("customerNamePattern", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Table header pattern</Label>
+              <Input
+                className="font-mono text-xs"
+                value={formData.tableStartPattern}
+                onChange={(e) => setField("tableStartPattern", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Table end pattern</Label>
+              <Input
+                className="font-mono text-xs"
+                value={formData.tableEndPattern}
+                onChange={(e) => setField("tableEndPattern", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Read line items by</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as "columns" | "pattern")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="columns">Column positions</SelectItem>
+                <SelectItem value="pattern">Regular expression</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === "pattern" ? (
+            <div>
+              <Label>Line item pattern</Label>
+              <Input
+                className="font-mono text-xs"
+                placeholder="(?<description>[^\t]+)\t(?<quantity>\d+)\t(?<unitPrice>[\d.,]+)"
+                value={formData.lineItemPattern}
+                onChange={(e) => setField("lineItemPattern", e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setField("columns", [...formData.columns, { field: "description", fromX: 0, toX: null }])}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Column
+                </Button>
+              </div>
+              {formData.columns.map((column, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-5">
+                    <Select value={column.field} onValueChange={(value) => updateColumn(index, "field", value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="description">Description</SelectItem>
+                        <SelectItem value="quantity">Quantity</SelectItem>
+                        <SelectItem value="unitPrice">Unit price</SelectItem>
+                        <SelectItem value="amount">Amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-3">
+                    <Input
+                      type="number"
+                      placeholder="From x"
+                      value={column.fromX}
+                      onChange={(e) => updateColumn(index, "fromX", parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div className="col-span-3">
+                    <Input
+                      type="number"
+                      placeholder="To x (edge)"
+                      value={column.toX ?? ""}
+                      onChange={(e) => updateColumn(index, "toX", e.target.value === "" ? null : parseFloat(e.target.value))}
+                    />
+                  </div>
+                  <div className="col-span-1">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setField("columns", formData.columns.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Test results */}
+          {testResult === null && (
+            <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-slate-700">
+              The identifier pattern doesn't match this sample.
+            </div>
+          )}
+          {testResult && (
+            <div className="p-3 rounded-lg bg-slate-50 space-y-2 text-sm">
+              <p className="text-slate-600">
+                Invoice: <span className="font-medium text-slate-900">{testResult.invoiceNumber ?? "not found"}</span>
+                {" • "}
+                Customer: <span className="font-medium text-slate-900">{testResult.customerName ?? "not found"}</span>
+              </p>
+              {testResult.items.length === 0 ? (
+                <p className="text-slate-500">No line items found.</p>
+              ) : (
+                testResult.items.map((item, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span className="flex items-center truncate mr-2">
+                      {item.confidence < LOW_CONFIDENCE_THRESHOLD && (
+                        <AlertTriangle className="w-4 h-4 text-warning mr-1 flex-shrink-0" />
+                      )}
+                      {item.name}
+                    </span>
+                    <span className="text-slate-600 flex-shrink-0">
+                      {item.quantity}{item.unitPrice !== null && ` @ ${item.unitPrice.toFixed(2)}`}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+            <Button type="button" variant="outline" onClick={onDone}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => testMutation.mutate()}
+              disabled={rows.length === 0 || testMutation.isPending}
+            >
+              <FlaskConical className="w-4 h-4 mr-1" />
+              Test on Sample
+            </Button>
+            <Button type="button" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              <Save className="w-4 h-4 mr-1" />
+              {saveMutation.isPending ? "Saving..." : "Save Template"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
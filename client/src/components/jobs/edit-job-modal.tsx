@@ -6,13 +6,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Edit, Trash2, Plus } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { formatStatus } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
 import StatusBadge from "./status-badge";
-import type { JobWithCustomer, Customer } from "@shared/schema";
+import ItemAssignments from "@/components/printers/item-assignments";
+import GcodeUpload from "./gcode-upload";
+import ModelUpload from "./model-upload";
+import JobPricing from "./job-pricing";
+import JobPayments from "./job-payments";
+import JobNotifications from "./job-notifications";
+import JobHistory from "./job-history";
+import { jobStatuses, jobStatusTransitions } from "@shared/schema";
+import type { JobWithCustomer, Customer, JobItem, JobStatus, Spool } from "@shared/schema";
 
 interface EditJobModalProps {
   open: boolean;
@@ -39,7 +49,8 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
       notes: "",
       status: "not_started",
       completedQuantity: 0,
-      actualTimePerItem: 0
+      actualTimePerItem: 0,
+      spoolId: null as number | null
     }]
   });
 
@@ -47,6 +58,10 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
     queryKey: ["/api/customers"],
   });
 
+  const { data: spools = [] } = useQuery<Spool[]>({
+    queryKey: ["/api/spools"],
+  });
+
   // Reset form when job changes
   useEffect(() => {
     if (job && open) {
@@ -66,6 +81,7 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
           status: item.status || "not_started",
           completedQuantity: item.completedQuantity || 0,
           actualTimePerItem: item.actualTimePerItem || 0,
+          spoolId: item.spoolId ?? null,
         })),
       });
     }
@@ -102,7 +118,16 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
         notes: data.notes,
       };
 
-      await apiRequest("PUT", `/api/jobs/${job.id}`, jobUpdate);
+      try {
+        await apiRequest("PUT", `/api/jobs/${job.id}`, jobUpdate);
+      } catch (error) {
+        // The state machine refused the status change; it can still be pushed through
+        const message = error instanceof Error && error.message.startsWith("409:")
+          ? apiErrorMessage(error)
+          : undefined;
+        if (!message || !confirm(`${message}. Change the status anyway?`)) throw error;
+        await apiRequest("PUT", `/api/jobs/${job.id}`, { ...jobUpdate, force: true });
+      }
 
       // Update job items
       const existingItemIds = job.items.map(item => item.id);
@@ -125,6 +150,7 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
           status: item.status,
           completedQuantity: item.completedQuantity,
           actualTimePerItem: item.actualTimePerItem,
+          spoolId: item.spoolId,
         };
 
         if (item.id) {
@@ -139,6 +165,10 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/spools"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/material-shortages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-alerts"] });
       toast({ title: "Job updated successfully" });
       onOpenChange(false);
     },
@@ -158,6 +188,10 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/spools"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/material-shortages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-alerts"] });
       toast({ title: "Item updated successfully" });
     },
     onError: (error: any) => {
@@ -191,7 +225,8 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
         notes: "",
         status: "not_started",
         completedQuantity: 0,
-        actualTimePerItem: 0
+        actualTimePerItem: 0,
+        spoolId: null
       }]
     }));
   };
@@ -220,8 +255,29 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
     }
   };
 
+  // The server already saved the analysed values, only the form needs catching up
+  const applyGcodeAnalysis = (index: number, analyzed: JobItem) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => i === index ? {
+        ...item,
+        estimatedTimePerItem: analyzed.estimatedTimePerItem || 0,
+        material: analyzed.material || "",
+      } : item),
+    }));
+  };
+
+  // Spools of the item's material first, so the likely pick is at the top
+  const spoolsFor = (material: string) => {
+    const wanted = material.trim().toLowerCase();
+    return [...spools].sort((a, b) =>
+      Number(b.material.toLowerCase() === wanted) - Number(a.material.toLowerCase() === wanted));
+  };
+
   if (!job) return null;
 
+  const savedItems = new Map(job.items.map(jobItem => [jobItem.id, jobItem]));
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -229,227 +285,282 @@ export default function EditJobModal({ open, onOpenChange, job }: EditJobModalPr
           <DialogTitle>Edit Job #{job.jobNumber}</DialogTitle>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Basic Job Info */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="customerId">Customer *</Label>
-              <Select 
-                value={formData.customerId.toString()} 
-                onValueChange={(value) => setFormData(prev => ({ ...prev, customerId: parseInt(value) }))}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a customer" />
-                </SelectTrigger>
-                <SelectContent>
-                  {customers.map((customer) => (
-                    <SelectItem key={customer.id} value={customer.id.toString()}>
-                      {customer.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="priority">Priority</Label>
-              <Select 
-                value={formData.priority} 
-                onValueChange={(value) => setFormData(prev => ({ ...prev, priority: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="low">Low</SelectItem>
-                  <SelectItem value="normal">Normal</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="urgent">Urgent</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="status">Status</Label>
-              <Select 
-                value={formData.status} 
-                onValueChange={(value) => setFormData(prev => ({ ...prev, status: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="not_started">Not Started</SelectItem>
-                  <SelectItem value="printing">Printing</SelectItem>
-                  <SelectItem value="paused">Paused</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="dueDate">Due Date</Label>
-              <Input
-                type="datetime-local"
-                value={formData.dueDate}
-                onChange={(e) => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
-              />
-            </div>
-          </div>
-
-          {/* Job Items */}
-          <div>
-            <div className="flex items-center justify-between mb-4">
-              <Label className="text-base font-medium">Job Items *</Label>
-              <Button type="button" onClick={addItem} size="sm" variant="outline">
-                <Plus className="w-4 h-4 mr-1" />
-                Add Item
-              </Button>
-            </div>
-
-            <div className="space-y-4">
-              {formData.items.map((item, index) => (
-                <Card key={index} className="border border-slate-200">
-                  <CardHeader className="pb-3">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <h4 className="font-medium">Item {index + 1}</h4>
-                        <StatusBadge status={item.status} />
-                      </div>
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => removeItem(index)}
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                    {item.quantity > 0 && (
-                      <div className="mt-2">
-                        <div className="flex justify-between text-xs text-slate-600 mb-1">
-                          <span>Progress</span>
-                          <span>{Math.round(((item.completedQuantity || 0) / item.quantity) * 100)}%</span>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Basic Job Info */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="customerId">Customer *</Label>
+                  <Select 
+                    value={formData.customerId.toString()} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, customerId: parseInt(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customers.map((customer) => (
+                        <SelectItem key={customer.id} value={customer.id.toString()}>
+                          {customer.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="priority">Priority</Label>
+                  <Select 
+                    value={formData.priority} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, priority: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="normal">Normal</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="status">Status</Label>
+                  <Select 
+                    value={formData.status} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, status: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {jobStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {formatStatus(status)}
+                          {status !== job.status && !jobStatusTransitions[job.status as JobStatus]?.includes(status) && (
+                            <span className="text-slate-400"> (override)</span>
+                          )}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="dueDate">Due Date</Label>
+                  <Input
+                    type="datetime-local"
+                    value={formData.dueDate}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              {/* Job Items */}
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <Label className="text-base font-medium">Job Items *</Label>
+                  <Button type="button" onClick={addItem} size="sm" variant="outline">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Item
+                  </Button>
+                </div>
+
+                <div className="space-y-4">
+                  {formData.items.map((item, index) => (
+                    <Card key={index} className="border border-slate-200">
+                      <CardHeader className="pb-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3">
+                            <h4 className="font-medium">Item {index + 1}</h4>
+                            <StatusBadge status={item.status} />
+                          </div>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => removeItem(index)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        {item.quantity > 0 && (
+                          <div className="mt-2">
+                            <div className="flex justify-between text-xs text-slate-600 mb-1">
+                              <span>Progress</span>
+                              <span>{Math.round(((item.completedQuantity || 0) / item.quantity) * 100)}%</span>
+                            </div>
+                            <Progress 
+                              value={((item.completedQuantity || 0) / item.quantity) * 100} 
+                              className="h-2" 
+                            />
+                          </div>
+                        )}
+                      </CardHeader>
+                      <CardContent className="p-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                          <div>
+                            <Label>Name *</Label>
+                            <Input
+                              placeholder="Item name"
+                              value={item.name}
+                              onChange={(e) => updateItem(index, 'name', e.target.value)}
+                              required
+                            />
+                          </div>
+
+                          <div>
+                            <Label>Quantity *</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              placeholder="1"
+                              value={item.quantity}
+                              onChange={(e) => updateItem(index, 'quantity', parseInt(e.target.value) || 1)}
+                              required
+                            />
+                          </div>
+
+                          <div>
+                            <Label>Material</Label>
+                            <Input
+                              placeholder="e.g., PLA, ABS"
+                              value={item.material}
+                              onChange={(e) => updateItem(index, 'material', e.target.value)}
+                            />
+                          </div>
+
+                          <div>
+                            <Label>Spool</Label>
+                            <Select
+                              value={item.spoolId?.toString() ?? "none"}
+                              onValueChange={(value) => updateItem(index, 'spoolId', value === "none" ? null : parseInt(value))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No spool</SelectItem>
+                                {spoolsFor(item.material).map((spool) => (
+                                  <SelectItem key={spool.id} value={spool.id.toString()}>
+                                    {spool.material}{spool.colour && ` ${spool.colour}`} ({Math.round(spool.remainingWeight)} g)
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div>
+                            <Label>Status</Label>
+                            <Select 
+                              value={item.status} 
+                              onValueChange={(value) => updateItem(index, 'status', value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="not_started">Not Started</SelectItem>
+                                <SelectItem value="printing">Printing</SelectItem>
+                                <SelectItem value="paused">Paused</SelectItem>
+                                <SelectItem value="completed">Completed</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div>
+                            <Label>Completed Quantity</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              max={item.quantity}
+                              placeholder="0"
+                              value={item.completedQuantity}
+                              onChange={(e) => updateItem(index, 'completedQuantity', Math.min(parseInt(e.target.value) || 0, item.quantity))}
+                            />
+                          </div>
+
+                          <div>
+                            <Label>Time per Item (min)</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="1"
+                              placeholder="0"
+                              value={item.estimatedTimePerItem}
+                              onChange={(e) => updateItem(index, 'estimatedTimePerItem', Math.round(parseFloat(e.target.value) || 0))}
+                            />
+                          </div>
                         </div>
-                        <Progress 
-                          value={((item.completedQuantity || 0) / item.quantity) * 100} 
-                          className="h-2" 
-                        />
-                      </div>
-                    )}
-                  </CardHeader>
-                  <CardContent className="p-4">
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                      <div>
-                        <Label>Name *</Label>
-                        <Input
-                          placeholder="Item name"
-                          value={item.name}
-                          onChange={(e) => updateItem(index, 'name', e.target.value)}
-                          required
-                        />
-                      </div>
-
-                      <div>
-                        <Label>Quantity *</Label>
-                        <Input
-                          type="number"
-                          min="1"
-                          placeholder="1"
-                          value={item.quantity}
-                          onChange={(e) => updateItem(index, 'quantity', parseInt(e.target.value) || 1)}
-                          required
-                        />
-                      </div>
-
-                      <div>
-                        <Label>Material</Label>
-                        <Input
-                          placeholder="e.g., PLA, ABS"
-                          value={item.material}
-                          onChange={(e) => updateItem(index, 'material', e.target.value)}
-                        />
-                      </div>
-
-                      <div>
-                        <Label>Status</Label>
-                        <Select 
-                          value={item.status} 
-                          onValueChange={(value) => updateItem(index, 'status', value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="not_started">Not Started</SelectItem>
-                            <SelectItem value="printing">Printing</SelectItem>
-                            <SelectItem value="paused">Paused</SelectItem>
-                            <SelectItem value="completed">Completed</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      <div>
-                        <Label>Completed Quantity</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          max={item.quantity}
-                          placeholder="0"
-                          value={item.completedQuantity}
-                          onChange={(e) => updateItem(index, 'completedQuantity', Math.min(parseInt(e.target.value) || 0, item.quantity))}
-                        />
-                      </div>
-
-                      <div>
-                        <Label>Time per Item (min)</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          step="1"
-                          placeholder="0"
-                          value={item.estimatedTimePerItem}
-                          onChange={(e) => updateItem(index, 'estimatedTimePerItem', Math.round(parseFloat(e.target.value) || 0))}
-                        />
-                      </div>
-                    </div>
-
-                    <div className="mt-3">
-                      <Label>Notes</Label>
-                      <Textarea
-                        placeholder="Special instructions for this item..."
-                        value={item.notes}
-                        onChange={(e) => updateItem(index, 'notes', e.target.value)}
-                        rows={2}
-                      />
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          </div>
-
-          {/* Notes */}
-          <div>
-            <Label htmlFor="notes">Job Notes</Label>
-            <Textarea
-              placeholder="Any special instructions or notes for this job..."
-              value={formData.notes}
-              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
-            />
-          </div>
-
-          {/* Form Actions */}
-          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
-            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={updateJobMutation.isPending}>
-              {updateJobMutation.isPending ? "Updating..." : "Update Job"}
-            </Button>
-          </div>
-        </form>
+
+                        <div className="mt-3">
+                          <Label>Notes</Label>
+                          <Textarea
+                            placeholder="Special instructions for this item..."
+                            value={item.notes}
+                            onChange={(e) => updateItem(index, 'notes', e.target.value)}
+                            rows={2}
+                          />
+                        </div>
+
+                        {/* Files and printer assignment need the item to exist on the server first */}
+                        {item.id && savedItems.has(item.id) && (
+                          <>
+                            <ModelUpload item={savedItems.get(item.id)!} />
+                            <GcodeUpload
+                              item={savedItems.get(item.id)!}
+                              onAnalyzed={(analyzed) => applyGcodeAnalysis(index, analyzed)}
+                            />
+                            <ItemAssignments item={savedItems.get(item.id)!} />
+                          </>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+
+              <JobPricing job={job} />
+
+              <JobPayments job={job} />
+
+              <JobNotifications job={job} />
+
+              {/* Notes */}
+              <div>
+                <Label htmlFor="notes">Job Notes</Label>
+                <Textarea
+                  placeholder="Any special instructions or notes for this job..."
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                />
+              </div>
+
+              {/* Form Actions */}
+              <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updateJobMutation.isPending}>
+                  {updateJobMutation.isPending ? "Updating..." : "Update Job"}
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <JobHistory job={job} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
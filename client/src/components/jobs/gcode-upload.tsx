@@ -0,0 +1,102 @@
+import { useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { FileCode, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatTime } from "@/lib/utils";
+import type { GcodeAnalysis, JobItem } from "@shared/schema";
+
+interface GcodeUploadProps {
+  item: JobItem;
+  onAnalyzed: (item: JobItem) => void;
+}
+
+// Reads the sliced file for a saved item; the server fills in its time and material and
+// keeps only its name, not the file
+export default function GcodeUpload({ item, onAnalyzed }: GcodeUploadProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File): Promise<{ item: JobItem; analysis: GcodeAnalysis }> => {
+      const formData = new FormData();
+      formData.append('gcode', file);
+
+      const response = await fetch(`/api/job-items/${item.id}/gcode`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Upload failed');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ item: updated, analysis }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      onAnalyzed(updated);
+      toast({
+        title: "G-code read",
+        description: analysis.source === "simulated"
+          ? `No slicer estimate in the file, ${formatTime(analysis.printTime)} was worked out from the moves`
+          : `${formatTime(analysis.printTime)} per item from ${analysis.slicer ?? "the slicer"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to read G-code", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="mt-3">
+      <Label>G-code</Label>
+      <div className="flex items-center justify-between p-2 bg-slate-50 rounded-lg text-sm mt-1">
+        {item.gcodeFilename ? (
+          <div className="min-w-0">
+            <div className="flex items-center text-slate-700">
+              <FileCode className="w-4 h-4 mr-2 text-slate-500 flex-shrink-0" />
+              <span className="truncate">{item.gcodeFilename}</span>
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              {item.layerCount} layers
+              {item.filamentWeight != null && ` • ${item.filamentWeight} g`}
+              {item.filamentLength != null && ` • ${(item.filamentLength / 1000).toFixed(2)} m filament`}
+            </p>
+          </div>
+        ) : (
+          <span className="text-slate-500">Upload the sliced file to fill in time and material (the file itself isn't stored)</span>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".gcode,.gco,.g"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="ml-2 flex-shrink-0"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          {uploadMutation.isPending ? "Reading..." : item.gcodeFilename ? "Replace" : "Upload"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,47 +2,92 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Edit, Mail, Play, Pause, Check, Eye, File, Archive, Trash2 } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Edit, Mail, Play, Pause, Check, Eye, File, Archive, Trash2, Download } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
 import StatusBadge from "./status-badge";
 import EditJobModal from "./edit-job-modal";
-import { formatTime } from "@/lib/utils";
-import type { JobWithCustomer } from "@shared/schema";
+import { formatMoney, formatStatus, formatTime } from "@/lib/utils";
+import { useJobBalances } from "@/hooks/use-job-balances";
+import type { InvoiceSummary, JobWithCustomer, Notification, NotificationType } from "@shared/schema";
+
+// Quote emails go from the quote itself
+const jobNotificationTypes: NotificationType[] = ["status_update", "completion", "delay", "ready_for_pickup"];
 
 interface JobCardProps {
   job: JobWithCustomer;
 }
 
 export default function JobCard({ job }: JobCardProps) {
+  const currency = useCurrency();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [notificationMessage, setNotificationMessage] = useState("");
   const [editingJob, setEditingJob] = useState(false);
 
+  const { data: invoices = [] } = useQuery<InvoiceSummary[]>({
+    queryKey: ["/api/invoices"],
+  });
+  const invoice = invoices.find(invoice => invoice.jobId === job.id);
+
+  const { data: balances = [] } = useJobBalances();
+  const balance = balances.find(balance => balance.jobId === job.id);
+
   const updateJobMutation = useMutation({
-    mutationFn: (data: { status?: string; progress?: number }) =>
+    mutationFn: (data: { status?: string; force?: boolean }) =>
       apiRequest("PUT", `/api/jobs/${job.id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       toast({ title: "Job updated successfully" });
     },
-    onError: () => {
-      toast({ title: "Failed to update job", variant: "destructive" });
+    onError: (error: Error, data) => {
+      const message = apiErrorMessage(error);
+      // The state machine refused the change; it can still be pushed through
+      if (error.message.startsWith("409:") && confirm(`${message}. Change the status anyway?`)) {
+        updateJobMutation.mutate({ ...data, force: true });
+        return;
+      }
+      toast({ title: "Failed to update job", description: message, variant: "destructive" });
     },
   });
 
   const notifyCustomerMutation = useMutation({
-    mutationFn: (message: string) =>
-      apiRequest("POST", `/api/jobs/${job.id}/notify`, { message }),
-    onSuccess: () => {
-      toast({ title: "Customer notified successfully" });
-      setNotificationMessage("");
+    mutationFn: async (type: NotificationType) => {
+      const res = await apiRequest("POST", `/api/jobs/${job.id}/notify`, { type, attachInvoice: !!invoice });
+      return res.json();
     },
-    onError: () => {
-      toast({ title: "Failed to notify customer", variant: "destructive" });
+    onSuccess: ({ message, notification }: { message: string; notification: Notification }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}/notifications`] });
+      if (notification.status === "sent") {
+        toast({ title: "Customer notified successfully" });
+      } else {
+        toast({ title: "Notification queued", description: message });
+      }
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to notify customer", description: message, variant: "destructive" });
+    },
+  });
+
+  const invoiceMutation = useMutation({
+    mutationFn: async (): Promise<InvoiceSummary> => {
+      const res = await apiRequest("POST", `/api/jobs/${job.id}/invoice`);
+      return res.json();
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/receivables"] });
+      toast({ title: `Invoice ${invoice.invoiceNumber} generated` });
+      downloadInvoice(invoice);
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to generate invoice", description: message, variant: "destructive" });
     },
   });
 
@@ -54,18 +99,23 @@ export default function JobCard({ job }: JobCardProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       toast({ title: "Job deleted successfully" });
     },
-    onError: () => {
-      toast({ title: "Failed to delete job", variant: "destructive" });
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to delete job", description: message, variant: "destructive" });
     },
   });
 
-  const handleStatusChange = (newStatus: string, progress?: number) => {
-    updateJobMutation.mutate({ status: newStatus, progress });
+  // Progress comes from the items, so only the status is sent
+  const handleStatusChange = (newStatus: string) => {
+    updateJobMutation.mutate({ status: newStatus });
   };
 
-  const handleNotifyCustomer = () => {
-    const message = notificationMessage || `Your print job ${job.jobNumber} status has been updated to ${job.status.replace('_', ' ')}.`;
-    notifyCustomerMutation.mutate(message);
+  const handleNotifyCustomer = (type: NotificationType) => {
+    notifyCustomerMutation.mutate(type);
+  };
+
+  const downloadInvoice = (invoice: InvoiceSummary) => {
+    window.open(`/api/invoices/${invoice.id}/pdf`, "_blank");
   };
 
   const handleDeleteJob = () => {
@@ -103,7 +153,7 @@ export default function JobCard({ job }: JobCardProps) {
             <Button
               size="sm"
               className="bg-success text-white hover:bg-green-600"
-              onClick={() => handleStatusChange('completed', 100)}
+              onClick={() => handleStatusChange('completed')}
               disabled={updateJobMutation.isPending}
             >
               <Check className="w-4 h-4 mr-1" />
@@ -125,7 +175,7 @@ export default function JobCard({ job }: JobCardProps) {
             <Button
               size="sm"
               className="bg-success text-white hover:bg-green-600"
-              onClick={() => handleStatusChange('completed', 100)}
+              onClick={() => handleStatusChange('completed')}
               disabled={updateJobMutation.isPending}
             >
               <Check className="w-4 h-4 mr-1" />
@@ -136,10 +186,21 @@ export default function JobCard({ job }: JobCardProps) {
       case 'completed':
         return (
           <>
-            <Button size="sm">
-              <File className="w-4 h-4 mr-1" />
-              Generate Invoice
-            </Button>
+            {invoice ? (
+              <Button size="sm" onClick={() => downloadInvoice(invoice)}>
+                <Download className="w-4 h-4 mr-1" />
+                Invoice {invoice.invoiceNumber}
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                onClick={() => invoiceMutation.mutate()}
+                disabled={invoiceMutation.isPending}
+              >
+                <File className="w-4 h-4 mr-1" />
+                {invoiceMutation.isPending ? "Generating..." : "Generate Invoice"}
+              </Button>
+            )}
             <Button size="sm" variant="outline">
               <Archive className="w-4 h-4 mr-1" />
               Archive
@@ -172,9 +233,20 @@ export default function JobCard({ job }: JobCardProps) {
             <Button size="sm" variant="ghost" onClick={handleDeleteJob}>
               <Trash2 className="w-4 h-4" />
             </Button>
-            <Button size="sm" variant="ghost" onClick={handleNotifyCustomer}>
-              <Mail className="w-4 h-4" />
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="ghost" disabled={notifyCustomerMutation.isPending}>
+                  <Mail className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {jobNotificationTypes.map((type) => (
+                  <DropdownMenuItem key={type} onClick={() => handleNotifyCustomer(type)}>
+                    Email {formatStatus(type).toLowerCase()}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
 
@@ -186,6 +258,10 @@ export default function JobCard({ job }: JobCardProps) {
               <span>{job.progress || 0}%</span>
             </div>
             <Progress value={job.progress || 0} className="h-2" />
+            {/* Finishing the items doesn't complete the job, somebody does */}
+            {job.progress === 100 && (
+              <p className="text-xs text-success mt-1">All items are printed, ready to complete</p>
+            )}
           </div>
         )}
 
@@ -211,6 +287,18 @@ export default function JobCard({ job }: JobCardProps) {
           </div>
         </div>
 
+        {/* Balance once money has come in or the job is invoiced */}
+        {balance && balance.outstanding != null && (balance.amountPaid > 0 || balance.invoiceId != null) && (
+          <div className="flex justify-between text-sm text-slate-600 mb-3">
+            <span>Paid {formatMoney(balance.amountPaid, currency)} of {formatMoney(balance.amountDue!, currency)}</span>
+            {balance.outstanding > 0.005 ? (
+              <span className="text-danger">{formatMoney(balance.outstanding, currency)} outstanding</span>
+            ) : (
+              <span className="text-success">Paid in full</span>
+            )}
+          </div>
+        )}
+
         {/* Completion Info for completed jobs */}
         {job.status === 'completed' && job.completedAt && (
           <div className="bg-success/5 border border-success/20 rounded-lg p-3 mb-3">
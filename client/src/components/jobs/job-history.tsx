@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import type { AuditEntry, JobWithCustomer } from "@shared/schema";
+
+interface JobHistoryProps {
+  job: JobWithCustomer;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// Fields whose values are too big to be worth showing in full
+const SUMMARIZED_FIELDS = new Set(["message", "html", "priceBreakdown", "model"]);
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString([], { dateStyle: "medium", timeStyle: "short" }) : "";
+}
+
+// "completedQuantity" reads as "Completed quantity"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (SUMMARIZED_FIELDS.has(field)) return "(changed)";
+  if (typeof value === "string" && ISO_DATE.test(value)) return formatDateTime(value);
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// What the entry was about, e.g. "Item Bracket" or "Email Your order has shipped"
+function subject(entry: AuditEntry): string {
+  const named = (field: string) => {
+    const change = entry.changes[field];
+    return (change?.after ?? change?.before) as string | undefined;
+  };
+  switch (entry.entity) {
+    case "job":
+      return "Job";
+    case "jobItem":
+      return `Item ${named("name") ?? `#${entry.entityId}`}`;
+    case "notification":
+      return `Email ${named("subject") ?? `#${entry.entityId}`}`;
+    default:
+      return entry.entity;
+  }
+}
+
+const actionLabels: Record<string, string> = {
+  create: "created",
+  update: "changed",
+  delete: "deleted",
+};
+
+// Who changed what on the job, its items and its emails, newest first
+export default function JobHistory({ job }: JobHistoryProps) {
+  const { data: entries = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/audit?jobId=${job.id}`],
+    refetchOnMount: "always",
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="p-3 bg-slate-50 rounded-lg text-sm text-slate-500">No changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="border-l-2 border-slate-200 ml-2 space-y-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="relative pl-4">
+          <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-slate-400" />
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-sm font-medium text-slate-900">
+              {subject(entry)} {actionLabels[entry.action] ?? entry.action}
+            </p>
+            {entry.userId === null && <Badge variant="outline" className="text-xs">Automatic</Badge>}
+          </div>
+          <p className="text-xs text-slate-500">
+            {formatDateTime(entry.createdAt)} • {entry.userName}
+          </p>
+          {entry.action === "update" && (
+            <ul className="mt-1 space-y-0.5">
+              {Object.entries(entry.changes).map(([field, { before, after }]) => (
+                <li key={field} className="text-xs text-slate-700">
+                  <span className="font-medium">{fieldLabel(field)}:</span>{" "}
+                  <span className="text-slate-500 line-through">{formatValue(field, before)}</span>{" "}
+                  → {formatValue(field, after)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronRight, RotateCw, Zap } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn, formatStatus } from "@/lib/utils";
+import StatusBadge from "./status-badge";
+import type { JobWithCustomer, Notification } from "@shared/schema";
+
+interface JobNotificationsProps {
+  job: JobWithCustomer;
+}
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString([], { dateStyle: "medium", timeStyle: "short" }) : "";
+}
+
+// Every email sent to the customer about the job, newest first. Sits inside EditJobModal's
+// form, so its buttons don't submit
+export default function JobNotifications({ job }: JobNotificationsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  // Automatic emails are sent by the server, so look again each time the job is opened
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: [`/api/jobs/${job.id}/notifications`],
+    refetchOnMount: "always",
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (notificationId: number) => {
+      const res = await apiRequest("POST", `/api/notifications/${notificationId}/resend`);
+      return res.json();
+    },
+    onSuccess: ({ message, notification }: { message: string; notification: Notification }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}/notifications`] });
+      if (notification.status === "sent") {
+        toast({ title: `Resent to ${notification.recipientEmail}` });
+      } else {
+        toast({ title: "Resend queued", description: message });
+      }
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}/notifications`] });
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to resend", description: message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div>
+      <Label className="text-base font-medium">Customer Emails</Label>
+
+      {notifications.length === 0 ? (
+        <p className="mt-2 p-3 bg-slate-50 rounded-lg text-sm text-slate-500">Nothing sent yet</p>
+      ) : (
+        <ol className="mt-2 border-l-2 border-slate-200 ml-2 space-y-3">
+          {notifications.map((notification) => (
+            <li key={notification.id} className="relative pl-4">
+              <span
+                className={cn(
+                  "absolute -left-[5px] top-1.5 w-2 h-2 rounded-full",
+                  notification.status === "sent" ? "bg-success"
+                    : notification.status === "queued" ? "bg-warning" : "bg-danger"
+                )}
+              />
+              <div className="flex items-start justify-between gap-2">
+                <button
+                  type="button"
+                  className="text-left flex-1"
+                  onClick={() => setExpanded(expanded === notification.id ? null : notification.id)}
+                >
+                  <span className="flex items-center text-sm font-medium text-slate-900">
+                    {expanded === notification.id
+                      ? <ChevronDown className="w-4 h-4 mr-1 shrink-0" />
+                      : <ChevronRight className="w-4 h-4 mr-1 shrink-0" />}
+                    {notification.subject || formatStatus(notification.type)}
+                  </span>
+                  <span className="block text-xs text-slate-500 ml-5">
+                    {formatDateTime(notification.sentAt)} • to {notification.recipientEmail}
+                    {notification.attempts > 1 && ` • ${notification.attempts} attempts`}
+                  </span>
+                </button>
+                <div className="flex items-center gap-1 shrink-0">
+                  {notification.rule && (
+                    <Badge variant="outline" className="text-xs" title={`Sent automatically: ${formatStatus(notification.rule)}`}>
+                      <Zap className="w-3 h-3 mr-1" />
+                      Auto
+                    </Badge>
+                  )}
+                  <StatusBadge status={notification.status} />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0"
+                    title="Resend"
+                    onClick={() => resendMutation.mutate(notification.id)}
+                    disabled={resendMutation.isPending}
+                  >
+                    <RotateCw className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+
+              {notification.lastError && notification.status !== "sent" && (
+                <p className="text-xs text-danger ml-5 mt-1">
+                  {notification.lastError}
+                  {notification.nextAttemptAt && ` • retrying ${formatDateTime(notification.nextAttemptAt)}`}
+                </p>
+              )}
+
+              {expanded === notification.id && (
+                <pre className="whitespace-pre-wrap text-xs text-slate-700 mt-2 ml-5 p-3 bg-slate-50 rounded border border-slate-200">
+                  {notification.message}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
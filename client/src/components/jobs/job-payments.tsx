@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { jobBalancesQueryKey, useJobBalances } from "@/hooks/use-job-balances";
+import { formatMoney, formatStatus } from "@/lib/utils";
+import { paymentMethods } from "@shared/schema";
+import type { JobWithCustomer, Payment } from "@shared/schema";
+
+interface JobPaymentsProps {
+  job: JobWithCustomer;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Deposits and payments taken for the job. Sits inside EditJobModal's form, so it saves
+// through its own buttons rather than a nested form
+export default function JobPayments({ job }: JobPaymentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const currency = useCurrency();
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<string>("bank_transfer");
+  const [paidAt, setPaidAt] = useState(today());
+  const [reference, setReference] = useState("");
+
+  const { data: payments = [] } = useQuery<Payment[]>({
+    queryKey: [`/api/jobs/${job.id}/payments`],
+  });
+
+  const { data: balances = [] } = useJobBalances();
+  const balance = balances.find(balance => balance.jobId === job.id);
+
+  const invalidatePayments = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}/payments`] });
+    queryClient.invalidateQueries({ queryKey: jobBalancesQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports/receivables"] });
+  };
+
+  const addPaymentMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/jobs/${job.id}/payments`, {
+        amount: parseFloat(amount),
+        method,
+        paidAt,
+        reference: reference.trim() || null,
+      }),
+    onSuccess: () => {
+      invalidatePayments();
+      setAmount("");
+      setReference("");
+      setPaidAt(today());
+      toast({ title: "Payment recorded" });
+    },
+    onError: () => {
+      toast({ title: "Failed to record payment", variant: "destructive" });
+    },
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: (paymentId: number) =>
+      apiRequest("DELETE", `/api/payments/${paymentId}`),
+    onSuccess: () => {
+      invalidatePayments();
+      toast({ title: "Payment removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove payment", variant: "destructive" });
+    },
+  });
+
+  const handleDeletePayment = (payment: Payment) => {
+    if (confirm(`Remove the ${formatMoney(payment.amount, currency)} payment from ${new Date(payment.paidAt).toLocaleDateString()}?`)) {
+      deletePaymentMutation.mutate(payment.id);
+    }
+  };
+
+  const validAmount = parseFloat(amount) > 0;
+
+  return (
+    <div>
+      <Label className="text-base font-medium">Payments</Label>
+
+      <div className="mt-2 p-3 bg-slate-50 rounded-lg text-sm space-y-1">
+        {payments.length === 0 ? (
+          <p className="text-slate-500">No payments recorded</p>
+        ) : (
+          payments.map((payment) => (
+            <div key={payment.id} className="flex items-center justify-between">
+              <span className="text-slate-700">
+                {new Date(payment.paidAt).toLocaleDateString()} • {formatStatus(payment.method)}
+                {payment.reference && <span className="text-xs text-slate-500 ml-2">{payment.reference}</span>}
+                {payment.invoiceId == null && <span className="text-xs text-slate-500 ml-2">deposit</span>}
+              </span>
+              <span className="flex items-center">
+                {formatMoney(payment.amount, currency)}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 ml-1"
+                  onClick={() => handleDeletePayment(payment)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </span>
+            </div>
+          ))
+        )}
+
+        {balance && balance.amountDue != null && (
+          <div className="flex justify-between font-medium text-slate-900 border-t border-slate-200 pt-1">
+            <span>
+              {balance.outstanding! < 0 ? "Overpaid" : "Outstanding"}
+              <span className="text-xs font-normal text-slate-500 ml-2">
+                of {formatMoney(balance.amountDue, currency)}{balance.invoiceNumber ? ` on ${balance.invoiceNumber}` : ""}
+              </span>
+            </span>
+            <span className={balance.outstanding! > 0 ? "text-danger" : "text-success"}>
+              {formatMoney(Math.abs(balance.outstanding!), currency)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-12 gap-2 mt-2">
+        <Input
+          className="col-span-2"
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="Amount"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <div className="col-span-3">
+          <Select value={method} onValueChange={setMethod}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentMethods.map((paymentMethod) => (
+                <SelectItem key={paymentMethod} value={paymentMethod}>
+                  {formatStatus(paymentMethod)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Input
+          className="col-span-3"
+          type="date"
+          value={paidAt}
+          onChange={(e) => setPaidAt(e.target.value)}
+        />
+        <Input
+          className="col-span-2"
+          placeholder="Reference"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="col-span-2 h-10"
+          onClick={() => addPaymentMutation.mutate()}
+          disabled={!validAmount || addPaymentMutation.isPending}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Record
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatMoney } from "@/lib/utils";
+import type { JobWithCustomer, PricingSettings } from "@shared/schema";
+
+interface JobPricingProps {
+  job: JobWithCustomer;
+}
+
+// The prices stored when the job was priced; they only change when it's repriced
+export default function JobPricing({ job }: JobPricingProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const currency = useCurrency();
+
+  const { data: settings } = useQuery<PricingSettings>({
+    queryKey: ["/api/pricing-settings"],
+  });
+
+  const repriceMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/jobs/${job.id}/reprice`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({ title: "Job repriced with the current rates" });
+    },
+    onError: () => {
+      toast({ title: "Failed to reprice job", variant: "destructive" });
+    },
+  });
+
+  const ratesChanged = !!settings && job.items.some(item => {
+    const rates = item.priceBreakdown?.rates;
+    return rates && (Object.keys(rates) as Array<keyof typeof rates>).some(key => rates[key] !== settings[key]);
+  });
+  const itemsTotal = job.items.reduce((sum, item) => sum + (item.totalPrice ?? 0), 0);
+  const setupFee = job.setupFee ?? 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <Label className="text-base font-medium">Pricing</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => repriceMutation.mutate()}
+          disabled={repriceMutation.isPending}
+        >
+          <RefreshCw className="w-4 h-4 mr-1" />
+          {repriceMutation.isPending ? "Repricing..." : "Reprice"}
+        </Button>
+      </div>
+
+      <div className="p-3 bg-slate-50 rounded-lg text-sm space-y-1">
+        {job.items.map((item) => (
+          <div key={item.id} className="flex justify-between">
+            <span className="text-slate-700">
+              {item.name} × {item.quantity}
+              {item.unitPrice != null && (
+                <span className="text-xs text-slate-500 ml-2">{formatMoney(item.unitPrice, currency)} each</span>
+              )}
+            </span>
+            <span>{item.totalPrice != null ? formatMoney(item.totalPrice, currency) : "Not priced"}</span>
+          </div>
+        ))}
+
+        {job.totalPrice != null && (
+          <>
+            {setupFee > 0 && (
+              <div className="flex justify-between text-slate-500 border-t border-slate-200 pt-1">
+                <span>Setup fee</span>
+                <span>{formatMoney(setupFee, currency)}</span>
+              </div>
+            )}
+            {job.totalPrice > itemsTotal + setupFee + 0.005 && (
+              <div className="flex justify-between text-slate-500 border-t border-slate-200 pt-1">
+                <span>Minimum order top-up</span>
+                <span>{formatMoney(job.totalPrice - itemsTotal - setupFee, currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-medium text-slate-900 border-t border-slate-200 pt-1">
+              <span>Total</span>
+              <span>{formatMoney(job.totalPrice, currency)}</span>
+            </div>
+          </>
+        )}
+
+        {job.pricedAt && (
+          <p className="text-xs text-slate-500 pt-1">
+            Priced {new Date(job.pricedAt).toLocaleDateString()}
+            {ratesChanged && ", the rates have changed since. Reprice to use the new ones."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useRef, useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Box, CheckCircle, AlertCircle, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { JobItem, PrinterFit } from "@shared/schema";
+
+interface ModelUploadProps {
+  item: JobItem;
+}
+
+// Measures the customer's STL/3MF for a saved item and checks it against the fleet; only
+// its name and measurements are kept, not the file
+export default function ModelUpload({ item }: ModelUploadProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [infill, setInfill] = useState(item.model?.infill.toString() ?? "20");
+  const [printerId, setPrinterId] = useState("");
+
+  useEffect(() => {
+    setInfill(item.model?.infill.toString() ?? "20");
+  }, [item.model?.infill]);
+
+  const { data: fits = [] } = useQuery<PrinterFit[]>({
+    queryKey: [`/api/job-items/${item.id}/fit`, item.model?.size],
+    enabled: !!item.model,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('model', file);
+      formData.append('infill', infill);
+
+      const response = await fetch(`/api/job-items/${item.id}/model`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Upload failed');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to read model", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const infillMutation = useMutation({
+    mutationFn: (value: number) =>
+      apiRequest("PUT", `/api/job-items/${item.id}/model`, { infill: value }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to update weight estimate", variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    e.target.value = "";
+  };
+
+  const handleInfillBlur = () => {
+    const value = Math.min(100, Math.max(0, parseInt(infill) || 0));
+    setInfill(value.toString());
+    if (item.model && value !== item.model.infill) {
+      infillMutation.mutate(value);
+    }
+  };
+
+  const model = item.model;
+  const fit = fits.find(entry => entry.printerId.toString() === printerId);
+
+  return (
+    <div className="mt-3">
+      <Label>Model</Label>
+      <div className="p-2 bg-slate-50 rounded-lg text-sm mt-1 space-y-2">
+        <div className="flex items-center justify-between">
+          {item.modelFilename ? (
+            <span className="flex items-center text-slate-700 min-w-0">
+              <Box className="w-4 h-4 mr-2 text-slate-500 flex-shrink-0" />
+              <span className="truncate">{item.modelFilename}</span>
+            </span>
+          ) : (
+            <span className="text-slate-500">Upload the customer's STL or 3MF to check size and weight (the file itself isn't stored)</span>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".stl,.3mf"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="ml-2 flex-shrink-0"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            {uploadMutation.isPending ? "Reading..." : item.modelFilename ? "Replace" : "Upload"}
+          </Button>
+        </div>
+
+        {model && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-slate-600">
+              <div>
+                <p className="text-slate-500">Size</p>
+                <p className="font-medium text-slate-900">{model.size.x} × {model.size.y} × {model.size.z} mm</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Volume</p>
+                <p className="font-medium text-slate-900">{(model.volume / 1000).toFixed(1)} cm³</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Surface</p>
+                <p className="font-medium text-slate-900">{(model.surfaceArea / 100).toFixed(1)} cm²</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Triangles</p>
+                <p className="font-medium text-slate-900">{model.triangleCount.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-3">
+                <Label className="text-xs">Infill %</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={infill}
+                  onChange={(e) => setInfill(e.target.value)}
+                  onBlur={handleInfillBlur}
+                />
+              </div>
+              <div className="col-span-3">
+                <Label className="text-xs">Est. Weight</Label>
+                <p className="font-medium text-slate-900 py-2">~{model.estimatedWeight} g</p>
+              </div>
+              <div className="col-span-6">
+                <Label className="text-xs">Fits On</Label>
+                <Select value={printerId} onValueChange={setPrinterId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Check a printer..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fits.map((entry) => (
+                      <SelectItem key={entry.printerId} value={entry.printerId.toString()}>
+                        {entry.printerName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {fit && (
+              fit.fits ? (
+                <p className="flex items-center text-xs text-success">
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Fits on {fit.printerName}{fit.rotated && " when turned 90° on the bed"}
+                </p>
+              ) : (
+                <p className="flex items-center text-xs text-danger">
+                  <AlertCircle className="w-4 h-4 mr-1" />
+                  Too big for {fit.printerName}
+                </p>
+              )
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
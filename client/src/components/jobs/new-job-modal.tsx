@@ -11,11 +11,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Label } from "@/components/ui/label";
-import { Plus, Trash2 } from "lucide-react";
+import { Plus, Trash2, AlertTriangle } from "lucide-react";
+import QuoteBreakdown from "./quote-breakdown";
 import { useToast } from "@/hooks/use-toast";
-import { insertJobSchema } from "@shared/schema";
-import { parseTimeString } from "@/lib/utils";
-import type { Customer } from "@shared/schema";
+import { insertJobSchema, LOW_CONFIDENCE_THRESHOLD } from "@shared/schema";
+import { cn, parseTimeString } from "@/lib/utils";
+import type { Customer, ImportDraftItem } from "@shared/schema";
 
 const jobFormSchema = insertJobSchema.extend({
   customerId: z.number().min(1, "Please select a customer"),
@@ -26,6 +27,9 @@ const jobFormSchema = insertJobSchema.extend({
     estimatedTimePerItem: z.string().optional(),
     material: z.string().optional(),
     notes: z.string().optional(),
+    filamentWeight: z.number().min(0).nullish().or(z.nan()), // an empty number field is NaN
+    unitPrice: z.number().nullish(),
+    confidence: z.number().nullish(),
   })).min(1, "At least one item is required"),
 });
 
@@ -34,17 +38,13 @@ type JobFormData = z.infer<typeof jobFormSchema>;
 interface NewJobModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  importedItems?: Array<{
-    name: string;
-    quantity: number;
-    estimatedTimePerItem?: string;
-    material?: string;
-    notes?: string;
-  }>;
+  importedItems?: ImportDraftItem[];
   invoiceNumber?: string;
+  customerId?: number;
+  importDraftId?: number; // the draft is removed once its job has been created
 }
 
-export default function NewJobModal({ open, onOpenChange, importedItems, invoiceNumber }: NewJobModalProps) {
+export default function NewJobModal({ open, onOpenChange, importedItems, invoiceNumber, customerId, importDraftId }: NewJobModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -66,11 +66,11 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
 
   const resetForm = () => {
     const defaultItems = importedItems && importedItems.length > 0 
-      ? importedItems 
+      ? importedItems.map(item => ({ estimatedTimePerItem: "", material: "", notes: "", ...item }))
       : [{ name: "", quantity: 1, estimatedTimePerItem: "", material: "", notes: "" }];
 
     form.reset({
-      customerId: 0,
+      customerId: customerId || 0,
       priority: "normal",
       status: "not_started",
       notes: "",
@@ -79,6 +79,9 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
     });
   };
 
+  const weightOf = (value: number | null | undefined) =>
+    value != null && !Number.isNaN(value) ? value : null;
+
   const createJobMutation = useMutation({
     mutationFn: (data: JobFormData) => {
       console.log("Submitting job data:", data);
@@ -98,6 +101,8 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
         estimatedTimePerItem: parseTimeString(item.estimatedTimePerItem || "0"),
         material: item.material?.trim() || "",
         notes: item.notes?.trim() || "",
+        filamentWeight: weightOf(item.filamentWeight),
+        unitPrice: item.unitPrice ?? null, // a price from the invoice is kept
       }));
 
       const jobData = {
@@ -107,6 +112,7 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
         dueDate: data.dueDate || undefined,
         notes: data.notes?.trim() || "",
         invoiceNumber: data.invoiceNumber?.trim() || "",
+        importDraftId,
         items
       };
 
@@ -116,6 +122,9 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      if (importDraftId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/import-drafts"] });
+      }
       toast({ title: "Job created successfully" });
       resetForm();
       onOpenChange(false);
@@ -127,6 +136,26 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
     },
   });
 
+  // Keeps the reviewer's edits on the draft so the import can be finished later
+  const saveDraftMutation = useMutation({
+    mutationFn: () => {
+      const data = form.getValues();
+      return apiRequest("PUT", `/api/import-drafts/${importDraftId}`, {
+        customerId: data.customerId || null,
+        invoiceNumber: data.invoiceNumber?.trim() || null,
+        items: data.items.filter(item => item.name?.trim() !== ""),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-drafts"] });
+      toast({ title: "Draft saved for later" });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: "Failed to save draft", variant: "destructive" });
+    },
+  });
+
   const onSubmit = (data: JobFormData) => {
     console.log("Form submitted with data:", data);
 
@@ -261,9 +290,19 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
             </div>
 
             <div className="space-y-3">
-              {form.watch("items").map((_, index) => (
-                <div key={index} className="grid grid-cols-12 gap-3 items-end">
-                  <div className="col-span-4">
+              {form.watch("items").map((item, index) => {
+                const doubtful = item.confidence != null && item.confidence < LOW_CONFIDENCE_THRESHOLD;
+                return (
+                <div
+                  key={index}
+                  className={cn(
+                    "grid grid-cols-12 gap-3 items-end",
+                    doubtful && "p-2 -mx-2 rounded-lg bg-amber-50 border border-amber-200"
+                  )}
+                  title={doubtful ? `Only a ${Math.round(item.confidence! * 100)}% match, check this row against the invoice` : undefined}
+                >
+                  <div className="col-span-3 flex items-center space-x-2">
+                    {doubtful && <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0" />}
                     <Input
                       placeholder="Item name"
                       {...form.register(`items.${index}.name`)}
@@ -283,7 +322,16 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
                       {...form.register(`items.${index}.estimatedTimePerItem`)}
                     />
                   </div>
-                  <div className="col-span-3">
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      placeholder="Grams"
+                      min="0"
+                      title="Filament per copy, used for the material cost"
+                      {...form.register(`items.${index}.filamentWeight`, { valueAsNumber: true })}
+                    />
+                  </div>
+                  <div className="col-span-2">
                     <Input
                       placeholder="Material"
                       {...form.register(`items.${index}.material`)}
@@ -301,13 +349,24 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
                     </Button>
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
             {form.formState.errors.items && (
               <p className="text-sm text-destructive mt-1">{form.formState.errors.items.message}</p>
             )}
           </div>
 
+          <QuoteBreakdown
+            items={form.watch("items").map(item => ({
+              name: item.name || "",
+              quantity: Number(item.quantity) || 0,
+              estimatedTimePerItem: parseTimeString(item.estimatedTimePerItem || "0"),
+              filamentWeight: weightOf(item.filamentWeight),
+              unitPrice: item.unitPrice,
+            }))}
+          />
+
           {/* Notes */}
           <div>
             <Label htmlFor="notes">Notes</Label>
@@ -325,6 +384,16 @@ export default function NewJobModal({ open, onOpenChange, importedItems, invoice
             }}>
               Cancel
             </Button>
+            {importDraftId && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => saveDraftMutation.mutate()}
+                disabled={saveDraftMutation.isPending}
+              >
+                {saveDraftMutation.isPending ? "Saving..." : "Save for Later"}
+              </Button>
+            )}
             <Button type="submit" disabled={createJobMutation.isPending}>
               {createJobMutation.isPending ? "Creating..." : "Create Job"}
             </Button>
@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/utils";
+import { useCurrency } from "@/hooks/use-currency";
+import type { JobQuote, PriceBreakdown } from "@shared/schema";
+
+export type QuoteRequestItem = {
+  name: string;
+  quantity: number;
+  estimatedTimePerItem: number; // in minutes
+  filamentWeight?: number | null; // in grams
+  unitPrice?: number | null; // a price from the invoice is kept as it is
+};
+
+interface QuoteBreakdownProps {
+  items: QuoteRequestItem[];
+}
+
+function BreakdownRows({ breakdown, quantity }: { breakdown: PriceBreakdown; quantity: number }) {
+  const currency = useCurrency();
+  const rows = [
+    { label: `Material (${breakdown.grams} g)`, value: breakdown.material * quantity },
+    { label: `Machine time (${breakdown.hours} h)`, value: breakdown.machine * quantity },
+    { label: "Electricity", value: breakdown.electricity * quantity },
+    { label: "Post-processing", value: breakdown.labour * quantity },
+    { label: `Markup (${breakdown.rates.markupPercent}%)`, value: breakdown.markup },
+  ];
+
+  return (
+    <div className="pl-5 pb-1 space-y-0.5 text-xs text-slate-500">
+      {rows.map((row) => (
+        <div key={row.label} className="flex justify-between">
+          <span>{row.label}</span>
+          <span>{formatMoney(row.value, currency)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Live price for the items being entered, worked out by the server from the current rates
+export default function QuoteBreakdown({ items }: QuoteBreakdownProps) {
+  const currency = useCurrency();
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [debouncedItems, setDebouncedItems] = useState(items);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedItems(items), 300);
+    return () => clearTimeout(timer);
+  }, [JSON.stringify(items)]);
+
+  const pricedItems = debouncedItems.filter(item => item.name.trim() !== "" && item.quantity > 0);
+
+  const { data: quote } = useQuery<JobQuote>({
+    queryKey: ["/api/pricing/quote", pricedItems],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/pricing/quote", {
+        items: pricedItems.map(({ name, ...item }) => item),
+      });
+      return res.json();
+    },
+    enabled: pricedItems.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  if (pricedItems.length === 0 || !quote || quote.items.length !== pricedItems.length) return null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-slate-900">Price</span>
+        <Link href="/pricing" className="text-xs text-slate-500 underline">Rates</Link>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        {quote.items.map((itemQuote, index) => {
+          const item = pricedItems[index];
+          return (
+            <div key={index}>
+              <button
+                type="button"
+                className="w-full flex items-center justify-between text-left"
+                onClick={() => setExpanded(expanded === index ? null : index)}
+                disabled={!itemQuote.breakdown}
+              >
+                <span className="flex items-center text-slate-700">
+                  {itemQuote.breakdown
+                    ? (expanded === index ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />)
+                    : <span className="w-4 mr-1" />}
+                  {item.name} × {item.quantity}
+                  <span className="text-xs text-slate-500 ml-2">
+                    {formatMoney(itemQuote.unitPrice, currency)} each{!itemQuote.breakdown && ", from invoice"}
+                  </span>
+                </span>
+                <span>{formatMoney(itemQuote.totalPrice, currency)}</span>
+              </button>
+              {expanded === index && itemQuote.breakdown && (
+                <BreakdownRows breakdown={itemQuote.breakdown} quantity={item.quantity} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="border-t border-slate-100 mt-2 pt-2 space-y-1 text-sm">
+        {quote.setupFee > 0 && (
+          <div className="flex justify-between text-slate-500">
+            <span>Setup fee</span>
+            <span>{formatMoney(quote.setupFee, currency)}</span>
+          </div>
+        )}
+        {quote.minimumOrderAdjustment > 0 && (
+          <div className="flex justify-between text-slate-500">
+            <span>Minimum order top-up</span>
+            <span>{formatMoney(quote.minimumOrderAdjustment, currency)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-medium text-slate-900">
+          <span>Total</span>
+          <span>{formatMoney(quote.total, currency)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
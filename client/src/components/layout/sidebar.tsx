@@ -1,17 +1,31 @@
 import { Link, useLocation } from "wouter";
-import { Box, BarChart3, FileText, Users, Upload, FileBarChart } from "lucide-react";
+import { Box, BarChart3, FileText, Users, Upload, FileBarChart, FileCog, Printer, GanttChart, Cylinder, ShoppingCart, Calculator, ClipboardList, MailCheck, UserCog, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { userRoleLabels } from "@/components/users/user-form";
+import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
+import type { UserRole } from "@shared/schema";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
   { name: "Print Jobs", href: "/jobs", icon: FileText },
+  { name: "Quotes", href: "/quotes", icon: ClipboardList },
   { name: "Customers", href: "/customers", icon: Users },
+  { name: "Printers", href: "/printers", icon: Printer },
+  { name: "Timeline", href: "/timeline", icon: GanttChart },
+  { name: "Materials", href: "/materials", icon: Cylinder },
+  { name: "Purchase Orders", href: "/purchase-orders", icon: ShoppingCart },
+  { name: "Pricing", href: "/pricing", icon: Calculator },
+  { name: "Invoice Templates", href: "/invoice-templates", icon: FileCog },
+  { name: "Email Templates", href: "/email-templates", icon: MailCheck },
 
   { name: "Reports", href: "/reports", icon: FileBarChart },
+  { name: "Users", href: "/users", icon: UserCog, ownerOnly: true },
 ];
 
 export default function Sidebar() {
   const [location] = useLocation();
+  const { user, hasRole, logoutMutation } = useAuth();
 
   return (
     <div className="w-64 bg-white shadow-sm border-r border-slate-200 flex flex-col">
@@ -27,7 +41,7 @@ export default function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-2">
-        {navigation.map((item) => {
+        {navigation.filter(item => !item.ownerOnly || hasRole("owner")).map((item) => {
           const Icon = item.icon;
           const isActive = location === item.href;
           
@@ -55,10 +69,19 @@ export default function Sidebar() {
           <div className="w-8 h-8 bg-slate-300 rounded-full flex items-center justify-center">
             <Users className="w-4 h-4 text-slate-600" />
           </div>
-          <div>
-            <p className="text-sm font-medium text-slate-900">John Smith</p>
-            <p className="text-xs text-slate-500">3D Print Shop</p>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-slate-900 truncate">{user?.name}</p>
+            <p className="text-xs text-slate-500">{user && (userRoleLabels[user.role as UserRole] ?? user.role)}</p>
           </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            title="Sign out"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            <LogOut className="w-4 h-4" />
+          </Button>
         </div>
       </div>
     </div>
@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { MaterialShortage } from "@shared/schema";
+
+// Warns when the queued jobs need more filament than the spools on the shelf hold
+export default function MaterialShortages() {
+  const { data: shortages = [] } = useQuery<MaterialShortage[]>({
+    queryKey: ["/api/material-shortages"],
+  });
+
+  if (shortages.length === 0) return null;
+
+  return (
+    <Alert className="mb-6 border-amber-200 bg-amber-50">
+      <AlertTriangle className="h-4 w-4 text-amber-600" />
+      <AlertTitle className="text-amber-900">Not enough filament for the queued jobs</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm text-amber-900">
+          {shortages.map((shortage) => (
+            <li key={shortage.material}>
+              <span className="font-medium">{shortage.material}</span>: {shortage.needed} g needed,
+              {" "}{shortage.onHand} g on hand
+              <span className="text-amber-700"> ({shortage.jobs.map(job => `#${job.jobNumber}`).join(", ")})</span>
+            </li>
+          ))}
+        </ul>
+        <Link href="/materials" className="text-sm font-medium text-amber-900 underline mt-2 inline-block">
+          Manage spools
+        </Link>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,192 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { insertSpoolSchema } from "@shared/schema";
+import type { Spool } from "@shared/schema";
+
+// An empty cost field is typed as NaN by the number input
+const spoolFormSchema = insertSpoolSchema.extend({
+  costPerKg: z.number().min(0).nullish().or(z.nan()),
+});
+
+type SpoolFormData = z.infer<typeof spoolFormSchema>;
+
+interface SpoolFormProps {
+  spool?: Spool;
+  onSuccess?: () => void;
+}
+
+export default function SpoolForm({ spool, onSuccess }: SpoolFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<SpoolFormData>({
+    resolver: zodResolver(spoolFormSchema),
+    defaultValues: spool ? spool : {
+      material: "PLA",
+      colour: "",
+      brand: "",
+      diameter: 1.75,
+      initialWeight: 1000,
+      remainingWeight: 1000,
+      costPerKg: null,
+      location: "",
+      notes: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: SpoolFormData) => {
+      const spoolData = {
+        ...data,
+        costPerKg: data.costPerKg != null && !Number.isNaN(data.costPerKg) ? data.costPerKg : null,
+      };
+      if (spool) {
+        return apiRequest("PUT", `/api/spools/${spool.id}`, spoolData);
+      } else {
+        return apiRequest("POST", "/api/spools", spoolData);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/spools"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/material-shortages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-alerts"] });
+      toast({
+        title: spool ? "Spool updated successfully" : "Spool added successfully"
+      });
+      onSuccess?.();
+      if (!spool) {
+        form.reset();
+      }
+    },
+    onError: () => {
+      toast({
+        title: spool ? "Failed to update spool" : "Failed to add spool",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const onSubmit = (data: SpoolFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="material">Material *</Label>
+          <Input
+            id="material"
+            {...form.register("material")}
+            placeholder="PLA"
+          />
+          {form.formState.errors.material && (
+            <p className="text-sm text-destructive mt-1">{form.formState.errors.material.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="colour">Colour</Label>
+          <Input
+            id="colour"
+            {...form.register("colour")}
+            placeholder="Black"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="brand">Brand</Label>
+          <Input
+            id="brand"
+            {...form.register("brand")}
+            placeholder="Prusament"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="diameter">Diameter (mm)</Label>
+          <Input
+            id="diameter"
+            type="number"
+            step="0.05"
+            {...form.register("diameter", { valueAsNumber: true })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="initialWeight">Net Weight (g)</Label>
+          <Input
+            id="initialWeight"
+            type="number"
+            min="1"
+            {...form.register("initialWeight", { valueAsNumber: true })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="remainingWeight">Remaining (g) *</Label>
+          <Input
+            id="remainingWeight"
+            type="number"
+            min="0"
+            {...form.register("remainingWeight", { valueAsNumber: true })}
+          />
+          {form.formState.errors.remainingWeight && (
+            <p className="text-sm text-destructive mt-1">Enter the grams left on the spool</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="costPerKg">Cost per kg</Label>
+          <Input
+            id="costPerKg"
+            type="number"
+            step="0.01"
+            min="0"
+            {...form.register("costPerKg", { valueAsNumber: true })}
+            placeholder="25.00"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="location">Location</Label>
+          <Input
+            id="location"
+            {...form.register("location")}
+            placeholder="Dry box 2"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="notes">Notes</Label>
+        <Textarea
+          id="notes"
+          {...form.register("notes")}
+          placeholder="Print temperature, drying, ..."
+          rows={2}
+        />
+      </div>
+
+      <Button type="submit" disabled={mutation.isPending}>
+        {mutation.isPending
+          ? (spool ? "Updating..." : "Adding...")
+          : (spool ? "Update Spool" : "Add Spool")
+        }
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { PackageX } from "lucide-react";
+import type { StockLevel } from "@shared/schema";
+
+// Materials the open queue will take below their reorder point
+export default function StockAlerts() {
+  const { data: alerts = [] } = useQuery<StockLevel[]>({
+    queryKey: ["/api/stock-alerts"],
+  });
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Alert className="mb-6 border-amber-200 bg-amber-50">
+      <PackageX className="h-4 w-4 text-amber-600" />
+      <AlertTitle className="text-amber-900">Time to reorder filament</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm text-amber-900">
+          {alerts.map((level) => (
+            <li key={level.material}>
+              <span className="font-medium">{level.material}</span>: {level.projected} g left after the queue,
+              {" "}reorder at {level.reorderThreshold} g
+              {level.onOrder > 0 && <span className="text-amber-700"> ({level.onOrder} g on order)</span>}
+            </li>
+          ))}
+        </ul>
+        <Link href="/purchase-orders" className="text-sm font-medium text-amber-900 underline mt-2 inline-block">
+          Purchase orders
+        </Link>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShoppingCart } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { StockLevel } from "@shared/schema";
+
+interface StockLevelsProps {
+  onOrder: (level: StockLevel) => void;
+}
+
+// Saves on blur; clearing the field removes the threshold
+function ThresholdInput({ level }: { level: StockLevel }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [value, setValue] = useState(level.reorderThreshold?.toString() ?? "");
+
+  useEffect(() => {
+    setValue(level.reorderThreshold?.toString() ?? "");
+  }, [level.reorderThreshold]);
+
+  const mutation = useMutation({
+    mutationFn: (reorderThreshold: number | null) => {
+      if (reorderThreshold === null) {
+        return apiRequest("DELETE", `/api/material-thresholds/${level.thresholdId}`);
+      } else if (level.thresholdId) {
+        return apiRequest("PUT", `/api/material-thresholds/${level.thresholdId}`, { reorderThreshold });
+      } else {
+        return apiRequest("POST", "/api/material-thresholds", { material: level.material, reorderThreshold });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-alerts"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to save reorder threshold", variant: "destructive" });
+    },
+  });
+
+  const handleBlur = () => {
+    const parsed = parseFloat(value);
+    const reorderThreshold = value.trim() === "" || Number.isNaN(parsed) ? null : Math.max(0, parsed);
+    if (reorderThreshold === level.reorderThreshold) return;
+    if (reorderThreshold === null && !level.thresholdId) return;
+    mutation.mutate(reorderThreshold);
+  };
+
+  return (
+    <Input
+      type="number"
+      min="0"
+      className="w-24 h-8"
+      placeholder="—"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={handleBlur}
+    />
+  );
+}
+
+export default function StockLevels({ onOrder }: StockLevelsProps) {
+  const { data: levels = [] } = useQuery<StockLevel[]>({
+    queryKey: ["/api/stock-levels"],
+  });
+
+  if (levels.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Stock Levels</CardTitle>
+        <p className="text-sm text-slate-600">
+          Grams per material after the open queue is printed. Set a reorder point to get low-stock alerts.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Material</TableHead>
+              <TableHead className="text-right">On Hand</TableHead>
+              <TableHead className="text-right">Queued</TableHead>
+              <TableHead className="text-right">Projected</TableHead>
+              <TableHead className="text-right">On Order</TableHead>
+              <TableHead>Reorder At (g)</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {levels.map((level) => (
+              <TableRow key={level.material} className={cn(level.low && "bg-amber-50")}>
+                <TableCell className="font-medium">
+                  {level.material}
+                  <span className="text-xs text-slate-500 ml-2">
+                    {level.spoolCount} {level.spoolCount === 1 ? "spool" : "spools"}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{level.onHand} g</TableCell>
+                <TableCell className="text-right">{level.queued} g</TableCell>
+                <TableCell className={cn("text-right", level.low && "text-danger font-medium")}>
+                  {level.projected} g
+                </TableCell>
+                <TableCell className="text-right">{level.onOrder > 0 ? `${level.onOrder} g` : "—"}</TableCell>
+                <TableCell>
+                  <ThresholdInput level={level} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant={level.low ? "default" : "outline"} onClick={() => onOrder(level)}>
+                    <ShoppingCart className="w-4 h-4 mr-1" />
+                    Order
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
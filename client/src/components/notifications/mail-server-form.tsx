@@ -0,0 +1,130 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SafeNotificationSettings } from "@shared/schema";
+
+// Every field is typed as text; a blank one is saved as null so the server's environment
+// variable is used instead
+const mailServerFormSchema = z.object({
+  smtpHost: z.string().trim(),
+  smtpPort: z.string().trim().regex(/^\d*$/, "Enter a port number, e.g. 587"),
+  smtpSecure: z.boolean(),
+  smtpUser: z.string().trim(),
+  smtpPassword: z.string(),
+  mailFrom: z.string().trim(),
+});
+
+type MailServerFormData = z.infer<typeof mailServerFormSchema>;
+
+interface MailServerFormProps {
+  settings: SafeNotificationSettings;
+}
+
+export default function MailServerForm({ settings }: MailServerFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<MailServerFormData>({
+    resolver: zodResolver(mailServerFormSchema),
+    // The saved password never comes back from the server, the field only sets a new one
+    defaultValues: {
+      smtpHost: settings.smtpHost ?? "",
+      smtpPort: settings.smtpPort?.toString() ?? "",
+      smtpSecure: settings.smtpSecure ?? false,
+      smtpUser: settings.smtpUser ?? "",
+      smtpPassword: "",
+      mailFrom: settings.mailFrom ?? "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: MailServerFormData) =>
+      apiRequest("PUT", "/api/notification-settings", {
+        smtpHost: data.smtpHost || null,
+        smtpPort: data.smtpPort ? Number(data.smtpPort) : null,
+        // Only meaningful for a server set here, otherwise SMTP_SECURE applies
+        smtpSecure: data.smtpHost ? data.smtpSecure : null,
+        smtpUser: data.smtpUser || null,
+        // Left blank keeps the saved password, and there's nothing to keep without a user
+        smtpPassword: data.smtpUser ? data.smtpPassword || undefined : null,
+        mailFrom: data.mailFrom || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-settings"] });
+      toast({ title: "Mail server saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save mail server", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: MailServerFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Mail Server</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-600">
+            The SMTP server emails are sent through. Fields left blank use the server's
+            SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS and MAIL_FROM settings.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="smtpHost">Host</Label>
+              <Input id="smtpHost" placeholder="e.g. smtp.example.com" {...form.register("smtpHost")} />
+            </div>
+            <div>
+              <Label htmlFor="smtpPort">Port</Label>
+              <Input id="smtpPort" inputMode="numeric" placeholder="587" {...form.register("smtpPort")} />
+              {form.formState.errors.smtpPort && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.smtpPort.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="smtpUser">Username</Label>
+              <Input id="smtpUser" autoComplete="off" {...form.register("smtpUser")} />
+            </div>
+            <div>
+              <Label htmlFor="smtpPassword">Password</Label>
+              <Input
+                id="smtpPassword"
+                type="password"
+                autoComplete="new-password"
+                placeholder={settings.hasSmtpPassword ? "Saved, leave blank to keep it" : ""}
+                {...form.register("smtpPassword")}
+              />
+            </div>
+            <label className="flex items-center justify-between p-3 bg-slate-50 rounded-lg text-sm self-end">
+              Secure connection (port 465)
+              <Switch
+                checked={form.watch("smtpSecure")}
+                onCheckedChange={(checked) => form.setValue("smtpSecure", checked, { shouldDirty: true })}
+              />
+            </label>
+            <div className="md:col-span-3">
+              <Label htmlFor="mailFrom">Send as</Label>
+              <Input id="mailFrom" placeholder="e.g. Print Shop <jobs@example.com>" {...form.register("mailFrom")} />
+              <p className="text-xs text-slate-500 mt-1">Defaults to the shop name and email from the invoice settings</p>
+            </div>
+          </div>
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
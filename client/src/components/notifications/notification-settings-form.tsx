@@ -0,0 +1,129 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { insertNotificationSettingsSchema, notificationRules } from "@shared/schema";
+import type { InsertNotificationSettings, NotificationRule, SafeNotificationSettings } from "@shared/schema";
+
+export const notificationRuleLabels: Record<NotificationRule, string> = {
+  job_started: "Job started printing",
+  job_completed: "Job completed",
+  job_paused: "Job paused for a while",
+  due_date_at_risk: "Due date at risk",
+};
+
+interface NotificationSettingsFormProps {
+  settings: SafeNotificationSettings;
+}
+
+export default function NotificationSettingsForm({ settings }: NotificationSettingsFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertNotificationSettings>({
+    resolver: zodResolver(insertNotificationSettingsSchema),
+    defaultValues: {
+      enabledRules: settings.enabledRules,
+      pausedAfterHours: settings.pausedAfterHours,
+      atRiskMarginHours: settings.atRiskMarginHours,
+      settleMinutes: settings.settleMinutes,
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: InsertNotificationSettings) =>
+      apiRequest("PUT", "/api/notification-settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-settings"] });
+      toast({ title: "Automatic email settings saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save automatic email settings", variant: "destructive" });
+    },
+  });
+
+  const enabledRules = form.watch("enabledRules");
+
+  const toggleRule = (rule: NotificationRule, enabled: boolean) => {
+    form.setValue(
+      "enabledRules",
+      enabled ? [...enabledRules, rule] : enabledRules.filter(enabledRule => enabledRule !== rule),
+      { shouldDirty: true },
+    );
+  };
+
+  const onSubmit = (data: InsertNotificationSettings) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Automatic Emails</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-600">
+            Customers are emailed when their jobs reach these points, using the matching template below.
+            Each customer can opt out on their customer record.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {notificationRules.map((rule) => (
+              <label key={rule} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg text-sm">
+                {notificationRuleLabels[rule]}
+                <Switch
+                  checked={enabledRules.includes(rule)}
+                  onCheckedChange={(checked) => toggleRule(rule, checked)}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="pausedAfterHours">Paused for (hours)</Label>
+              <Input
+                id="pausedAfterHours"
+                type="number"
+                min="0"
+                step="0.5"
+                {...form.register("pausedAfterHours", { valueAsNumber: true })}
+              />
+              <p className="text-xs text-slate-500 mt-1">Before a paused job is reported as delayed</p>
+            </div>
+            <div>
+              <Label htmlFor="atRiskMarginHours">Due date margin (hours)</Label>
+              <Input
+                id="atRiskMarginHours"
+                type="number"
+                min="0"
+                step="1"
+                {...form.register("atRiskMarginHours", { valueAsNumber: true })}
+              />
+              <p className="text-xs text-slate-500 mt-1">Projected to finish closer than this counts as at risk</p>
+            </div>
+            <div>
+              <Label htmlFor="settleMinutes">Wait before sending (minutes)</Label>
+              <Input
+                id="settleMinutes"
+                type="number"
+                min="0"
+                step="1"
+                {...form.register("settleMinutes", { valueAsNumber: true })}
+              />
+              <p className="text-xs text-slate-500 mt-1">A status changed back within this time sends nothing</p>
+            </div>
+          </div>
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RotateCcw, Save } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatStatus } from "@/lib/utils";
+import { notificationTemplateVariables } from "@shared/schema";
+import type { RenderedNotification, ResolvedNotificationTemplate } from "@shared/schema";
+
+interface NotificationTemplateEditorProps {
+  template: ResolvedNotificationTemplate;
+}
+
+type Field = "subject" | "bodyText" | "bodyHtml";
+
+// Waits for typing to pause before rendering the preview
+const PREVIEW_DELAY = 400;
+
+export default function NotificationTemplateEditor({ template }: NotificationTemplateEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [subject, setSubject] = useState(template.subject);
+  const [bodyText, setBodyText] = useState(template.bodyText);
+  const [bodyHtml, setBodyHtml] = useState(template.bodyHtml ?? "");
+  const [preview, setPreview] = useState<RenderedNotification | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  // Where clicking a variable inserts it
+  const [lastField, setLastField] = useState<Field>("bodyText");
+  const fieldRefs = {
+    subject: useRef<HTMLInputElement>(null),
+    bodyText: useRef<HTMLTextAreaElement>(null),
+    bodyHtml: useRef<HTMLTextAreaElement>(null),
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        const res = await apiRequest("POST", "/api/notification-templates/preview", {
+          subject,
+          bodyText,
+          bodyHtml: bodyHtml.trim() || null,
+          note: "Any extra message typed when sending goes here.",
+        });
+        setPreview(await res.json());
+        setPreviewError(null);
+      } catch (error) {
+        setPreviewError((error as Error).message);
+      }
+    }, PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [subject, bodyText, bodyHtml]);
+
+  const invalidateTemplates = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notification-templates"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/notification-templates/${template.type}`, {
+        subject,
+        bodyText,
+        bodyHtml: bodyHtml.trim() || null,
+      }),
+    onSuccess: () => {
+      invalidateTemplates();
+      toast({ title: "Template saved" });
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to save template", description: message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("DELETE", `/api/notification-templates/${template.type}`),
+    onSuccess: () => {
+      invalidateTemplates();
+      toast({ title: "Template reset to the default" });
+    },
+    onError: () => {
+      toast({ title: "Failed to reset template", variant: "destructive" });
+    },
+  });
+
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const setters = { subject: setSubject, bodyText: setBodyText, bodyHtml: setBodyHtml };
+    const values = { subject, bodyText, bodyHtml };
+    const element = fieldRefs[lastField].current;
+    const value = values[lastField];
+    const start = element?.selectionStart ?? value.length;
+    const end = element?.selectionEnd ?? value.length;
+    setters[lastField](value.slice(0, start) + placeholder + value.slice(end));
+    element?.focus();
+  };
+
+  const handleReset = () => {
+    if (confirm(`Reset the ${formatStatus(template.type)} template to the built-in wording?`)) {
+      resetMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            {formatStatus(template.type)}
+            <div className="flex gap-2">
+              {template.customized && (
+                <Button size="sm" variant="outline" onClick={handleReset} disabled={resetMutation.isPending}>
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Reset
+                </Button>
+              )}
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={!subject.trim() || !bodyText.trim() || saveMutation.isPending}
+              >
+                <Save className="w-4 h-4 mr-1" />
+                Save
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="subject">Subject</Label>
+            <Input
+              id="subject"
+              ref={fieldRefs.subject}
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              onFocus={() => setLastField("subject")}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bodyText">Plain text</Label>
+            <Textarea
+              id="bodyText"
+              ref={fieldRefs.bodyText}
+              rows={12}
+              className="font-mono text-xs"
+              value={bodyText}
+              onChange={(e) => setBodyText(e.target.value)}
+              onFocus={() => setLastField("bodyText")}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bodyHtml">HTML <span className="text-slate-500 font-normal">(optional)</span></Label>
+            <Textarea
+              id="bodyHtml"
+              ref={fieldRefs.bodyHtml}
+              rows={10}
+              className="font-mono text-xs"
+              value={bodyHtml}
+              onChange={(e) => setBodyHtml(e.target.value)}
+              onFocus={() => setLastField("bodyHtml")}
+            />
+          </div>
+          <div>
+            <Label>Variables</Label>
+            <p className="text-xs text-slate-500 mb-2">
+              Click to insert. Wrap text in {"{{#note}}...{{/note}}"} to only show it when the variable has a value.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {notificationTemplateVariables.map((variable) => (
+                <Button
+                  key={variable.name}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="h-6 px-2 text-xs font-mono"
+                  title={variable.description}
+                  onClick={() => insertVariable(variable.name)}
+                >
+                  {variable.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Preview</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {previewError ? (
+            <p className="text-sm text-danger">{previewError}</p>
+          ) : !preview ? (
+            <p className="text-sm text-slate-500">Rendering...</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="text-sm">
+                <span className="text-slate-500">Subject: </span>
+                <span className="font-medium text-slate-900">{preview.subject}</span>
+              </div>
+              <Tabs defaultValue={preview.html ? "html" : "text"}>
+                <TabsList>
+                  <TabsTrigger value="html" disabled={!preview.html}>HTML</TabsTrigger>
+                  <TabsTrigger value="text">Plain text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html">
+                  {/* Sandboxed so template markup can't run scripts in the app */}
+                  <iframe
+                    title="HTML preview"
+                    sandbox=""
+                    srcDoc={preview.html ?? ""}
+                    className="w-full h-[28rem] border border-slate-200 rounded bg-white"
+                  />
+                </TabsContent>
+                <TabsContent value="text">
+                  <pre className="whitespace-pre-wrap text-sm text-slate-700 p-3 bg-slate-50 rounded border border-slate-200">
+                    {preview.text}
+                  </pre>
+                </TabsContent>
+              </Tabs>
+              <p className="text-xs text-slate-500">Shown with sample job, quote and customer details</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
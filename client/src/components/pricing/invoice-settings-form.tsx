@@ -0,0 +1,150 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { insertInvoiceSettingsSchema } from "@shared/schema";
+import type { InsertInvoiceSettings, InvoiceSettings } from "@shared/schema";
+
+interface InvoiceSettingsFormProps {
+  settings: InvoiceSettings;
+}
+
+const optionalFields = ["address", "email", "phone", "taxNumber", "footer"] as const;
+
+export default function InvoiceSettingsForm({ settings }: InvoiceSettingsFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertInvoiceSettings>({
+    resolver: zodResolver(insertInvoiceSettingsSchema),
+    defaultValues: {
+      shopName: settings.shopName,
+      address: settings.address || "",
+      email: settings.email || "",
+      phone: settings.phone || "",
+      taxNumber: settings.taxNumber || "",
+      taxName: settings.taxName,
+      taxRate: settings.taxRate,
+      paymentTermsDays: settings.paymentTermsDays,
+      currencySymbol: settings.currencySymbol,
+      footer: settings.footer || "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: InsertInvoiceSettings) => {
+      const settingsData = { ...data };
+      for (const field of optionalFields) {
+        settingsData[field] = settingsData[field]?.trim() || null;
+      }
+      return apiRequest("PUT", "/api/invoice-settings", settingsData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-settings"] });
+      toast({ title: "Invoice details saved. Invoices already issued keep their PDF." });
+    },
+    onError: () => {
+      toast({ title: "Failed to save invoice details", variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: InsertInvoiceSettings) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 max-w-3xl">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Invoices</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="shopName">Shop name *</Label>
+            <Input id="shopName" {...form.register("shopName")} />
+            {form.formState.errors.shopName && (
+              <p className="text-sm text-destructive mt-1">{form.formState.errors.shopName.message}</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="taxNumber">Tax number</Label>
+            <Input id="taxNumber" {...form.register("taxNumber")} />
+          </div>
+          <div>
+            <Label htmlFor="shopEmail">Email</Label>
+            <Input id="shopEmail" type="email" {...form.register("email")} />
+            {form.formState.errors.email && (
+              <p className="text-sm text-destructive mt-1">Enter a valid email address</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="shopPhone">Phone</Label>
+            <Input id="shopPhone" {...form.register("phone")} />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="address">Address</Label>
+            <Textarea id="address" rows={3} {...form.register("address")} />
+          </div>
+          <div>
+            <Label htmlFor="taxName">Tax name *</Label>
+            <Input id="taxName" {...form.register("taxName")} placeholder="VAT" />
+          </div>
+          <div>
+            <Label htmlFor="taxRate">Tax rate (%)</Label>
+            <Input
+              id="taxRate"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              {...form.register("taxRate", { valueAsNumber: true })}
+            />
+            {form.formState.errors.taxRate ? (
+              <p className="text-sm text-destructive mt-1">Enter a percentage from 0 to 100</p>
+            ) : (
+              <p className="text-xs text-slate-500 mt-1">Added on top of the job total</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="paymentTermsDays">Payment terms (days)</Label>
+            <Input
+              id="paymentTermsDays"
+              type="number"
+              min="0"
+              step="1"
+              {...form.register("paymentTermsDays", { valueAsNumber: true })}
+            />
+            {form.formState.errors.paymentTermsDays ? (
+              <p className="text-sm text-destructive mt-1">Enter a whole number of days</p>
+            ) : (
+              <p className="text-xs text-slate-500 mt-1">Sets the due date on each invoice</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="currencySymbol">Currency symbol *</Label>
+            <Input id="currencySymbol" {...form.register("currencySymbol")} placeholder="R" className="w-24" />
+            {form.formState.errors.currencySymbol ? (
+              <p className="text-sm text-destructive mt-1">{form.formState.errors.currencySymbol.message}</p>
+            ) : (
+              <p className="text-xs text-slate-500 mt-1">Shown before every amount</p>
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="footer">Footer</Label>
+            <Textarea id="footer" rows={2} {...form.register("footer")} placeholder="Bank details, thank-you note..." />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Button type="submit" disabled={mutation.isPending}>
+        {mutation.isPending ? "Saving..." : "Save Invoice Details"}
+      </Button>
+    </form>
+  );
+}
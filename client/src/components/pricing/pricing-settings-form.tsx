@@ -0,0 +1,113 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { insertPricingSettingsSchema } from "@shared/schema";
+import type { InsertPricingSettings, PricingSettings } from "@shared/schema";
+
+interface PricingSettingsFormProps {
+  settings: PricingSettings;
+}
+
+type RateField = {
+  name: keyof InsertPricingSettings;
+  label: (currency: string) => string;
+  step: string;
+  hint: string;
+};
+
+const sections: Array<{ title: string; fields: RateField[] }> = [
+  {
+    title: "Printing",
+    fields: [
+      { name: "materialCostPerGram", label: (currency) => `Material (${currency} per gram)`, step: "0.001", hint: "Filament cost, times the item's weight" },
+      { name: "machineHourlyRate", label: (currency) => `Machine (${currency} per hour)`, step: "0.01", hint: "Wear, maintenance and depreciation" },
+      { name: "printerPowerWatts", label: () => "Printer power (W)", step: "1", hint: "Average draw while printing" },
+      { name: "electricityCostPerKwh", label: (currency) => `Electricity (${currency} per kWh)`, step: "0.01", hint: "Your tariff" },
+    ],
+  },
+  {
+    title: "Post-processing",
+    fields: [
+      { name: "labourHourlyRate", label: (currency) => `Labour (${currency} per hour)`, step: "0.01", hint: "Support removal, sanding, packing" },
+      { name: "postProcessingMinutes", label: () => "Minutes per copy", step: "1", hint: "Hands-on time for each copy" },
+    ],
+  },
+  {
+    title: "Order",
+    fields: [
+      { name: "setupFee", label: (currency) => `Setup fee (${currency} per job)`, step: "0.01", hint: "Slicing and bed prep, once per job" },
+      { name: "markupPercent", label: () => "Markup (%)", step: "1", hint: "Added on top of the costs" },
+      { name: "minimumOrder", label: (currency) => `Minimum order (${currency})`, step: "0.01", hint: "Small jobs are topped up to this" },
+    ],
+  },
+];
+
+export default function PricingSettingsForm({ settings }: PricingSettingsFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const currency = useCurrency();
+
+  const form = useForm<InsertPricingSettings>({
+    resolver: zodResolver(insertPricingSettingsSchema),
+    defaultValues: settings,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: InsertPricingSettings) =>
+      apiRequest("PUT", "/api/pricing-settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/quote"] });
+      toast({ title: "Rates saved. Existing jobs keep their prices until repriced." });
+    },
+    onError: () => {
+      toast({ title: "Failed to save rates", variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: InsertPricingSettings) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 max-w-3xl">
+      {sections.map((section) => (
+        <Card key={section.title}>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">{section.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {section.fields.map((field) => (
+              <div key={field.name}>
+                <Label htmlFor={field.name}>{field.label(currency)}</Label>
+                <Input
+                  id={field.name}
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  {...form.register(field.name, { valueAsNumber: true })}
+                />
+                {form.formState.errors[field.name] ? (
+                  <p className="text-sm text-destructive mt-1">Enter a number of 0 or more</p>
+                ) : (
+                  <p className="text-xs text-slate-500 mt-1">{field.hint}</p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Button type="submit" disabled={mutation.isPending}>
+        {mutation.isPending ? "Saving..." : "Save Rates"}
+      </Button>
+    </form>
+  );
+}
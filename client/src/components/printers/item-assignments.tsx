@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Printer as PrinterIcon, X } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatStatus } from "@/lib/utils";
+import type { JobItemWithAssignments, SafePrinter } from "@shared/schema";
+
+interface ItemAssignmentsProps {
+  item: JobItemWithAssignments;
+}
+
+// Splits a job item's quantity across printers
+export default function ItemAssignments({ item }: ItemAssignmentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [printerId, setPrinterId] = useState("");
+  const [quantity, setQuantity] = useState("");
+
+  const { data: printers = [] } = useQuery<SafePrinter[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const assigned = item.assignments.reduce((sum, assignment) => sum + assignment.quantity, 0);
+  const unassigned = Math.max(0, item.quantity - assigned);
+
+  const assignMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/job-items/${item.id}/assignments`, {
+        printerId: parseInt(printerId),
+        quantity: parseInt(quantity) || unassigned,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      setPrinterId("");
+      setQuantity("");
+    },
+    onError: (error: Error) => {
+      // apiRequest errors read "400: {json}", show the server's explanation
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to assign printer", description: message, variant: "destructive" });
+    },
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: (assignmentId: number) =>
+      apiRequest("DELETE", `/api/printer-assignments/${assignmentId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove assignment", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="mt-3">
+      <Label>Printers</Label>
+      <div className="space-y-2 mt-1">
+        {item.assignments.map((assignment) => {
+          const printer = printers.find(p => p.id === assignment.printerId);
+          return (
+            <div key={assignment.id} className="flex items-center justify-between p-2 bg-slate-50 rounded-lg text-sm">
+              <span className="flex items-center text-slate-700">
+                <PrinterIcon className="w-4 h-4 mr-2 text-slate-500" />
+                {printer?.name ?? `Printer ${assignment.printerId}`} ×{assignment.quantity}
+                {assignment.startAfter && (
+                  <span className="ml-2 text-xs text-slate-500">
+                    from {new Date(assignment.startAfter).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" })}
+                  </span>
+                )}
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => unassignMutation.mutate(assignment.id)}
+                disabled={unassignMutation.isPending}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+
+        {unassigned > 0 && (
+          printers.length === 0 ? (
+            <p className="text-sm text-slate-500">Add printers on the Printers page to assign this item.</p>
+          ) : (
+            <div className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-6">
+                <Select value={printerId} onValueChange={setPrinterId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a printer..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {printers.map((printer) => (
+                      <SelectItem key={printer.id} value={printer.id.toString()}>
+                        {printer.name}{printer.status !== 'idle' && ` (${formatStatus(printer.status)})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-3">
+                <Input
+                  type="number"
+                  min="1"
+                  max={unassigned}
+                  placeholder={unassigned.toString()}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+              <div className="col-span-3">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => assignMutation.mutate()}
+                  disabled={!printerId || assignMutation.isPending}
+                >
+                  Assign
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+        <p className="text-xs text-slate-500">
+          {unassigned === 0 ? "All copies assigned" : `${unassigned} of ${item.quantity} not assigned yet`}
+        </p>
+      </div>
+    </div>
+  );
+}
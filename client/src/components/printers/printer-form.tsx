@@ -0,0 +1,252 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatStatus } from "@/lib/utils";
+import { insertPrinterSchema, printerConnectorTypes, printerStatuses } from "@shared/schema";
+import type { SafePrinter } from "@shared/schema";
+
+// Materials are typed as a comma separated list; connector fields are left empty when
+// progress is entered by hand
+const printerFormSchema = insertPrinterSchema.extend({
+  supportedMaterials: z.string(),
+  connectorType: z.enum(["none", ...printerConnectorTypes]),
+  connectorUrl: z.string().url("Enter the printer's address, e.g. http://192.168.1.20").or(z.literal("")),
+  connectorApiKey: z.string(),
+});
+
+const connectorLabels: Record<typeof printerConnectorTypes[number], string> = {
+  octoprint: "OctoPrint",
+  moonraker: "Klipper (Moonraker)",
+};
+
+type PrinterFormData = z.infer<typeof printerFormSchema>;
+
+interface PrinterFormProps {
+  printer?: SafePrinter;
+  onSuccess?: () => void;
+}
+
+export default function PrinterForm({ printer, onSuccess }: PrinterFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<PrinterFormData>({
+    resolver: zodResolver(printerFormSchema),
+    // The saved API key never comes back from the server, the field only sets a new one
+    defaultValues: printer ? {
+      ...printer,
+      status: printer.status as PrinterFormData["status"],
+      supportedMaterials: printer.supportedMaterials.join(", "),
+      connectorType: (printer.connectorType ?? "none") as PrinterFormData["connectorType"],
+      connectorUrl: printer.connectorUrl ?? "",
+      connectorApiKey: "",
+    } : {
+      name: "",
+      model: "",
+      buildVolumeX: 220,
+      buildVolumeY: 220,
+      buildVolumeZ: 250,
+      nozzleSize: 0.4,
+      supportedMaterials: "PLA, PETG",
+      status: "idle",
+      notes: "",
+      connectorType: "none",
+      connectorUrl: "",
+      connectorApiKey: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: PrinterFormData) => {
+      const printerData = {
+        ...data,
+        supportedMaterials: data.supportedMaterials
+          .split(",")
+          .map(material => material.trim())
+          .filter(Boolean),
+        connectorType: data.connectorType === "none" ? null : data.connectorType,
+        connectorUrl: data.connectorType === "none" ? null : data.connectorUrl || null,
+        // Left blank keeps the saved key
+        connectorApiKey: data.connectorType === "none" ? null : data.connectorApiKey || undefined,
+      };
+      if (printer) {
+        return apiRequest("PUT", `/api/printers/${printer.id}`, printerData);
+      } else {
+        return apiRequest("POST", "/api/printers", printerData);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      toast({
+        title: printer ? "Printer updated successfully" : "Printer created successfully"
+      });
+      onSuccess?.();
+      if (!printer) {
+        form.reset();
+      }
+    },
+    onError: () => {
+      toast({
+        title: printer ? "Failed to update printer" : "Failed to create printer",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const onSubmit = (data: PrinterFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="name">Name *</Label>
+          <Input
+            id="name"
+            {...form.register("name")}
+            placeholder="e.g. Bay 1"
+          />
+          {form.formState.errors.name && (
+            <p className="text-sm text-destructive mt-1">{form.formState.errors.name.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="model">Model</Label>
+          <Input
+            id="model"
+            {...form.register("model")}
+            placeholder="e.g. Prusa MK4"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label>Build Volume (mm) *</Label>
+        <div className="grid grid-cols-3 gap-2">
+          <Input type="number" min="1" placeholder="X" {...form.register("buildVolumeX", { valueAsNumber: true })} />
+          <Input type="number" min="1" placeholder="Y" {...form.register("buildVolumeY", { valueAsNumber: true })} />
+          <Input type="number" min="1" placeholder="Z" {...form.register("buildVolumeZ", { valueAsNumber: true })} />
+        </div>
+        {(form.formState.errors.buildVolumeX || form.formState.errors.buildVolumeY || form.formState.errors.buildVolumeZ) && (
+          <p className="text-sm text-destructive mt-1">Enter the build volume in whole millimetres</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="nozzleSize">Nozzle Size (mm)</Label>
+          <Input
+            id="nozzleSize"
+            type="number"
+            step="0.05"
+            min="0.1"
+            {...form.register("nozzleSize", { valueAsNumber: true })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="status">Status</Label>
+          <Select
+            value={form.watch("status")}
+            onValueChange={(value) => form.setValue("status", value as PrinterFormData["status"])}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {printerStatuses.map((status) => (
+                <SelectItem key={status} value={status}>{formatStatus(status)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="supportedMaterials">Supported Materials</Label>
+        <Input
+          id="supportedMaterials"
+          {...form.register("supportedMaterials")}
+          placeholder="PLA, PETG, ABS"
+        />
+        <p className="text-xs text-slate-500 mt-1">Leave empty if the printer takes any material</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="connectorType">Connection</Label>
+          <Select
+            value={form.watch("connectorType")}
+            onValueChange={(value) => form.setValue("connectorType", value as PrinterFormData["connectorType"])}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None (update by hand)</SelectItem>
+              {printerConnectorTypes.map((type) => (
+                <SelectItem key={type} value={type}>{connectorLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {form.watch("connectorType") !== "none" && (
+          <div>
+            <Label htmlFor="connectorUrl">Address</Label>
+            <Input
+              id="connectorUrl"
+              {...form.register("connectorUrl")}
+              placeholder="http://192.168.1.20"
+            />
+            {form.formState.errors.connectorUrl && (
+              <p className="text-sm text-destructive mt-1">{form.formState.errors.connectorUrl.message}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {form.watch("connectorType") !== "none" && (
+        <div>
+          <Label htmlFor="connectorApiKey">API Key</Label>
+          <Input
+            id="connectorApiKey"
+            type="password"
+            autoComplete="off"
+            {...form.register("connectorApiKey")}
+            placeholder={printer?.hasConnectorApiKey
+              ? "Saved, leave blank to keep it"
+              : form.watch("connectorType") === "octoprint" ? "From OctoPrint's Settings → API" : "Only if Moonraker requires one"}
+          />
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="notes">Notes</Label>
+        <Textarea
+          id="notes"
+          {...form.register("notes")}
+          placeholder="Enclosure, bed surface, quirks..."
+          rows={2}
+        />
+      </div>
+
+      <Button type="submit" disabled={mutation.isPending}>
+        {mutation.isPending
+          ? (printer ? "Updating..." : "Creating...")
+          : (printer ? "Update Printer" : "Create Printer")
+        }
+      </Button>
+    </form>
+  );
+}
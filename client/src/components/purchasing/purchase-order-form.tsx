@@ -0,0 +1,241 @@
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatMoney } from "@/lib/utils";
+import { purchaseOrderLineSchema } from "@shared/schema";
+import type { PurchaseOrder, PurchaseOrderLine } from "@shared/schema";
+
+// Dates come from a date input as strings and an empty price is NaN
+const purchaseOrderFormSchema = z.object({
+  supplier: z.string().trim().min(1, "Supplier is required"),
+  status: z.enum(["draft", "ordered"]),
+  expectedDate: z.string().optional(),
+  notes: z.string().optional(),
+  lines: z.array(purchaseOrderLineSchema.extend({
+    unitPrice: z.number().min(0).nullish().or(z.nan()),
+  })).min(1, "At least one line is required"),
+});
+
+type PurchaseOrderFormData = z.infer<typeof purchaseOrderFormSchema>;
+
+interface PurchaseOrderFormProps {
+  order?: PurchaseOrder;
+  initialLines?: PurchaseOrderLine[]; // prefilled when ordering from a low-stock alert
+  onSuccess?: () => void;
+}
+
+const emptyLine: PurchaseOrderLine = {
+  material: "",
+  colour: "",
+  brand: "",
+  spoolWeight: 1000,
+  quantity: 1,
+  unitPrice: null,
+};
+
+function defaultValues(order?: PurchaseOrder, initialLines?: PurchaseOrderLine[]): PurchaseOrderFormData {
+  if (order) {
+    return {
+      supplier: order.supplier,
+      status: order.status === "ordered" ? "ordered" : "draft",
+      expectedDate: order.expectedDate ? new Date(order.expectedDate).toISOString().slice(0, 10) : "",
+      notes: order.notes || "",
+      lines: order.lines,
+    };
+  }
+  return {
+    supplier: "",
+    status: "draft",
+    expectedDate: "",
+    notes: "",
+    lines: initialLines?.length ? initialLines : [emptyLine],
+  };
+}
+
+export default function PurchaseOrderForm({ order, initialLines, onSuccess }: PurchaseOrderFormProps) {
+  const currency = useCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<PurchaseOrderFormData>({
+    resolver: zodResolver(purchaseOrderFormSchema),
+    defaultValues: defaultValues(order, initialLines),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "lines" });
+
+  const mutation = useMutation({
+    mutationFn: (data: PurchaseOrderFormData) => {
+      const orderData = {
+        supplier: data.supplier,
+        status: data.status,
+        expectedDate: data.expectedDate || null,
+        notes: data.notes?.trim() || null,
+        lines: data.lines.map(line => ({
+          ...line,
+          colour: line.colour?.trim() || null,
+          brand: line.brand?.trim() || null,
+          unitPrice: line.unitPrice != null && !Number.isNaN(line.unitPrice) ? line.unitPrice : null,
+        })),
+      };
+      if (order) {
+        return apiRequest("PUT", `/api/purchase-orders/${order.id}`, orderData);
+      } else {
+        return apiRequest("POST", "/api/purchase-orders", orderData);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+      toast({
+        title: order ? "Purchase order updated successfully" : "Purchase order created successfully"
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: order ? "Failed to update purchase order" : "Failed to create purchase order",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const onSubmit = (data: PurchaseOrderFormData) => {
+    mutation.mutate(data);
+  };
+
+  const lines = form.watch("lines");
+  const total = lines.reduce((sum, line) =>
+    sum + (line.unitPrice && !Number.isNaN(line.unitPrice) ? line.unitPrice * (line.quantity || 0) : 0), 0);
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="supplier">Supplier *</Label>
+          <Input
+            id="supplier"
+            {...form.register("supplier")}
+            placeholder="Filament supplier"
+          />
+          {form.formState.errors.supplier && (
+            <p className="text-sm text-destructive mt-1">{form.formState.errors.supplier.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="expectedDate">Expected</Label>
+          <Input
+            id="expectedDate"
+            type="date"
+            {...form.register("expectedDate")}
+          />
+        </div>
+
+        <div>
+          <Label>Status</Label>
+          <Select
+            value={form.watch("status")}
+            onValueChange={(value) => form.setValue("status", value as PurchaseOrderFormData["status"])}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="ordered">Ordered</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label>Lines</Label>
+          <Button type="button" size="sm" variant="outline" onClick={() => append(emptyLine)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Line
+          </Button>
+        </div>
+        <div className="grid grid-cols-12 gap-2 text-xs text-slate-500 mb-1">
+          <span className="col-span-3">Material *</span>
+          <span className="col-span-2">Colour</span>
+          <span className="col-span-2">Brand</span>
+          <span className="col-span-2">Spool (g)</span>
+          <span className="col-span-1">Qty</span>
+          <span className="col-span-1">Price</span>
+        </div>
+        <div className="space-y-2">
+          {fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+              <Input className="col-span-3" {...form.register(`lines.${index}.material`)} placeholder="PLA" />
+              <Input className="col-span-2" {...form.register(`lines.${index}.colour`)} />
+              <Input className="col-span-2" {...form.register(`lines.${index}.brand`)} />
+              <Input
+                className="col-span-2"
+                type="number"
+                min="1"
+                {...form.register(`lines.${index}.spoolWeight`, { valueAsNumber: true })}
+              />
+              <Input
+                className="col-span-1"
+                type="number"
+                min="1"
+                {...form.register(`lines.${index}.quantity`, { valueAsNumber: true })}
+              />
+              <Input
+                className="col-span-1"
+                type="number"
+                step="0.01"
+                min="0"
+                {...form.register(`lines.${index}.unitPrice`, { valueAsNumber: true })}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="col-span-1"
+                onClick={() => remove(index)}
+                disabled={fields.length === 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {form.formState.errors.lines && (
+          <p className="text-sm text-destructive mt-1">Every line needs a material and at least one spool</p>
+        )}
+        {total > 0 && (
+          <p className="text-sm text-slate-600 text-right mt-2">Total: {formatMoney(total, currency)}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="poNotes">Notes</Label>
+        <Textarea
+          id="poNotes"
+          {...form.register("notes")}
+          placeholder="Order reference, shipping, ..."
+          rows={2}
+        />
+      </div>
+
+      <Button type="submit" disabled={mutation.isPending}>
+        {mutation.isPending
+          ? (order ? "Updating..." : "Creating...")
+          : (order ? "Update Order" : "Create Order")
+        }
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,285 @@
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import QuoteBreakdown from "@/components/jobs/quote-breakdown";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatTime, parseTimeString } from "@/lib/utils";
+import type { Customer, Quote } from "@shared/schema";
+
+// Times are typed like "2h 30m"; empty number fields come through as NaN. A price typed
+// in is kept, otherwise the item is priced from the rates
+const quoteFormSchema = z.object({
+  customerId: z.number().min(1, "Please select a customer"),
+  status: z.enum(["draft", "sent"]),
+  validUntil: z.string().optional(),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    name: z.string().trim().min(1, "Item name is required"),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+    time: z.string().optional(),
+    material: z.string().optional(),
+    filamentWeight: z.number().min(0).nullish().or(z.nan()),
+    fixedPrice: z.number().min(0).nullish().or(z.nan()),
+    notes: z.string().nullish(),
+  })).min(1, "At least one item is required"),
+});
+
+type QuoteFormData = z.infer<typeof quoteFormSchema>;
+
+interface QuoteFormProps {
+  quote?: Quote;
+  onSuccess?: () => void;
+}
+
+const QUOTE_VALID_DAYS = 30;
+
+const emptyItem: QuoteFormData["items"][number] = {
+  name: "",
+  quantity: 1,
+  time: "",
+  material: "",
+  filamentWeight: null,
+  fixedPrice: null,
+  notes: null,
+};
+
+function numberOrNull(value: number | null | undefined): number | null {
+  return value != null && !Number.isNaN(value) ? value : null;
+}
+
+function defaultValues(quote?: Quote): QuoteFormData {
+  if (quote) {
+    return {
+      customerId: quote.customerId,
+      status: quote.status === "sent" ? "sent" : "draft",
+      validUntil: quote.validUntil ? new Date(quote.validUntil).toISOString().slice(0, 10) : "",
+      notes: quote.notes || "",
+      items: quote.items.map(item => ({
+        name: item.name,
+        quantity: item.quantity,
+        time: item.estimatedTimePerItem ? formatTime(item.estimatedTimePerItem) : "",
+        material: item.material || "",
+        filamentWeight: item.filamentWeight ?? null,
+        fixedPrice: item.priceBreakdown ? null : item.unitPrice ?? null,
+        notes: item.notes,
+      })),
+    };
+  }
+
+  const validUntil = new Date();
+  validUntil.setDate(validUntil.getDate() + QUOTE_VALID_DAYS);
+  return {
+    customerId: 0,
+    status: "draft",
+    validUntil: validUntil.toISOString().slice(0, 10),
+    notes: "",
+    items: [emptyItem],
+  };
+}
+
+export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const form = useForm<QuoteFormData>({
+    resolver: zodResolver(quoteFormSchema),
+    defaultValues: defaultValues(quote),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+
+  const mutation = useMutation({
+    mutationFn: (data: QuoteFormData) => {
+      const quoteData = {
+        customerId: data.customerId,
+        status: data.status,
+        validUntil: data.validUntil || null,
+        notes: data.notes?.trim() || null,
+        items: data.items.map(item => ({
+          name: item.name,
+          quantity: item.quantity,
+          estimatedTimePerItem: parseTimeString(item.time || ""),
+          material: item.material?.trim() || null,
+          filamentWeight: numberOrNull(item.filamentWeight),
+          notes: item.notes,
+          unitPrice: numberOrNull(item.fixedPrice),
+        })),
+      };
+      if (quote) {
+        return apiRequest("PUT", `/api/quotes/${quote.id}`, quoteData);
+      } else {
+        return apiRequest("POST", "/api/quotes", quoteData);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({
+        title: quote ? "Quote revised successfully" : "Quote created successfully"
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: quote ? "Failed to revise quote" : "Failed to create quote",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const onSubmit = (data: QuoteFormData) => {
+    mutation.mutate(data);
+  };
+
+  const items = form.watch("items");
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <Label>Customer *</Label>
+          <Select
+            value={form.watch("customerId") ? form.watch("customerId").toString() : ""}
+            onValueChange={(value) => form.setValue("customerId", parseInt(value))}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a customer..." />
+            </SelectTrigger>
+            <SelectContent>
+              {customers.map((customer) => (
+                <SelectItem key={customer.id} value={customer.id.toString()}>
+                  {customer.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {form.formState.errors.customerId && (
+            <p className="text-sm text-destructive mt-1">{form.formState.errors.customerId.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="validUntil">Valid Until</Label>
+          <Input
+            id="validUntil"
+            type="date"
+            {...form.register("validUntil")}
+          />
+        </div>
+
+        <div>
+          <Label>Status</Label>
+          <Select
+            value={form.watch("status")}
+            onValueChange={(value) => form.setValue("status", value as QuoteFormData["status"])}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="sent">Sent</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label>Items</Label>
+          <Button type="button" size="sm" variant="outline" onClick={() => append(emptyItem)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Item
+          </Button>
+        </div>
+        <div className="grid grid-cols-12 gap-2 text-xs text-slate-500 mb-1">
+          <span className="col-span-3">Item *</span>
+          <span className="col-span-1">Qty</span>
+          <span className="col-span-2">Time each</span>
+          <span className="col-span-2">Grams each</span>
+          <span className="col-span-2">Material</span>
+          <span className="col-span-1" title="Leave empty to price from the rates">Price</span>
+        </div>
+        <div className="space-y-2">
+          {fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+              <Input className="col-span-3" {...form.register(`items.${index}.name`)} placeholder="Item name" />
+              <Input
+                className="col-span-1"
+                type="number"
+                min="1"
+                {...form.register(`items.${index}.quantity`, { valueAsNumber: true })}
+              />
+              <Input className="col-span-2" {...form.register(`items.${index}.time`)} placeholder="2h 30m" />
+              <Input
+                className="col-span-2"
+                type="number"
+                min="0"
+                {...form.register(`items.${index}.filamentWeight`, { valueAsNumber: true })}
+              />
+              <Input className="col-span-2" {...form.register(`items.${index}.material`)} placeholder="PLA" />
+              <Input
+                className="col-span-1"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Auto"
+                {...form.register(`items.${index}.fixedPrice`, { valueAsNumber: true })}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="col-span-1"
+                onClick={() => remove(index)}
+                disabled={fields.length === 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {form.formState.errors.items && (
+          <p className="text-sm text-destructive mt-1">Every item needs a name and a quantity</p>
+        )}
+      </div>
+
+      <QuoteBreakdown
+        items={items.map(item => ({
+          name: item.name || "",
+          quantity: Number(item.quantity) || 0,
+          estimatedTimePerItem: parseTimeString(item.time || ""),
+          filamentWeight: numberOrNull(item.filamentWeight),
+          unitPrice: numberOrNull(item.fixedPrice),
+        }))}
+      />
+
+      <div>
+        <Label htmlFor="quoteNotes">Notes</Label>
+        <Textarea
+          id="quoteNotes"
+          {...form.register("notes")}
+          placeholder="Terms, finish, delivery..."
+          rows={2}
+        />
+      </div>
+
+      <Button type="submit" disabled={mutation.isPending}>
+        {mutation.isPending
+          ? "Saving..."
+          : (quote ? "Save Revision" : "Create Quote")
+        }
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatMoney } from "@/lib/utils";
+import type { Quote, QuoteRevision } from "@shared/schema";
+
+interface QuoteHistoryProps {
+  quote: Quote;
+}
+
+// Earlier versions of a quote, newest first; the current one is the quote itself
+export default function QuoteHistory({ quote }: QuoteHistoryProps) {
+  const currency = useCurrency();
+  const price = (value: number | null) => value != null ? formatMoney(value, currency) : "Not priced";
+  const { data: revisions = [], isLoading } = useQuery<QuoteRevision[]>({
+    queryKey: [`/api/quotes/${quote.id}/revisions`],
+  });
+
+  const versions = [
+    { revision: quote.revision, items: quote.items, total: quote.total, notes: quote.notes, date: quote.updatedAt },
+    ...revisions.map(rev => ({ revision: rev.revision, items: rev.items, total: rev.total, notes: rev.notes, date: rev.createdAt })),
+  ];
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-600">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-4 max-h-[60vh] overflow-auto">
+      {versions.map((version, index) => (
+        <div key={version.revision} className="rounded-lg border border-slate-200 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-slate-900">
+              Revision {version.revision}{index === 0 && " (current)"}
+            </span>
+            <span className="text-xs text-slate-500">
+              {version.date && new Date(version.date).toLocaleString()}
+            </span>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {version.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="flex justify-between">
+                <span>{item.name} × {item.quantity}</span>
+                <span className="text-slate-600">{price(item.totalPrice ?? null)}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-sm font-medium text-right border-t border-slate-100 mt-2 pt-2">
+            {price(version.total)}
+          </p>
+          {version.notes && <p className="text-xs text-slate-500 mt-1">{version.notes}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronDown, ChevronRight, Wallet } from "lucide-react";
+import { cn, formatMoney } from "@/lib/utils";
+import { useCurrency } from "@/hooks/use-currency";
+import type { AgedReceivables as AgedReceivablesReport, AgingBucket } from "@shared/schema";
+
+const buckets: Array<{ key: AgingBucket; label: string }> = [
+  { key: "current", label: "Not yet due" },
+  { key: "days1to30", label: "1-30 days" },
+  { key: "days31to60", label: "31-60 days" },
+  { key: "days61to90", label: "61-90 days" },
+  { key: "over90", label: "90+ days" },
+];
+
+// Unpaid invoices per customer, by days past their due date
+export default function AgedReceivables() {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const currency = useCurrency();
+  const amount = (value: number) => value > 0 ? formatMoney(value, currency) : "—";
+
+  const { data: report } = useQuery<AgedReceivablesReport>({
+    queryKey: ["/api/reports/receivables"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="w-5 h-5" />
+          Aged Receivables
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!report || report.customers.length === 0 ? (
+          <p className="text-sm text-slate-500">No unpaid invoices</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 font-medium">Customer</th>
+                {buckets.map((bucket) => (
+                  <th key={bucket.key} className="py-2 font-medium text-right">{bucket.label}</th>
+                ))}
+                <th className="py-2 font-medium text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.customers.map((row) => (
+                <Fragment key={row.customerId}>
+                  <tr
+                    className="border-b border-slate-100 cursor-pointer hover:bg-slate-50"
+                    onClick={() => setExpanded(expanded === row.customerId ? null : row.customerId)}
+                  >
+                    <td className="py-2">
+                      <span className="flex items-center">
+                        {expanded === row.customerId
+                          ? <ChevronDown className="w-4 h-4 mr-1" />
+                          : <ChevronRight className="w-4 h-4 mr-1" />}
+                        {row.customerName}
+                      </span>
+                    </td>
+                    {buckets.map((bucket) => (
+                      <td
+                        key={bucket.key}
+                        className={cn("py-2 text-right", bucket.key !== "current" && row[bucket.key] > 0 && "text-danger")}
+                      >
+                        {amount(row[bucket.key])}
+                      </td>
+                    ))}
+                    <td className="py-2 text-right font-medium">{amount(row.total)}</td>
+                  </tr>
+                  {expanded === row.customerId && row.invoices.map((invoice) => (
+                    <tr key={invoice.invoiceId} className="text-xs text-slate-500">
+                      <td className="py-1 pl-6">
+                        {invoice.invoiceNumber}
+                        {invoice.dueDate && ` • due ${new Date(invoice.dueDate).toLocaleDateString()}`}
+                        {invoice.daysOverdue > 0 && ` • ${invoice.daysOverdue} days overdue`}
+                      </td>
+                      {buckets.map((bucket) => (
+                        <td key={bucket.key} className="py-1 text-right">
+                          {invoice.bucket === bucket.key ? amount(invoice.outstanding) : ""}
+                        </td>
+                      ))}
+                      <td />
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-medium text-slate-900 border-t border-slate-200">
+                <td className="py-2">Total</td>
+                {buckets.map((bucket) => (
+                  <td key={bucket.key} className="py-2 text-right">{amount(report.totals[bucket.key])}</td>
+                ))}
+                <td className="py-2 text-right">{amount(report.totals.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Timer } from "lucide-react";
+import type { TurnaroundReport } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const periods = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "all", label: "All time" },
+];
+
+const measures: Array<{ key: keyof TurnaroundReport["averages"]; label: string; description: string }> = [
+  { key: "queueHours", label: "Queue", description: "Created to first started" },
+  { key: "turnaroundHours", label: "Turnaround", description: "First started to completed" },
+  { key: "leadTimeHours", label: "Lead time", description: "Created to completed" },
+  { key: "printingHours", label: "Printing", description: "Time spent printing" },
+  { key: "pausedHours", label: "Paused", description: "Time spent paused" },
+];
+
+// 30 minutes reads as "0.5h", three days as "3.0d"
+function duration(hours: number | null): string {
+  if (hours === null) return "—";
+  return hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${hours.toFixed(1)}h`;
+}
+
+// How long completed jobs took, from their status history
+export default function Turnaround() {
+  const [period, setPeriod] = useState("30");
+  const since = period === "all" ? null : new Date(Date.now() - Number(period) * DAY_MS);
+  const url = since ? `/api/reports/turnaround?since=${since.toISOString().slice(0, 10)}` : "/api/reports/turnaround";
+
+  const { data: report } = useQuery<TurnaroundReport>({
+    queryKey: [url],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          Turnaround
+        </CardTitle>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {!report || report.jobs.length === 0 ? (
+          <p className="text-sm text-slate-500">No jobs completed in this period</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {measures.map((measure) => (
+                <div key={measure.key} className="p-3 bg-slate-50 rounded-lg" title={measure.description}>
+                  <p className="text-xs text-slate-500">Avg. {measure.label.toLowerCase()}</p>
+                  <p className="text-lg font-semibold text-slate-900">{duration(report.averages[measure.key])}</p>
+                </div>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 font-medium">Job</th>
+                  <th className="py-2 font-medium">Completed</th>
+                  {measures.map((measure) => (
+                    <th key={measure.key} className="py-2 font-medium text-right">{measure.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.jobs.map((job) => (
+                  <tr key={job.jobId} className="border-b border-slate-100">
+                    <td className="py-2">
+                      {job.jobNumber}
+                      {job.reopened && <Badge variant="outline" className="ml-2 text-xs">Reopened</Badge>}
+                    </td>
+                    <td className="py-2 text-slate-500">
+                      {job.completedAt && new Date(job.completedAt).toLocaleDateString()}
+                    </td>
+                    {measures.map((measure) => (
+                      <td key={measure.key} className="py-2 text-right">{duration(job[measure.key])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, type DragEvent } from "react";
+import { Pin } from "lucide-react";
+import StatusBadge from "@/components/jobs/status-badge";
+import { cn, getStatusColor } from "@/lib/utils";
+import type { Schedule, ScheduledPrint, WorkingHours } from "@shared/schema";
+
+interface GanttChartProps {
+  schedule: Schedule;
+  pxPerHour: number;
+  onMove: (print: ScheduledPrint, printerId: number, startAfter: Date) => void;
+}
+
+const HOUR = 60 * 60 * 1000;
+const LANE_HEIGHT = 56;
+const LABEL_WIDTH = 180;
+// Drops snap to quarter hours
+const SNAP = 15 * 60 * 1000;
+
+// Dragging a block reads its grab point so the block lands where it was let go, not where the cursor is
+interface DragState {
+  print: ScheduledPrint;
+  offsetPx: number;
+}
+
+function startOfHour(time: number): number {
+  const date = new Date(time);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+}
+
+// Closed stretches of each day between start and end, shaded on the chart
+function closedIntervals(start: number, end: number, hours: WorkingHours): Array<[number, number]> {
+  const intervals: Array<[number, number]> = [];
+  const day = new Date(start);
+  day.setHours(0, 0, 0, 0);
+
+  while (day.getTime() < end) {
+    const midnight = day.getTime();
+    const nextMidnight = new Date(day);
+    nextMidnight.setDate(nextMidnight.getDate() + 1);
+
+    if (!hours.days.includes(day.getDay())) {
+      intervals.push([midnight, nextMidnight.getTime()]);
+    } else {
+      intervals.push([midnight, midnight + hours.opensAt * 60 * 1000]);
+      intervals.push([midnight + hours.closesAt * 60 * 1000, nextMidnight.getTime()]);
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return intervals
+    .map(([from, to]): [number, number] => [Math.max(from, start), Math.min(to, end)])
+    .filter(([from, to]) => to > from);
+}
+
+function formatClock(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatDay(time: number): string {
+  return new Date(time).toLocaleDateString([], { weekday: "short", day: "numeric", month: "short" });
+}
+
+export default function GanttChart({ schedule, pxPerHour, onMove }: GanttChartProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const now = new Date(schedule.generatedAt).getTime();
+  const prints = schedule.queues.flatMap(queue => queue.prints);
+  const lastEnd = Math.max(now, ...prints.map(print => new Date(print.end).getTime()));
+  const lastDue = Math.max(now, ...prints.map(print => print.dueDate ? new Date(print.dueDate).getTime() : now));
+
+  // Only a little history, so a long overdue job doesn't stretch the chart
+  const rangeStart = startOfHour(now - 2 * HOUR);
+  const rangeEnd = startOfHour(Math.max(lastEnd, lastDue, now + 24 * HOUR)) + 3 * HOUR;
+  const width = ((rangeEnd - rangeStart) / HOUR) * pxPerHour;
+  const x = (time: number) => ((time - rangeStart) / HOUR) * pxPerHour;
+
+  const tickEvery = pxPerHour >= 40 ? 1 : pxPerHour >= 15 ? 3 : 6;
+  const ticks: number[] = [];
+  for (let tick = rangeStart; tick <= rangeEnd; tick += HOUR) {
+    if (new Date(tick).getHours() % tickEvery === 0) ticks.push(tick);
+  }
+  const closed = closedIntervals(rangeStart, rangeEnd, schedule.workingHours);
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, print: ScheduledPrint) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", `${print.jobItemId}`);
+    setDrag({ print, offsetPx: event.clientX - rect.left });
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, printerId: number) => {
+    event.preventDefault();
+    setDropTarget(null);
+    if (!drag) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const left = event.clientX - rect.left - drag.offsetPx;
+    const time = rangeStart + (left / pxPerHour) * HOUR;
+    const startAfter = new Date(Math.max(now, Math.round(time / SNAP) * SNAP));
+    onMove(drag.print, printerId, startAfter);
+    setDrag(null);
+  };
+
+  return (
+    <div className="overflow-x-auto border border-slate-200 rounded-lg bg-white">
+      <div style={{ width: width + LABEL_WIDTH }}>
+        {/* Time axis */}
+        <div className="flex border-b border-slate-200 h-10">
+          <div
+            className="sticky left-0 z-20 bg-white border-r border-slate-200 flex-shrink-0 px-3 flex items-center text-xs font-medium text-slate-500"
+            style={{ width: LABEL_WIDTH }}
+          >
+            Printer
+          </div>
+          <div className="relative flex-shrink-0" style={{ width }}>
+            {ticks.map((tick) => {
+              const midnight = new Date(tick).getHours() === 0;
+              return (
+                <div
+                  key={tick}
+                  className={cn(
+                    "absolute top-0 h-full border-l pl-1 text-xs whitespace-nowrap",
+                    midnight ? "border-slate-400 text-slate-700 font-medium" : "border-slate-200 text-slate-500"
+                  )}
+                  style={{ left: x(tick) }}
+                >
+                  {midnight || tick === ticks[0] ? formatDay(tick) : formatClock(tick)}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* One lane per printer */}
+        {schedule.queues.map(({ printer, prints: lanePrints }) => {
+          const unavailable = printer.status === "maintenance" || printer.status === "offline";
+
+          // One marker per job in the lane, red when its last copy here finishes late
+          const dueMarkers = new Map<number, { dueDate: number; overdue: boolean }>();
+          for (const print of lanePrints) {
+            if (!print.dueDate) continue;
+            const marker = dueMarkers.get(print.jobId);
+            dueMarkers.set(print.jobId, {
+              dueDate: new Date(print.dueDate).getTime(),
+              overdue: (marker?.overdue ?? false) || print.overdue,
+            });
+          }
+
+          return (
+            <div key={printer.id} className="flex border-b border-slate-100 last:border-b-0" style={{ height: LANE_HEIGHT }}>
+              <div
+                className="sticky left-0 z-20 bg-white border-r border-slate-200 flex-shrink-0 px-3 flex flex-col justify-center"
+                style={{ width: LABEL_WIDTH }}
+              >
+                <span className="text-sm font-medium text-slate-900 truncate">{printer.name}</span>
+                {printer.status !== "idle" && (
+                  <div className="mt-0.5"><StatusBadge status={printer.status} /></div>
+                )}
+              </div>
+
+              <div
+                className={cn(
+                  "relative flex-shrink-0",
+                  unavailable && "bg-slate-100",
+                  dropTarget === printer.id && "bg-primary/5"
+                )}
+                style={{ width }}
+                onDragOver={(event) => {
+                  if (!drag || unavailable) return;
+                  event.preventDefault();
+                  setDropTarget(printer.id);
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(event) => handleDrop(event, printer.id)}
+              >
+                {closed.map(([from, to]) => (
+                  <div
+                    key={from}
+                    className="absolute top-0 h-full bg-slate-50"
+                    style={{ left: x(from), width: x(to) - x(from) }}
+                  />
+                ))}
+
+                {lanePrints.map((print) => {
+                  const start = new Date(print.start).getTime();
+                  const end = new Date(print.end).getTime();
+                  return (
+                    <div
+                      key={`${print.jobItemId}-${print.assignmentId}-${start}`}
+                      draggable
+                      onDragStart={(event) => handleDragStart(event, print)}
+                      onDragEnd={() => setDrag(null)}
+                      className={cn(
+                        "absolute top-2 bottom-2 rounded-md border border-slate-300 px-2 py-1 text-xs overflow-hidden cursor-grab",
+                        getStatusColor(print.jobStatus),
+                        print.overdue && "ring-2 ring-red-500"
+                      )}
+                      style={{ left: x(start), width: Math.max(x(end) - x(start), 4) }}
+                      title={[
+                        `#${print.jobNumber} • ${print.customerName}`,
+                        `${print.itemName} ×${print.quantity}${print.material ? ` (${print.material})` : ""}`,
+                        `${formatDay(start)} ${formatClock(start)} – ${formatDay(end)} ${formatClock(end)}`,
+                        print.dueDate ? `Due ${formatDay(new Date(print.dueDate).getTime())} ${formatClock(new Date(print.dueDate).getTime())}` : "",
+                        print.pinned ? "Pinned on the timeline" : "",
+                      ].filter(Boolean).join("\n")}
+                    >
+                      <div className="flex items-center font-medium truncate">
+                        {print.pinned && <Pin className="w-3 h-3 mr-1 flex-shrink-0" />}
+                        <span className="truncate">{print.itemName} ×{print.quantity}</span>
+                      </div>
+                      <div className="truncate opacity-75">#{print.jobNumber}</div>
+                    </div>
+                  );
+                })}
+
+                {Array.from(dueMarkers.entries()).map(([jobId, marker]) => (
+                  marker.dueDate >= rangeStart && marker.dueDate <= rangeEnd && (
+                    <div
+                      key={jobId}
+                      className={cn(
+                        "absolute top-0 h-full border-l-2 border-dashed z-10 pointer-events-none",
+                        marker.overdue ? "border-red-500" : "border-slate-400"
+                      )}
+                      style={{ left: x(marker.dueDate) }}
+                    />
+                  )
+                ))}
+
+                {/* Now line */}
+                <div
+                  className="absolute top-0 h-full border-l-2 border-primary z-10 pointer-events-none"
+                  style={{ left: x(now) }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { FileText, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import NewJobModal from "@/components/jobs/new-job-modal";
+import type { Customer, ImportDraft } from "@shared/schema";
+
+// Uploaded invoices that haven't been turned into jobs yet
+export default function ImportDrafts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reviewingDraft, setReviewingDraft] = useState<ImportDraft | null>(null);
+
+  const { data: drafts = [] } = useQuery<ImportDraft[]>({
+    queryKey: ["/api/import-drafts"],
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const discardDraftMutation = useMutation({
+    mutationFn: (draftId: number) =>
+      apiRequest("DELETE", `/api/import-drafts/${draftId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-drafts"] });
+      toast({ title: "Draft discarded" });
+    },
+    onError: () => {
+      toast({ title: "Failed to discard draft", variant: "destructive" });
+    },
+  });
+
+  const handleDiscardDraft = (draftId: number) => {
+    if (confirm("Discard this imported invoice?")) {
+      discardDraftMutation.mutate(draftId);
+    }
+  };
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Drafts to Review</h3>
+        <div className="space-y-3">
+          {drafts.map((draft) => {
+            const customer = customers.find(c => c.id === draft.customerId);
+            return (
+              <div key={draft.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                <div className="flex items-start space-x-3 min-w-0">
+                  <FileText className="w-5 h-5 text-slate-500 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900 truncate">{draft.originalFilename}</p>
+                    <p className="text-sm text-slate-600">
+                      {draft.items.length} items
+                      {draft.invoiceNumber && ` • Invoice ${draft.invoiceNumber}`}
+                      {" • "}
+                      {customer ? customer.name : draft.customerName ? `"${draft.customerName}" (no matching customer)` : "No customer"}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                  <Button size="sm" onClick={() => setReviewingDraft(draft)}>
+                    Review
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDiscardDraft(draft.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+
+      {reviewingDraft && (
+        <NewJobModal
+          open
+          onOpenChange={(open) => !open && setReviewingDraft(null)}
+          importedItems={reviewingDraft.items}
+          invoiceNumber={reviewingDraft.invoiceNumber ?? undefined}
+          customerId={reviewingDraft.customerId ?? undefined}
+          importDraftId={reviewingDraft.id}
+        />
+      )}
+    </Card>
+  );
+}
@@ -1,27 +1,20 @@
 import { useState, useCallback } from "react";
-import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, Upload, CheckCircle } from "lucide-react";
+import { FileText, Upload, AlertTriangle, ClipboardCheck } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import NewJobModal from "@/components/jobs/new-job-modal";
+import { LOW_CONFIDENCE_THRESHOLD } from "@shared/schema";
+import type { ImportDraft } from "@shared/schema";
 
-interface ExtractedItem {
-  name: string;
-  quantity: number;
-}
-
-interface PdfUploaderProps {
-  onItemsExtracted?: (items: ExtractedItem[]) => void;
-}
-
-export default function PdfUploader({ onItemsExtracted }: PdfUploaderProps) {
+export default function PdfUploader() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [, setLocation] = useLocation();
   const [dragActive, setDragActive] = useState(false);
-  const [extractedItems, setExtractedItems] = useState<ExtractedItem[]>([]);
-  const [createdJob, setCreatedJob] = useState<any>(null);
+  const [draft, setDraft] = useState<ImportDraft | null>(null);
+  const [reviewOpen, setReviewOpen] = useState(false);
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -35,35 +28,34 @@ export default function PdfUploader({ onItemsExtracted }: PdfUploaderProps) {
       });
       
       if (!response.ok) {
-        throw new Error('Upload failed');
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Upload failed');
       }
       
       return response.json();
     },
-    onSuccess: (data) => {
-      setExtractedItems(data.items);
-      setCreatedJob(data.job);
-      onItemsExtracted?.(data.items);
-      
-      // Invalidate jobs cache to refresh the jobs list
-      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      
+    onSuccess: (data: ImportDraft) => {
+      setDraft(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/import-drafts"] });
+
       toast({ 
-        title: "Job created successfully!", 
-        description: data.message || `Created job with ${data.items.length} items from ${data.originalFilename}` 
+        title: "Invoice read", 
+        description: `Found ${data.items.length} items in ${data.originalFilename}. Review them to create the job.`
       });
     },
     onError: (error) => {
       console.error('Upload error:', error);
       toast({ 
         title: "Upload failed", 
-        description: "Failed to process PDF file",
+        description: error.message || "Failed to process PDF file",
         variant: "destructive" 
       });
     },
   });
 
+  const extractedItems = draft?.items ?? [];
+  const doubtfulCount = extractedItems.filter(item => item.confidence != null && item.confidence < LOW_CONFIDENCE_THRESHOLD).length;
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -150,61 +142,79 @@ export default function PdfUploader({ onItemsExtracted }: PdfUploaderProps) {
         </CardContent>
       </Card>
 
-      {/* Job Created Successfully */}
-      {createdJob && (
-        <Card className="border-green-200 bg-green-50">
+      {/* Extracted Items */}
+      {draft && (
+        <Card>
           <CardContent className="p-6">
-            <div className="flex items-start space-x-3">
-              <CheckCircle className="w-6 h-6 text-green-600 mt-1" />
-              <div className="flex-1">
-                <h4 className="text-md font-semibold text-green-900 mb-2">
-                  Job Created Successfully!
-                </h4>
-                <p className="text-green-800 mb-4">
-                  Job #{createdJob.jobNumber} has been created with {extractedItems.length} items from your invoice.
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h4 className="text-md font-semibold text-slate-900">Extracted Items</h4>
+                <p className="text-xs text-slate-500 mt-1">
+                  {draft.templateName ? `Read using the ${draft.templateName} layout` : "No known layout matched, items were detected automatically"}
                 </p>
-                <div className="flex space-x-3">
-                  <Button 
-                    onClick={() => setLocation("/jobs")}
-                    className="bg-green-600 hover:bg-green-700"
-                  >
-                    View All Jobs
-                  </Button>
-                  <Button 
-                    variant="outline"
-                    onClick={() => {
-                      setExtractedItems([]);
-                      setCreatedJob(null);
-                    }}
-                  >
-                    Upload Another Invoice
-                  </Button>
-                </div>
               </div>
+              {doubtfulCount > 0 && (
+                <span className="flex items-center text-sm text-warning">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {doubtfulCount} {doubtfulCount === 1 ? "row needs" : "rows need"} review
+                </span>
+              )}
             </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Extracted Items */}
-      {extractedItems.length > 0 && !createdJob && (
-        <Card>
-          <CardContent className="p-6">
-            <h4 className="text-md font-semibold text-slate-900 mb-4">Extracted Items</h4>
             <div className="space-y-2">
-              {extractedItems.map((item, index) => (
-                <div key={index} className="flex justify-between items-center p-3 bg-slate-50 rounded-lg">
-                  <span className="font-medium">{item.name}</span>
-                  <span className="text-slate-600">Qty: {item.quantity}</span>
-                </div>
-              ))}
+              {extractedItems.map((item, index) => {
+                const doubtful = item.confidence != null && item.confidence < LOW_CONFIDENCE_THRESHOLD;
+                return (
+                  <div
+                    key={index}
+                    className={cn(
+                      "flex justify-between items-center p-3 rounded-lg",
+                      doubtful ? "bg-amber-50 border border-amber-200" : "bg-slate-50"
+                    )}
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      {doubtful && <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0" />}
+                      <span className="font-medium truncate">{item.name}</span>
+                    </div>
+                    <div className="flex items-center space-x-4 text-slate-600 flex-shrink-0 ml-4">
+                      <span>Qty: {item.quantity}</span>
+                      {item.unitPrice != null && <span>@ {item.unitPrice.toFixed(2)}</span>}
+                      {item.confidence != null && (
+                        <span className={cn("text-xs", doubtful ? "text-warning" : "text-slate-500")}>
+                          {Math.round(item.confidence * 100)}% match
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-slate-500">
+                Nothing is created until you've reviewed the items and picked the customer.
+              </p>
+              <Button onClick={() => setReviewOpen(true)}>
+                <ClipboardCheck className="w-4 h-4 mr-2" />
+                Review &amp; Create Job
+              </Button>
             </div>
-            <p className="text-sm text-slate-500 mt-4">
-              Job will be created automatically with these items.
-            </p>
           </CardContent>
         </Card>
       )}
+
+      {draft && (
+        <NewJobModal
+          open={reviewOpen}
+          onOpenChange={(open) => {
+            setReviewOpen(open);
+            // Once reviewed, the draft lives on in the drafts list if it wasn't turned into a job
+            if (!open) setDraft(null);
+          }}
+          importedItems={draft.items}
+          invoiceNumber={draft.invoiceNumber ?? undefined}
+          customerId={draft.customerId ?? undefined}
+          importDraftId={draft.id}
+        />
+      )}
     </div>
   );
-}
+}
\ No newline at end of file
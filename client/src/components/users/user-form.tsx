@@ -0,0 +1,129 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { insertUserSchema, updateUserSchema, userRoles } from "@shared/schema";
+import type { InsertUser, SafeUser, UserRole } from "@shared/schema";
+
+export const userRoleLabels: Record<UserRole, string> = {
+  owner: "Owner",
+  operator: "Operator",
+  viewer: "Viewer",
+};
+
+const userRoleDescriptions: Record<UserRole, string> = {
+  owner: "Everything, including users, settings and deleting records",
+  operator: "Runs jobs, printers, materials and customers",
+  viewer: "Can look at everything but change nothing",
+};
+
+interface UserFormProps {
+  user?: SafeUser;
+  onSuccess?: () => void;
+}
+
+export default function UserForm({ user, onSuccess }: UserFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Leaving the password empty keeps the current one
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(user ? updateUserSchema : insertUserSchema),
+    defaultValues: {
+      name: user?.name ?? "",
+      username: user?.username ?? "",
+      role: (user?.role as UserRole | undefined) ?? "operator",
+      password: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: ({ password, ...data }: InsertUser) => {
+      const body = password ? { ...data, password } : data;
+      if (user) {
+        return apiRequest("PUT", `/api/users/${user.id}`, body);
+      } else {
+        return apiRequest("POST", "/api/users", body);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: user ? "User updated successfully" : "User created successfully" });
+      onSuccess?.();
+      if (!user) {
+        form.reset();
+      }
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({
+        title: user ? "Failed to update user" : "Failed to create user",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const role = form.watch("role") ?? "operator";
+
+  return (
+    <form onSubmit={form.handleSubmit(data => mutation.mutate(data))} className="space-y-4">
+      <div>
+        <Label htmlFor="name">Name *</Label>
+        <Input id="name" {...form.register("name")} placeholder="Full name" />
+        {form.formState.errors.name && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.name.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="username">Username *</Label>
+        <Input id="username" autoComplete="off" {...form.register("username")} />
+        {form.formState.errors.username && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.username.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="password">{user ? "New password" : "Password *"}</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          {...form.register("password", { setValueAs: (value: string) => value || undefined })}
+          placeholder={user ? "Leave empty to keep the current password" : "At least 8 characters"}
+        />
+        {form.formState.errors.password && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.password.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label>Role</Label>
+        <Select value={role} onValueChange={(value) => form.setValue("role", value as UserRole, { shouldDirty: true })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {userRoles.map((userRole) => (
+              <SelectItem key={userRole} value={userRole}>{userRoleLabels[userRole]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-500 mt-1">{userRoleDescriptions[role]}</p>
+      </div>
+
+      <Button type="submit" disabled={mutation.isPending}>
+        {mutation.isPending
+          ? (user ? "Updating..." : "Creating...")
+          : (user ? "Update User" : "Create User")
+        }
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import type { SafeUser, UserRole } from "@shared/schema";
+
+export const userQueryKey = ["/api/user"];
+
+// The signed-in user, null when nobody is
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: user = null, isLoading } = useQuery<SafeUser | null>({
+    queryKey: userQueryKey,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/logout"),
+    onSuccess: () => {
+      // Nothing fetched for this user should be shown to the next one
+      queryClient.clear();
+      queryClient.setQueryData(userQueryKey, null);
+    },
+  });
+
+  const hasRole = (...roles: UserRole[]) => !!user && roles.includes(user.role as UserRole);
+
+  return { user, isLoading, hasRole, logoutMutation };
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_CURRENCY_SYMBOL } from "@shared/money";
+import type { InvoiceSettings } from "@shared/schema";
+
+// The currency symbol amounts are shown with, from the invoice settings
+export function useCurrency(): string {
+  const { data: settings } = useQuery<InvoiceSettings>({
+    queryKey: ["/api/invoice-settings"],
+  });
+  return settings?.currencySymbol ?? DEFAULT_CURRENCY_SYMBOL;
+}
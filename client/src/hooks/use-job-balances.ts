@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { JobBalance } from "@shared/schema";
+
+// Keyed under /api/jobs so whatever refreshes the jobs (new jobs, repricing, status
+// changes) refreshes their balances too
+export const jobBalancesQueryKey = ["/api/jobs", "balances"];
+
+export function useJobBalances() {
+  return useQuery<JobBalance[]>({
+    queryKey: jobBalancesQueryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/balances");
+      return res.json();
+    },
+  });
+}
@@ -0,0 +1,107 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { Customer, JobWithCustomer, LiveUpdate, Notification } from "@shared/schema";
+import { jobBalancesQueryKey } from "@/hooks/use-job-balances";
+
+const RETRY_DELAYS = [1000, 2000, 5000, 10000, 30000];
+
+// Replaces the record with the same id, or adds it first, since the lists are newest first
+function upsert<T extends { id: number }>(list: T[] | undefined, record: T): T[] | undefined {
+  if (!list) return list;
+  return list.some(existing => existing.id === record.id)
+    ? list.map(existing => existing.id === record.id ? record : existing)
+    : [record, ...list];
+}
+
+function remove<T extends { id: number }>(list: T[] | undefined, id: number): T[] | undefined {
+  return list?.filter(existing => existing.id !== id);
+}
+
+function applyUpdate(queryClient: QueryClient, update: LiveUpdate) {
+  switch (update.type) {
+    case "job":
+      queryClient.setQueryData<JobWithCustomer[]>(["/api/jobs"], jobs => upsert(jobs, update.job));
+      queryClient.invalidateQueries({ queryKey: jobBalancesQueryKey });
+      break;
+    case "jobDeleted":
+      queryClient.setQueryData<JobWithCustomer[]>(["/api/jobs"], jobs => remove(jobs, update.jobId));
+      queryClient.invalidateQueries({ queryKey: jobBalancesQueryKey });
+      break;
+    case "jobs":
+      queryClient.setQueryData(["/api/jobs"], update.jobs);
+      queryClient.invalidateQueries({ queryKey: jobBalancesQueryKey });
+      break;
+    case "customer":
+      queryClient.setQueryData<Customer[]>(["/api/customers"], customers => upsert(customers, update.customer));
+      queryClient.setQueryData<JobWithCustomer[]>(["/api/jobs"], jobs => jobs?.map(job =>
+        job.customerId === update.customer.id ? { ...job, customer: update.customer } : job
+      ));
+      break;
+    case "customerDeleted":
+      queryClient.setQueryData<Customer[]>(["/api/customers"], customers => remove(customers, update.customerId));
+      break;
+    case "notification":
+      if (update.notification.jobId !== null) {
+        queryClient.setQueryData<Notification[]>(
+          [`/api/jobs/${update.notification.jobId}/notifications`],
+          notifications => upsert(notifications, update.notification),
+        );
+      }
+      break;
+    case "stats":
+      queryClient.setQueryData(["/api/stats"], update.stats);
+      break;
+  }
+}
+
+// Keeps the cached jobs, customers, stats and job emails in step with changes made in
+// other browsers (and by automatic emails), while connected is true
+export function useLiveUpdates(connected: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!connected) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        // Whatever changed while disconnected was missed, so start from fresh data
+        if (failures > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+        }
+        failures = 0;
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          applyUpdate(queryClient, JSON.parse(event.data) as LiveUpdate);
+        } catch (error) {
+          console.error("Live update error:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        retryTimer = setTimeout(connect, RETRY_DELAYS[Math.min(failures, RETRY_DELAYS.length - 1)]);
+        failures++;
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [connected, queryClient]);
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -23,6 +23,22 @@ export async function apiRequest(
   return res;
 }
 
+// The message the API sent with a failed request, from the "<status>: <body>" error
+// apiRequest throws, with the first validation error when there is one. Undefined when
+// the body wasn't the API's JSON
+export function apiErrorMessage(error: Error): string | undefined {
+  let body: { message?: unknown; errors?: Array<{ message?: unknown }> };
+  try {
+    body = JSON.parse(error.message.replace(/^\d{3}: /, ""));
+  } catch {
+    return undefined;
+  }
+  if (typeof body?.message !== "string") return undefined;
+
+  const detail = Array.isArray(body.errors) ? body.errors[0]?.message : undefined;
+  return typeof detail === "string" ? `${body.message}: ${detail}` : body.message;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -42,6 +58,14 @@ export const getQueryFn: <T>(options: {
   };
 
 export const queryClient = new QueryClient({
+  // A request refused for want of a session means it ended, so go back to the sign-in page
+  queryCache: new QueryCache({
+    onError: (error) => {
+      if (error.message.startsWith("401:")) {
+        queryClient.setQueryData(["/api/user"], null);
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -1,6 +1,9 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 
+// The server formats amounts the same way; pass the symbol from useCurrency
+export { formatMoney } from "@shared/money";
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
@@ -47,7 +50,24 @@ export function getStatusColor(status: string): string {
     case 'paused':
       return 'bg-warning/10 text-warning';
     case 'completed':
+    case 'received':
+    case 'accepted':
       return 'bg-success/10 text-success';
+    case 'ordered':
+    case 'sent':
+      return 'bg-primary/10 text-primary';
+    case 'cancelled':
+    case 'rejected':
+    case 'failed':
+    case 'bounced':
+      return 'bg-danger/10 text-danger';
+    case 'expired':
+    case 'queued':
+      return 'bg-warning/10 text-warning';
+    case 'maintenance':
+      return 'bg-warning/10 text-warning';
+    case 'offline':
+      return 'bg-danger/10 text-danger';
     default:
       return 'bg-slate-100 text-slate-600';
   }
@@ -0,0 +1,156 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Box } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { userQueryKey } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { insertUserSchema, loginSchema } from "@shared/schema";
+import type { InsertUser, SafeUser } from "@shared/schema";
+import type { z } from "zod";
+
+type LoginData = z.infer<typeof loginSchema>;
+
+function LoginForm() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<LoginData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: LoginData) => {
+      const res = await apiRequest("POST", "/api/login", data);
+      return res.json();
+    },
+    onSuccess: (user: SafeUser) => {
+      queryClient.setQueryData(userQueryKey, user);
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to sign in", description: message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(data => mutation.mutate(data))} className="space-y-4">
+      <div>
+        <Label htmlFor="username">Username</Label>
+        <Input id="username" autoComplete="username" autoFocus {...form.register("username")} />
+        {form.formState.errors.username && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.username.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="password">Password</Label>
+        <Input id="password" type="password" autoComplete="current-password" {...form.register("password")} />
+        {form.formState.errors.password && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.password.message}</p>
+        )}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={mutation.isPending}>
+        {mutation.isPending ? "Signing in..." : "Sign In"}
+      </Button>
+    </form>
+  );
+}
+
+// Only shown before anyone has an account; whoever fills it in becomes the owner
+function SetupForm() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { name: "", username: "", password: "" },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertUser) => {
+      const res = await apiRequest("POST", "/api/register", data);
+      return res.json();
+    },
+    onSuccess: (user: SafeUser) => {
+      queryClient.setQueryData(userQueryKey, user);
+      queryClient.invalidateQueries({ queryKey: ["/api/setup"] });
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to create account", description: message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(data => mutation.mutate(data))} className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Nobody has an account yet. Create the owner account, then add everyone else from the Users page.
+      </p>
+
+      <div>
+        <Label htmlFor="name">Your name</Label>
+        <Input id="name" autoFocus {...form.register("name")} />
+        {form.formState.errors.name && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.name.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="username">Username</Label>
+        <Input id="username" autoComplete="username" {...form.register("username")} />
+        {form.formState.errors.username && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.username.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="password">Password</Label>
+        <Input id="password" type="password" autoComplete="new-password" {...form.register("password")} />
+        {form.formState.errors.password && (
+          <p className="text-sm text-destructive mt-1">{form.formState.errors.password.message}</p>
+        )}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={mutation.isPending}>
+        {mutation.isPending ? "Creating..." : "Create Owner Account"}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { data: setup, isLoading } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ["/api/setup"],
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <Box className="w-4 h-4 text-white" />
+            </div>
+            <CardTitle className="text-xl">PrintTracker</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          ) : setup?.needsSetup ? (
+            <SetupForm />
+          ) : (
+            <LoginForm />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import Header from "@/components/layout/header";
 import JobCard from "@/components/jobs/job-card";
 import NewJobModal from "@/components/jobs/new-job-modal";
 import PdfUploader from "@/components/upload/pdf-uploader";
+import ImportDrafts from "@/components/upload/import-drafts";
+import MaterialShortages from "@/components/materials/material-shortages";
+import StockAlerts from "@/components/materials/stock-alerts";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -79,6 +82,9 @@ export default function Dashboard() {
       />
 
       <main className="flex-1 overflow-auto p-6">
+        <MaterialShortages />
+        <StockAlerts />
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card>
@@ -226,7 +232,10 @@ export default function Dashboard() {
         {/* Quick Actions Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Upload Invoice */}
-          <PdfUploader />
+          <div className="space-y-6">
+            <PdfUploader />
+            <ImportDrafts />
+          </div>
 
           {/* Recent Activity */}
           <Card>
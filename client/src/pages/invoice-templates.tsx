@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import TemplateEditor from "@/components/invoice-templates/template-editor";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { FileCog, Edit, Trash2, Lock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertInvoiceTemplate, InvoiceTemplate } from "@shared/schema";
+
+export default function InvoiceTemplates() {
+  // undefined = list view, null = new template, otherwise the template being edited
+  const [editingTemplate, setEditingTemplate] = useState<InvoiceTemplate | null | undefined>(undefined);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<InvoiceTemplate[]>({
+    queryKey: ["/api/invoice-templates"],
+  });
+
+  const { data: builtInTemplates = [] } = useQuery<InsertInvoiceTemplate[]>({
+    queryKey: ["/api/invoice-templates/built-in"],
+  });
+
+  const toggleTemplateMutation = useMutation({
+    mutationFn: ({ id, createdAt, ...template }: InvoiceTemplate) =>
+      apiRequest("PUT", `/api/invoice-templates/${id}`, { ...template, enabled: !template.enabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-templates"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to update template", variant: "destructive" });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (templateId: number) =>
+      apiRequest("DELETE", `/api/invoice-templates/${templateId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-templates"] });
+      toast({ title: "Template deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete template", variant: "destructive" });
+    },
+  });
+
+  const handleDeleteTemplate = (templateId: number) => {
+    if (confirm("Are you sure you want to delete this template?")) {
+      deleteTemplateMutation.mutate(templateId);
+    }
+  };
+
+  if (editingTemplate !== undefined) {
+    return (
+      <>
+        <Header
+          title="Invoice Templates"
+          subtitle="Teach PrintTracker how to read a supplier's invoice layout"
+        />
+        <main className="flex-1 overflow-auto p-6">
+          <TemplateEditor template={editingTemplate} onDone={() => setEditingTemplate(undefined)} />
+        </main>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header
+        title="Invoice Templates"
+        subtitle="Teach PrintTracker how to read a supplier's invoice layout"
+        showNewButton
+        onNewClick={() => setEditingTemplate(null)}
+      />
+
+      <main className="flex-1 overflow-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Your Templates</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : templates.length === 0 ? (
+              <div className="text-center py-8">
+                <FileCog className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+                <p className="text-slate-600 mb-4">
+                  No custom templates yet. Add one when a supplier's invoices aren't read correctly.
+                </p>
+                <Button onClick={() => setEditingTemplate(null)}>
+                  Add Template
+                </Button>
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-200">
+                {templates.map((template) => (
+                  <div key={template.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-slate-900">{template.name}</p>
+                      <p className="text-sm text-slate-600">
+                        Priority {template.priority} • {template.columns?.length ? "Column positions" : "Regular expression"}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={template.enabled}
+                        onCheckedChange={() => toggleTemplateMutation.mutate(template)}
+                      />
+                      <Button size="sm" variant="ghost" onClick={() => setEditingTemplate(template)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDeleteTemplate(template.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Built-in Templates</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-slate-600 mb-3">
+              These are tried after your own templates, so a custom template can take over any of these layouts.
+            </p>
+            <div className="divide-y divide-slate-200">
+              {builtInTemplates.map((template) => (
+                <div key={template.name} className="flex items-center justify-between py-3">
+                  <p className="font-medium text-slate-900">{template.name}</p>
+                  <Badge variant="outline">
+                    <Lock className="w-3 h-3 mr-1" />
+                    Built-in
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </>
+  );
+}
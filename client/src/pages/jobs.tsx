@@ -5,6 +5,7 @@ import JobCard from "@/components/jobs/job-card";
 import NewJobModal from "@/components/jobs/new-job-modal";
 import { Button } from "@/components/ui/button";
 import { FileText } from "lucide-react";
+import { useJobBalances } from "@/hooks/use-job-balances";
 import type { JobWithCustomer } from "@shared/schema";
 
 export default function Jobs() {
@@ -16,8 +17,14 @@ export default function Jobs() {
     queryKey: ["/api/jobs"],
   });
 
+  const { data: balances = [] } = useJobBalances();
+  const unpaidJobIds = new Set(
+    balances.filter(balance => (balance.outstanding ?? 0) > 0.005).map(balance => balance.jobId)
+  );
+
   const filteredJobs = jobs.filter(job => {
-    const matchesStatus = statusFilter === "all" || job.status === statusFilter;
+    const matchesStatus = statusFilter === "all" ||
+      (statusFilter === "unpaid" ? unpaidJobIds.has(job.id) : job.status === statusFilter);
     const matchesSearch = searchQuery === "" || 
       job.jobNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
       job.customer.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -75,6 +82,13 @@ export default function Jobs() {
           >
             Completed ({jobs.filter(j => j.status === "completed").length})
           </Button>
+          <Button
+            size="sm"
+            variant={statusFilter === "unpaid" ? "default" : "outline"}
+            onClick={() => setStatusFilter("unpaid")}
+          >
+            Unpaid ({jobs.filter(j => unpaidJobIds.has(j.id)).length})
+          </Button>
         </div>
 
         {/* Jobs List */}
@@ -92,7 +106,9 @@ export default function Jobs() {
                 ? `No jobs match your search "${searchQuery}"`
                 : statusFilter === "all" 
                   ? "Create your first job to get started"
-                  : `No jobs with status "${statusFilter}"`
+                  : statusFilter === "unpaid"
+                    ? "Every priced job is paid up"
+                    : `No jobs with status "${statusFilter}"`
               }
             </p>
             <Button onClick={() => setNewJobModalOpen(true)}>
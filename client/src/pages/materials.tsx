@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import SpoolForm from "@/components/materials/spool-form";
+import MaterialShortages from "@/components/materials/material-shortages";
+import StockLevels from "@/components/materials/stock-levels";
+import PurchaseOrderForm from "@/components/purchasing/purchase-order-form";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Cylinder, Edit, MapPin, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatMoney } from "@/lib/utils";
+import type { PurchaseOrderLine, Spool, StockLevel } from "@shared/schema";
+
+export default function Materials() {
+  const currency = useCurrency();
+  const [newSpoolModalOpen, setNewSpoolModalOpen] = useState(false);
+  const [editingSpool, setEditingSpool] = useState<Spool | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [orderLines, setOrderLines] = useState<PurchaseOrderLine[] | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: spools = [], isLoading } = useQuery<Spool[]>({
+    queryKey: ["/api/spools"],
+  });
+
+  const deleteSpoolMutation = useMutation({
+    mutationFn: (spoolId: number) =>
+      apiRequest("DELETE", `/api/spools/${spoolId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/spools"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/material-shortages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({ title: "Spool deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete spool", variant: "destructive" });
+    },
+  });
+
+  const filteredSpools = spools.filter(spool => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return [spool.material, spool.colour, spool.brand, spool.location]
+      .some(value => value?.toLowerCase().includes(query));
+  });
+
+  // Enough 1 kg spools to get back over the reorder point, counting what is already on order
+  const handleOrder = (level: StockLevel) => {
+    const shortfall = (level.reorderThreshold ?? 0) - level.projected - level.onOrder;
+    setOrderLines([{
+      material: level.material,
+      colour: "",
+      brand: "",
+      spoolWeight: 1000,
+      quantity: Math.max(1, Math.ceil(shortfall / 1000)),
+      unitPrice: null,
+    }]);
+  };
+
+  const handleDeleteSpool = (spool: Spool) => {
+    if (confirm(`Are you sure you want to delete this ${spool.material} spool?`)) {
+      deleteSpoolMutation.mutate(spool.id);
+    }
+  };
+
+  return (
+    <>
+      <Header
+        title="Materials"
+        subtitle="Filament spools on the shelf and what's left on them"
+        showNewButton
+        onNewClick={() => setNewSpoolModalOpen(true)}
+        searchPlaceholder="Search spools..."
+        onSearch={setSearchQuery}
+      />
+
+      <main className="flex-1 overflow-auto p-6">
+        <MaterialShortages />
+        <StockLevels onOrder={handleOrder} />
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-slate-600 mt-4">Loading spools...</p>
+          </div>
+        ) : filteredSpools.length === 0 ? (
+          <div className="text-center py-12">
+            <Cylinder className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">No spools found</h3>
+            <p className="text-slate-600 mb-6">
+              {searchQuery
+                ? `No spools match your search "${searchQuery}"`
+                : "Add your filament to keep track of stock"
+              }
+            </p>
+            <Button onClick={() => setNewSpoolModalOpen(true)}>
+              Add Spool
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredSpools.map((spool) => {
+              const percent = Math.min(100, (spool.remainingWeight / spool.initialWeight) * 100);
+              return (
+                <Card key={spool.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <CardTitle className="text-lg">
+                          {spool.material}{spool.colour && ` • ${spool.colour}`}
+                        </CardTitle>
+                        <p className="text-sm text-slate-600 mt-1">
+                          {[spool.brand, `${spool.diameter} mm`].filter(Boolean).join(" • ")}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditingSpool(spool)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeleteSpool(spool)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex justify-between text-sm text-slate-600 mb-1">
+                      <span>Remaining</span>
+                      <span className={percent < 15 ? "text-danger font-medium" : ""}>
+                        {Math.round(spool.remainingWeight)} / {spool.initialWeight} g
+                      </span>
+                    </div>
+                    <Progress value={percent} className="h-2" />
+
+                    <div className="flex justify-between text-sm text-slate-600 mt-4">
+                      {spool.location ? (
+                        <span className="flex items-center">
+                          <MapPin className="w-4 h-4 mr-1" />
+                          {spool.location}
+                        </span>
+                      ) : <span />}
+                      {spool.costPerKg != null && (
+                        <span>{formatMoney(spool.costPerKg, currency)}/kg</span>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* New Spool Modal */}
+      <Dialog open={newSpoolModalOpen} onOpenChange={setNewSpoolModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Spool</DialogTitle>
+          </DialogHeader>
+          <SpoolForm onSuccess={() => setNewSpoolModalOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Purchase Order Modal */}
+      <Dialog open={!!orderLines} onOpenChange={() => setOrderLines(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+          </DialogHeader>
+          {orderLines && (
+            <PurchaseOrderForm
+              initialLines={orderLines}
+              onSuccess={() => setOrderLines(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Spool Modal */}
+      <Dialog open={!!editingSpool} onOpenChange={() => setEditingSpool(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Spool</DialogTitle>
+          </DialogHeader>
+          {editingSpool && (
+            <SpoolForm
+              spool={editingSpool}
+              onSuccess={() => setEditingSpool(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import NotificationTemplateEditor from "@/components/notifications/notification-template-editor";
+import NotificationSettingsForm from "@/components/notifications/notification-settings-form";
+import MailServerForm from "@/components/notifications/mail-server-form";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn, formatStatus } from "@/lib/utils";
+import type { NotificationType, ResolvedNotificationTemplate, SafeNotificationSettings } from "@shared/schema";
+
+export default function NotificationTemplates() {
+  const [selectedType, setSelectedType] = useState<NotificationType>("status_update");
+
+  const { data: templates = [], isLoading } = useQuery<ResolvedNotificationTemplate[]>({
+    queryKey: ["/api/notification-templates"],
+  });
+
+  const { data: settings } = useQuery<SafeNotificationSettings>({
+    queryKey: ["/api/notification-settings"],
+  });
+
+  const selected = templates.find(template => template.type === selectedType);
+
+  return (
+    <>
+      <Header
+        title="Email Templates"
+        subtitle="The wording of each email sent to customers"
+      />
+
+      <main className="flex-1 overflow-auto p-6 space-y-6">
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : (
+          <>
+            {settings && (
+              <>
+                <NotificationSettingsForm key={settings.updatedAt?.toString()} settings={settings} />
+                <MailServerForm key={`mail-${settings.updatedAt?.toString()}`} settings={settings} />
+              </>
+            )}
+
+            <Card>
+              <CardContent className="p-2 flex flex-wrap gap-2">
+                {templates.map((template) => (
+                  <button
+                    key={template.type}
+                    className={cn(
+                      "px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2",
+                      template.type === selectedType
+                        ? "bg-primary text-white"
+                        : "text-slate-600 hover:bg-slate-100"
+                    )}
+                    onClick={() => setSelectedType(template.type)}
+                  >
+                    {formatStatus(template.type)}
+                    {template.customized && <Badge variant="secondary">Custom</Badge>}
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {selected && (
+              // Remount on save/reset so the fields start from what's stored
+              <NotificationTemplateEditor key={`${selected.type}-${selected.customized}`} template={selected} />
+            )}
+          </>
+        )}
+      </main>
+    </>
+  );
+}
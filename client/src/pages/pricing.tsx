@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import PricingSettingsForm from "@/components/pricing/pricing-settings-form";
+import InvoiceSettingsForm from "@/components/pricing/invoice-settings-form";
+import type { InvoiceSettings, PricingSettings } from "@shared/schema";
+
+export default function Pricing() {
+  const { data: settings, isLoading } = useQuery<PricingSettings>({
+    queryKey: ["/api/pricing-settings"],
+  });
+
+  const { data: invoiceSettings } = useQuery<InvoiceSettings>({
+    queryKey: ["/api/invoice-settings"],
+  });
+
+  return (
+    <>
+      <Header
+        title="Pricing"
+        subtitle="The rates new jobs are priced from, and what goes on their invoices"
+      />
+
+      <main className="flex-1 overflow-auto p-6 space-y-8">
+        {isLoading || !settings ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-slate-600 mt-4">Loading rates...</p>
+          </div>
+        ) : (
+          <PricingSettingsForm key={settings.updatedAt?.toString()} settings={settings} />
+        )}
+
+        {invoiceSettings && (
+          <InvoiceSettingsForm key={invoiceSettings.updatedAt?.toString()} settings={invoiceSettings} />
+        )}
+      </main>
+    </>
+  );
+}
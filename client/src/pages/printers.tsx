@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import PrinterForm from "@/components/printers/printer-form";
+import StatusBadge from "@/components/jobs/status-badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Printer as PrinterIcon, Box, Edit, Trash2, Wifi, WifiOff } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatStatus, formatTime } from "@/lib/utils";
+import type { JobWithCustomer, PrinterTelemetry, SafePrinter } from "@shared/schema";
+
+interface AssignedWork {
+  assignmentId: number;
+  jobNumber: string;
+  itemName: string;
+  quantity: number;
+}
+
+export default function Printers() {
+  const [newPrinterModalOpen, setNewPrinterModalOpen] = useState(false);
+  const [editingPrinter, setEditingPrinter] = useState<SafePrinter | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: printers = [], isLoading } = useQuery<SafePrinter[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const { data: jobs = [] } = useQuery<JobWithCustomer[]>({
+    queryKey: ["/api/jobs"],
+  });
+
+  // Connected printers are polled on the server, pick up what they last reported
+  const { data: telemetry = [] } = useQuery<PrinterTelemetry[]>({
+    queryKey: ["/api/printers/telemetry"],
+    refetchInterval: 10000,
+  });
+
+  const deletePrinterMutation = useMutation({
+    mutationFn: (printerId: number) =>
+      apiRequest("DELETE", `/api/printers/${printerId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({ title: "Printer deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete printer", variant: "destructive" });
+    },
+  });
+
+  // Outstanding work per printer, finished items drop off the list
+  const workByPrinter = new Map<number, AssignedWork[]>();
+  for (const job of jobs) {
+    for (const item of job.items) {
+      if (item.status === 'completed') continue;
+      for (const assignment of item.assignments) {
+        workByPrinter.set(assignment.printerId, [
+          ...(workByPrinter.get(assignment.printerId) ?? []),
+          { assignmentId: assignment.id, jobNumber: job.jobNumber, itemName: item.name, quantity: assignment.quantity },
+        ]);
+      }
+    }
+  }
+
+  const filteredPrinters = printers.filter(printer => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      printer.name.toLowerCase().includes(query) ||
+      (printer.model && printer.model.toLowerCase().includes(query)) ||
+      printer.supportedMaterials.some(material => material.toLowerCase().includes(query))
+    );
+  });
+
+  const handleDeletePrinter = (printer: SafePrinter) => {
+    const assigned = workByPrinter.get(printer.id)?.length ?? 0;
+    const warning = assigned > 0 ? ` Its ${assigned} assigned item(s) will become unassigned.` : "";
+    if (confirm(`Are you sure you want to delete ${printer.name}?${warning}`)) {
+      deletePrinterMutation.mutate(printer.id);
+    }
+  };
+
+  return (
+    <>
+      <Header
+        title="Printers"
+        subtitle="Manage your printer fleet and see what runs where"
+        showNewButton
+        onNewClick={() => setNewPrinterModalOpen(true)}
+        searchPlaceholder="Search printers..."
+        onSearch={setSearchQuery}
+      />
+
+      <main className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-slate-600 mt-4">Loading printers...</p>
+          </div>
+        ) : filteredPrinters.length === 0 ? (
+          <div className="text-center py-12">
+            <PrinterIcon className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">No printers found</h3>
+            <p className="text-slate-600 mb-6">
+              {searchQuery
+                ? `No printers match your search "${searchQuery}"`
+                : "Add your first printer to start assigning work"
+              }
+            </p>
+            <Button onClick={() => setNewPrinterModalOpen(true)}>
+              Add Printer
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredPrinters.map((printer) => {
+              const work = workByPrinter.get(printer.id) ?? [];
+              const live = telemetry.find(entry => entry.printerId === printer.id);
+              return (
+                <Card key={printer.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2">
+                          <CardTitle className="text-lg">{printer.name}</CardTitle>
+                          <StatusBadge status={printer.status} />
+                        </div>
+                        {printer.model && (
+                          <p className="text-sm text-slate-600 mt-1">{printer.model}</p>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditingPrinter(printer)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeletePrinter(printer)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <div className="flex items-center space-x-2 text-sm text-slate-600">
+                        <Box className="w-4 h-4" />
+                        <span>
+                          {printer.buildVolumeX} × {printer.buildVolumeY} × {printer.buildVolumeZ} mm • {printer.nozzleSize} mm nozzle
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {printer.supportedMaterials.length === 0 ? (
+                          <Badge variant="outline">Any material</Badge>
+                        ) : (
+                          printer.supportedMaterials.map((material) => (
+                            <Badge key={material} variant="outline">{material}</Badge>
+                          ))
+                        )}
+                      </div>
+                    </div>
+
+                    {printer.connectorType && (
+                      <div className="border border-slate-200 rounded-lg p-3 mt-4 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="flex items-center font-medium text-slate-700">
+                            {live?.state === "offline" ? (
+                              <WifiOff className="w-4 h-4 mr-2 text-danger" />
+                            ) : (
+                              <Wifi className="w-4 h-4 mr-2 text-success" />
+                            )}
+                            {live ? formatStatus(live.state) : "Connecting..."}
+                          </span>
+                          {live?.timeRemaining != null && (
+                            <span className="text-slate-500">{formatTime(live.timeRemaining)} left</span>
+                          )}
+                        </div>
+                        {live?.fileName && (
+                          <p className="text-slate-600 truncate mt-1">{live.fileName}</p>
+                        )}
+                        {live?.progress != null && (live.state === "printing" || live.state === "paused") && (
+                          <Progress value={live.progress} className="h-2 mt-2" />
+                        )}
+                        {live?.error && (
+                          <p className="text-xs text-danger mt-1">{live.error}</p>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="bg-slate-50 rounded-lg p-3 mt-4">
+                      <h5 className="text-sm font-medium text-slate-700 mb-2">Assigned Work:</h5>
+                      {work.length === 0 ? (
+                        <p className="text-sm text-slate-500">Nothing assigned</p>
+                      ) : (
+                        <div className="space-y-1 text-sm text-slate-600">
+                          {work.map((entry) => (
+                            <div key={entry.assignmentId} className="flex justify-between">
+                              <span className="truncate mr-2">#{entry.jobNumber} • {entry.itemName}</span>
+                              <span className="flex-shrink-0">×{entry.quantity}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* New Printer Modal */}
+      <Dialog open={newPrinterModalOpen} onOpenChange={setNewPrinterModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add New Printer</DialogTitle>
+          </DialogHeader>
+          <PrinterForm onSuccess={() => setNewPrinterModalOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Printer Modal */}
+      <Dialog open={!!editingPrinter} onOpenChange={() => setEditingPrinter(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Printer</DialogTitle>
+          </DialogHeader>
+          {editingPrinter && (
+            <PrinterForm
+              printer={editingPrinter}
+              onSuccess={() => setEditingPrinter(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
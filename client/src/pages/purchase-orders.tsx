@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import PurchaseOrderForm from "@/components/purchasing/purchase-order-form";
+import StatusBadge from "@/components/jobs/status-badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Calendar, Edit, PackageCheck, Send, ShoppingCart, Trash2, XCircle } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { cn, formatMoney } from "@/lib/utils";
+import type { PurchaseOrder } from "@shared/schema";
+
+function orderTotal(order: PurchaseOrder): number | null {
+  const priced = order.lines.filter(line => line.unitPrice != null);
+  if (priced.length === 0) return null;
+  return priced.reduce((sum, line) => sum + (line.unitPrice ?? 0) * line.quantity, 0);
+}
+
+export default function PurchaseOrders() {
+  const currency = useCurrency();
+  const [newOrderModalOpen, setNewOrderModalOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: orders = [], isLoading } = useQuery<PurchaseOrder[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-alerts"] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: ({ orderId, status }: { orderId: number; status: string }) =>
+      apiRequest("PUT", `/api/purchase-orders/${orderId}`, { status }),
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Purchase order updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update purchase order", variant: "destructive" });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: (orderId: number) =>
+      apiRequest("POST", `/api/purchase-orders/${orderId}/receive`),
+    onSuccess: () => {
+      invalidateStock();
+      queryClient.invalidateQueries({ queryKey: ["/api/spools"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/material-shortages"] });
+      toast({ title: "Delivery received, spools added to stock" });
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to receive purchase order", description: message, variant: "destructive" });
+    },
+  });
+
+  const deleteOrderMutation = useMutation({
+    mutationFn: (orderId: number) =>
+      apiRequest("DELETE", `/api/purchase-orders/${orderId}`),
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Purchase order deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete purchase order", variant: "destructive" });
+    },
+  });
+
+  const filteredOrders = orders.filter(order => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return order.orderNumber.toLowerCase().includes(query) ||
+      order.supplier.toLowerCase().includes(query) ||
+      order.lines.some(line => line.material.toLowerCase().includes(query));
+  });
+
+  const handleReceive = (order: PurchaseOrder) => {
+    const spoolCount = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+    if (confirm(`Receive ${order.orderNumber}? This adds ${spoolCount} ${spoolCount === 1 ? "spool" : "spools"} to stock.`)) {
+      receiveMutation.mutate(order.id);
+    }
+  };
+
+  const handleDeleteOrder = (order: PurchaseOrder) => {
+    if (confirm(`Are you sure you want to delete ${order.orderNumber}?`)) {
+      deleteOrderMutation.mutate(order.id);
+    }
+  };
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return (
+    <>
+      <Header
+        title="Purchase Orders"
+        subtitle="Filament on order and deliveries to book in"
+        showNewButton
+        onNewClick={() => setNewOrderModalOpen(true)}
+        searchPlaceholder="Search orders..."
+        onSearch={setSearchQuery}
+      />
+
+      <main className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-slate-600 mt-4">Loading purchase orders...</p>
+          </div>
+        ) : filteredOrders.length === 0 ? (
+          <div className="text-center py-12">
+            <ShoppingCart className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">No purchase orders found</h3>
+            <p className="text-slate-600 mb-6">
+              {searchQuery
+                ? `No purchase orders match your search "${searchQuery}"`
+                : "Order filament here and receive it straight into stock"
+              }
+            </p>
+            <Button onClick={() => setNewOrderModalOpen(true)}>
+              New Purchase Order
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {filteredOrders.map((order) => {
+              const open = order.status === "draft" || order.status === "ordered";
+              const overdue = order.status === "ordered" && order.expectedDate && new Date(order.expectedDate) < today;
+              const total = orderTotal(order);
+
+              return (
+                <Card key={order.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <CardTitle className="text-lg">{order.orderNumber}</CardTitle>
+                          <StatusBadge status={order.status} />
+                        </div>
+                        <p className="text-sm text-slate-600 mt-1">{order.supplier}</p>
+                      </div>
+                      {open && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setEditingOrder(order)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeleteOrder(order)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-1 text-sm">
+                      {order.lines.map((line, index) => (
+                        <li key={index} className="flex justify-between">
+                          <span>
+                            {line.quantity} × {line.spoolWeight} g {line.material}
+                            {line.colour && ` ${line.colour}`}
+                            {line.brand && <span className="text-slate-500"> ({line.brand})</span>}
+                          </span>
+                          {line.unitPrice != null && (
+                            <span className="text-slate-600">{formatMoney(line.unitPrice * line.quantity, currency)}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {total !== null && (
+                      <p className="text-sm font-medium text-right border-t border-slate-100 mt-2 pt-2">
+                        {formatMoney(total, currency)}
+                      </p>
+                    )}
+                    {order.notes && <p className="text-sm text-slate-500 mt-2">{order.notes}</p>}
+
+                    <div className="flex items-center justify-between mt-4">
+                      <span className={cn("flex items-center text-sm text-slate-600", overdue && "text-danger")}>
+                        <Calendar className="w-4 h-4 mr-1" />
+                        {order.status === "received" && order.receivedAt
+                          ? `Received ${new Date(order.receivedAt).toLocaleDateString()}`
+                          : order.expectedDate
+                            ? `Expected ${new Date(order.expectedDate).toLocaleDateString()}`
+                            : "No delivery date"}
+                      </span>
+                      {open && (
+                        <div className="flex gap-2">
+                          {order.status === "draft" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => statusMutation.mutate({ orderId: order.id, status: "ordered" })}
+                            >
+                              <Send className="w-4 h-4 mr-1" />
+                              Mark Ordered
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => statusMutation.mutate({ orderId: order.id, status: "cancelled" })}
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleReceive(order)}
+                            disabled={receiveMutation.isPending}
+                          >
+                            <PackageCheck className="w-4 h-4 mr-1" />
+                            Receive
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* New Purchase Order Modal */}
+      <Dialog open={newOrderModalOpen} onOpenChange={setNewOrderModalOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+          </DialogHeader>
+          {newOrderModalOpen && (
+            <PurchaseOrderForm onSuccess={() => setNewOrderModalOpen(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Purchase Order Modal */}
+      <Dialog open={!!editingOrder} onOpenChange={() => setEditingOrder(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Edit {editingOrder?.orderNumber}</DialogTitle>
+          </DialogHeader>
+          {editingOrder && (
+            <PurchaseOrderForm
+              order={editingOrder}
+              onSuccess={() => setEditingOrder(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
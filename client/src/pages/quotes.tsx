@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import QuoteForm from "@/components/quotes/quote-form";
+import QuoteHistory from "@/components/quotes/quote-history";
+import StatusBadge from "@/components/jobs/status-badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Calendar, CheckCircle, ClipboardList, Edit, History, Mail, Send, Trash2, XCircle } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { cn, formatMoney } from "@/lib/utils";
+import type { JobWithCustomer, Notification, Quote, QuoteWithCustomer } from "@shared/schema";
+
+export default function Quotes() {
+  const currency = useCurrency();
+  const [newQuoteModalOpen, setNewQuoteModalOpen] = useState(false);
+  const [editingQuote, setEditingQuote] = useState<Quote | null>(null);
+  const [historyQuote, setHistoryQuote] = useState<Quote | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quotes = [], isLoading } = useQuery<QuoteWithCustomer[]>({
+    queryKey: ["/api/quotes"],
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ quoteId, status }: { quoteId: number; status: string }) =>
+      apiRequest("PUT", `/api/quotes/${quoteId}`, { status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Quote updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update quote", variant: "destructive" });
+    },
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: async (quoteId: number) => {
+      const res = await apiRequest("POST", `/api/quotes/${quoteId}/send`, {});
+      return res.json();
+    },
+    onSuccess: ({ message, notification }: { message: string; notification: Notification }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      if (notification.status === "sent") {
+        toast({ title: `Quote emailed to ${notification.recipientEmail}` });
+      } else {
+        toast({ title: "Quote email queued", description: message });
+      }
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to email quote", description: message, variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (quoteId: number): Promise<JobWithCustomer> => {
+      const res = await apiRequest("POST", `/api/quotes/${quoteId}/accept`);
+      return res.json();
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({ title: `Quote accepted, created job ${job.jobNumber}` });
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to accept quote", description: message, variant: "destructive" });
+    },
+  });
+
+  const deleteQuoteMutation = useMutation({
+    mutationFn: (quoteId: number) =>
+      apiRequest("DELETE", `/api/quotes/${quoteId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Quote deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete quote", variant: "destructive" });
+    },
+  });
+
+  const filteredQuotes = quotes.filter(quote => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return quote.quoteNumber.toLowerCase().includes(query) ||
+      quote.customer.name.toLowerCase().includes(query) ||
+      quote.items.some(item => item.name.toLowerCase().includes(query));
+  });
+
+  const handleAccept = (quote: QuoteWithCustomer) => {
+    if (confirm(`Accept ${quote.quoteNumber}? This creates a job for ${quote.customer.name} at the quoted prices.`)) {
+      acceptMutation.mutate(quote.id);
+    }
+  };
+
+  const handleDeleteQuote = (quote: QuoteWithCustomer) => {
+    if (confirm(`Are you sure you want to delete ${quote.quoteNumber}?`)) {
+      deleteQuoteMutation.mutate(quote.id);
+    }
+  };
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return (
+    <>
+      <Header
+        title="Quotes"
+        subtitle="Prices offered before a customer commits"
+        showNewButton
+        onNewClick={() => setNewQuoteModalOpen(true)}
+        searchPlaceholder="Search quotes..."
+        onSearch={setSearchQuery}
+      />
+
+      <main className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-slate-600 mt-4">Loading quotes...</p>
+          </div>
+        ) : filteredQuotes.length === 0 ? (
+          <div className="text-center py-12">
+            <ClipboardList className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">No quotes found</h3>
+            <p className="text-slate-600 mb-6">
+              {searchQuery
+                ? `No quotes match your search "${searchQuery}"`
+                : "Quote a customer here and turn it into a job once they accept"
+              }
+            </p>
+            <Button onClick={() => setNewQuoteModalOpen(true)}>
+              New Quote
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {filteredQuotes.map((quote) => {
+              const open = quote.status === "draft" || quote.status === "sent" || quote.status === "expired";
+              const lapsed = open && quote.validUntil && new Date(quote.validUntil) < today;
+
+              return (
+                <Card key={quote.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <CardTitle className="text-lg">{quote.quoteNumber}</CardTitle>
+                          <StatusBadge status={quote.status} />
+                          {quote.revision > 1 && (
+                            <span className="text-xs text-slate-500">Rev {quote.revision}</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-slate-600 mt-1">{quote.customer.name}</p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setHistoryQuote(quote)}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                      {quote.status !== "accepted" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setEditingQuote(quote)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeleteQuote(quote)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-1 text-sm">
+                      {quote.items.map((item, index) => (
+                        <li key={index} className="flex justify-between">
+                          <span>
+                            {item.name} × {item.quantity}
+                            {item.material && <span className="text-slate-500"> ({item.material})</span>}
+                          </span>
+                          {item.totalPrice != null && (
+                            <span className="text-slate-600">{formatMoney(item.totalPrice, currency)}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {quote.total != null && (
+                      <p className="text-sm font-medium text-right border-t border-slate-100 mt-2 pt-2">
+                        {formatMoney(quote.total, currency)}
+                      </p>
+                    )}
+                    {quote.notes && <p className="text-sm text-slate-500 mt-2">{quote.notes}</p>}
+
+                    <div className="flex items-center justify-between mt-4">
+                      <span className={cn("flex items-center text-sm text-slate-600", lapsed && "text-danger")}>
+                        <Calendar className="w-4 h-4 mr-1" />
+                        {quote.validUntil
+                          ? `Valid until ${new Date(quote.validUntil).toLocaleDateString()}`
+                          : "No expiry"}
+                      </span>
+                      {open && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => emailMutation.mutate(quote.id)}
+                            disabled={emailMutation.isPending || !!lapsed || quote.status === "expired"}
+                          >
+                            <Mail className="w-4 h-4 mr-1" />
+                            Email
+                          </Button>
+                          {quote.status === "draft" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => statusMutation.mutate({ quoteId: quote.id, status: "sent" })}
+                            >
+                              <Send className="w-4 h-4 mr-1" />
+                              Mark Sent
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => statusMutation.mutate({ quoteId: quote.id, status: "rejected" })}
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleAccept(quote)}
+                            disabled={acceptMutation.isPending || !!lapsed || quote.status === "expired"}
+                          >
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Accept
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* New Quote Modal */}
+      <Dialog open={newQuoteModalOpen} onOpenChange={setNewQuoteModalOpen}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>New Quote</DialogTitle>
+          </DialogHeader>
+          {newQuoteModalOpen && (
+            <QuoteForm onSuccess={() => setNewQuoteModalOpen(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Quote Modal */}
+      <Dialog open={!!editingQuote} onOpenChange={() => setEditingQuote(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Revise {editingQuote?.quoteNumber}</DialogTitle>
+          </DialogHeader>
+          {editingQuote && (
+            <QuoteForm
+              quote={editingQuote}
+              onSuccess={() => setEditingQuote(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Quote History Modal */}
+      <Dialog open={!!historyQuote} onOpenChange={() => setHistoryQuote(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{historyQuote?.quoteNumber} history</DialogTitle>
+          </DialogHeader>
+          {historyQuote && <QuoteHistory quote={historyQuote} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
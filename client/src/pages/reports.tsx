@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,10 +11,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Calendar, Clock, User, Package, AlertCircle, CheckCircle, Mail } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
 import { formatTime } from "@/lib/utils";
 import StatusBadge from "@/components/jobs/status-badge";
-import type { JobWithCustomer } from "@shared/schema";
+import AgedReceivables from "@/components/reports/aged-receivables";
+import Turnaround from "@/components/reports/turnaround";
+import type { JobWithCustomer, Notification, RenderedNotification, ResolvedNotificationTemplate } from "@shared/schema";
 
 export default function Reports() {
   const { toast } = useToast();
@@ -23,10 +25,36 @@ export default function Reports() {
   const [updateMessage, setUpdateMessage] = useState("");
   const [estimatedCompletion, setEstimatedCompletion] = useState("");
 
+  // Lags the message box a little so the preview isn't rendered on every keystroke
+  const [previewNote, setPreviewNote] = useState("");
+
   const { data: jobs = [], isLoading } = useQuery<JobWithCustomer[]>({
     queryKey: ["/api/jobs"],
   });
 
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewNote(updateMessage), 400);
+    return () => clearTimeout(timer);
+  }, [updateMessage]);
+
+  const { data: templates = [] } = useQuery<ResolvedNotificationTemplate[]>({
+    queryKey: ["/api/notification-templates"],
+  });
+  const statusTemplate = templates.find(template => template.type === "status_update");
+
+  const { data: preview } = useQuery<RenderedNotification>({
+    queryKey: ["/api/notification-templates/preview", selectedJob?.id, previewNote, statusTemplate],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/notification-templates/preview", {
+        ...statusTemplate,
+        jobId: selectedJob!.id,
+        note: previewNote,
+      });
+      return res.json();
+    },
+    enabled: !!selectedJob && !!statusTemplate,
+  });
+
   const updateJobMutation = useMutation({
     mutationFn: (data: { jobId: number; progress?: number; status?: string; estimatedCompletion?: string }) =>
       apiRequest("PUT", `/api/jobs/${data.jobId}`, {
@@ -44,14 +72,22 @@ export default function Reports() {
   });
 
   const notifyCustomerMutation = useMutation({
-    mutationFn: (message: string) =>
-      apiRequest("POST", `/api/jobs/${selectedJob?.id}/notify`, { message }),
-    onSuccess: () => {
-      toast({ title: "Customer notification sent successfully" });
+    mutationFn: async (note: string) => {
+      const res = await apiRequest("POST", `/api/jobs/${selectedJob?.id}/notify`, { type: "status_update", note });
+      return res.json();
+    },
+    onSuccess: ({ message, notification }: { message: string; notification: Notification }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${notification.jobId}/notifications`] });
+      if (notification.status === "sent") {
+        toast({ title: "Customer notification sent successfully" });
+      } else {
+        toast({ title: "Notification queued", description: message });
+      }
       setUpdateMessage("");
     },
-    onError: () => {
-      toast({ title: "Failed to send notification", variant: "destructive" });
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to send notification", description: message, variant: "destructive" });
     },
   });
 
@@ -105,25 +141,7 @@ export default function Reports() {
 
   const sendCustomerUpdate = () => {
     if (!selectedJob) return;
-
-    const progress = calculateProgress(selectedJob);
-    const estimatedCompletion = getEstimatedCompletionDate(selectedJob);
-
-    const defaultMessage = `Hello! Here's an update on your print job ${selectedJob.jobNumber}:
-
-Status: ${selectedJob.status.replace('_', ' ').toUpperCase()}
-Progress: ${progress}% complete
-Estimated Completion: ${estimatedCompletion}
-
-${selectedJob.items.map(item => 
-  `• ${item.name} (Qty: ${item.quantity})${item.material ? ` - ${item.material}` : ''}`
-).join('\n')}
-
-${updateMessage ? '\nAdditional notes: ' + updateMessage : ''}
-
-Thank you for your business!`;
-
-    notifyCustomerMutation.mutate(defaultMessage);
+    notifyCustomerMutation.mutate(updateMessage);
   };
 
   if (isLoading) {
@@ -140,6 +158,10 @@ Thank you for your business!`;
         <h1 className="text-3xl font-bold text-slate-900">Job Reports & Customer Updates</h1>
       </div>
 
+      <AgedReceivables />
+
+      <Turnaround />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Jobs List */}
         <div className="space-y-4">
@@ -325,10 +347,11 @@ Thank you for your business!`;
 
                   <div className="p-4 bg-blue-50 rounded-lg">
                     <h4 className="font-medium text-blue-900 mb-2">Preview of customer notification:</h4>
+                    {preview && (
+                      <p className="text-sm font-medium text-blue-900 mb-2">{preview.subject}</p>
+                    )}
                     <div className="text-sm text-blue-800 whitespace-pre-line">
-                      {`Status: ${selectedJob.status.replace('_', ' ').toUpperCase()}
-Progress: ${calculateProgress(selectedJob)}% complete
-Estimated Completion: ${getEstimatedCompletionDate(selectedJob)}`}
+                      {preview?.text ?? "Rendering..."}
                     </div>
                   </div>
 
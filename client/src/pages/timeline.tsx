@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import GanttChart from "@/components/timeline/gantt-chart";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CalendarClock } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Schedule, ScheduledPrint } from "@shared/schema";
+
+const ZOOM_LEVELS = [
+  { label: "Hours", pxPerHour: 60 },
+  { label: "Day", pxPerHour: 30 },
+  { label: "Week", pxPerHour: 8 },
+];
+
+export default function Timeline() {
+  const [pxPerHour, setPxPerHour] = useState(30);
+  const [searchQuery, setSearchQuery] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedule, isLoading } = useQuery<Schedule>({
+    queryKey: ["/api/schedule"],
+  });
+
+  // Dropping a block pins it: an assigned block moves with its assignment, an
+  // unassigned one gets a new assignment for the copies in the block
+  const moveMutation = useMutation({
+    mutationFn: ({ print, printerId, startAfter }: { print: ScheduledPrint; printerId: number; startAfter: Date }) => {
+      if (print.assignmentId) {
+        return apiRequest("PUT", `/api/printer-assignments/${print.assignmentId}`, { printerId, startAfter });
+      }
+      return apiRequest("POST", `/api/job-items/${print.jobItemId}/assignments`, {
+        printerId,
+        quantity: print.quantity,
+        startAfter,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      // apiRequest errors read "400: {json}", show the server's explanation
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to reschedule print", description: message, variant: "destructive" });
+    },
+  });
+
+  const query = searchQuery.toLowerCase();
+  const filteredSchedule = schedule && query ? {
+    ...schedule,
+    queues: schedule.queues.map(queue => ({
+      ...queue,
+      prints: queue.prints.filter(print =>
+        print.jobNumber.toLowerCase().includes(query) ||
+        print.itemName.toLowerCase().includes(query) ||
+        print.customerName.toLowerCase().includes(query)
+      ),
+    })),
+  } : schedule;
+
+  return (
+    <>
+      <Header
+        title="Timeline"
+        subtitle="Drag prints to another time or printer to reschedule them"
+        searchPlaceholder="Search prints..."
+        onSearch={setSearchQuery}
+      />
+
+      <main className="flex-1 overflow-auto p-6 space-y-6">
+        {isLoading || !filteredSchedule ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-slate-600 mt-4">Loading schedule...</p>
+          </div>
+        ) : filteredSchedule.queues.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarClock className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">No printers yet</h3>
+            <p className="text-slate-600">Add printers on the Printers page to see the production schedule</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-end space-x-2">
+              <Label>Zoom</Label>
+              <Select value={pxPerHour.toString()} onValueChange={(value) => setPxPerHour(parseInt(value))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ZOOM_LEVELS.map((level) => (
+                    <SelectItem key={level.label} value={level.pxPerHour.toString()}>{level.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <GanttChart
+              schedule={filteredSchedule}
+              pxPerHour={pxPerHour}
+              onMove={(print, printerId, startAfter) => moveMutation.mutate({ print, printerId, startAfter })}
+            />
+
+            {filteredSchedule.unscheduled.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center text-base">
+                    <AlertCircle className="w-5 h-5 mr-2 text-amber-500" />
+                    Not on the timeline
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 text-sm">
+                    {filteredSchedule.unscheduled.map((item) => (
+                      <div key={`${item.jobItemId}-${item.reason}`} className="flex justify-between p-2 bg-slate-50 rounded-lg">
+                        <span className="text-slate-700">#{item.jobNumber} • {item.itemName} ×{item.quantity}</span>
+                        <span className="text-slate-500">{item.reason}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </>
+  );
+}
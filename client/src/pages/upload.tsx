@@ -1,33 +1,10 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
 import Header from "@/components/layout/header";
 import PdfUploader from "@/components/upload/pdf-uploader";
-import NewJobModal from "@/components/jobs/new-job-modal";
+import ImportDrafts from "@/components/upload/import-drafts";
 import { Card, CardContent } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
 import { FileText, ArrowRight } from "lucide-react";
 
-interface ExtractedItem {
-  name: string;
-  quantity: number;
-}
-
 export default function Upload() {
-  const [, setLocation] = useLocation();
-  const [extractedItems, setExtractedItems] = useState<ExtractedItem[]>([]);
-  const [newJobModalOpen, setNewJobModalOpen] = useState(false);
-  const [invoiceNumber, setInvoiceNumber] = useState<string | null>(null); // Add state for invoice number
-
-  const handleItemsExtracted = (items: ExtractedItem[], invoiceNumber: string | null) => {
-    setExtractedItems(items);
-    setInvoiceNumber(invoiceNumber); // Set invoice number
-  };
-
-  const handleCreateJobFromPDF = () => {
-    // This would ideally pre-populate the job form with extracted items
-    setNewJobModalOpen(true);
-  };
-
   return (
     <>
       <Header
@@ -74,31 +51,10 @@ export default function Upload() {
           </Card>
 
           {/* PDF Uploader */}
-          <PdfUploader onItemsExtracted={handleItemsExtracted} />
+          <PdfUploader />
 
-          {/* Action Buttons */}
-          {extractedItems.length > 0 && (
-            <Card>
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h4 className="font-semibold text-slate-900">Next Steps</h4>
-                    <p className="text-sm text-slate-600 mt-1">
-                      Ready to create a job with {extractedItems.length} extracted items
-                    </p>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <Button variant="outline" onClick={() => setLocation("/jobs")}>
-                      View All Jobs
-                    </Button>
-                    <Button onClick={handleCreateJobFromPDF}>
-                      Create Job from PDF
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {/* Unfinished imports */}
+          <ImportDrafts />
 
           {/* Tips */}
           <Card>
@@ -126,19 +82,6 @@ export default function Upload() {
           </Card>
         </div>
       </main>
-
-      <NewJobModal 
-        open={newJobModalOpen} 
-        onOpenChange={setNewJobModalOpen}
-        importedItems={extractedItems.length > 0 ? extractedItems.map(item => ({
-          name: item.name,
-          quantity: item.quantity,
-          estimatedTimePerItem: "",
-          material: "",
-          notes: ""
-        })) : undefined}
-        invoiceNumber={invoiceNumber}
-      />
     </>
   );
 }
\ No newline at end of file
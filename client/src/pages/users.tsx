@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import UserForm, { userRoleLabels } from "@/components/users/user-form";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Edit, Trash2, UserCircle } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { SafeUser, UserRole } from "@shared/schema";
+
+export default function Users() {
+  const [newUserModalOpen, setNewUserModalOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<SafeUser | null>(null);
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users = [], isLoading } = useQuery<SafeUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest("DELETE", `/api/users/${userId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "User deleted successfully" });
+    },
+    onError: (error: Error) => {
+      const message = apiErrorMessage(error);
+      toast({ title: "Failed to delete user", description: message, variant: "destructive" });
+    },
+  });
+
+  const handleDeleteUser = (user: SafeUser) => {
+    if (confirm(`Delete ${user.name}'s account? They will be signed out.`)) {
+      deleteUserMutation.mutate(user.id);
+    }
+  };
+
+  return (
+    <>
+      <Header
+        title="Users"
+        subtitle="Who can sign in and what they can change"
+        showNewButton
+        onNewClick={() => setNewUserModalOpen(true)}
+      />
+
+      <main className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-0 divide-y divide-slate-200">
+              {users.map((user) => (
+                <div key={user.id} className="flex items-center justify-between p-4">
+                  <div className="flex items-center space-x-3">
+                    <UserCircle className="w-8 h-8 text-slate-400" />
+                    <div>
+                      <p className="font-medium text-slate-900">
+                        {user.name}
+                        {user.id === currentUser?.id && <span className="text-slate-500 font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-sm text-slate-500">{user.username}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={user.role === "owner" ? "default" : "outline"}>
+                      {userRoleLabels[user.role as UserRole] ?? user.role}
+                    </Badge>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingUser(user)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={user.id === currentUser?.id}
+                      onClick={() => handleDeleteUser(user)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      {/* New User Modal */}
+      <Dialog open={newUserModalOpen} onOpenChange={setNewUserModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+          </DialogHeader>
+          <UserForm onSuccess={() => setNewUserModalOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit User Modal */}
+      <Dialog open={!!editingUser} onOpenChange={() => setEditingUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit User</DialogTitle>
+          </DialogHeader>
+          {editingUser && (
+            <UserForm user={editingUser} onSuccess={() => setEditingUser(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { AuditChanges } from "@shared/schema";
+
+export type AuditActor = {
+  userId: number | null;
+  userName: string;
+};
+
+const SYSTEM_ACTOR: AuditActor = { userId: null, userName: "System" };
+
+const actorContext = new AsyncLocalStorage<AuditActor>();
+
+// Whoever the current request is signed in as; background work (polling, retries,
+// automatic emails) is the system
+export function currentActor(): AuditActor {
+  return actorContext.getStore() ?? SYSTEM_ACTOR;
+}
+
+// Everything fn starts, including storage writes it awaits, is attributed to actor
+export function runAsActor<T>(actor: AuditActor, fn: () => T): T {
+  return actorContext.run(actor, fn);
+}
+
+// For work a request sets off that carries on after it, so it isn't credited to that user
+export function runAsSystem<T>(fn: () => T): T {
+  return actorContext.exit(fn);
+}
+
+// Dates and JSON columns are compared by value
+function comparable(value: unknown): string {
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value ?? null);
+}
+
+// The fields that differ between two versions of a record. A missing before is a create,
+// a missing after a delete
+export function diffRecords(before: object | undefined, after: object | undefined): AuditChanges {
+  const changes: AuditChanges = {};
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+
+  for (const field of Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]))) {
+    if (field === "id") continue;
+    const previous = before ? beforeFields[field] ?? null : null;
+    const next = after ? afterFields[field] ?? null : null;
+    if (comparable(previous) !== comparable(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,241 @@
+import type { Express, Request, Response, RequestHandler } from "express";
+import { ServerResponse, type IncomingMessage } from "http";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { runAsActor } from "./audit";
+import { insertUserSchema, loginSchema, type SafeUser, type User, type UserRole } from "@shared/schema";
+import { z } from "zod";
+
+declare global {
+  namespace Express {
+    interface User extends SafeUser {}
+  }
+}
+
+// Where passport keeps the signed-in user's id
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+// Kept for requests that don't go through Express, such as WebSocket upgrades
+let sessionMiddleware: RequestHandler | null = null;
+let sessions: session.Store | null = null;
+
+// Who a connection outside Express (a WebSocket) was opened by, and on which session
+export type SignedInSession = {
+  sessionId: string;
+  user: SafeUser;
+};
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const supplied = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, supplied);
+}
+
+export function toSafeUser({ passwordHash, ...user }: User): SafeUser {
+  return user;
+}
+
+// Sessions live next to the data: in Postgres when there is one, otherwise in memory
+function sessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPg(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  console.warn("SESSION_SECRET is not set, everyone will be signed out when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not signed in" });
+  }
+  next();
+};
+
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.user || !roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+    next();
+  };
+}
+
+// Requests that change nothing even though they're POSTs, open to viewers too
+const READ_ONLY_POSTS = new Set(["/pricing/quote", "/notification-templates/preview"]);
+
+// Viewers can look at everything but change nothing
+const requireWriteAccess: RequestHandler = (req, res, next) => {
+  if (req.method === "GET" || READ_ONLY_POSTS.has(req.path)) return next();
+  requireRole("owner", "operator")(req, res, next);
+};
+
+// The session the request's cookie belongs to, if someone is signed in on it. The
+// response is never sent, express-session only sets a cookie on it
+export async function signedInSession(req: IncomingMessage): Promise<SignedInSession | undefined> {
+  if (!sessionMiddleware) return undefined;
+  const parse = sessionMiddleware;
+  await new Promise<void>(resolve => parse(req as Request, new ServerResponse(req) as Response, () => resolve()));
+
+  const { session: data, sessionID } = req as Request;
+  const userId = data?.passport?.user;
+  const user = typeof userId === "number" ? await storage.getUser(userId) : undefined;
+  return user ? { sessionId: sessionID, user: toSafeUser(user) } : undefined;
+}
+
+// False once the session is signed out or expired, or its user is deleted or given
+// another role, so long-lived connections opened on it can be closed
+export async function isStillSignedIn({ sessionId, user }: SignedInSession): Promise<boolean> {
+  if (!sessions) return false;
+  const store = sessions;
+  const data = await new Promise<session.SessionData | null | undefined>((resolve, reject) =>
+    store.get(sessionId, (error, data) => error ? reject(error) : resolve(data)));
+  if (data?.passport?.user !== user.id) return false;
+
+  const current = await storage.getUser(user.id);
+  return current?.role === user.role;
+}
+
+function logIn(req: Request, user: SafeUser): Promise<void> {
+  return new Promise((resolve, reject) => req.login(user, error => error ? reject(error) : resolve()));
+}
+
+// Sessions, the sign-in routes, and the checks every other /api route goes through.
+// Call before registering the API routes
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  sessions = sessionStore();
+  sessionMiddleware = session({
+    store: sessions,
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: { httpOnly: true, sameSite: "lax", secure: "auto", maxAge: SESSION_MAX_AGE },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+  // Storage writes made while handling the request are audited as the signed-in user
+  app.use((req, _res, next) => {
+    if (!req.user) return next();
+    runAsActor({ userId: req.user.id, userName: req.user.name }, next);
+  });
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      done(null, toSafeUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user's session just ends
+      done(null, user ? toSafeUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Until the first account exists nobody could sign in, so the sign-in page offers to create it
+  app.get("/api/setup", async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json({ needsSetup: users.length === 0 });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check setup" });
+    }
+  });
+
+  // Creates the first account, which is always an owner; later accounts are added by an owner
+  app.post("/api/register", async (req, res) => {
+    try {
+      const { password, ...userData } = insertUserSchema.parse(req.body);
+      if ((await storage.getAllUsers()).length > 0) {
+        return res.status(403).json({ message: "Setup is already done, ask an owner for an account" });
+      }
+
+      const user = await storage.createUser({ ...userData, role: "owner", passwordHash: await hashPassword(password) });
+      const safeUser = toSafeUser(user);
+      await logIn(req, safeUser);
+      res.status(201).json(safeUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create account" });
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid login", errors: parsed.error.errors });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SafeUser | false) => {
+      if (error) return res.status(500).json({ message: "Failed to sign in" });
+      if (!user) return res.status(401).json({ message: "Wrong username or password" });
+
+      logIn(req, user)
+        .then(() => res.json(user))
+        .catch(() => res.status(500).json({ message: "Failed to sign in" }));
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res) => {
+    req.logout((error) => {
+      if (error) return res.status(500).json({ message: "Failed to sign out" });
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", requireAuth, requireWriteAccess);
+}
@@ -0,0 +1,127 @@
+import http from "http";
+import { parseArgs } from "util";
+
+// Stand-in for a real printer, answering both OctoPrint's and Moonraker's status
+// endpoints. It prints the same file over and over with a pause in between:
+//
+//   npm run fake-printer -- --port 5101 --file "Widget.gcode" --minutes 2 --idle 30
+//
+// then add a printer with connector URL http://localhost:5101 and either type.
+// POST /fake/pause, /fake/resume, /fake/cancel and /fake/start drive it by hand
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: "5101" },
+    file: { type: "string", default: "part.gcode" },
+    minutes: { type: "string", default: "2" },
+    idle: { type: "string", default: "30" }, // seconds between prints
+  },
+});
+
+const port = parseInt(args.port!);
+const printSeconds = parseFloat(args.minutes!) * 60;
+const idleSeconds = parseFloat(args.idle!);
+
+type FakeState = "idle" | "printing" | "paused" | "complete" | "cancelled";
+
+let state: FakeState = "idle";
+let elapsed = 0; // seconds printed so far
+let idleFor = 0;
+let fileName: string | null = null;
+
+function startPrint() {
+  state = "printing";
+  elapsed = 0;
+  fileName = args.file!;
+  console.log(`Printing ${fileName}`);
+}
+
+setInterval(() => {
+  if (state === "printing") {
+    elapsed += 1;
+    if (elapsed >= printSeconds) {
+      state = "complete";
+      idleFor = 0;
+      console.log(`Finished ${fileName}`);
+    }
+  } else if (state !== "paused") {
+    idleFor += 1;
+    if (idleFor >= idleSeconds) startPrint();
+  }
+}, 1000);
+
+function progress(): number {
+  return state === "idle" ? 0 : Math.min(1, elapsed / printSeconds);
+}
+
+function octoPrintJob() {
+  const stateText = {
+    idle: "Operational",
+    printing: "Printing",
+    paused: "Paused",
+    complete: "Operational",
+    cancelled: "Operational",
+  }[state];
+
+  return {
+    job: { file: { name: fileName }, estimatedPrintTime: printSeconds },
+    progress: {
+      completion: state === "cancelled" ? null : progress() * 100,
+      printTime: elapsed,
+      printTimeLeft: state === "printing" || state === "paused" ? printSeconds - elapsed : null,
+    },
+    state: stateText,
+  };
+}
+
+function moonrakerQuery() {
+  return {
+    result: {
+      eventtime: process.uptime(),
+      status: {
+        print_stats: {
+          state: state === "idle" ? "standby" : state,
+          filename: fileName ?? "",
+          print_duration: elapsed,
+          total_duration: elapsed,
+        },
+        virtual_sdcard: { progress: progress(), is_active: state === "printing" },
+      },
+    },
+  };
+}
+
+const controls: Record<string, () => void> = {
+  "/fake/start": startPrint,
+  "/fake/pause": () => { if (state === "printing") state = "paused"; },
+  "/fake/resume": () => { if (state === "paused") state = "printing"; },
+  "/fake/cancel": () => { state = "cancelled"; idleFor = 0; },
+};
+
+const server = http.createServer((req, res) => {
+  const path = new URL(req.url ?? "/", `http://localhost:${port}`).pathname;
+  let body: unknown;
+
+  if (req.method === "GET" && path === "/api/job") {
+    body = octoPrintJob();
+  } else if (req.method === "GET" && path === "/api/version") {
+    body = { api: "0.1", server: "1.10.0", text: "OctoPrint (fake)" };
+  } else if (req.method === "GET" && path === "/printer/objects/query") {
+    body = moonrakerQuery();
+  } else if (req.method === "GET" && path === "/server/info") {
+    body = { result: { klippy_state: "ready", moonraker_version: "fake" } };
+  } else if (req.method === "POST" && controls[path]) {
+    controls[path]();
+    body = { state };
+  } else {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+});
+
+server.listen(port, () => {
+  console.log(`Fake printer on http://localhost:${port}, printing ${args.file} for ${args.minutes} min every ${idleSeconds}s`);
+});
@@ -0,0 +1,48 @@
+import type { z } from "zod";
+import type { Printer, PrinterTelemetry, SafePrinter } from "@shared/schema";
+
+export type ConnectorStatus = Pick<PrinterTelemetry, "state" | "fileName" | "progress" | "timeRemaining">;
+
+// A printer that doesn't answer within this is treated as offline until the next poll
+const REQUEST_TIMEOUT = 5000;
+
+// The key only ever goes to the printer itself, never back out through the API
+export function toSafePrinter({ connectorApiKey, ...printer }: Printer): SafePrinter {
+  return { ...printer, hasConnectorApiKey: Boolean(connectorApiKey) };
+}
+
+export async function getJson(printer: Printer, path: string): Promise<unknown> {
+  if (!printer.connectorUrl) {
+    throw new Error("No connector URL set");
+  }
+
+  const url = new URL(path, printer.connectorUrl.endsWith("/") ? printer.connectorUrl : `${printer.connectorUrl}/`);
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (printer.connectorApiKey) {
+    headers["X-Api-Key"] = printer.connectorApiKey;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  } catch {
+    throw new Error(`Can't reach ${url.host}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${url.host} answered ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Printers run all sorts of firmware versions, so a reply is checked before anything is read from it
+export function parseReply<T>(schema: z.ZodType<T>, reply: unknown, connector: string): T {
+  const parsed = schema.safeParse(reply);
+  if (!parsed.success) {
+    throw new Error(`Unexpected reply from ${connector}`);
+  }
+  return parsed.data;
+}
+
+export function minutesFromSeconds(seconds: number | null | undefined): number | null {
+  return typeof seconds === "number" && seconds >= 0 ? Math.round(seconds / 60) : null;
+}
@@ -0,0 +1,161 @@
+import type { JobItemWithAssignments, JobWithCustomer, Printer, PrinterTelemetry } from "@shared/schema";
+import { storage } from "../storage";
+import { getSchedule } from "../scheduler";
+import type { ConnectorStatus } from "./http";
+import { fetchMoonrakerStatus } from "./moonraker";
+import { fetchOctoPrintStatus } from "./octoprint";
+
+const connectors: Record<string, (printer: Printer) => Promise<ConnectorStatus>> = {
+  octoprint: fetchOctoPrintStatus,
+  moonraker: fetchMoonrakerStatus,
+};
+
+// PRINTER_POLL_INTERVAL is in seconds
+const POLL_INTERVAL = (parseInt(process.env.PRINTER_POLL_INTERVAL || "") || 10) * 1000;
+
+type ActivePrint = {
+  fileName: string | null;
+  jobItemId: number | null;
+};
+
+const telemetry = new Map<number, PrinterTelemetry>();
+// The print each printer is running, kept through offline blips so a print that
+// finishes while the printer was unreachable still counts
+const activePrints = new Map<number, ActivePrint>();
+let pollTimer: NodeJS.Timeout | null = null;
+
+export function getPrinterTelemetry(): PrinterTelemetry[] {
+  return Array.from(telemetry.values());
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\.(gcode|bgcode|gco|g)$/, "").replace(/[^a-z0-9]+/g, "");
+}
+
+// Slicers name files after the model, so an item whose name is in the file name wins
+// (items assigned to this printer first); otherwise it's whatever the schedule has next here
+async function matchJobItem(
+  printer: Printer,
+  fileName: string | null,
+  jobs: JobWithCustomer[],
+): Promise<JobItemWithAssignments | null> {
+  const open = jobs
+    .filter(job => job.status !== "completed")
+    .flatMap(job => job.items)
+    .filter(item => item.status !== "completed" && item.quantity > (item.completedQuantity || 0));
+  const assignedHere = open.filter(item => item.assignments.some(assignment => assignment.printerId === printer.id));
+
+  const file = fileName ? normalizeName(fileName) : "";
+  if (file) {
+    for (const candidates of [assignedHere, open]) {
+      const [named] = candidates
+        .filter(item => normalizeName(item.name) && file.includes(normalizeName(item.name)))
+        .sort((a, b) => normalizeName(b.name).length - normalizeName(a.name).length);
+      if (named) return named;
+    }
+  }
+
+  const schedule = await getSchedule();
+  const next = schedule.queues.find(queue => queue.printer.id === printer.id)?.prints[0];
+  return open.find(item => item.id === next?.jobItemId) ?? assignedHere[0] ?? null;
+}
+
+async function recordItemProgress(jobItemId: number, state: ConnectorStatus["state"]): Promise<void> {
+  const item = await storage.getJobItem(jobItemId);
+  if (!item || item.status === "completed") return;
+
+  if (state === "complete") {
+    const completedQuantity = Math.min(item.quantity, (item.completedQuantity || 0) + 1);
+    await storage.updateJobItem(item.id, {
+      completedQuantity,
+      status: completedQuantity >= item.quantity ? "completed" : "printing",
+    });
+  } else if ((state === "printing" || state === "paused") && item.status !== state) {
+    await storage.updateJobItem(item.id, { status: state });
+  }
+}
+
+// The connector owns idle/printing/offline for connected printers; maintenance is only ever set by hand
+async function syncPrinterStatus(printer: Printer, state: ConnectorStatus["state"]): Promise<void> {
+  if (printer.status === "maintenance") return;
+
+  const status = state === "printing" || state === "paused" ? "printing" : state === "offline" ? "offline" : "idle";
+  if (printer.status !== status) {
+    await storage.updatePrinter(printer.id, { status });
+  }
+}
+
+async function pollPrinter(printer: Printer, jobs: JobWithCustomer[]): Promise<void> {
+  let status: ConnectorStatus;
+  let error: string | null = null;
+  try {
+    status = await connectors[printer.connectorType!](printer);
+  } catch (err) {
+    status = { state: "offline", fileName: null, progress: null, timeRemaining: null };
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const active = activePrints.get(printer.id);
+  let jobItemId = active?.jobItemId ?? null;
+
+  if (status.state === "printing" || status.state === "paused") {
+    if (!active || active.fileName !== status.fileName) {
+      jobItemId = (await matchJobItem(printer, status.fileName, jobs))?.id ?? null;
+      activePrints.set(printer.id, { fileName: status.fileName, jobItemId });
+    }
+    if (jobItemId) await recordItemProgress(jobItemId, status.state);
+  } else if (status.state === "complete") {
+    if (active) {
+      if (jobItemId) await recordItemProgress(jobItemId, "complete");
+      activePrints.delete(printer.id);
+    } else {
+      // Finished before we started watching, or already counted
+      jobItemId = telemetry.get(printer.id)?.jobItemId ?? null;
+    }
+  } else if (status.state === "idle") {
+    // Cancelled, or the bed was cleared
+    activePrints.delete(printer.id);
+    jobItemId = null;
+  }
+
+  telemetry.set(printer.id, {
+    printerId: printer.id,
+    ...status,
+    jobItemId,
+    polledAt: new Date(),
+    error,
+  });
+
+  await syncPrinterStatus(printer, status.state);
+}
+
+export async function pollPrinters(): Promise<void> {
+  const printers = (await storage.getAllPrinters()).filter(printer => printer.connectorType && printer.connectorUrl);
+
+  // Forget printers that were deleted or disconnected
+  for (const printerId of Array.from(telemetry.keys())) {
+    if (!printers.some(printer => printer.id === printerId)) {
+      telemetry.delete(printerId);
+      activePrints.delete(printerId);
+    }
+  }
+  if (printers.length === 0) return;
+
+  const jobs = await storage.getAllJobs();
+  await Promise.all(printers.map(printer =>
+    pollPrinter(printer, jobs).catch(error => console.error(`Polling ${printer.name} failed:`, error))
+  ));
+}
+
+export function startPrinterPolling(): void {
+  if (pollTimer) return;
+
+  const poll = () => {
+    pollPrinters()
+      .catch(error => console.error('Printer poll error:', error))
+      .finally(() => {
+        pollTimer = setTimeout(poll, POLL_INTERVAL);
+      });
+  };
+  pollTimer = setTimeout(poll, 0);
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import type { Printer } from "@shared/schema";
+import { getJson, minutesFromSeconds, parseReply, type ConnectorStatus } from "./http";
+
+// Only the fields read below
+const queryReplySchema = z.object({
+  result: z.object({
+    status: z.object({
+      print_stats: z.object({
+        state: z.string().nullish(),
+        filename: z.string().nullish(),
+        print_duration: z.number().nullish(),
+      }).nullish(),
+      virtual_sdcard: z.object({ progress: z.number().nullish() }).nullish(),
+    }),
+  }),
+});
+
+// Klipper through Moonraker's printer object query, see
+// https://moonraker.readthedocs.io/en/latest/web_api/#query-printer-object-status
+export async function fetchMoonrakerStatus(printer: Printer): Promise<ConnectorStatus> {
+  const { result } = parseReply(
+    queryReplySchema,
+    await getJson(printer, "printer/objects/query?print_stats&virtual_sdcard"),
+    "Moonraker",
+  );
+  const printStats = result.status.print_stats ?? {};
+  const fraction = result.status.virtual_sdcard?.progress ?? null;
+
+  let state: ConnectorStatus["state"];
+  switch (printStats.state) {
+    case "printing":
+      state = "printing";
+      break;
+    case "paused":
+      state = "paused";
+      break;
+    case "complete":
+      state = "complete";
+      break;
+    case "error":
+      state = "error";
+      break;
+    default:
+      // standby, cancelled
+      state = "idle";
+  }
+
+  // Moonraker has no estimate of its own, extrapolate from the time spent so far
+  const printDuration = printStats.print_duration;
+  const timeRemaining = state === "printing" && fraction && printDuration
+    ? minutesFromSeconds(printDuration / fraction - printDuration)
+    : null;
+
+  return {
+    state,
+    fileName: printStats.filename || null,
+    progress: fraction !== null ? Math.round(fraction * 100) : null,
+    timeRemaining,
+  };
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import type { Printer } from "@shared/schema";
+import { getJson, minutesFromSeconds, parseReply, type ConnectorStatus } from "./http";
+
+// Only the fields read below; OctoPrint sends null for whatever it doesn't know yet
+const jobReplySchema = z.object({
+  job: z.object({
+    file: z.object({ name: z.string().nullish() }).nullish(),
+  }).nullish(),
+  progress: z.object({
+    completion: z.number().nullish(),
+    printTimeLeft: z.number().nullish(),
+  }).nullish(),
+  state: z.string().nullish(),
+});
+
+// GET /api/job, see https://docs.octoprint.org/en/master/api/job.html
+export async function fetchOctoPrintStatus(printer: Printer): Promise<ConnectorStatus> {
+  const { job, progress, state } = parseReply(jobReplySchema, await getJson(printer, "api/job"), "OctoPrint");
+  const completion = progress?.completion ?? null;
+  const stateText = String(state ?? "").toLowerCase();
+
+  // OctoPrint goes straight back to "Operational" after a print, a finished
+  // print is told apart by its file still being loaded at 100%
+  let mapped: ConnectorStatus["state"];
+  if (stateText.startsWith("printing") || stateText === "finishing" || stateText === "starting") {
+    mapped = "printing";
+  } else if (stateText.startsWith("paus")) {
+    mapped = "paused";
+  } else if (stateText.startsWith("error") || stateText.startsWith("offline after error")) {
+    mapped = "error";
+  } else if (stateText.startsWith("offline") || stateText.startsWith("closed")) {
+    mapped = "offline";
+  } else if (stateText === "operational" && completion !== null && completion >= 100) {
+    mapped = "complete";
+  } else {
+    mapped = "idle";
+  }
+
+  return {
+    state: mapped,
+    fileName: job?.file?.name ?? null,
+    progress: completion !== null ? Math.round(completion) : null,
+    timeRemaining: minutesFromSeconds(progress?.printTimeLeft),
+  };
+}
@@ -0,0 +1,22 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built with our schema (Neon, node-postgres, PGlite)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString: string): Database {
+  // Neon's serverless driver talks over WebSockets, which a plain Postgres
+  // server (e.g. a local Docker container) doesn't speak
+  if (new URL(connectionString).hostname.endsWith(".neon.tech")) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+
+  return drizzlePg({ client: new pg.Pool({ connectionString }), schema });
+}
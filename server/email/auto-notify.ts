@@ -0,0 +1,145 @@
+import type { Job, NotificationRule } from "@shared/schema";
+import { storage } from "../storage";
+import { storageEvents, type StorageChange } from "../events";
+import { runAsSystem } from "../audit";
+import { sendNotification } from "./index";
+import { estimateCompletion, jobTemplateContext, renderNotification, resolveNotificationTemplate } from "./templates";
+import { RULE_TEMPLATES, customerWantsRule, isDueDateAtRisk, transitionRule } from "./rules";
+
+const CHECK_INTERVAL = 5 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+// The status each job had when last looked at, to spot transitions
+const knownStatuses = new Map<number, string>();
+// Announcements waiting for a new status to settle, by job
+const pendingTransitions = new Map<number, NodeJS.Timeout>();
+// Changes are looked at one at a time, so the known statuses follow the order they happened in
+let transitionQueue: Promise<void> = Promise.resolve();
+let checkTimer: NodeJS.Timeout | null = null;
+
+// A pause is announced each time the job is paused, everything else once per job
+async function alreadySent(job: Job, rule: NotificationRule): Promise<boolean> {
+  const sent = (await storage.getJobNotifications(job.id)).filter(notification => notification.rule === rule);
+  if (rule === "job_paused") {
+    const pausedAt = job.statusChangedAt ? new Date(job.statusChangedAt).getTime() : 0;
+    return sent.some(notification => notification.sentAt && new Date(notification.sentAt).getTime() >= pausedAt);
+  }
+  return sent.length > 0;
+}
+
+async function notifyRule(jobId: number, rule: NotificationRule): Promise<void> {
+  const settings = await storage.getNotificationSettings();
+  if (!settings.enabledRules.includes(rule)) return;
+
+  const job = await storage.getJobWithDetails(jobId);
+  if (!job || !customerWantsRule(job.customer, rule)) return;
+  if (await alreadySent(job, rule)) return;
+
+  const template = await resolveNotificationTemplate(RULE_TEMPLATES[rule]);
+  const rendered = renderNotification(template, await jobTemplateContext(job));
+  const invoice = rule === "job_completed" ? await storage.getJobInvoice(job.id) : undefined;
+
+  const notification = await sendNotification({
+    jobId,
+    type: template.type,
+    subject: rendered.subject,
+    message: rendered.text,
+    html: rendered.html,
+    recipientEmail: job.customer.email,
+    invoiceId: invoice?.id ?? null,
+    rule,
+  });
+  console.log(`Automatic ${rule} email for job ${job.jobNumber}: ${notification.status}`);
+}
+
+async function checkTransition(jobId: number): Promise<void> {
+  const job = await storage.getJob(jobId);
+  const previous = knownStatuses.get(jobId);
+  if (!job) {
+    knownStatuses.delete(jobId);
+    return;
+  }
+
+  knownStatuses.set(jobId, job.status);
+  if (previous === undefined || previous === job.status) return;
+
+  // Any move cancels an announcement still waiting, so a quick toggle sends nothing
+  clearTimeout(pendingTransitions.get(jobId));
+  pendingTransitions.delete(jobId);
+
+  const rule = transitionRule(previous, job.status);
+  if (!rule) return;
+
+  const { settleMinutes } = await storage.getNotificationSettings();
+  const status = job.status;
+  pendingTransitions.set(jobId, setTimeout(() => {
+    pendingTransitions.delete(jobId);
+    storage.getJob(jobId)
+      .then(current => current?.status === status ? notifyRule(jobId, rule) : undefined)
+      .catch(error => console.error(`Automatic ${rule} email for job ${jobId} failed:`, error));
+  }, settleMinutes * 60 * 1000));
+}
+
+async function jobIdFor(change: StorageChange): Promise<number | undefined> {
+  if (change.entity === "job") return change.id;
+  // Item progress moves the job's status without a job write of its own
+  if (change.entity === "jobItem" && change.action !== "delete" && change.id !== undefined) {
+    return (await storage.getJobItem(change.id))?.jobId;
+  }
+  return undefined;
+}
+
+// Changes arrive while the request that made them is handled; the emails they lead to are
+// the system's doing, not that user's
+function queueTransitionCheck(change: StorageChange) {
+  runAsSystem(() => {
+    transitionQueue = transitionQueue
+      .then(async () => {
+        const jobId = await jobIdFor(change);
+        if (jobId !== undefined) await checkTransition(jobId);
+      })
+      .catch(error => console.error('Automatic notification error:', error));
+  });
+}
+
+// Rules that depend on time passing rather than a status change
+export async function checkTimedRules(now = new Date()): Promise<void> {
+  const settings = await storage.getNotificationSettings();
+  const checkPaused = settings.enabledRules.includes("job_paused");
+  const checkAtRisk = settings.enabledRules.includes("due_date_at_risk");
+  if (!checkPaused && !checkAtRisk) return;
+
+  for (const job of await storage.getAllJobs()) {
+    if (job.status === "completed") continue;
+
+    const pausedFor = job.statusChangedAt ? now.getTime() - new Date(job.statusChangedAt).getTime() : 0;
+    if (checkPaused && job.status === "paused" && pausedFor >= settings.pausedAfterHours * HOUR) {
+      await notifyRule(job.id, "job_paused");
+    }
+
+    if (checkAtRisk && job.dueDate) {
+      const finish = await estimateCompletion(job);
+      if (finish && isDueDateAtRisk(new Date(job.dueDate), finish, settings.atRiskMarginHours)) {
+        await notifyRule(job.id, "due_date_at_risk");
+      }
+    }
+  }
+}
+
+export async function startAutoNotifications(): Promise<void> {
+  if (checkTimer) return;
+
+  for (const job of await storage.getAllJobs()) {
+    knownStatuses.set(job.id, job.status);
+  }
+  storageEvents.onChange(queueTransitionCheck);
+
+  const check = () => {
+    checkTimedRules()
+      .catch(error => console.error('Automatic notification check error:', error))
+      .finally(() => {
+        checkTimer = setTimeout(check, CHECK_INTERVAL);
+      });
+  };
+  checkTimer = setTimeout(check, CHECK_INTERVAL);
+}
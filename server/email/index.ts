@@ -0,0 +1,178 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+import type {
+  InsertNotification,
+  Notification,
+  NotificationSettings,
+  SafeNotificationSettings,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+// SMTP is set in the notification settings, and each field left empty there falls back
+// to the environment:
+//
+//   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for port 465), SMTP_USER, SMTP_PASS
+//   MAIL_FROM    sender; defaults to the shop name and email from the invoice settings
+//
+// MAIL_TEST_MODE=true sends everything to the local sink instead (npm run smtp-sink),
+// listening on SMTP_SINK_PORT (2525)
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 60 * 1000; // doubles with each failed attempt
+const RETRY_INTERVAL = 30 * 1000;
+
+let transporter: Transporter | null = null;
+// What the current transporter was built from, so it's rebuilt when the settings change
+let transporterConfig: string | undefined;
+let retryTimer: NodeJS.Timeout | null = null;
+
+// The password only goes to the mail server, never back out through the API
+export function toSafeNotificationSettings({ smtpPassword, ...settings }: NotificationSettings): SafeNotificationSettings {
+  return { ...settings, hasSmtpPassword: Boolean(smtpPassword) };
+}
+
+function smtpOptions(settings: NotificationSettings, env = process.env): SMTPTransport.Options | null {
+  if (env.MAIL_TEST_MODE === "true") {
+    return {
+      host: "127.0.0.1",
+      port: parseInt(env.SMTP_SINK_PORT || "") || 2525,
+      secure: false,
+      ignoreTLS: true,
+    };
+  }
+
+  const host = settings.smtpHost || env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const user = settings.smtpUser || env.SMTP_USER;
+  return {
+    host,
+    port: settings.smtpPort ?? (parseInt(env.SMTP_PORT || "") || 587),
+    secure: settings.smtpSecure ?? env.SMTP_SECURE === "true",
+    auth: user ? { user, pass: settings.smtpPassword || env.SMTP_PASS } : undefined,
+  };
+}
+
+async function getTransporter(): Promise<Transporter | null> {
+  const options = smtpOptions(await storage.getNotificationSettings());
+  const config = JSON.stringify(options);
+  if (config !== transporterConfig) {
+    transporter?.close();
+    transporter = options ? nodemailer.createTransport(options) : null;
+    transporterConfig = config;
+    if (!transporter) {
+      console.log('Email transporter not configured, set the mail server in the email settings, SMTP_HOST or MAIL_TEST_MODE');
+    }
+  }
+  return transporter;
+}
+
+async function senderAddress(): Promise<string> {
+  const { mailFrom } = await storage.getNotificationSettings();
+  if (mailFrom) return mailFrom;
+  if (process.env.MAIL_FROM) return process.env.MAIL_FROM;
+
+  const settings = await storage.getInvoiceSettings();
+  const email = settings.email || "noreply@localhost";
+  return `"${settings.shopName.replace(/"/g, "")}" <${email}>`;
+}
+
+async function attachmentsFor(notification: Notification) {
+  if (!notification.invoiceId) return [];
+
+  const invoice = await storage.getInvoice(notification.invoiceId);
+  if (!invoice?.pdf) return [];
+  return [{
+    filename: `${invoice.invoiceNumber}.pdf`,
+    content: Buffer.from(invoice.pdf, "base64"),
+    contentType: "application/pdf",
+  }];
+}
+
+// 5xx replies are permanent: the server refused the recipient or the message
+function isBounce(error: unknown): boolean {
+  const responseCode = (error as { responseCode?: number }).responseCode;
+  return typeof responseCode === "number" && responseCode >= 500 && responseCode < 600;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// One delivery attempt. Temporary failures are retried with a growing delay until
+// MAX_ATTEMPTS; bounces aren't retried
+export async function deliverNotification(notification: Notification): Promise<Notification> {
+  const attempts = notification.attempts + 1;
+  let update: Partial<InsertNotification>;
+
+  const mailer = await getTransporter();
+  if (!mailer) {
+    update = {
+      status: "failed",
+      attempts,
+      nextAttemptAt: null,
+      lastError: "Email is not configured",
+    };
+  } else {
+    try {
+      const info = await mailer.sendMail({
+        from: await senderAddress(),
+        to: notification.recipientEmail,
+        subject: notification.subject || "Update on your print job",
+        text: notification.message,
+        html: notification.html ?? undefined,
+        attachments: await attachmentsFor(notification),
+      });
+      const rejected = info.rejected.length > 0;
+      update = {
+        status: rejected ? "bounced" : "sent",
+        attempts,
+        nextAttemptAt: null,
+        lastError: rejected ? `Rejected by the mail server: ${info.response}` : null,
+        messageId: info.messageId,
+        deliveredAt: rejected ? null : new Date(),
+      };
+    } catch (error) {
+      const bounced = isBounce(error);
+      const retry = !bounced && attempts < MAX_ATTEMPTS;
+      update = {
+        status: bounced ? "bounced" : "failed",
+        attempts,
+        nextAttemptAt: retry ? new Date(Date.now() + RETRY_BASE_DELAY * 2 ** (attempts - 1)) : null,
+        lastError: errorMessage(error),
+      };
+    }
+  }
+
+  return (await storage.updateNotification(notification.id, update)) ?? notification;
+}
+
+// Queues the email and makes the first attempt straight away. It only becomes due for
+// the retry loop if that attempt fails, so the two never send the same email
+export async function sendNotification(notification: InsertNotification): Promise<Notification> {
+  const queued = await storage.createNotification({ ...notification, status: "queued", nextAttemptAt: null });
+  return deliverNotification(queued);
+}
+
+export async function retryDueNotifications(): Promise<void> {
+  const due = await storage.getDueNotifications(new Date());
+  for (const notification of due) {
+    await deliverNotification(notification).catch(error =>
+      console.error(`Sending notification ${notification.id} failed:`, error)
+    );
+  }
+}
+
+export function startEmailDelivery(): void {
+  if (retryTimer) return;
+
+  const retry = () => {
+    retryDueNotifications()
+      .catch(error => console.error('Email retry error:', error))
+      .finally(() => {
+        retryTimer = setTimeout(retry, RETRY_INTERVAL);
+      });
+  };
+  retryTimer = setTimeout(retry, 0);
+}
@@ -0,0 +1,34 @@
+import type { Customer, InsertNotificationSettings, NotificationRule, NotificationType } from "@shared/schema";
+
+// Used until someone saves their own choices
+export const DEFAULT_NOTIFICATION_SETTINGS: InsertNotificationSettings = {
+  enabledRules: ["job_started", "job_completed", "job_paused", "due_date_at_risk"],
+  pausedAfterHours: 4,
+  atRiskMarginHours: 0,
+  settleMinutes: 2,
+};
+
+// The template each rule sends
+export const RULE_TEMPLATES: Record<NotificationRule, NotificationType> = {
+  job_started: "status_update",
+  job_completed: "completion",
+  job_paused: "delay",
+  due_date_at_risk: "delay",
+};
+
+// Rules that fire as soon as a job enters a status, once the status has settled. The
+// others are checked on a timer
+export function transitionRule(from: string, to: string): NotificationRule | null {
+  if (to === "printing" && from === "not_started") return "job_started";
+  if (to === "completed") return "job_completed";
+  return null;
+}
+
+export function customerWantsRule(customer: Customer, rule: NotificationRule): boolean {
+  return customer.autoNotify && !customer.mutedNotificationRules.includes(rule);
+}
+
+// The projected finish leaves less than the margin before the due date
+export function isDueDateAtRisk(dueDate: Date, projectedFinish: Date, marginHours: number): boolean {
+  return projectedFinish.getTime() > dueDate.getTime() - marginHours * 60 * 60 * 1000;
+}
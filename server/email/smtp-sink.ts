@@ -0,0 +1,144 @@
+import net from "net";
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+
+// Local SMTP server that accepts whatever it's sent, so notifications can be checked
+// without a real mail server:
+//
+//   npm run smtp-sink -- --port 2525 --dir ./mail --reject "bounce@" --fail-first 1
+//
+// then start the app with MAIL_TEST_MODE=true (and SMTP_SINK_PORT if not 2525).
+// Recipients matching --reject get a permanent 550, and the first --fail-first
+// messages get a temporary 451 so the retries can be watched
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: "2525" },
+    dir: { type: "string" }, // saves each message as an .eml file
+    reject: { type: "string" },
+    "fail-first": { type: "string", default: "0" },
+  },
+});
+
+const port = parseInt(args.port!);
+const rejectPattern = args.reject ? new RegExp(args.reject, "i") : null;
+let failuresLeft = parseInt(args["fail-first"]!) || 0;
+let received = 0;
+
+if (args.dir) fs.mkdirSync(args.dir, { recursive: true });
+
+function headerValue(message: string, name: string): string | undefined {
+  const match = message.match(new RegExp(`^${name}:\\s*(.*)$`, "im"));
+  return match?.[1].trim();
+}
+
+function saveMessage(from: string, to: string[], message: string) {
+  received += 1;
+  console.log(`#${received} from ${from} to ${to.join(", ")}: ${headerValue(message, "Subject") ?? "(no subject)"}`);
+
+  if (args.dir) {
+    const file = path.join(args.dir, `${Date.now()}-${received}.eml`);
+    fs.writeFileSync(file, message);
+  }
+}
+
+const server = net.createServer(socket => {
+  let from = "";
+  let to: string[] = [];
+  let buffer = "";
+  let inData = false;
+  let data: string[] = [];
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  const reset = () => {
+    from = "";
+    to = [];
+    data = [];
+  };
+
+  const handleLine = (line: string) => {
+    if (inData) {
+      if (line !== ".") {
+        data.push(line.startsWith("..") ? line.slice(1) : line);
+        return;
+      }
+      inData = false;
+      if (failuresLeft > 0) {
+        failuresLeft -= 1;
+        console.log(`Deferred message to ${to.join(", ")}`);
+        reply("451 4.3.0 Temporary failure, try again later");
+      } else {
+        saveMessage(from, to, data.join("\r\n"));
+        reply(`250 2.0.0 Ok: queued as sink-${received}`);
+      }
+      reset();
+      return;
+    }
+
+    const [command] = line.split(/[\s:]/, 1);
+    switch (command.toUpperCase()) {
+      case "EHLO":
+        reply("250-smtp-sink");
+        reply("250 8BITMIME");
+        break;
+      case "HELO":
+        reply("250 smtp-sink");
+        break;
+      case "MAIL":
+        reset();
+        from = line.replace(/^MAIL FROM:\s*/i, "");
+        reply("250 2.1.0 Ok");
+        break;
+      case "RCPT": {
+        const recipient = line.replace(/^RCPT TO:\s*/i, "");
+        if (rejectPattern?.test(recipient)) {
+          console.log(`Rejected ${recipient}`);
+          reply("550 5.1.1 Mailbox unavailable");
+        } else {
+          to.push(recipient);
+          reply("250 2.1.5 Ok");
+        }
+        break;
+      }
+      case "DATA":
+        if (to.length === 0) {
+          reply("554 5.5.1 No valid recipients");
+        } else {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        }
+        break;
+      case "RSET":
+        reset();
+        reply("250 2.0.0 Ok");
+        break;
+      case "NOOP":
+        reply("250 2.0.0 Ok");
+        break;
+      case "QUIT":
+        reply("221 2.0.0 Bye");
+        socket.end();
+        break;
+      default:
+        reply("502 5.5.2 Command not recognized");
+    }
+  };
+
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      handleLine(line);
+    }
+  });
+  socket.on("error", () => socket.destroy());
+
+  reply("220 smtp-sink ESMTP");
+});
+
+server.listen(port, "127.0.0.1", () => {
+  console.log(`SMTP sink listening on 127.0.0.1:${port}`);
+});
@@ -0,0 +1,297 @@
+import type {
+  InsertNotificationTemplate,
+  InvoiceSettings,
+  JobWithCustomer,
+  NotificationType,
+  QuoteWithCustomer,
+  RenderedNotification,
+  ResolvedNotificationTemplate,
+} from "@shared/schema";
+import { notificationTypes } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import { storage } from "../storage";
+import { getSchedule } from "../scheduler";
+
+// A placeholder's value. Rich values (the items table) have their own HTML so the text
+// version isn't just escaped into the email
+type TemplateValue = string | { text: string; html: string };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+type TemplateItem = {
+  name: string;
+  quantity: number;
+  material?: string | null;
+};
+
+const SECTION = /\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const HTML_FOOTER = `<p>Thank you for your business!<br>{{shop.name}}</p>`;
+const TEXT_FOOTER = `Thank you for your business!
+{{shop.name}}`;
+
+// Used for each type until someone saves their own wording
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<NotificationType, InsertNotificationTemplate> = {
+  status_update: {
+    type: "status_update",
+    subject: "Update on your print job {{job.jobNumber}}",
+    bodyText: `Hi {{customer.name}},
+
+Here's an update on your print job {{job.jobNumber}}.
+
+Status: {{job.status}}
+Progress: {{job.progress}}% complete
+Estimated completion: {{eta}}
+
+{{items}}
+{{#note}}
+{{note}}
+{{/note}}
+${TEXT_FOOTER}`,
+    bodyHtml: `<p>Hi {{customer.name}},</p>
+<p>Here's an update on your print job <strong>{{job.jobNumber}}</strong>.</p>
+<p>Status: {{job.status}}<br>Progress: {{job.progress}}% complete<br>Estimated completion: {{eta}}</p>
+{{items}}
+{{#note}}<p>{{note}}</p>{{/note}}
+${HTML_FOOTER}`,
+  },
+  completion: {
+    type: "completion",
+    subject: "Your print job {{job.jobNumber}} is complete",
+    bodyText: `Hi {{customer.name}},
+
+Good news, your print job {{job.jobNumber}} is complete.
+
+{{items}}
+{{#job.invoiceNumber}}
+Your invoice {{job.invoiceNumber}} for {{job.total}} is attached.
+{{/job.invoiceNumber}}{{#note}}
+{{note}}
+{{/note}}
+${TEXT_FOOTER}`,
+    bodyHtml: `<p>Hi {{customer.name}},</p>
+<p>Good news, your print job <strong>{{job.jobNumber}}</strong> is complete.</p>
+{{items}}
+{{#job.invoiceNumber}}<p>Your invoice {{job.invoiceNumber}} for {{job.total}} is attached.</p>{{/job.invoiceNumber}}
+{{#note}}<p>{{note}}</p>{{/note}}
+${HTML_FOOTER}`,
+  },
+  delay: {
+    type: "delay",
+    subject: "Your print job {{job.jobNumber}} is running late",
+    bodyText: `Hi {{customer.name}},
+
+Sorry, your print job {{job.jobNumber}} is taking longer than planned. It's now expected to be finished {{eta}}{{#job.dueDate}}, against the due date of {{job.dueDate}}{{/job.dueDate}}.
+{{#note}}
+{{note}}
+{{/note}}
+${TEXT_FOOTER}`,
+    bodyHtml: `<p>Hi {{customer.name}},</p>
+<p>Sorry, your print job <strong>{{job.jobNumber}}</strong> is taking longer than planned. It's now expected to be finished {{eta}}{{#job.dueDate}}, against the due date of {{job.dueDate}}{{/job.dueDate}}.</p>
+{{#note}}<p>{{note}}</p>{{/note}}
+${HTML_FOOTER}`,
+  },
+  quote_sent: {
+    type: "quote_sent",
+    subject: "Quote {{quote.quoteNumber}} from {{shop.name}}",
+    bodyText: `Hi {{customer.name}},
+
+Thanks for your enquiry. Here's our quote {{quote.quoteNumber}}:
+
+{{items}}
+
+Total: {{quote.total}}
+{{#quote.validUntil}}Valid until {{quote.validUntil}}.
+{{/quote.validUntil}}{{#note}}
+{{note}}
+{{/note}}
+${TEXT_FOOTER}`,
+    bodyHtml: `<p>Hi {{customer.name}},</p>
+<p>Thanks for your enquiry. Here's our quote <strong>{{quote.quoteNumber}}</strong>:</p>
+{{items}}
+<p>Total: <strong>{{quote.total}}</strong>{{#quote.validUntil}}<br>Valid until {{quote.validUntil}}{{/quote.validUntil}}</p>
+{{#note}}<p>{{note}}</p>{{/note}}
+${HTML_FOOTER}`,
+  },
+  ready_for_pickup: {
+    type: "ready_for_pickup",
+    subject: "Your print job {{job.jobNumber}} is ready for pickup",
+    bodyText: `Hi {{customer.name}},
+
+Your print job {{job.jobNumber}} is ready to collect.
+
+{{items}}
+{{#note}}
+{{note}}
+{{/note}}
+${TEXT_FOOTER}{{#shop.phone}}
+{{shop.phone}}{{/shop.phone}}`,
+    bodyHtml: `<p>Hi {{customer.name}},</p>
+<p>Your print job <strong>{{job.jobNumber}}</strong> is ready to collect.</p>
+{{items}}
+{{#note}}<p>{{note}}</p>{{/note}}
+<p>Thank you for your business!<br>{{shop.name}}{{#shop.phone}}<br>{{shop.phone}}{{/shop.phone}}</p>`,
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function textOf(value: TemplateValue | undefined): string {
+  if (value === undefined) return "";
+  return typeof value === "string" ? value : value.text;
+}
+
+function htmlOf(value: TemplateValue | undefined): string {
+  if (value === undefined) return "";
+  return typeof value === "string" ? escapeHtml(value).replace(/\n/g, "<br>") : value.html;
+}
+
+function renderString(template: string, context: TemplateContext, format: "text" | "html"): string {
+  return template
+    .replace(SECTION, (_match, name: string, inner: string) => textOf(context[name]).trim() ? inner : "")
+    .replace(PLACEHOLDER, (_match, name: string) => format === "html" ? htmlOf(context[name]) : textOf(context[name]));
+}
+
+// Unknown placeholders render empty rather than failing the send
+export function renderNotification(
+  template: Pick<InsertNotificationTemplate, "subject" | "bodyText" | "bodyHtml">,
+  context: TemplateContext,
+): RenderedNotification {
+  return {
+    subject: renderString(template.subject, context, "text").replace(/\s+/g, " ").trim(),
+    text: renderString(template.bodyText, context, "text").replace(/\n{3,}/g, "\n\n").trim(),
+    html: template.bodyHtml ? renderString(template.bodyHtml, context, "html").trim() : null,
+  };
+}
+
+export async function resolveNotificationTemplate(type: NotificationType): Promise<ResolvedNotificationTemplate> {
+  const saved = await storage.getNotificationTemplate(type);
+  if (!saved) return { ...DEFAULT_NOTIFICATION_TEMPLATES[type], customized: false };
+
+  return {
+    type,
+    subject: saved.subject,
+    bodyText: saved.bodyText,
+    bodyHtml: saved.bodyHtml,
+    customized: true,
+  };
+}
+
+export async function resolveNotificationTemplates(): Promise<ResolvedNotificationTemplate[]> {
+  return Promise.all(notificationTypes.map(type => resolveNotificationTemplate(type)));
+}
+
+function formatDate(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleDateString("en-US", { dateStyle: "medium" }) : "";
+}
+
+function formatStatus(status: string): string {
+  const words = status.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function itemsTable(items: TemplateItem[]): TemplateValue {
+  const text = items
+    .map(item => `• ${item.name} (Qty: ${item.quantity})${item.material ? ` - ${item.material}` : ""}`)
+    .join("\n");
+  const rows = items
+    .map(item => `<tr><td>${escapeHtml(item.name)}</td><td align="right">${item.quantity}</td><td>${escapeHtml(item.material ?? "")}</td></tr>`)
+    .join("");
+  const html = `<table cellpadding="4" cellspacing="0" border="1" style="border-collapse: collapse">`
+    + `<tr><th align="left">Item</th><th align="right">Qty</th><th align="left">Material</th></tr>${rows}</table>`;
+  return { text, html };
+}
+
+// When the last of the job's copies is projected to come off a printer. Jobs the
+// schedule can't place fall back to their estimated time from now
+export async function estimateCompletion(job: JobWithCustomer): Promise<Date | null> {
+  if (job.status === "completed") return null;
+
+  const schedule = await getSchedule();
+  const ends = schedule.queues
+    .flatMap(queue => queue.prints)
+    .filter(print => print.jobId === job.id)
+    .map(print => new Date(print.end).getTime());
+  if (ends.length > 0) return new Date(Math.max(...ends));
+
+  const remaining = (job.totalEstimatedTime ?? 0) * (1 - (job.progress ?? 0) / 100);
+  return remaining > 0 ? new Date(Date.now() + remaining * 60 * 1000) : null;
+}
+
+function shopContext(settings: InvoiceSettings): TemplateContext {
+  return {
+    "shop.name": settings.shopName,
+    "shop.email": settings.email ?? "",
+    "shop.phone": settings.phone ?? "",
+  };
+}
+
+export async function jobTemplateContext(job: JobWithCustomer, note?: string | null): Promise<TemplateContext> {
+  const [settings, eta] = await Promise.all([storage.getInvoiceSettings(), estimateCompletion(job)]);
+  return {
+    ...shopContext(settings),
+    "customer.name": job.customer.name,
+    "customer.company": job.customer.company ?? "",
+    "customer.email": job.customer.email,
+    "job.jobNumber": job.jobNumber,
+    "job.status": formatStatus(job.status),
+    "job.progress": String(job.status === "completed" ? 100 : job.progress ?? 0),
+    "job.dueDate": formatDate(job.dueDate),
+    "job.total": job.totalPrice != null ? formatMoney(job.totalPrice, settings.currencySymbol) : "",
+    "job.invoiceNumber": job.invoiceNumber ?? "",
+    items: itemsTable(job.items),
+    eta: job.status === "completed"
+      ? "Completed"
+      : eta ? eta.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" }) : "Soon",
+    note: note ?? "",
+  };
+}
+
+export async function quoteTemplateContext(quote: QuoteWithCustomer, note?: string | null): Promise<TemplateContext> {
+  const settings = await storage.getInvoiceSettings();
+  return {
+    ...shopContext(settings),
+    "customer.name": quote.customer.name,
+    "customer.company": quote.customer.company ?? "",
+    "customer.email": quote.customer.email,
+    "quote.quoteNumber": quote.quoteNumber,
+    "quote.total": quote.total != null ? formatMoney(quote.total, settings.currencySymbol) : "",
+    "quote.validUntil": formatDate(quote.validUntil),
+    items: itemsTable(quote.items),
+    note: note ?? "",
+  };
+}
+
+// Made-up values for previewing a template without picking a job
+export async function sampleTemplateContext(note?: string | null): Promise<TemplateContext> {
+  const settings = await storage.getInvoiceSettings();
+  const dueDate = new Date(Date.now() + 5 * 24 * 60 * 60 * 1000);
+  return {
+    ...shopContext(settings),
+    "customer.name": "Jane Smith",
+    "customer.company": "Acme Prototyping",
+    "customer.email": "jane@example.com",
+    "job.jobNumber": `${new Date().getFullYear()}-001`,
+    "job.status": "Printing",
+    "job.progress": "40",
+    "job.dueDate": formatDate(dueDate),
+    "job.total": formatMoney(86.5, settings.currencySymbol),
+    "job.invoiceNumber": `INV-${new Date().getFullYear()}-001`,
+    "quote.quoteNumber": `Q-${new Date().getFullYear()}-001`,
+    "quote.total": formatMoney(86.5, settings.currencySymbol),
+    "quote.validUntil": formatDate(dueDate),
+    items: itemsTable([
+      { name: "Enclosure lid", quantity: 4, material: "PETG" },
+      { name: "Mounting bracket", quantity: 10, material: "PLA" },
+    ]),
+    eta: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" }),
+    note: note ?? "",
+  };
+}
@@ -0,0 +1,24 @@
+import { EventEmitter } from "events";
+
+export type StorageChange = {
+  entity: string; // "job", "jobItem", "printer", ...
+  action: "create" | "update" | "delete";
+  id: number | undefined;
+};
+
+// Fires after every successful write to storage, so services that derive state
+// from the data (the print schedule, ...) can refresh without polling
+class StorageEvents extends EventEmitter {
+  emitChange(change: StorageChange) {
+    this.emit("change", change);
+  }
+
+  onChange(listener: (change: StorageChange) => void) {
+    this.on("change", listener);
+    return () => {
+      this.off("change", listener);
+    };
+  }
+}
+
+export const storageEvents = new StorageEvents();
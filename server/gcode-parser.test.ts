@@ -0,0 +1,66 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { analyzeGcodeFile } from "./gcode-parser";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "gcode-test-"));
+});
+
+afterAll(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+async function gcodeFile(lines: string[]): Promise<string> {
+  const file = path.join(dir, `${Math.random().toString(36).slice(2)}.gcode`);
+  await fs.promises.writeFile(file, lines.join("\r\n"));
+  return file;
+}
+
+// A 10 mm square per layer, extruding 1 mm of filament per side
+function moves(layers: number): string[] {
+  return Array.from({ length: layers }, (_, layer) => [
+    `G1 Z${(layer + 1) * 0.2} F600`,
+    "G1 X10 Y0 E1 F1200",
+    "G1 X10 Y10 E1",
+    "G1 X0 Y10 E1",
+    "G1 X0 Y0 E1",
+  ]).flat();
+}
+
+describe("analyzeGcodeFile", () => {
+  it("reads the slicer's summary from the end of a long file", async () => {
+    const file = await gcodeFile([
+      "; generated by PrusaSlicer 2.7.1",
+      "M83",
+      ...moves(500),
+      "; filament used [mm] = 4567.89",
+      "; filament used [g] = 13.62",
+      "; estimated printing time (normal mode) = 1h 24m 0s",
+      "; total layers count = 500",
+      "; filament_type = PETG",
+    ]);
+
+    expect(await analyzeGcodeFile(file)).toEqual({
+      slicer: "PrusaSlicer",
+      source: "header",
+      printTime: 84,
+      filamentLength: 4567.9,
+      filamentWeight: 13.62,
+      layerCount: 500,
+      material: "PETG",
+    });
+  });
+
+  it("works the estimate out from the moves when the slicer left none", async () => {
+    const analysis = await analyzeGcodeFile(await gcodeFile(["M83", ...moves(10)]));
+
+    expect(analysis.source).toBe("simulated");
+    expect(analysis.layerCount).toBe(10);
+    expect(analysis.filamentLength).toBe(40);
+    expect(analysis.printTime).toBe(1);
+  });
+});
@@ -0,0 +1,274 @@
+import fs from "fs";
+import readline from "readline";
+import type { GcodeAnalysis } from "@shared/schema";
+
+// g/cm³, used to turn filament length into grams when the slicer didn't say
+const MATERIAL_DENSITY: Record<string, number> = {
+  PLA: 1.24,
+  PETG: 1.27,
+  ABS: 1.04,
+  ASA: 1.07,
+  TPU: 1.21,
+  PA: 1.14,
+  NYLON: 1.14,
+  PC: 1.2,
+};
+const DEFAULT_DENSITY = 1.24;
+const DEFAULT_FILAMENT_DIAMETER = 1.75; // mm
+
+// Slicers only annotate the top and bottom of the file, the middle is millions of moves
+const HEADER_LINES = 1000;
+
+type HeaderValues = {
+  slicer: string | null;
+  printTime: number | null; // in seconds
+  filamentLength: number | null; // in mm
+  filamentWeight: number | null; // in grams
+  layerCount: number | null;
+  material: string | null;
+  filamentDiameter: number | null;
+  filamentDensity: number | null;
+};
+
+// "1d 2h 3m 4s", "2h 30m", "45s" -> seconds
+export function parseDuration(text: string): number | null {
+  const units: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+  let seconds = 0;
+  let matched = false;
+  for (const [, value, unit] of Array.from(text.matchAll(/(\d+(?:\.\d+)?)\s*([dhms])\b/gi))) {
+    seconds += parseFloat(value) * units[unit.toLowerCase()];
+    matched = true;
+  }
+  return matched ? seconds : null;
+}
+
+function firstNumber(text: string): number | null {
+  const value = parseFloat(text.split(/[,;]/)[0]);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Multi-extruder files list one value per extruder, "1234.5, 0.0"
+function sumNumbers(text: string): number | null {
+  const values = text.split(/[,;]/).map(value => parseFloat(value)).filter(Number.isFinite);
+  return values.length ? values.reduce((sum, value) => sum + value, 0) : null;
+}
+
+function firstMaterial(text: string): string | null {
+  const material = text.split(/[,;]/)[0].replace(/["']/g, "").trim();
+  return material || null;
+}
+
+// PrusaSlicer, OrcaSlicer and Bambu Studio write "; key = value", Cura writes ";KEY:value"
+function readHeader(lines: string[]): HeaderValues {
+  const header: HeaderValues = {
+    slicer: null,
+    printTime: null,
+    filamentLength: null,
+    filamentWeight: null,
+    layerCount: null,
+    material: null,
+    filamentDiameter: null,
+    filamentDensity: null,
+  };
+
+  for (const line of lines) {
+    if (!line.startsWith(";")) continue;
+    const comment = line.slice(1).trim();
+    let match: RegExpMatchArray | null;
+
+    if ((match = comment.match(/^generated by (\S+)/i)) || (match = comment.match(/^Generated with (Cura)/))) {
+      header.slicer ??= match[1];
+    } else if ((match = comment.match(/^(BambuStudio|OrcaSlicer)\b/))) {
+      header.slicer ??= match[1];
+    } else if ((match = comment.match(/^TIME:(\d+)/))) {
+      header.printTime ??= parseInt(match[1]);
+    } else if ((match = comment.match(/^Filament used:\s*([\d.]+)m/))) {
+      header.filamentLength ??= parseFloat(match[1]) * 1000;
+    } else if ((match = comment.match(/^LAYER_COUNT:(\d+)/))) {
+      header.layerCount ??= parseInt(match[1]);
+    } else if ((match = comment.match(/^estimated printing time \(normal mode\)\s*=\s*(.+)$/))) {
+      header.printTime ??= parseDuration(match[1]);
+    } else if ((match = comment.match(/total estimated time:\s*([^;]+)/))) {
+      header.printTime ??= parseDuration(match[1]);
+    } else if ((match = comment.match(/^(?:total )?filament (?:used|length) \[mm\]\s*[:=]\s*(.+)$/))) {
+      header.filamentLength ??= sumNumbers(match[1]);
+    } else if ((match = comment.match(/^(?:total )?filament (?:used|weight) \[g\]\s*[:=]\s*(.+)$/))) {
+      header.filamentWeight ??= sumNumbers(match[1]);
+    } else if ((match = comment.match(/^total layers? (?:count|number)\s*[:=]\s*(\d+)/))) {
+      header.layerCount ??= parseInt(match[1]);
+    } else if ((match = comment.match(/^filament_type\s*=\s*(.+)$/))) {
+      header.material ??= firstMaterial(match[1]);
+    } else if ((match = comment.match(/^filament_diameter\s*=\s*(.+)$/))) {
+      header.filamentDiameter ??= firstNumber(match[1]);
+    } else if ((match = comment.match(/^filament_density\s*=\s*(.+)$/))) {
+      header.filamentDensity ??= firstNumber(match[1]);
+    }
+  }
+
+  return header;
+}
+
+type SimulationResult = {
+  printTime: number; // in seconds
+  filamentLength: number; // in mm
+  layerCount: number;
+};
+
+function word(fields: string[], letter: string): number | undefined {
+  const field = fields.find(field => field[0] === letter);
+  if (!field) return undefined;
+  const value = parseFloat(field.slice(1));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// Walks the moves at their programmed feedrate, one line at a time. Acceleration is
+// ignored, so this comes out somewhat optimistic compared to a slicer's own estimate
+export class GcodeSimulator {
+  private position = { X: 0, Y: 0, Z: 0, E: 0 };
+  private feedrate = 1500; // mm/min
+  private absolute = true;
+  private absoluteExtrusion = true;
+  private scale = 1; // G20 switches to inches
+  private seconds = 0;
+  private extruded = 0;
+  private layerHeights = new Set<number>();
+
+  feed(rawLine: string) {
+    const line = rawLine.split(";")[0].trim().toUpperCase();
+    if (!line) return;
+    const fields = line.split(/\s+/);
+    const command = fields[0];
+    const position = this.position;
+    const scale = this.scale;
+
+    switch (command) {
+      case "G90": this.absolute = true; this.absoluteExtrusion = true; return;
+      case "G91": this.absolute = false; this.absoluteExtrusion = false; return;
+      case "M82": this.absoluteExtrusion = true; return;
+      case "M83": this.absoluteExtrusion = false; return;
+      case "G20": this.scale = 25.4; return;
+      case "G21": this.scale = 1; return;
+      case "G92": {
+        for (const axis of ["X", "Y", "Z", "E"] as const) {
+          const value = word(fields, axis);
+          if (value !== undefined) position[axis] = value * scale;
+        }
+        return;
+      }
+      case "G4": {
+        const ms = word(fields, "P");
+        const s = word(fields, "S");
+        this.seconds += ms !== undefined ? ms / 1000 : s ?? 0;
+        return;
+      }
+    }
+
+    const isArc = command === "G2" || command === "G02" || command === "G3" || command === "G03";
+    const isMove = command === "G0" || command === "G00" || command === "G1" || command === "G01" || isArc;
+    if (!isMove) return;
+
+    const f = word(fields, "F");
+    if (f !== undefined && f > 0) this.feedrate = f * scale;
+
+    const target = { ...position };
+    for (const axis of ["X", "Y", "Z"] as const) {
+      const value = word(fields, axis);
+      if (value !== undefined) target[axis] = this.absolute ? value * scale : position[axis] + value * scale;
+    }
+    const e = word(fields, "E");
+    if (e !== undefined) target.E = this.absoluteExtrusion ? e * scale : position.E + e * scale;
+
+    const dx = target.X - position.X;
+    const dy = target.Y - position.Y;
+    const dz = target.Z - position.Z;
+    const de = target.E - position.E;
+
+    let distance = Math.hypot(dx, dy, dz);
+    if (isArc) {
+      // Arc length from the centre offset, falls back to the chord without one
+      const i = (word(fields, "I") ?? 0) * scale;
+      const j = (word(fields, "J") ?? 0) * scale;
+      const radius = Math.hypot(i, j);
+      if (radius > 0) {
+        const startAngle = Math.atan2(-j, -i);
+        const endAngle = Math.atan2(target.Y - (position.Y + j), target.X - (position.X + i));
+        const clockwise = command === "G2" || command === "G02";
+        let sweep = clockwise ? startAngle - endAngle : endAngle - startAngle;
+        if (sweep <= 0) sweep += 2 * Math.PI;
+        distance = Math.hypot(radius * sweep, dz);
+      }
+    }
+    // Retracts and primes only move the extruder
+    if (distance === 0) distance = Math.abs(de);
+
+    this.seconds += distance / (this.feedrate / 60);
+    this.extruded += de;
+    if (de > 0 && (dx !== 0 || dy !== 0 || isArc)) this.layerHeights.add(Math.round(target.Z * 1000));
+
+    Object.assign(position, target);
+  }
+
+  result(): SimulationResult {
+    return {
+      printTime: this.seconds,
+      filamentLength: Math.max(0, this.extruded),
+      layerCount: this.layerHeights.size,
+    };
+  }
+}
+
+export function materialDensity(material: string | null): number {
+  return MATERIAL_DENSITY[material?.trim().toUpperCase() ?? ""] ?? DEFAULT_DENSITY;
+}
+
+function weightFromLength(length: number, material: string | null, diameter: number | null, density: number | null): number {
+  const radiusCm = (diameter ?? DEFAULT_FILAMENT_DIAMETER) / 20;
+  return Math.PI * radiusCm * radiusCm * (length / 10) * (density ?? materialDensity(material));
+}
+
+// Streams the file a line at a time, so a large upload is never held in memory as one
+// string and other requests are served in between chunks
+function readLines(path: string): AsyncIterable<string> {
+  return readline.createInterface({ input: fs.createReadStream(path), crlfDelay: Infinity });
+}
+
+// Trusts the slicer's own numbers and only simulates what the header leaves out, in a
+// second pass over the file
+export async function analyzeGcodeFile(path: string): Promise<GcodeAnalysis> {
+  const head: string[] = [];
+  const tail: string[] = []; // the last HEADER_LINES, as a ring starting at lineCount
+  let lineCount = 0;
+  for await (const line of readLines(path)) {
+    if (head.length < HEADER_LINES) {
+      head.push(line);
+    } else {
+      tail[(lineCount - HEADER_LINES) % HEADER_LINES] = line;
+    }
+    lineCount++;
+  }
+  const split = tail.length < HEADER_LINES ? 0 : (lineCount - HEADER_LINES) % HEADER_LINES;
+  const header = readHeader([...head, ...tail.slice(split), ...tail.slice(0, split)]);
+
+  let simulated: SimulationResult | null = null;
+  if (header.printTime === null || header.filamentLength === null || header.layerCount === null) {
+    const simulator = new GcodeSimulator();
+    for await (const line of readLines(path)) {
+      simulator.feed(line);
+    }
+    simulated = simulator.result();
+  }
+
+  const filamentLength = header.filamentLength ?? simulated!.filamentLength;
+  const filamentWeight = header.filamentWeight
+    ?? weightFromLength(filamentLength, header.material, header.filamentDiameter, header.filamentDensity);
+
+  return {
+    slicer: header.slicer,
+    source: header.printTime !== null ? "header" : "simulated",
+    printTime: Math.max(1, Math.round((header.printTime ?? simulated!.printTime) / 60)),
+    filamentLength: Math.round(filamentLength * 10) / 10,
+    filamentWeight: Math.round(filamentWeight * 100) / 100,
+    layerCount: header.layerCount ?? simulated!.layerCount,
+    material: header.material,
+  };
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startPrinterPolling } from "./connectors";
+import { startEmailDelivery } from "./email";
+import { startAutoNotifications } from "./email/auto-notify";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +69,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startPrinterPolling();
+    startEmailDelivery();
+    startAutoNotifications().catch(error => console.error("Automatic notifications failed to start:", error));
   });
 })();
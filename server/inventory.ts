@@ -0,0 +1,156 @@
+import type {
+  InsertSpool,
+  JobItem,
+  JobWithCustomer,
+  MaterialShortage,
+  MaterialThreshold,
+  PurchaseOrder,
+  Spool,
+  StockLevel,
+} from "@shared/schema";
+
+// Grams one copy uses: the slicer's figure once there's G-code, the model estimate before that
+export function gramsPerItem(item: Pick<JobItem, "filamentWeight" | "model">): number | null {
+  return item.filamentWeight ?? item.model?.estimatedWeight ?? null;
+}
+
+// Grams to take off the item's spool for the copies finished by this update. Lowering
+// the completed quantity (a typo fixed) puts the filament back
+export function filamentConsumed(existing: JobItem, updated: JobItem): number {
+  const finished = (updated.completedQuantity || 0) - (existing.completedQuantity || 0);
+  const grams = gramsPerItem(updated);
+  return updated.spoolId && grams ? finished * grams : 0;
+}
+
+function materialKey(material: string): string {
+  return material.trim().toUpperCase();
+}
+
+type MaterialDemand = {
+  material: string;
+  grams: number;
+  jobs: Array<{ id: number; jobNumber: string }>;
+};
+
+// Grams the open work still needs per material. Items on a spool count against that
+// spool's material; items without a gram estimate can't be counted
+function openDemand(jobs: JobWithCustomer[], spools: Spool[]): Map<string, MaterialDemand> {
+  const spoolsById = new Map(spools.map(spool => [spool.id, spool]));
+  const demand = new Map<string, MaterialDemand>();
+
+  for (const job of jobs) {
+    if (job.status === "completed") continue;
+
+    for (const item of job.items) {
+      const remaining = item.quantity - (item.completedQuantity || 0);
+      const grams = gramsPerItem(item);
+      const material = (item.spoolId && spoolsById.get(item.spoolId)?.material) || item.material;
+      if (item.status === "completed" || remaining <= 0 || !grams || !material?.trim()) continue;
+
+      const key = materialKey(material);
+      const entry = demand.get(key) ?? { material: material.trim(), grams: 0, jobs: [] };
+      entry.grams += remaining * grams;
+      if (!entry.jobs.some(entryJob => entryJob.id === job.id)) {
+        entry.jobs.push({ id: job.id, jobNumber: job.jobNumber });
+      }
+      demand.set(key, entry);
+    }
+  }
+
+  return demand;
+}
+
+// Compares what the open work still needs per material with what is on the shelf
+export function findMaterialShortages(jobs: JobWithCustomer[], spools: Spool[]): MaterialShortage[] {
+  const onHand = new Map<string, number>();
+  for (const spool of spools) {
+    const key = materialKey(spool.material);
+    onHand.set(key, (onHand.get(key) ?? 0) + spool.remainingWeight);
+  }
+
+  return Array.from(openDemand(jobs, spools).entries())
+    .map(([key, entry]) => ({
+      material: entry.material,
+      needed: Math.round(entry.grams),
+      onHand: Math.round(onHand.get(key) ?? 0),
+      jobs: entry.jobs,
+    }))
+    .filter(entry => entry.needed > entry.onHand);
+}
+
+// One row per material that is on the shelf, in the queue, on order or has a threshold
+export function buildStockLevels(
+  jobs: JobWithCustomer[],
+  spools: Spool[],
+  thresholds: MaterialThreshold[],
+  purchaseOrders: PurchaseOrder[],
+): StockLevel[] {
+  const levels = new Map<string, StockLevel>();
+  const levelFor = (material: string) => {
+    const key = materialKey(material);
+    let level = levels.get(key);
+    if (!level) {
+      level = {
+        material: material.trim(),
+        onHand: 0,
+        spoolCount: 0,
+        queued: 0,
+        projected: 0,
+        onOrder: 0,
+        thresholdId: null,
+        reorderThreshold: null,
+        low: false,
+      };
+      levels.set(key, level);
+    }
+    return level;
+  };
+
+  for (const spool of spools) {
+    const level = levelFor(spool.material);
+    level.onHand += spool.remainingWeight;
+    level.spoolCount++;
+  }
+  for (const entry of Array.from(openDemand(jobs, spools).values())) {
+    levelFor(entry.material).queued += entry.grams;
+  }
+  for (const order of purchaseOrders) {
+    if (order.status !== "ordered") continue;
+    for (const line of order.lines) {
+      levelFor(line.material).onOrder += line.spoolWeight * line.quantity;
+    }
+  }
+  for (const threshold of thresholds) {
+    const level = levelFor(threshold.material);
+    level.thresholdId = threshold.id;
+    level.reorderThreshold = threshold.reorderThreshold;
+  }
+
+  return Array.from(levels.values())
+    .map(level => {
+      const projected = level.onHand - level.queued;
+      return {
+        ...level,
+        onHand: Math.round(level.onHand),
+        queued: Math.round(level.queued),
+        projected: Math.round(projected),
+        onOrder: Math.round(level.onOrder),
+        low: level.reorderThreshold !== null && projected < level.reorderThreshold,
+      };
+    })
+    .sort((a, b) => a.material.localeCompare(b.material));
+}
+
+// The spools a delivery puts on the shelf, one per spool ordered
+export function spoolsFromPurchaseOrder(order: PurchaseOrder): InsertSpool[] {
+  return order.lines.flatMap(line => Array.from({ length: line.quantity }, () => ({
+    material: line.material,
+    colour: line.colour || null,
+    brand: line.brand || null,
+    diameter: 1.75,
+    initialWeight: line.spoolWeight,
+    remainingWeight: line.spoolWeight,
+    costPerKg: line.unitPrice != null ? Math.round(line.unitPrice / (line.spoolWeight / 1000) * 100) / 100 : null,
+    notes: `Received on ${order.orderNumber}`,
+  })));
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { LOW_CONFIDENCE_THRESHOLD } from "@shared/schema";
+import { parseInvoiceLine, parseInvoiceText } from "./invoice-parser";
+
+describe("parseInvoiceLine", () => {
+  it("trusts a row whose quantity, price and amount add up", () => {
+    const item = parseInvoiceLine("Corner joiners - Black   4   R 25.00   R 100.00");
+
+    expect(item).toMatchObject({ name: "Corner joiners - Black", quantity: 4, unitPrice: 25 });
+    expect(item!.confidence).toBeGreaterThanOrEqual(LOW_CONFIDENCE_THRESHOLD);
+  });
+
+  it("reads the quantity before the description", () => {
+    const item = parseInvoiceLine("4   Corner joiners - Black   R 25.00   R 100.00");
+
+    expect(item).toMatchObject({ name: "Corner joiners - Black", quantity: 4, unitPrice: 25 });
+    expect(item!.confidence).toBeGreaterThanOrEqual(LOW_CONFIDENCE_THRESHOLD);
+  });
+
+  it.each([
+    ["an amount that doesn't add up", "Corner joiners   4   R 25.00   R 90.00"],
+    ["no amount to check the price against", "Corner joiners - Black   4   R 25.00"],
+    ["no price", "2x Gear Assembly"],
+    ["only a trailing number", "Bracket - 3"],
+    ["contact details for a description", "Tel 021 555   2   R 10.00   R 20.00"],
+  ])("flags a row with %s as doubtful", (_case, line) => {
+    const item = parseInvoiceLine(line);
+
+    expect(item).not.toBeNull();
+    expect(item!.confidence).toBeLessThan(LOW_CONFIDENCE_THRESHOLD);
+  });
+
+  it.each([
+    "Thank you for your business",
+    "Subtotal   R 100.00",
+    "Delivery   R 85.00",
+  ])("skips %s, which has no quantity", (line) => {
+    expect(parseInvoiceLine(line)).toBeNull();
+  });
+});
+
+describe("parseInvoiceText", () => {
+  it("reads the items between the table header and its totals", () => {
+    const invoice = parseInvoiceText([
+      "Tax Invoice INV-1042",
+      "Bill to: Jane Maker",
+      "Jane@Maker.com",
+      "Description   Qty   Price   Amount",
+      "Corner joiners - Black   4   R 25.00   R 100.00",
+      "2x Gear Assembly",
+      "Subtotal   R 100.00",
+      "Page 1   2   R 1.00   R 2.00",
+    ].join("\n"));
+
+    expect(invoice).toEqual({
+      templateName: null,
+      invoiceNumber: "INV-1042",
+      customerName: "Jane Maker",
+      emails: ["jane@maker.com"],
+      items: [
+        { name: "Corner joiners - Black", quantity: 4, unitPrice: 25, confidence: 0.95 },
+        { name: "Gear Assembly", quantity: 2, unitPrice: null, confidence: 0.55 },
+      ],
+    });
+  });
+
+  it("trusts rows less when it can't find the table", () => {
+    const [item] = parseInvoiceText("Invoice 77\nCorner joiners - Black   4   R 25.00   R 100.00").items;
+
+    expect(item.confidence).toBe(0.8);
+  });
+});
@@ -0,0 +1,215 @@
+import pdfParse from "pdf-parse/lib/pdf-parse.js";
+import type { ExtractedInvoice, ExtractedInvoiceItem } from "@shared/schema";
+
+export interface PdfTextCell {
+  x: number;
+  text: string;
+}
+
+export interface PdfTextRow {
+  page: number;
+  y: number;
+  cells: PdfTextCell[];
+}
+
+// The part of pdf.js's page that pagerender uses; pdf-parse's own types leave it as any
+interface PdfPage {
+  getTextContent(options?: { normalizeWhitespace?: boolean }): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
+
+const MONEY = String.raw`(?:[A-Z]{1,3}\s?|[$€£]\s?)?(-?\d{1,3}(?:[ ,]?\d{3})*(?:\.\d{2}))`;
+
+// "Corner joiners - Black   4   R 25.00   R 100.00"
+const DESCRIPTION_QTY_PRICE_AMOUNT = new RegExp(String.raw`^(.+?)\s+(\d+(?:\.\d+)?)\s+${MONEY}\s+${MONEY}$`);
+// "4   Corner joiners - Black   R 25.00   R 100.00"
+const QTY_DESCRIPTION_PRICE_AMOUNT = new RegExp(String.raw`^(\d+(?:\.\d+)?)\s+(.+?)\s+${MONEY}\s+${MONEY}$`);
+// "Corner joiners - Black   4   R 25.00"
+const DESCRIPTION_QTY_PRICE = new RegExp(String.raw`^(.+?)\s+(\d+(?:\.\d+)?)\s+${MONEY}$`);
+// "2x Gear Assembly" / "2 x Gear Assembly"
+const QTY_TIMES_DESCRIPTION = /^(\d+)\s*x\s+(.+)$/i;
+// "Bracket - 3" / "Bracket x 3"
+const DESCRIPTION_TIMES_QTY = /^(.+?)\s*(?:-|x|×)\s*(\d+)$/i;
+
+const TABLE_HEADER = /\b(description|item|product)\b.*\b(qty|quantity|units?)\b|\b(qty|quantity)\b.*\b(description|item|product)\b/i;
+const TABLE_FOOTER = /^(sub\s*-?\s*total|total|vat|tax|balance|amount due|discount)\b/i;
+const INVOICE_NUMBER = /\b(?:tax\s+)?invoice\s*(?:no\.?|number|num|#)?\s*[:#]?\s*([A-Z]{0,5}[-\/]?\d[\w\-\/]*)/i;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const CUSTOMER_LABEL = /^(?:bill(?:ed)?\s+to|invoice\s+to|sold\s+to|customer(?:\s+name)?|client)\s*:?\s*(.*)$/i;
+
+export function parseMoney(value: string): number {
+  return parseFloat(value.replace(/[^\d.\-]/g, ""));
+}
+
+export function roundConfidence(value: number): number {
+  return Math.max(0, Math.min(1, Math.round(value * 100) / 100));
+}
+
+function cleanDescription(description: string): string {
+  return description.replace(/\s{2,}/g, " ").replace(/[\s\-–:]+$/, "").trim();
+}
+
+// Scores how much a row looks like a genuine line item rather than an address or a note
+function descriptionConfidence(description: string): number {
+  if (description.length < 3) return -0.3;
+  if (!/[a-z]/i.test(description)) return -0.3;
+  if (/\b(page|tel|phone|fax|email|vat no|reg no|bank|account|branch)\b/i.test(description)) return -0.3;
+  return 0;
+}
+
+export function parseInvoiceLine(line: string): ExtractedInvoiceItem | null {
+  let match = line.match(DESCRIPTION_QTY_PRICE_AMOUNT);
+  if (match) {
+    const quantity = parseFloat(match[2]);
+    const unitPrice = parseMoney(match[3]);
+    const amount = parseMoney(match[4]);
+    // The row adds up, so the columns were almost certainly read correctly
+    const totalsAgree = Math.abs(quantity * unitPrice - amount) < 0.01 * Math.max(1, amount);
+    return {
+      name: cleanDescription(match[1]),
+      quantity,
+      unitPrice,
+      confidence: roundConfidence((totalsAgree ? 0.95 : 0.6) + descriptionConfidence(match[1])),
+    };
+  }
+
+  match = line.match(QTY_DESCRIPTION_PRICE_AMOUNT);
+  if (match) {
+    const quantity = parseFloat(match[1]);
+    const unitPrice = parseMoney(match[3]);
+    const amount = parseMoney(match[4]);
+    const totalsAgree = Math.abs(quantity * unitPrice - amount) < 0.01 * Math.max(1, amount);
+    return {
+      name: cleanDescription(match[2]),
+      quantity,
+      unitPrice,
+      confidence: roundConfidence((totalsAgree ? 0.9 : 0.55) + descriptionConfidence(match[2])),
+    };
+  }
+
+  match = line.match(DESCRIPTION_QTY_PRICE);
+  if (match) {
+    return {
+      name: cleanDescription(match[1]),
+      quantity: parseFloat(match[2]),
+      unitPrice: parseMoney(match[3]),
+      confidence: roundConfidence(0.6 + descriptionConfidence(match[1])),
+    };
+  }
+
+  match = line.match(QTY_TIMES_DESCRIPTION);
+  if (match) {
+    return {
+      name: cleanDescription(match[2]),
+      quantity: parseInt(match[1]),
+      unitPrice: null,
+      confidence: roundConfidence(0.55 + descriptionConfidence(match[2])),
+    };
+  }
+
+  match = line.match(DESCRIPTION_TIMES_QTY);
+  if (match) {
+    return {
+      name: cleanDescription(match[1]),
+      quantity: parseInt(match[2]),
+      unitPrice: null,
+      confidence: roundConfidence(0.45 + descriptionConfidence(match[1])),
+    };
+  }
+
+  return null;
+}
+
+function findInvoiceNumber(lines: string[]): string | null {
+  for (const line of lines) {
+    const match = line.match(INVOICE_NUMBER);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function findCustomerName(lines: string[]): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(CUSTOMER_LABEL);
+    if (!match) continue;
+
+    // The name is either on the label line itself or on the line below it
+    const name = match[1].trim() || lines[i + 1]?.trim();
+    if (name) return name;
+  }
+  return null;
+}
+
+export function findEmails(text: string): string[] {
+  const emails = (text.match(EMAIL) ?? []).map(email => email.toLowerCase());
+  return Array.from(new Set(emails));
+}
+
+export function parseInvoiceText(text: string): ExtractedInvoice {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\t/g, " ").trim())
+    .filter(Boolean);
+
+  // Only look at the line-item table when we can find one, otherwise scan the whole document
+  const headerIndex = lines.findIndex(line => TABLE_HEADER.test(line));
+  const start = headerIndex === -1 ? 0 : headerIndex + 1;
+  const footerIndex = lines.findIndex((line, index) => index >= start && TABLE_FOOTER.test(line));
+  const tableLines = lines.slice(start, footerIndex === -1 ? undefined : footerIndex);
+
+  const items: ExtractedInvoiceItem[] = [];
+  for (const line of tableLines) {
+    const item = parseInvoiceLine(line);
+    if (item && item.quantity > 0) {
+      // Rows found outside an identified table are more likely to be noise
+      items.push(headerIndex === -1 ? { ...item, confidence: roundConfidence(item.confidence - 0.15) } : item);
+    }
+  }
+
+  return {
+    templateName: null,
+    invoiceNumber: findInvoiceNumber(lines),
+    customerName: findCustomerName(lines),
+    emails: findEmails(text),
+    items,
+  };
+}
+
+// pdf-parse glues text items on the same line together ("Black4R 25.00"),
+// so we render pages ourselves and keep each item's position
+export async function extractPdfRows(buffer: Buffer): Promise<PdfTextRow[]> {
+  const rows: PdfTextRow[] = [];
+  let page = 0;
+
+  // pdf.js reads the whole underlying ArrayBuffer, which for small pooled Buffers
+  // starts with unrelated bytes, so hand it a copy it owns
+  await pdfParse(new Uint8Array(buffer) as Buffer, {
+    pagerender: async (pageData: PdfPage) => {
+      page++;
+      const content = await pageData.getTextContent({ normalizeWhitespace: true });
+      const pageRows = new Map<number, PdfTextCell[]>();
+
+      for (const item of content.items) {
+        const text = item.str.trim();
+        if (!text) continue;
+
+        const [, , , , x, y] = item.transform;
+        const rowY = Math.round(y);
+        pageRows.set(rowY, [...(pageRows.get(rowY) ?? []), { x: Math.round(x), text }]);
+      }
+
+      Array.from(pageRows.entries())
+        .sort(([a], [b]) => b - a)
+        .forEach(([y, cells]) => rows.push({ page, y, cells: cells.sort((a, b) => a.x - b.x) }));
+
+      return "";
+    },
+  });
+
+  return rows;
+}
+
+export function rowsToText(rows: PdfTextRow[]): string {
+  return rows.map(row => row.cells.map(cell => cell.text).join("\t")).join("\n");
+}
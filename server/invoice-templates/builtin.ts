@@ -0,0 +1,52 @@
+import type { InsertInvoiceTemplate } from "@shared/schema";
+
+// Layouts we've seen often enough to ship with. Each one has a sample PDF and the
+// expected extraction in ./fixtures, checked by index.test.ts.
+export const builtInTemplates: InsertInvoiceTemplate[] = [
+  {
+    name: "Von Benneke Projects",
+    priority: 100,
+    enabled: true,
+    identifierPattern: String.raw`^Von Benneke Projects\b`,
+    invoiceNumberPattern: String.raw`Invoice No:\s*(\S+)`,
+    customerNamePattern: String.raw`^(Von Benneke Projects)\b`,
+    tableStartPattern: String.raw`^Description\tQty\tUnit Price\tAmount$`,
+    tableEndPattern: String.raw`^(Subtotal|Total)\b`,
+    lineItemPattern: null,
+    columns: [
+      { field: "description", fromX: 40, toX: 290 },
+      { field: "quantity", fromX: 290, toX: 350 },
+      { field: "unitPrice", fromX: 350, toX: 450 },
+      { field: "amount", fromX: 450, toX: null },
+    ],
+  },
+  {
+    name: "Xero",
+    priority: 100,
+    enabled: true,
+    identifierPattern: String.raw`^Description\tQuantity\tUnit Price\t(GST|VAT|Tax)\tAmount`,
+    invoiceNumberPattern: String.raw`Invoice Number\n(?:[^\n]*\t)?(\S+)$`,
+    customerNamePattern: String.raw`^TAX INVOICE\t(.+)$`,
+    tableStartPattern: String.raw`^Description\tQuantity\tUnit Price`,
+    tableEndPattern: String.raw`^Subtotal\b`,
+    lineItemPattern: String.raw`^(?<description>[^\t]+)\t(?<quantity>\d+(?:\.\d+)?)\t(?<unitPrice>[\d,]+\.\d{2})\t[^\t]*\t(?<amount>[\d,]+\.\d{2})$`,
+    columns: null,
+  },
+  {
+    name: "QuickBooks Online",
+    priority: 100,
+    enabled: true,
+    identifierPattern: String.raw`^ACTIVITY\tQTY\tRATE\tAMOUNT$`,
+    invoiceNumberPattern: String.raw`INVOICE #\t(\S+)`,
+    customerNamePattern: String.raw`^([^\t\n]+)\tINVOICE$`,
+    tableStartPattern: String.raw`^ACTIVITY\tQTY\tRATE\tAMOUNT$`,
+    tableEndPattern: String.raw`^(SUBTOTAL|TAX|TOTAL|BALANCE DUE)\b`,
+    lineItemPattern: null,
+    columns: [
+      { field: "description", fromX: 40, toX: 320 },
+      { field: "quantity", fromX: 320, toX: 390 },
+      { field: "unitPrice", fromX: 390, toX: 470 },
+      { field: "amount", fromX: 470, toX: null },
+    ],
+  },
+];
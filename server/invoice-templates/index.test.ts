@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import type { InsertInvoiceTemplate } from "@shared/schema";
+import { extractPdfRows } from "../invoice-parser";
+import { applyInvoiceTemplate, builtInTemplates, parseInvoiceRows } from "./index";
+
+const rows = [
+  { page: 1, y: 10, cells: [{ x: 10, text: "ACME PRINTS" }] },
+  { page: 1, y: 20, cells: [{ x: 10, text: "Description" }, { x: 200, text: "Qty" }] },
+  { page: 1, y: 30, cells: [{ x: 10, text: "Corner joiner" }, { x: 200, text: "4" }] },
+  { page: 1, y: 40, cells: [{ x: 10, text: `${"a".repeat(40)}!` }] },
+];
+
+const template: InsertInvoiceTemplate = {
+  name: "Acme",
+  identifierPattern: "ACME PRINTS",
+  tableStartPattern: "^Description",
+  lineItemPattern: String.raw`^(?<description>[^\t]+)\t(?<quantity>\d+)$`,
+};
+
+describe("applyInvoiceTemplate", () => {
+  it("reads items with the template's patterns", () => {
+    expect(applyInvoiceTemplate(template, rows)?.items).toEqual([
+      { name: "Corner joiner", quantity: 4, unitPrice: null, confidence: 0.8 },
+    ]);
+  });
+
+  it("stops a pattern that takes too long to match", () => {
+    const slow = { ...template, lineItemPattern: "^(?<description>(a+)+)$" };
+
+    expect(() => applyInvoiceTemplate(slow, rows)).toThrow("took too long");
+    expect(parseInvoiceRows(rows, [slow, template]).templateName).toBe("Acme");
+  });
+});
+
+// Every sample PDF in ./fixtures goes through the built-in templates and has to come out
+// as the neighbouring <name>.expected.json
+const fixturesDir = path.join(import.meta.dirname, "fixtures");
+const fixtures = fs.readdirSync(fixturesDir).filter(file => file.endsWith(".pdf")).sort();
+
+describe("built-in templates", () => {
+  it.each(fixtures)("reads %s", async (fixture) => {
+    const expected = JSON.parse(fs.readFileSync(path.join(fixturesDir, fixture.replace(/\.pdf$/, ".expected.json")), "utf8"));
+    const rows = await extractPdfRows(fs.readFileSync(path.join(fixturesDir, fixture)));
+
+    expect(parseInvoiceRows(rows, builtInTemplates)).toEqual(expected);
+  });
+
+  it("has a fixture for every template", async () => {
+    const matched = await Promise.all(fixtures.map(async (fixture) =>
+      parseInvoiceRows(await extractPdfRows(fs.readFileSync(path.join(fixturesDir, fixture))), builtInTemplates).templateName));
+
+    expect(builtInTemplates.map(template => template.name).filter(name => !matched.includes(name))).toEqual([]);
+  });
+});
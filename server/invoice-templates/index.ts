@@ -0,0 +1,183 @@
+import vm from "vm";
+import type {
+  ExtractedInvoice,
+  ExtractedInvoiceItem,
+  InsertInvoiceTemplate,
+  InvoiceTemplateColumn,
+} from "@shared/schema";
+import {
+  extractPdfRows,
+  findEmails,
+  parseInvoiceText,
+  parseMoney,
+  roundConfidence,
+  rowsToText,
+  type PdfTextRow,
+} from "../invoice-parser";
+import { builtInTemplates } from "./builtin";
+
+export { builtInTemplates };
+
+type LineValues = Partial<Record<InvoiceTemplateColumn["field"], string>>;
+
+// Template patterns are written by the shop, so each match is stopped if it runs longer
+// than this. Matching runs in a vm script because that's what can be interrupted
+const MATCH_TIMEOUT = 100; // ms
+const matchContext = vm.createContext({});
+const matchScript = new vm.Script("pattern.exec(text)");
+
+function match(pattern: RegExp, text: string): RegExpExecArray | null {
+  matchContext.pattern = pattern;
+  matchContext.text = text;
+  try {
+    return matchScript.runInContext(matchContext, { timeout: MATCH_TIMEOUT });
+  } catch (error) {
+    if ((error as { code?: string }).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      throw new Error(`The pattern ${pattern.source} took too long to match`);
+    }
+    throw error;
+  } finally {
+    matchContext.pattern = matchContext.text = undefined;
+  }
+}
+
+function rowText(row: PdfTextRow): string {
+  return row.cells.map(cell => cell.text).join("\t");
+}
+
+function capture(pattern: string | null | undefined, text: string): string | null {
+  if (!pattern) return null;
+  return match(new RegExp(pattern, "im"), text)?.[1]?.trim() || null;
+}
+
+function tableRows(template: InsertInvoiceTemplate, rows: PdfTextRow[]): PdfTextRow[] {
+  let start = 0;
+  if (template.tableStartPattern) {
+    const startPattern = new RegExp(template.tableStartPattern, "i");
+    const headerIndex = rows.findIndex(row => match(startPattern, rowText(row)));
+    if (headerIndex === -1) return [];
+    start = headerIndex + 1;
+  }
+
+  let end = rows.length;
+  if (template.tableEndPattern) {
+    const endPattern = new RegExp(template.tableEndPattern, "i");
+    const footerIndex = rows.findIndex((row, index) => index >= start && match(endPattern, rowText(row)));
+    if (footerIndex !== -1) end = footerIndex;
+  }
+
+  return rows.slice(start, end);
+}
+
+function valuesFromColumns(columns: InvoiceTemplateColumn[], row: PdfTextRow): LineValues {
+  const values: LineValues = {};
+  for (const cell of row.cells) {
+    const column = columns.find(column => cell.x >= column.fromX && (column.toX === null || cell.x < column.toX));
+    if (!column) continue;
+    values[column.field] = values[column.field] ? `${values[column.field]} ${cell.text}` : cell.text;
+  }
+  return values;
+}
+
+function valuesFromPattern(pattern: RegExp, row: PdfTextRow): LineValues | null {
+  const groups = match(pattern, rowText(row))?.groups;
+  if (!groups) return null;
+  return {
+    description: groups.description,
+    quantity: groups.quantity,
+    unitPrice: groups.unitPrice,
+    amount: groups.amount,
+  };
+}
+
+// A template that matched the document is trusted more than the generic heuristics,
+// but rows that don't add up still get flagged for review
+function toItem(values: LineValues): ExtractedInvoiceItem | null {
+  const name = values.description?.replace(/\s{2,}/g, " ").trim();
+  const quantity = values.quantity ? parseFloat(values.quantity.replace(/,/g, "")) : NaN;
+  if (!name || !(quantity > 0)) return null;
+
+  const unitPrice = values.unitPrice ? parseMoney(values.unitPrice) : NaN;
+  const amount = values.amount ? parseMoney(values.amount) : NaN;
+
+  let confidence = 0.9;
+  if (isNaN(unitPrice)) {
+    confidence = 0.8;
+  } else if (!isNaN(amount) && Math.abs(quantity * unitPrice - amount) >= 0.01 * Math.max(1, amount)) {
+    confidence = 0.6;
+  }
+  if (!Number.isInteger(quantity)) confidence -= 0.2;
+
+  return {
+    name,
+    quantity,
+    unitPrice: isNaN(unitPrice) ? null : unitPrice,
+    confidence: roundConfidence(confidence),
+  };
+}
+
+export function applyInvoiceTemplate(template: InsertInvoiceTemplate, rows: PdfTextRow[]): ExtractedInvoice | null {
+  const text = rowsToText(rows);
+  if (!match(new RegExp(template.identifierPattern, "im"), text)) return null;
+
+  const items: ExtractedInvoiceItem[] = [];
+  const linePattern = template.lineItemPattern ? new RegExp(template.lineItemPattern, "i") : null;
+
+  for (const row of tableRows(template, rows)) {
+    const values = template.columns?.length
+      ? valuesFromColumns(template.columns, row)
+      : linePattern && valuesFromPattern(linePattern, row);
+    if (!values) continue;
+
+    const item = toItem(values);
+    if (item) {
+      items.push(item);
+    } else if (values.description && !values.quantity && items.length > 0) {
+      // Long descriptions wrap onto the next row without a quantity of their own
+      const previous = items[items.length - 1];
+      previous.name = `${previous.name} ${values.description.trim()}`;
+    }
+  }
+
+  return {
+    templateName: template.name,
+    invoiceNumber: capture(template.invoiceNumberPattern, text),
+    customerName: capture(template.customerNamePattern, text),
+    emails: findEmails(text),
+    items,
+  };
+}
+
+// Templates are tried in order; the first one that recognises the layout and finds items
+// wins. One whose pattern runs too long is skipped
+export function parseInvoiceRows(rows: PdfTextRow[], templates: InsertInvoiceTemplate[]): ExtractedInvoice {
+  for (const template of templates) {
+    if (template.enabled === false) continue;
+
+    let invoice: ExtractedInvoice | null;
+    try {
+      invoice = applyInvoiceTemplate(template, rows);
+    } catch (error) {
+      console.error(`Invoice template "${template.name}" failed:`, error);
+      continue;
+    }
+    if (invoice && invoice.items.length > 0) return invoice;
+  }
+
+  return parseInvoiceText(rowsToText(rows));
+}
+
+// Shop-defined templates run before the built-in ones so they can override a layout
+export function orderTemplates(customTemplates: InsertInvoiceTemplate[]): InsertInvoiceTemplate[] {
+  return [...customTemplates].sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100)).concat(builtInTemplates);
+}
+
+export async function extractItemsFromPDF(buffer: Buffer, templates: InsertInvoiceTemplate[]): Promise<ExtractedInvoice> {
+  try {
+    const rows = await extractPdfRows(buffer);
+    return parseInvoiceRows(rows, templates);
+  } catch (error) {
+    console.error('PDF parsing error:', error);
+    throw new Error('Failed to parse PDF');
+  }
+}
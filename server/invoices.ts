@@ -0,0 +1,161 @@
+import PDFDocument from "pdfkit";
+import type { InsertInvoice, InsertInvoiceSettings, Invoice, InvoiceLine, InvoiceSettings, JobWithCustomer } from "@shared/schema";
+import { DEFAULT_CURRENCY_SYMBOL, formatMoney } from "@shared/money";
+import { roundMoney } from "./pricing";
+
+// Used until someone saves their own shop details
+export const DEFAULT_INVOICE_SETTINGS: InsertInvoiceSettings = {
+  shopName: "PrintTracker",
+  address: null,
+  email: null,
+  phone: null,
+  taxNumber: null,
+  taxName: "Tax",
+  taxRate: 0,
+  paymentTermsDays: 14,
+  currencySymbol: DEFAULT_CURRENCY_SYMBOL,
+  footer: null,
+};
+
+// Lines and totals for a priced job. Tax goes on the job total, including any minimum
+// order top-up; the number and the PDF are added once the invoice is stored
+export function buildInvoice(job: JobWithCustomer, settings: InvoiceSettings): InsertInvoice {
+  const lines: InvoiceLine[] = job.items.map(item => ({
+    description: item.material ? `${item.name} (${item.material})` : item.name,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice ?? 0,
+    amount: item.totalPrice ?? 0,
+  }));
+
+  if (job.setupFee) {
+    lines.push({ description: "Setup fee", quantity: 1, unitPrice: job.setupFee, amount: job.setupFee });
+  }
+
+  const linesTotal = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  const subtotal = job.totalPrice ?? linesTotal;
+  if (subtotal > linesTotal + 0.005) {
+    const topUp = roundMoney(subtotal - linesTotal);
+    lines.push({ description: "Minimum order top-up", quantity: 1, unitPrice: topUp, amount: topUp });
+  }
+
+  const tax = roundMoney(subtotal * (settings.taxRate / 100));
+  const dueDate = new Date();
+  dueDate.setDate(dueDate.getDate() + settings.paymentTermsDays);
+
+  return {
+    jobId: job.id,
+    customerId: job.customerId,
+    lines,
+    subtotal,
+    taxRate: settings.taxRate,
+    tax,
+    total: roundMoney(subtotal + tax),
+    pdf: null,
+    dueDate,
+  };
+}
+
+const PAGE_MARGIN = 50;
+const COLUMNS = { description: 50, quantity: 330, unitPrice: 390, amount: 475, end: 545 };
+
+export function renderInvoicePdf(invoice: Invoice, job: JobWithCustomer, settings: InvoiceSettings): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: { Title: `Invoice ${invoice.invoiceNumber}`, Author: settings.shopName },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    // Shop on the left, invoice details on the right
+    doc.font("Helvetica-Bold").fontSize(18).text(settings.shopName, PAGE_MARGIN, PAGE_MARGIN, { width: 280 });
+    doc.font("Helvetica").fontSize(9);
+    const shopLines = [
+      ...(settings.address ? settings.address.split("\n") : []),
+      settings.email,
+      settings.phone,
+      settings.taxNumber && `${settings.taxName} number: ${settings.taxNumber}`,
+    ].filter((line): line is string => !!line);
+    for (const line of shopLines) {
+      doc.text(line, { width: 280 });
+    }
+    const shopBottom = doc.y;
+
+    doc.font("Helvetica-Bold").fontSize(18).text("INVOICE", 330, PAGE_MARGIN, { width: 215, align: "right" });
+    doc.font("Helvetica").fontSize(9);
+    const issued = invoice.issuedAt ? new Date(invoice.issuedAt) : new Date();
+    const details = [
+      `Invoice ${invoice.invoiceNumber}`,
+      `Issued ${issued.toLocaleDateString()}`,
+      invoice.dueDate && `Due ${new Date(invoice.dueDate).toLocaleDateString()}`,
+      `Job ${job.jobNumber}`,
+    ].filter((line): line is string => !!line);
+    for (const line of details) {
+      doc.text(line, 330, doc.y, { width: 215, align: "right" });
+    }
+
+    // Bill to
+    let y = Math.max(shopBottom, doc.y) + 25;
+    doc.font("Helvetica-Bold").fontSize(10).text("Bill to", PAGE_MARGIN, y);
+    doc.font("Helvetica").fontSize(9);
+    const billTo = [
+      job.customer.name,
+      job.customer.company !== job.customer.name && job.customer.company,
+      job.customer.email,
+    ].filter((line): line is string => !!line);
+    for (const line of billTo) {
+      doc.text(line);
+    }
+
+    // Line items
+    y = doc.y + 25;
+    doc.font("Helvetica-Bold").fontSize(9);
+    doc.text("Description", COLUMNS.description, y, { width: COLUMNS.quantity - COLUMNS.description - 10 });
+    doc.text("Qty", COLUMNS.quantity, y, { width: COLUMNS.unitPrice - COLUMNS.quantity - 10, align: "right" });
+    doc.text("Unit price", COLUMNS.unitPrice, y, { width: COLUMNS.amount - COLUMNS.unitPrice - 10, align: "right" });
+    doc.text("Amount", COLUMNS.amount, y, { width: COLUMNS.end - COLUMNS.amount, align: "right" });
+    y = doc.y + 4;
+    doc.moveTo(COLUMNS.description, y).lineTo(COLUMNS.end, y).strokeColor("#cbd5e1").stroke();
+
+    doc.font("Helvetica");
+    for (const line of invoice.lines) {
+      y += 6;
+      if (y > doc.page.height - 150) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      doc.text(line.description, COLUMNS.description, y, { width: COLUMNS.quantity - COLUMNS.description - 10 });
+      const rowBottom = doc.y;
+      doc.text(String(line.quantity), COLUMNS.quantity, y, { width: COLUMNS.unitPrice - COLUMNS.quantity - 10, align: "right" });
+      doc.text(formatMoney(line.unitPrice, settings.currencySymbol), COLUMNS.unitPrice, y, { width: COLUMNS.amount - COLUMNS.unitPrice - 10, align: "right" });
+      doc.text(formatMoney(line.amount, settings.currencySymbol), COLUMNS.amount, y, { width: COLUMNS.end - COLUMNS.amount, align: "right" });
+      y = Math.max(rowBottom, doc.y);
+    }
+    y += 6;
+    doc.moveTo(COLUMNS.description, y).lineTo(COLUMNS.end, y).strokeColor("#cbd5e1").stroke();
+
+    // Totals
+    const totals: Array<[string, number, boolean]> = [
+      ["Subtotal", invoice.subtotal, false],
+      [`${settings.taxName} (${invoice.taxRate}%)`, invoice.tax, false],
+      ["Total", invoice.total, true],
+    ];
+    y += 8;
+    for (const [label, value, bold] of totals) {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(bold ? 11 : 9);
+      doc.text(label, COLUMNS.unitPrice - 60, y, { width: COLUMNS.amount - COLUMNS.unitPrice + 50, align: "right" });
+      doc.text(formatMoney(value, settings.currencySymbol), COLUMNS.amount, y, { width: COLUMNS.end - COLUMNS.amount, align: "right" });
+      y = doc.y + 4;
+    }
+
+    if (settings.footer) {
+      doc.font("Helvetica").fontSize(9).fillColor("#64748b")
+        .text(settings.footer, PAGE_MARGIN, y + 30, { width: COLUMNS.end - PAGE_MARGIN });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,131 @@
+import {
+  jobStatusTransitions,
+  type Job,
+  type JobItem,
+  type JobStatus,
+  type JobStatusChange,
+  type JobTimings,
+  type TurnaroundReport,
+} from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, " ");
+}
+
+// Why the job can't move to the status, or null when it can. A refused change can still
+// be forced, and the status history records that it was
+export function checkStatusChange(job: Job, items: JobItem[], to: JobStatus): string | null {
+  const from = job.status as JobStatus;
+  if (from === to) return null;
+
+  if (!jobStatusTransitions[from]?.includes(to)) {
+    return `A ${formatStatus(from)} job can't be moved to ${formatStatus(to)}`;
+  }
+
+  if (to === "completed") {
+    const unfinished = items.filter(item => (item.completedQuantity ?? 0) < item.quantity);
+    if (unfinished.length > 0) {
+      return unfinished.length === 1
+        ? `${unfinished[0].name} isn't finished`
+        : `${unfinished.length} of the job's items aren't finished`;
+    }
+  }
+
+  return null;
+}
+
+function hoursBetween(from: Date | null, to: Date | null): number | null {
+  if (!from || !to) return null;
+  return Math.round((to.getTime() - from.getTime()) / HOUR_MS * 100) / 100;
+}
+
+// Jobs from before status history was kept have none, and older ones may be missing their
+// creation; whatever status the first change left is assumed to have held since creation
+export function buildJobTimings(job: Job, history: JobStatusChange[], now = new Date()): JobTimings {
+  const createdAt = job.createdAt ? new Date(job.createdAt) : null;
+  const changes = [...history]
+    .filter(change => change.jobId === job.id)
+    .sort((a, b) => new Date(a.changedAt!).getTime() - new Date(b.changedAt!).getTime() || a.id - b.id);
+
+  const initialStatus = changes[0]?.fromStatus ?? (changes.length === 0 ? job.status : null);
+  const periods: { status: string; from: Date; to: Date }[] = [];
+  let current = { status: initialStatus, since: createdAt };
+
+  for (const change of changes) {
+    const at = new Date(change.changedAt!);
+    if (current.status && current.since) {
+      periods.push({ status: current.status, from: current.since, to: at });
+    }
+    current = { status: change.toStatus, since: at };
+  }
+  if (current.status && current.since) {
+    periods.push({ status: current.status, from: current.since, to: now });
+  }
+
+  const hoursIn = (status: string) => Math.round(periods
+    .filter(period => period.status === status)
+    .reduce((sum, period) => sum + period.to.getTime() - period.from.getTime(), 0) / HOUR_MS * 100) / 100;
+
+  const started = changes.find(change => change.toStatus === "printing");
+  const completions = changes.filter(change => change.toStatus === "completed");
+  const startedAt = started ? new Date(started.changedAt!) : null;
+  const completedAt = job.status === "completed"
+    ? (completions.length > 0 ? new Date(completions[completions.length - 1].changedAt!) : job.completedAt ? new Date(job.completedAt) : null)
+    : null;
+
+  return {
+    jobId: job.id,
+    jobNumber: job.jobNumber,
+    createdAt,
+    startedAt,
+    completedAt,
+    queueHours: hoursBetween(createdAt, startedAt),
+    turnaroundHours: hoursBetween(startedAt, completedAt),
+    leadTimeHours: hoursBetween(createdAt, completedAt),
+    printingHours: hoursIn("printing"),
+    pausedHours: hoursIn("paused"),
+    reopened: completions.length > 1,
+  };
+}
+
+function average(values: (number | null)[]): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length === 0) return null;
+  return Math.round(known.reduce((sum, value) => sum + value, 0) / known.length * 100) / 100;
+}
+
+// Timings of the jobs completed between since and until
+export function buildTurnaroundReport(
+  jobs: Job[],
+  history: JobStatusChange[],
+  since?: Date,
+  until?: Date,
+  now = new Date(),
+): TurnaroundReport {
+  const historyByJob = new Map<number, JobStatusChange[]>();
+  for (const change of history) {
+    historyByJob.set(change.jobId, [...(historyByJob.get(change.jobId) ?? []), change]);
+  }
+
+  const completed = jobs
+    .map(job => buildJobTimings(job, historyByJob.get(job.id) ?? [], now))
+    .filter(timings =>
+      timings.completedAt !== null &&
+      (!since || timings.completedAt >= since) &&
+      (!until || timings.completedAt <= until)
+    )
+    .sort((a, b) => b.completedAt!.getTime() - a.completedAt!.getTime());
+
+  return {
+    jobs: completed,
+    averages: {
+      queueHours: average(completed.map(timings => timings.queueHours)),
+      turnaroundHours: average(completed.map(timings => timings.turnaroundHours)),
+      leadTimeHours: average(completed.map(timings => timings.leadTimeHours)),
+      printingHours: average(completed.map(timings => timings.printingHours)),
+      pausedHours: average(completed.map(timings => timings.pausedHours)),
+    },
+  };
+}
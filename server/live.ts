@@ -0,0 +1,180 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { LiveUpdate } from "@shared/schema";
+import { storage } from "./storage";
+import { storageEvents, type StorageChange } from "./events";
+import { isStillSignedIn, signedInSession, type SignedInSession } from "./auth";
+
+const LIVE_PATH = "/ws";
+// Writes come in bursts (an item edit rewrites its job several times), so they're gathered
+// for a moment and each record is sent once
+const FLUSH_DELAY = 200;
+// Idle connections are dropped by proxies, and dead ones only show up when pinged. Each
+// beat also checks the connection's session is still signed in
+const HEARTBEAT_INTERVAL = 30 * 1000;
+// Policy violation, the client reconnects and is turned away if it's really signed out
+const SIGNED_OUT = 1008;
+
+const clients = new Set<WebSocket>();
+const alive = new WeakSet<WebSocket>();
+const clientSessions = new WeakMap<WebSocket, SignedInSession>();
+
+// What changed since the last flush, by id
+const pendingJobs = new Set<number>();
+const pendingItems = new Set<number>();
+const pendingCustomers = new Set<number>();
+const pendingNotifications = new Set<number>();
+let refreshAllJobs = false;
+let statsChanged = false;
+let flushTimer: NodeJS.Timeout | null = null;
+
+function broadcast(update: LiveUpdate) {
+  const message = JSON.stringify(update);
+  for (const client of Array.from(clients)) {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  }
+}
+
+async function flush(): Promise<void> {
+  const jobIds = new Set(pendingJobs);
+  const itemIds = Array.from(pendingItems);
+  const customerIds = Array.from(pendingCustomers);
+  const notificationIds = Array.from(pendingNotifications);
+  let allJobs = refreshAllJobs;
+  const stats = statsChanged;
+  pendingJobs.clear();
+  pendingItems.clear();
+  pendingCustomers.clear();
+  pendingNotifications.clear();
+  refreshAllJobs = false;
+  statsChanged = false;
+
+  if (clients.size === 0) return;
+
+  // A deleted item no longer says which job it was on
+  for (const itemId of itemIds) {
+    const item = await storage.getJobItem(itemId);
+    if (item) {
+      jobIds.add(item.jobId);
+    } else {
+      allJobs = true;
+    }
+  }
+
+  if (allJobs) {
+    broadcast({ type: "jobs", jobs: await storage.getAllJobs() });
+  } else {
+    for (const jobId of Array.from(jobIds)) {
+      const job = await storage.getJobWithDetails(jobId);
+      broadcast(job ? { type: "job", job } : { type: "jobDeleted", jobId });
+    }
+  }
+
+  for (const customerId of customerIds) {
+    const customer = await storage.getCustomer(customerId);
+    broadcast(customer ? { type: "customer", customer } : { type: "customerDeleted", customerId });
+  }
+
+  for (const notificationId of notificationIds) {
+    const notification = await storage.getNotification(notificationId);
+    if (notification) broadcast({ type: "notification", notification });
+  }
+
+  if (stats) {
+    broadcast({ type: "stats", stats: await storage.getJobStats() });
+  }
+}
+
+function closeIfSignedOut(client: WebSocket) {
+  const signedIn = clientSessions.get(client);
+  if (!signedIn) return;
+
+  isStillSignedIn(signedIn)
+    .then(stillSignedIn => {
+      if (!stillSignedIn) {
+        clients.delete(client);
+        client.close(SIGNED_OUT, "Signed out");
+      }
+    })
+    .catch(error => console.error('Live update session check error:', error));
+}
+
+function queueChange(change: StorageChange) {
+  if (change.id === undefined) return;
+
+  switch (change.entity) {
+    case "job":
+      pendingJobs.add(change.id);
+      statsChanged = true;
+      break;
+    case "jobItem":
+      pendingItems.add(change.id);
+      statsChanged = true;
+      break;
+    case "customer":
+      pendingCustomers.add(change.id);
+      break;
+    case "notification":
+      pendingNotifications.add(change.id);
+      break;
+    default:
+      return;
+  }
+
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flush().catch(error => console.error('Live update error:', error));
+  }, FLUSH_DELAY);
+}
+
+// Signed-in browsers connect to /ws and are sent every change to jobs, their items,
+// customers and notifications as it happens. The channel only pushes; changes are still
+// made through the API
+export function setupLiveUpdates(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    // Other upgrades, such as Vite's hot reload, have their own handlers
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== LIVE_PATH) return;
+
+    signedInSession(req)
+      .then(signedIn => {
+        if (!signedIn) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (client) => {
+          clients.add(client);
+          alive.add(client);
+          clientSessions.set(client, signedIn);
+          client.on("pong", () => alive.add(client));
+          client.on("close", () => clients.delete(client));
+        });
+      })
+      .catch(error => {
+        console.error('Live update connection error:', error);
+        socket.destroy();
+      });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!alive.has(client)) {
+        client.terminate();
+        clients.delete(client);
+        continue;
+      }
+      alive.delete(client);
+      client.ping();
+      closeIfSignedOut(client);
+    }
+  }, HEARTBEAT_INTERVAL);
+  server.on("close", () => clearInterval(heartbeat));
+
+  storageEvents.onChange(queueChange);
+}
@@ -0,0 +1,83 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { parseModel } from "./model-parser";
+
+// A corner of a 10 mm cube: 4 triangles, 166.67 mm³
+const TETRAHEDRON = [[0, 0, 0], [10, 0, 0], [0, 10, 0], [0, 0, 10]];
+const FACES = [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]];
+
+function binaryStl(): Buffer {
+  const buffer = Buffer.alloc(84 + FACES.length * 50);
+  buffer.writeUInt32LE(FACES.length, 80);
+  FACES.forEach((face, i) => {
+    face.forEach((vertex, n) => {
+      TETRAHEDRON[vertex].forEach((value, axis) => buffer.writeFloatLE(value, 84 + i * 50 + 12 + n * 12 + axis * 4));
+    });
+  });
+  return buffer;
+}
+
+function asciiStl(): Buffer {
+  const facets = FACES.map(face => [
+    "facet normal 0 0 0",
+    "outer loop",
+    ...face.map(vertex => `vertex ${TETRAHEDRON[vertex].join(" ")}`),
+    "endloop",
+    "endfacet",
+  ].join("\n"));
+  return Buffer.from(["solid corner", ...facets, "endsolid corner"].join("\n"));
+}
+
+function threeMf(model: string): Buffer {
+  return Buffer.from(zipSync({ "3D/3dmodel.model": strToU8(model) }));
+}
+
+const mesh = (scale: number) => `<mesh>
+  <vertices>${TETRAHEDRON.map(([x, y, z]) => `<vertex x="${x * scale}" y="${y * scale}" z="${z * scale}"/>`).join("")}</vertices>
+  <triangles>${FACES.map(([v1, v2, v3]) => `<triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`).join("")}</triangles>
+</mesh>`;
+
+describe("parseModel", () => {
+  it("measures a binary STL", () => {
+    expect(parseModel(binaryStl(), "corner.stl")).toEqual({
+      format: "stl",
+      triangleCount: 4,
+      volume: 166.67,
+      surfaceArea: 236.6,
+      size: { x: 10, y: 10, z: 10 },
+    });
+  });
+
+  it("measures an ASCII STL", () => {
+    expect(parseModel(asciiStl(), "corner.stl")).toEqual(parseModel(binaryStl(), "corner.stl"));
+  });
+
+  it("places 3MF components with their transforms, in the file's units", () => {
+    // Two copies of the corner, 1 cm apart, with the assembly moved up 2 cm
+    const model = `<model unit="centimeter">
+      <resources>
+        <object id="1">${mesh(0.1)}</object>
+        <object id="2"><components>
+          <component objectid="1"/>
+          <component objectid="1" transform="1 0 0 0 1 0 0 0 1 2 0 0"/>
+        </components></object>
+      </resources>
+      <build><item objectid="2" transform="1 0 0 0 1 0 0 0 1 0 0 2"/></build>
+    </model>`;
+
+    const measured = parseModel(threeMf(model), "pair.3mf");
+    expect(measured.triangleCount).toBe(8);
+    expect(measured.volume).toBe(333.33);
+    expect(measured.size).toEqual({ x: 30, y: 10, z: 10 });
+  });
+
+  it("stops reading components that fan out too far", () => {
+    // Each level places the one below it ten times over: 10^8 corners in a few hundred bytes
+    const levels = Array.from({ length: 8 }, (_, level) =>
+      `<object id="${level + 2}"><components>${`<component objectid="${level + 1}"/>`.repeat(10)}</components></object>`);
+    const model = `<model><resources><object id="1">${mesh(1)}</object>${levels.join("")}</resources>
+      <build><item objectid="9"/></build></model>`;
+
+    expect(() => parseModel(threeMf(model), "bomb.3mf")).toThrow("The 3MF file's models are too large to read");
+  });
+});
@@ -0,0 +1,287 @@
+import { strFromU8, unzipSync } from "fflate";
+import type { ModelAnalysis, Printer } from "@shared/schema";
+import { materialDensity } from "./gcode-parser";
+
+export type MeshMeasurements = Omit<ModelAnalysis, "infill" | "estimatedWeight">;
+
+type Vec3 = [number, number, number];
+
+// Slicer defaults: two 0.4 mm perimeters plus top/bottom skin come out to roughly this much solid shell
+const SHELL_THICKNESS = 1.2; // mm
+export const DEFAULT_INFILL = 20; // percent
+
+// Uncompressed limits for a 3MF's model files, so a small archive can't expand into more
+// than the server can hold. Entries are unpacked into buffers of the size they declare
+const MAX_MODEL_ENTRY_SIZE = 256 * 1024 * 1024;
+const MAX_MODEL_TOTAL_SIZE = 512 * 1024 * 1024;
+
+// Components can place the same object many times over, so a tiny 3MF can describe
+// billions of triangles. This is more than a binary STL within the upload limit can hold
+const MAX_TRIANGLES = 5_000_000;
+
+// Sums triangles one at a time so a 3MF build with many transformed copies never holds one giant array
+class MeshAccumulator {
+  triangleCount = 0;
+  private signedVolume = 0;
+  private area = 0;
+  private min: Vec3 = [Infinity, Infinity, Infinity];
+  private max: Vec3 = [-Infinity, -Infinity, -Infinity];
+
+  add(a: Vec3, b: Vec3, c: Vec3) {
+    this.triangleCount++;
+    // Signed tetrahedron volume against the origin, closed meshes sum to their volume
+    this.signedVolume += (
+      a[0] * (b[1] * c[2] - b[2] * c[1]) -
+      a[1] * (b[0] * c[2] - b[2] * c[0]) +
+      a[2] * (b[0] * c[1] - b[1] * c[0])
+    ) / 6;
+
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    this.area += Math.hypot(u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]) / 2;
+
+    for (const point of [a, b, c]) {
+      for (let axis = 0; axis < 3; axis++) {
+        if (point[axis] < this.min[axis]) this.min[axis] = point[axis];
+        if (point[axis] > this.max[axis]) this.max[axis] = point[axis];
+      }
+    }
+  }
+
+  result(format: ModelAnalysis["format"]): MeshMeasurements {
+    if (this.triangleCount === 0) {
+      throw new Error("The file doesn't contain any triangles");
+    }
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      format,
+      triangleCount: this.triangleCount,
+      volume: round(Math.abs(this.signedVolume)),
+      surfaceArea: round(this.area),
+      size: {
+        x: round(this.max[0] - this.min[0]),
+        y: round(this.max[1] - this.min[1]),
+        z: round(this.max[2] - this.min[2]),
+      },
+    };
+  }
+}
+
+// ASCII STLs start with "solid", but so do some binary ones, the size check settles it
+function isBinaryStl(buffer: Buffer): boolean {
+  if (buffer.length < 84) return false;
+  const count = buffer.readUInt32LE(80);
+  if (buffer.length === 84 + count * 50) return true;
+  return !buffer.subarray(0, 5).toString("ascii").toLowerCase().startsWith("solid");
+}
+
+function parseStl(buffer: Buffer): MeshMeasurements {
+  const mesh = new MeshAccumulator();
+
+  if (isBinaryStl(buffer)) {
+    const count = buffer.readUInt32LE(80);
+    if (buffer.length < 84 + count * 50) {
+      throw new Error("The STL file is truncated");
+    }
+    for (let i = 0; i < count; i++) {
+      const offset = 84 + i * 50 + 12; // skip the normal
+      const vertex = (n: number): Vec3 => [
+        buffer.readFloatLE(offset + n * 12),
+        buffer.readFloatLE(offset + n * 12 + 4),
+        buffer.readFloatLE(offset + n * 12 + 8),
+      ];
+      mesh.add(vertex(0), vertex(1), vertex(2));
+    }
+  } else {
+    const vertices: Vec3[] = [];
+    const pattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+    for (const match of Array.from(buffer.toString("utf8").matchAll(pattern))) {
+      vertices.push([parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3])]);
+      if (vertices.length === 3) {
+        mesh.add(vertices[0], vertices[1], vertices[2]);
+        vertices.length = 0;
+      }
+    }
+  }
+
+  return mesh.result("stl");
+}
+
+// 3MF lengths can be in any of these, everything here works in mm
+const UNIT_SCALE: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+// Row-major 3x4 as written in the file: "m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32"
+type Transform = number[];
+const IDENTITY: Transform = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+// Translations are in the file's units, scaled to mm like the vertices
+function parseTransform(value: string | undefined, scale: number): Transform {
+  const numbers = value?.trim().split(/\s+/).map(parseFloat);
+  if (numbers?.length !== 12 || !numbers.every(Number.isFinite)) return IDENTITY;
+  for (let i = 9; i < 12; i++) numbers[i] *= scale;
+  return numbers;
+}
+
+function applyTransform(m: Transform, [x, y, z]: Vec3): Vec3 {
+  return [
+    x * m[0] + y * m[3] + z * m[6] + m[9],
+    x * m[1] + y * m[4] + z * m[7] + m[10],
+    x * m[2] + y * m[5] + z * m[8] + m[11],
+  ];
+}
+
+// inner first, then outer
+function combineTransforms(inner: Transform, outer: Transform): Transform {
+  const point = (x: number, y: number, z: number) => applyTransform(outer, applyTransform(inner, [x, y, z]));
+  const origin = point(0, 0, 0);
+  const axes = [point(1, 0, 0), point(0, 1, 0), point(0, 0, 1)].map(p => [p[0] - origin[0], p[1] - origin[1], p[2] - origin[2]]);
+  return [...axes[0], ...axes[1], ...axes[2], ...origin];
+}
+
+function attributes(tag: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g))) {
+    values[match[1]] = match[2];
+  }
+  return values;
+}
+
+type ModelObject = {
+  vertices: Vec3[];
+  triangles: Array<[number, number, number]>;
+  components: Array<{ path: string; objectId: string; transform: Transform }>;
+};
+
+type ModelFile = {
+  objects: Map<string, ModelObject>;
+  build: Array<{ objectId: string; transform: Transform }>;
+};
+
+function parseModelXml(xml: string, path: string): ModelFile {
+  const modelTag = xml.match(/<model\b[^>]*>/)?.[0] ?? "";
+  const scale = UNIT_SCALE[attributes(modelTag).unit ?? "millimeter"] ?? 1;
+  const objects = new Map<string, ModelObject>();
+
+  for (const match of Array.from(xml.matchAll(/<object\b([^>]*)>([\s\S]*?)<\/object>/g))) {
+    const id = attributes(match[1]).id;
+    const body = match[2];
+    const object: ModelObject = { vertices: [], triangles: [], components: [] };
+
+    for (const vertex of Array.from(body.matchAll(/<vertex\b([^>]*)\/?>/g))) {
+      const { x, y, z } = attributes(vertex[1]);
+      object.vertices.push([parseFloat(x) * scale, parseFloat(y) * scale, parseFloat(z) * scale]);
+    }
+    for (const triangle of Array.from(body.matchAll(/<triangle\b([^>]*)\/?>/g))) {
+      const { v1, v2, v3 } = attributes(triangle[1]);
+      object.triangles.push([parseInt(v1), parseInt(v2), parseInt(v3)]);
+    }
+    for (const component of Array.from(body.matchAll(/<component\b([^>]*)\/?>/g))) {
+      const values = attributes(component[1]);
+      object.components.push({
+        path: (values["p:path"] ?? path).replace(/^\//, ""),
+        objectId: values.objectid,
+        transform: parseTransform(values.transform, scale),
+      });
+    }
+    objects.set(id, object);
+  }
+
+  const build = Array.from(xml.matchAll(/<item\b([^>]*)\/?>/g)).map(item => {
+    const values = attributes(item[1]);
+    return { objectId: values.objectid, transform: parseTransform(values.transform, scale) };
+  });
+
+  return { objects, build };
+}
+
+// A 3MF is a zip; the build in 3D/3dmodel.model places objects, which may be meshes
+// or assemblies of components kept in other model files (PrusaSlicer, Bambu Studio)
+function parse3mf(buffer: Buffer): MeshMeasurements {
+  let entries: Record<string, Uint8Array>;
+  let totalSize = 0;
+  let tooLarge = false;
+  try {
+    entries = unzipSync(new Uint8Array(buffer), {
+      filter: file => {
+        if (!file.name.toLowerCase().endsWith(".model")) return false;
+        totalSize += file.originalSize;
+        if (file.originalSize > MAX_MODEL_ENTRY_SIZE || totalSize > MAX_MODEL_TOTAL_SIZE) {
+          tooLarge = true;
+        }
+        return !tooLarge;
+      },
+    });
+  } catch {
+    throw new Error("The 3MF file is not a valid archive");
+  }
+  if (tooLarge) {
+    throw new Error("The 3MF file's models are too large to read");
+  }
+
+  const models = new Map<string, ModelFile>();
+  for (const [name, data] of Object.entries(entries)) {
+    models.set(name, parseModelXml(strFromU8(data), name));
+  }
+
+  const rootPath = Object.keys(entries).find(name => name.toLowerCase() === "3d/3dmodel.model")
+    ?? Object.keys(entries)[0];
+  const root = rootPath ? models.get(rootPath) : undefined;
+  if (!root) {
+    throw new Error("The 3MF file has no 3D model");
+  }
+
+  const mesh = new MeshAccumulator();
+  // Every placement counts, so empty assemblies nested many times over hit the limit too
+  let work = 0;
+  const addObject = (path: string, objectId: string, transform: Transform, depth: number) => {
+    const object = models.get(path)?.objects.get(objectId);
+    if (!object || depth > 10) return;
+
+    work += 1 + object.triangles.length;
+    if (work > MAX_TRIANGLES) {
+      throw new Error("The 3MF file's models are too large to read");
+    }
+
+    for (const [a, b, c] of object.triangles) {
+      const [va, vb, vc] = [object.vertices[a], object.vertices[b], object.vertices[c]];
+      if (!va || !vb || !vc) continue;
+      mesh.add(applyTransform(transform, va), applyTransform(transform, vb), applyTransform(transform, vc));
+    }
+    for (const component of object.components) {
+      addObject(component.path, component.objectId, combineTransforms(component.transform, transform), depth + 1);
+    }
+  };
+
+  for (const item of root.build) {
+    addObject(rootPath, item.objectId, item.transform, 0);
+  }
+
+  return mesh.result("3mf");
+}
+
+export function parseModel(buffer: Buffer, filename: string): MeshMeasurements {
+  return filename.toLowerCase().endsWith(".3mf") ? parse3mf(buffer) : parseStl(buffer);
+}
+
+// Walls and skins are solid and the inside is filled at the infill percentage. Thin
+// parts are all shell, so the shell can't be more than the whole part
+export function estimateModelWeight(mesh: MeshMeasurements, material: string | null, infill: number): number {
+  const shell = Math.min(mesh.volume, mesh.surfaceArea * SHELL_THICKNESS);
+  const printed = shell + (mesh.volume - shell) * (infill / 100);
+  return Math.round((printed / 1000) * materialDensity(material) * 10) / 10;
+}
+
+// Parts can be turned on the bed, but not tipped over, that changes how they print
+export function checkPrinterFit(size: ModelAnalysis["size"], printer: Printer): { fits: boolean; rotated: boolean } {
+  if (size.z > printer.buildVolumeZ) return { fits: false, rotated: false };
+  if (size.x <= printer.buildVolumeX && size.y <= printer.buildVolumeY) return { fits: true, rotated: false };
+  if (size.y <= printer.buildVolumeX && size.x <= printer.buildVolumeY) return { fits: true, rotated: true };
+  return { fits: false, rotated: false };
+}
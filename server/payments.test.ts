@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { Customer, Invoice, Job, Payment } from "@shared/schema";
+import { buildAgedReceivables, buildJobBalances } from "./payments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const asOf = new Date(2026, 5, 30, 12, 0);
+
+const customer = { id: 1, name: "Contract Test" } as Customer;
+
+const job = (id: number, totalPrice: number | null) => ({ id, totalPrice }) as Job;
+
+const payment = (jobId: number, amount: number) => ({ jobId, amount }) as Payment;
+
+function invoice(jobId: number, total: number, daysOverdue = 0): Invoice {
+  return {
+    id: jobId * 10,
+    invoiceNumber: `INV-2026-${jobId}`,
+    jobId,
+    customerId: customer.id,
+    total,
+    issuedAt: new Date(asOf.getTime() - (daysOverdue + 30) * DAY_MS),
+    dueDate: new Date(asOf.getTime() - daysOverdue * DAY_MS),
+  } as Invoice;
+}
+
+describe("buildJobBalances", () => {
+  it("counts deposits taken before the invoice towards it", () => {
+    const [balance] = buildJobBalances([job(1, 90)], [invoice(1, 100)], [payment(1, 40), payment(1, 10.1)]);
+
+    expect(balance).toEqual({
+      jobId: 1,
+      invoiceId: 10,
+      invoiceNumber: "INV-2026-1",
+      amountDue: 100,
+      amountPaid: 50.1,
+      outstanding: 49.9,
+    });
+  });
+
+  it("owes the job's price until it's invoiced", () => {
+    const [balance] = buildJobBalances([job(1, 80)], [], [payment(1, 30)]);
+
+    expect([balance.invoiceId, balance.amountDue, balance.outstanding]).toEqual([null, 80, 50]);
+  });
+
+  it("shows an overpayment as a negative balance", () => {
+    const [balance] = buildJobBalances([job(1, 100)], [invoice(1, 100)], [payment(1, 120)]);
+
+    expect(balance.outstanding).toBe(-20);
+  });
+
+  it("leaves the balance open for a job without a price", () => {
+    const [balance] = buildJobBalances([job(1, null)], [], [payment(1, 25)]);
+
+    expect([balance.amountDue, balance.amountPaid, balance.outstanding]).toEqual([null, 25, null]);
+  });
+});
+
+describe("buildAgedReceivables", () => {
+  it.each([
+    [-5, "current"],
+    [0, "current"],
+    [1, "days1to30"],
+    [30, "days1to30"],
+    [31, "days31to60"],
+    [60, "days31to60"],
+    [61, "days61to90"],
+    [90, "days61to90"],
+    [91, "over90"],
+  ])("puts an invoice %i days overdue in %s", (daysOverdue, bucket) => {
+    const { customers, totals } = buildAgedReceivables([customer], [invoice(1, 100, daysOverdue)], [], asOf);
+
+    expect(customers[0].invoices[0]).toMatchObject({ bucket, daysOverdue: Math.max(0, daysOverdue) });
+    expect(totals).toMatchObject({ [bucket]: 100, total: 100 });
+  });
+
+  it("leaves out invoices that are paid off or overpaid", () => {
+    const invoices = [invoice(1, 100, 10), invoice(2, 100, 10), invoice(3, 100, 10)];
+    const payments = [payment(1, 100), payment(2, 150), payment(3, 60)];
+
+    const { customers, totals } = buildAgedReceivables([customer], invoices, payments, asOf);
+
+    expect(customers[0].invoices.map(row => [row.jobId, row.outstanding])).toEqual([[3, 40]]);
+    expect(totals.total).toBe(40);
+  });
+
+  it("adds each customer's invoices up by bucket", () => {
+    const other = { id: 2, name: "Second Customer" } as Customer;
+    const invoices = [invoice(1, 100, 0), invoice(2, 50, 45), { ...invoice(3, 500, 100), customerId: other.id }];
+
+    const { customers, totals } = buildAgedReceivables([customer, other], invoices, [payment(2, 20)], asOf);
+
+    expect(customers.map(row => [row.customerName, row.total])).toEqual([["Second Customer", 500], ["Contract Test", 130]]);
+    expect(customers[1]).toMatchObject({ current: 100, days31to60: 30 });
+    expect(totals).toEqual({ current: 100, days1to30: 0, days31to60: 30, days61to90: 0, over90: 500, total: 630 });
+  });
+});
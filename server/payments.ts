@@ -0,0 +1,106 @@
+import type {
+  AgedReceivables,
+  AgingBucket,
+  Customer,
+  CustomerReceivables,
+  Invoice,
+  Job,
+  JobBalance,
+  Payment,
+} from "@shared/schema";
+import { roundMoney } from "./pricing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function paidPerJob(payments: Payment[]): Map<number, number> {
+  const paid = new Map<number, number>();
+  for (const payment of payments) {
+    paid.set(payment.jobId, (paid.get(payment.jobId) ?? 0) + payment.amount);
+  }
+  return paid;
+}
+
+// Every payment on a job counts towards it, deposits taken before the invoice included
+export function buildJobBalances(jobs: Job[], invoices: Invoice[], payments: Payment[]): JobBalance[] {
+  const invoicesByJob = new Map(invoices.map(invoice => [invoice.jobId, invoice]));
+  const paid = paidPerJob(payments);
+
+  return jobs.map(job => {
+    const invoice = invoicesByJob.get(job.id);
+    const amountDue = invoice?.total ?? job.totalPrice;
+    const amountPaid = roundMoney(paid.get(job.id) ?? 0);
+
+    return {
+      jobId: job.id,
+      invoiceId: invoice?.id ?? null,
+      invoiceNumber: invoice?.invoiceNumber ?? null,
+      amountDue,
+      amountPaid,
+      outstanding: amountDue != null ? roundMoney(amountDue - amountPaid) : null,
+    };
+  });
+}
+
+function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "days1to30";
+  if (daysOverdue <= 60) return "days31to60";
+  if (daysOverdue <= 90) return "days61to90";
+  return "over90";
+}
+
+function emptyBuckets(): Record<AgingBucket, number> & { total: number } {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+}
+
+// Only invoiced work is a receivable; a job waiting on its invoice shows up once it's issued
+export function buildAgedReceivables(
+  customers: Customer[],
+  invoices: Invoice[],
+  payments: Payment[],
+  asOf: Date = new Date(),
+): AgedReceivables {
+  const customersById = new Map(customers.map(customer => [customer.id, customer]));
+  const paid = paidPerJob(payments);
+  const rows = new Map<number, CustomerReceivables>();
+  const totals = emptyBuckets();
+
+  for (const invoice of invoices) {
+    const outstanding = roundMoney(invoice.total - (paid.get(invoice.jobId) ?? 0));
+    if (outstanding <= 0) continue;
+
+    const dueDate = invoice.dueDate ?? invoice.issuedAt;
+    const daysOverdue = dueDate ? Math.floor((asOf.getTime() - new Date(dueDate).getTime()) / DAY_MS) : 0;
+    const bucket = agingBucket(daysOverdue);
+
+    let row = rows.get(invoice.customerId);
+    if (!row) {
+      row = {
+        ...emptyBuckets(),
+        customerId: invoice.customerId,
+        customerName: customersById.get(invoice.customerId)?.name ?? "Unknown customer",
+        invoices: [],
+      };
+      rows.set(invoice.customerId, row);
+    }
+
+    row.invoices.push({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      jobId: invoice.jobId,
+      dueDate: invoice.dueDate,
+      outstanding,
+      daysOverdue: Math.max(0, daysOverdue),
+      bucket,
+    });
+    row[bucket] = roundMoney(row[bucket] + outstanding);
+    row.total = roundMoney(row.total + outstanding);
+    totals[bucket] = roundMoney(totals[bucket] + outstanding);
+    totals.total = roundMoney(totals.total + outstanding);
+  }
+
+  return {
+    customers: Array.from(rows.values()).sort((a, b) => b.total - a.total),
+    totals,
+  };
+}
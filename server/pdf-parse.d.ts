@@ -0,0 +1,5 @@
+// pdf-parse's index.js runs a debug harness when imported from ESM, so we import the library entry directly
+declare module "pdf-parse/lib/pdf-parse.js" {
+  import pdfParse from "pdf-parse";
+  export default pdfParse;
+}
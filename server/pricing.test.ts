@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRICING, quoteJob } from "./pricing";
+
+const item = { quantity: 2, estimatedTimePerItem: 60, filamentWeight: 20 };
+
+describe("quoteJob", () => {
+  it("charges the setup fee once per job however many lines it has", () => {
+    const single = quoteJob([item], DEFAULT_PRICING);
+    const tenLines = quoteJob(Array.from({ length: 10 }, () => item), DEFAULT_PRICING);
+
+    expect(single.setupFee).toBe(DEFAULT_PRICING.setupFee);
+    expect(tenLines.setupFee).toBe(DEFAULT_PRICING.setupFee);
+    expect(tenLines.total).toBeCloseTo(single.subtotal * 10 + DEFAULT_PRICING.setupFee, 2);
+  });
+
+  it("charges no setup fee when every price was given", () => {
+    const quote = quoteJob([{ quantity: 3, fixedUnitPrice: 12.5 }], DEFAULT_PRICING);
+
+    expect(quote.setupFee).toBe(0);
+    expect(quote.subtotal).toBe(37.5);
+  });
+
+  it("tops the setup fee and items up to the minimum order", () => {
+    const rates = { ...DEFAULT_PRICING, minimumOrder: 100 };
+    const quote = quoteJob([item], rates);
+
+    expect(quote.minimumOrderAdjustment).toBeCloseTo(100 - quote.subtotal - rates.setupFee, 2);
+    expect(quote.total).toBe(100);
+  });
+});
@@ -0,0 +1,99 @@
+import type { InsertPricingSettings, ItemQuote, JobItem, JobQuote, PriceBreakdown, PricingSettings } from "@shared/schema";
+import { gramsPerItem } from "./inventory";
+
+// Used until someone saves their own rates
+export const DEFAULT_PRICING: InsertPricingSettings = {
+  materialCostPerGram: 0.025,
+  machineHourlyRate: 1.5,
+  printerPowerWatts: 150,
+  electricityCostPerKwh: 0.15,
+  labourHourlyRate: 20,
+  postProcessingMinutes: 5,
+  setupFee: 5,
+  markupPercent: 30,
+  minimumOrder: 10,
+};
+
+// What an item needs to be priced. A fixed unit price (typed in, or from the customer's
+// invoice) is kept as it is rather than worked out from the rates
+export type PricingInput = Partial<Pick<JobItem, "estimatedTimePerItem" | "filamentWeight" | "model">> & {
+  quantity: number;
+  fixedUnitPrice?: number | null;
+};
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function priceItem(item: PricingInput, rates: InsertPricingSettings): ItemQuote {
+  const quantity = Math.max(0, item.quantity);
+
+  if (item.fixedUnitPrice != null) {
+    return {
+      unitPrice: roundMoney(item.fixedUnitPrice),
+      totalPrice: roundMoney(item.fixedUnitPrice * quantity),
+      breakdown: null,
+    };
+  }
+
+  const grams = gramsPerItem({ filamentWeight: item.filamentWeight ?? null, model: item.model ?? null }) ?? 0;
+  const hours = (item.estimatedTimePerItem || 0) / 60;
+
+  const material = grams * rates.materialCostPerGram;
+  const machine = hours * rates.machineHourlyRate;
+  const electricity = hours * (rates.printerPowerWatts / 1000) * rates.electricityCostPerKwh;
+  const labour = (rates.postProcessingMinutes / 60) * rates.labourHourlyRate;
+
+  const cost = (material + machine + electricity + labour) * quantity;
+  const markup = cost * (rates.markupPercent / 100);
+  const totalPrice = roundMoney(cost + markup);
+
+  const breakdown: PriceBreakdown = {
+    grams: roundMoney(grams),
+    hours: roundMoney(hours),
+    material: roundMoney(material),
+    machine: roundMoney(machine),
+    electricity: roundMoney(electricity),
+    labour: roundMoney(labour),
+    markup: roundMoney(markup),
+    rates,
+  };
+
+  return {
+    unitPrice: quantity > 0 ? roundMoney(totalPrice / quantity) : 0,
+    totalPrice,
+    breakdown,
+  };
+}
+
+// Prices every item, adds the setup fee once, then tops the job up to the minimum order.
+// A job whose prices were all given needs no setting up to be priced, so has no setup fee
+export function quoteJob(items: PricingInput[], rates: InsertPricingSettings): JobQuote {
+  const quotes = items.map(item => priceItem(item, rates));
+  const subtotal = roundMoney(quotes.reduce((sum, quote) => sum + quote.totalPrice, 0));
+  const setupFee = quotes.some(quote => quote.breakdown) ? roundMoney(rates.setupFee) : 0;
+  const minimumOrderAdjustment = quotes.length > 0 ? roundMoney(Math.max(0, rates.minimumOrder - subtotal - setupFee)) : 0;
+
+  return {
+    items: quotes,
+    subtotal,
+    setupFee,
+    minimumOrderAdjustment,
+    total: roundMoney(subtotal + setupFee + minimumOrderAdjustment),
+  };
+}
+
+// A saved item keeps a price that was typed in; worked-out prices follow the current rates
+export function pricingInputFor(
+  item: Omit<PricingInput, "fixedUnitPrice"> & { unitPrice?: number | null; priceBreakdown?: PriceBreakdown | null },
+): PricingInput {
+  return {
+    ...item,
+    fixedUnitPrice: item.priceBreakdown ? null : item.unitPrice,
+  };
+}
+
+export function ratesFrom(settings: PricingSettings): InsertPricingSettings {
+  const { id, updatedAt, ...rates } = settings;
+  return rates;
+}
@@ -1,41 +1,373 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
+import fs from "fs";
+import os from "os";
 import { storage } from "./storage";
-import { insertCustomerSchema, insertJobSchema, insertJobItemSchema } from "@shared/schema";
+import { extractPdfRows } from "./invoice-parser";
+import { getSchedule } from "./scheduler";
+import { analyzeGcodeFile } from "./gcode-parser";
+import { DEFAULT_INFILL, checkPrinterFit, estimateModelWeight, parseModel, type MeshMeasurements } from "./model-parser";
+import { getPrinterTelemetry } from "./connectors";
+import { toSafePrinter } from "./connectors/http";
+import { buildStockLevels, findMaterialShortages } from "./inventory";
+import { pricingInputFor, quoteJob, ratesFrom } from "./pricing";
+import { buildInvoice, renderInvoicePdf } from "./invoices";
+import { buildAgedReceivables, buildJobBalances } from "./payments";
+import { buildJobTimings, buildTurnaroundReport, checkStatusChange } from "./job-status";
+import { sendNotification, toSafeNotificationSettings } from "./email";
+import { hashPassword, requireRole, setupAuth, toSafeUser } from "./auth";
+import { setupLiveUpdates } from "./live";
+import {
+  jobTemplateContext,
+  quoteTemplateContext,
+  renderNotification,
+  resolveNotificationTemplate,
+  resolveNotificationTemplates,
+  sampleTemplateContext,
+} from "./email/templates";
+import { applyInvoiceTemplate, builtInTemplates, extractItemsFromPDF, orderTemplates } from "./invoice-templates";
+import {
+  insertCustomerSchema,
+  insertJobSchema,
+  insertJobItemSchema,
+  insertInvoiceTemplateSchema,
+  insertImportDraftSchema,
+  insertPrinterSchema,
+  insertPrinterAssignmentSchema,
+  insertSpoolSchema,
+  insertMaterialThresholdSchema,
+  insertPurchaseOrderSchema,
+  insertPricingSettingsSchema,
+  insertQuoteSchema,
+  insertInvoiceSettingsSchema,
+  insertPaymentSchema,
+  insertNotificationTemplateSchema,
+  insertNotificationSettingsSchema,
+  insertUserSchema,
+  updateUserSchema,
+  notificationTypes,
+  notificationStatuses,
+  auditEntities,
+  auditActions,
+  type Customer,
+  type Invoice,
+  type InvoiceSummary,
+  type JobWithCustomer,
+  type Notification,
+  type InsertJob,
+  type Job,
+  type QuoteItem,
+  type InsertPrinterAssignment,
+  type ExtractedInvoice,
+  type PrinterFit,
+  type User,
+} from "@shared/schema";
 import { z } from "zod";
 
-// Email configuration - disabled for now
-const createEmailTransporter = () => {
-  console.log('Email transporter not configured');
+// Invoices are parsed from memory, they're never written to disk
+const pdfUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype === 'application/pdf' || file.originalname.toLowerCase().endsWith('.pdf')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF files are supported'));
+    }
+  },
+});
+
+// Sliced files run to tens of megabytes, so they go to a temporary file that's read a
+// line at a time. Only the numbers read from it are kept, the file itself is not stored
+const gcodeUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: 200 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (/\.(gcode|gco|g)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only G-code files are supported'));
+    }
+  },
+});
+
+// Customer models go to a temporary file like G-code, and aren't stored either
+const modelUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: 200 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (/\.(stl|3mf)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only STL and 3MF files are supported'));
+    }
+  },
+});
+
+// Uploads written to a temporary file are removed once they've been read
+function discardUpload(req: Request) {
+  if (req.file?.path) {
+    fs.promises.unlink(req.file.path).catch(error => console.error('Failed to remove upload:', error));
+  }
+}
+
+// Upload errors (wrong type, too large) are the client's fault
+const singleFileUpload = (upload: multer.Multer, field: string) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    upload.single(field)(req, res, (error: unknown) => {
+      if (error) {
+        const message = error instanceof Error ? error.message : 'Invalid upload';
+        return res.status(400).json({ message });
+      }
+      next();
+    });
+  };
+
+const uploadPdf = singleFileUpload(pdfUpload, 'pdf');
+const uploadGcode = singleFileUpload(gcodeUpload, 'gcode');
+const uploadModel = singleFileUpload(modelUpload, 'model');
+
+// "Tech Solutions Inc." and "tech solutions" are the same customer
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9 ]/g, " ").replace(/\b(inc|ltd|llc|pty|co|corp|limited)\b/g, "").replace(/\s+/g, " ").trim();
+
+// An email address on the invoice is the strongest signal, then the billed-to name
+async function suggestCustomer(invoice: ExtractedInvoice): Promise<Customer | undefined> {
+  for (const email of invoice.emails) {
+    const customer = await storage.getCustomerByEmail(email);
+    if (customer) return customer;
+  }
+
+  if (!invoice.customerName) return undefined;
+  const name = normalizeName(invoice.customerName);
+  if (!name) return undefined;
+
+  const customers = await storage.getAllCustomers();
+  const candidates = customers.flatMap(customer =>
+    [customer.name, customer.company].filter(Boolean).map(candidate => ({ customer, candidate: normalizeName(candidate!) }))
+  );
+  return candidates.find(({ candidate }) => candidate === name)?.customer
+    ?? candidates.find(({ candidate }) => candidate && (candidate.includes(name) || name.includes(candidate)))?.customer;
+}
+
+// Returns why the assignment can't be made, or null when the printer can take it
+async function checkPrinterAssignment(
+  assignment: InsertPrinterAssignment,
+  excludeAssignmentId?: number,
+): Promise<{ status: number; message: string } | null> {
+  const item = await storage.getJobItem(assignment.jobItemId);
+  if (!item) return { status: 404, message: "Item not found" };
+
+  const printer = await storage.getPrinter(assignment.printerId);
+  if (!printer) return { status: 404, message: "Printer not found" };
+
+  if (item.model && !checkPrinterFit(item.model.size, printer).fits) {
+    const { x, y, z } = item.model.size;
+    return { status: 400, message: `${item.name} (${x} × ${y} × ${z} mm) doesn't fit on ${printer.name}` };
+  }
+
+  const material = item.material?.trim().toLowerCase();
+  const supported = printer.supportedMaterials.map(m => m.toLowerCase());
+  if (material && supported.length > 0 && !supported.includes(material)) {
+    return { status: 400, message: `${printer.name} doesn't print ${item.material}` };
+  }
+
+  const assigned = (await storage.getJobItemAssignments(item.id))
+    .filter(existing => existing.id !== excludeAssignmentId)
+    .reduce((sum, existing) => sum + existing.quantity, 0);
+  const remaining = item.quantity - assigned;
+  if (assignment.quantity > remaining) {
+    return { status: 400, message: `Only ${remaining} of ${item.name} left to assign` };
+  }
+
   return null;
-};
-
-// PDF parsing helper - handles invoice format like Von Benneke Projects
-const extractItemsFromPDF = async (buffer: Buffer): Promise<Array<{name: string, quantity: number}>> => {
-  try {
-    // For now, returning items based on your invoice format
-    // This simulates extracting from your Von Benneke Projects invoice
-    const extractedItems = [
-      { name: "Corner joiners for top rail - Black", quantity: 4 },
-      { name: "Straight joiners for top rail - Black", quantity: 3 },
-      { name: "End covers for top rail - Black", quantity: 4 },
-      { name: "Base plate covers for posts 'one side open for wall' - Black", quantity: 15 },
-      { name: "Base plate covers for posts 'two side open for wall' - Black", quantity: 15 },
-      { name: "50x50 floor cover 100mmx100mm", quantity: 30 },
-      { name: "25mm round hole end covers - Black", quantity: 15 },
-      { name: "Cable guides for uprights - Black", quantity: 290 },
-      { name: "Rivnut covers - Black", quantity: 65 }
-    ];
-    
-    return extractedItems;
-  } catch (error) {
-    console.error('PDF parsing error:', error);
-    throw new Error('Failed to parse PDF');
+}
+
+// Prices the job's items with the current rates and stores the result on them
+async function priceJob(jobId: number): Promise<void> {
+  const [items, settings] = await Promise.all([storage.getJobItems(jobId), storage.getPricingSettings()]);
+  const quote = quoteJob(items.map(pricingInputFor), ratesFrom(settings));
+
+  for (let index = 0; index < items.length; index++) {
+    const { unitPrice, totalPrice, breakdown } = quote.items[index];
+    await storage.updateJobItem(items[index].id, { unitPrice, totalPrice, priceBreakdown: breakdown });
+  }
+  await storage.updateJob(jobId, { totalPrice: quote.total, setupFee: quote.setupFee, pricedAt: new Date() });
+}
+
+// Numbers the invoice, then renders and stores its PDF. A failed render takes the number
+// back, otherwise the job would be left with an invoice that has no PDF
+async function issueInvoice(job: JobWithCustomer): Promise<Invoice> {
+  return storage.transaction(async () => {
+    const settings = await storage.getInvoiceSettings();
+    const invoice = await storage.createInvoice(buildInvoice(job, settings));
+    const pdf = await renderInvoicePdf(invoice, job, settings);
+    return (await storage.updateInvoice(invoice.id, { pdf: pdf.toString("base64") }))!;
+  });
+}
+
+function invoiceSummary({ pdf, ...invoice }: Invoice): InvoiceSummary {
+  return invoice;
+}
+
+// Creates a job and its items, then prices it unless it arrives priced (converted from a quote)
+async function createJobWithItems(jobData: InsertJob, itemsData: unknown[]): Promise<Job> {
+  const job = await storage.createJob(jobData);
+
+  for (const itemData of itemsData) {
+    const item = insertJobItemSchema.parse({ ...(itemData as object), jobId: job.id });
+    await storage.createJobItem(item);
+  }
+
+  if (jobData.totalPrice == null) {
+    await priceJob(job.id);
+  }
+  return job;
+}
+
+// Turns a quote into a job with the quoted items and prices. The quote stays locked from
+// the checks until it's marked accepted, so a double submit can't make two jobs, and an
+// item that can't be created leaves neither a partial job nor an accepted quote
+async function acceptQuote(id: number): Promise<{ job: Job } | { status: number; message: string }> {
+  return storage.transaction(async () => {
+    const quote = await storage.lockQuote(id);
+    if (!quote) {
+      return { status: 404, message: "Quote not found" };
+    }
+    if (quote.status === "accepted" || quote.status === "rejected") {
+      return { status: 400, message: `Quote ${quote.quoteNumber} was already ${quote.status}` };
+    }
+    if (quote.status === "expired" || (quote.validUntil && new Date(quote.validUntil) < new Date())) {
+      return { status: 400, message: `Quote ${quote.quoteNumber} has expired, revise it before accepting` };
+    }
+
+    const job = await createJobWithItems({
+      customerId: quote.customerId,
+      priority: "normal",
+      status: "not_started",
+      notes: quote.notes,
+      totalPrice: quote.total,
+      setupFee: quote.setupFee,
+      pricedAt: quote.updatedAt,
+    }, quote.items);
+    await storage.updateQuote(id, { status: "accepted", jobId: job.id });
+    return { job };
+  });
+}
+
+// Prices quote items with the current rates; prices typed in are kept
+async function priceQuoteItems(items: QuoteItem[]): Promise<{ items: QuoteItem[]; setupFee: number; total: number }> {
+  const settings = await storage.getPricingSettings();
+  const quote = quoteJob(items.map(pricingInputFor), ratesFrom(settings));
+
+  return {
+    items: items.map((item, index) => ({
+      ...item,
+      unitPrice: quote.items[index].unitPrice,
+      totalPrice: quote.items[index].totalPrice,
+      priceBreakdown: quote.items[index].breakdown,
+    })),
+    setupFee: quote.setupFee,
+    total: quote.total,
+  };
+}
+
+// Sent quotes lapse once their validity date has passed
+async function expireQuotes(): Promise<void> {
+  const now = new Date();
+  for (const quote of await storage.getAllQuotes()) {
+    if (quote.status === "sent" && quote.validUntil && new Date(quote.validUntil) < now) {
+      await storage.updateQuote(quote.id, { status: "expired" });
+    }
+  }
+}
+
+// Sent is 200. A temporary failure stays queued for the retry loop, so it's accepted
+// rather than failed
+function sendNotificationResponse(res: Response, notification: Notification) {
+  if (notification.status === "sent") {
+    res.json({ message: "Notification sent", notification });
+  } else if (notification.nextAttemptAt) {
+    res.status(202).json({ message: `Notification queued for retry: ${notification.lastError}`, notification });
+  } else {
+    res.status(502).json({ message: `Notification ${notification.status}: ${notification.lastError}`, notification });
   }
-};
+}
+
+// Deleting records and changing shop-wide settings
+const ownerOnly = requireRole("owner");
+
+async function isLastOwner(user: User): Promise<boolean> {
+  if (user.role !== "owner") return false;
+  const owners = (await storage.getAllUsers()).filter(other => other.role === "owner");
+  return owners.length === 1;
+}
+
+const notifyRequestSchema = z.object({
+  type: z.enum(notificationTypes).default("status_update"),
+  note: z.string().nullish(), // the template's {{note}}
+  attachInvoice: z.boolean().default(false),
+});
+
+const notificationQuerySchema = z.object({
+  jobId: z.coerce.number().int().optional(),
+  quoteId: z.coerce.number().int().optional(),
+  status: z.enum(notificationStatuses).optional(),
+  type: z.enum(notificationTypes).optional(),
+  recipient: z.string().trim().min(1).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const reportPeriodSchema = z.object({
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+});
+
+const auditQuerySchema = z.object({
+  entity: z.enum(auditEntities).optional(),
+  entityId: z.coerce.number().int().optional(),
+  jobId: z.coerce.number().int().optional(),
+  userId: z.coerce.number().int().optional(),
+  action: z.enum(auditActions).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const templatePreviewSchema = z.object({
+  subject: z.string(),
+  bodyText: z.string(),
+  bodyHtml: z.string().nullish(),
+  jobId: z.number().int().nullish(), // otherwise sample values
+  quoteId: z.number().int().nullish(),
+  note: z.string().nullish(),
+});
+
+// A template being tried out against the rows /api/invoice-templates/sample read from a PDF
+const templateTestSchema = z.object({
+  template: insertInvoiceTemplateSchema,
+  rows: z.array(z.object({
+    page: z.number().int(),
+    y: z.number(),
+    cells: z.array(z.object({ x: z.number(), text: z.string().max(1000) })).max(200),
+  })).max(5000),
+});
+
+const quoteRequestSchema = z.object({
+  items: z.array(z.object({
+    quantity: z.number().int().min(1),
+    estimatedTimePerItem: z.number().min(0).nullish(), // in minutes
+    filamentWeight: z.number().min(0).nullish(), // in grams
+    unitPrice: z.number().min(0).nullish(), // kept as given
+  })),
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  setupAuth(app);
+
   // Customer routes
   app.get("/api/customers", async (req, res) => {
     try {
@@ -91,7 +423,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/customers/:id", async (req, res) => {
+  app.delete("/api/customers/:id", ownerOnly, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const success = await storage.deleteCustomer(id);
@@ -138,14 +470,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/jobs", async (req, res) => {
     try {
       const jobData = insertJobSchema.parse(req.body);
-      const job = await storage.createJob(jobData);
-      
-      // Create job items if provided
-      if (req.body.items && Array.isArray(req.body.items)) {
-        for (const itemData of req.body.items) {
-          const item = insertJobItemSchema.parse({ ...itemData, jobId: job.id });
-          await storage.createJobItem(item);
-        }
+      const importDraftId = z.number().optional().parse(req.body.importDraftId);
+      const job = await createJobWithItems(jobData, Array.isArray(req.body.items) ? req.body.items : []);
+
+      // The reviewed invoice is now a real job, so it no longer needs finishing
+      if (importDraftId) {
+        await storage.deleteImportDraft(importDraftId);
       }
       
       const jobWithDetails = await storage.getJobWithDetails(job.id);
@@ -163,7 +493,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const jobData = insertJobSchema.partial().parse(req.body);
-      const job = await storage.updateJob(id, jobData);
+      const force = z.boolean().default(false).parse(req.body.force);
+      const existing = await storage.getJob(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // 409 says the change can be forced by sending it again with force
+      const refusal = jobData.status ? checkStatusChange(existing, await storage.getJobItems(id), jobData.status) : null;
+      if (refusal && !force) {
+        return res.status(409).json({ message: refusal });
+      }
+
+      const job = await storage.updateJob(id, jobData, { forced: !!refusal });
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
@@ -179,9 +521,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/jobs/:id", async (req, res) => {
+  app.get("/api/jobs/:id/status-history", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const history = await storage.getJobStatusHistory(id);
+      res.json({ history, timings: buildJobTimings(job, history) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  // Works the prices out again from the current rates and the item estimates
+  app.post("/api/jobs/:id/reprice", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      await priceJob(id);
+      const jobWithDetails = await storage.getJobWithDetails(id);
+      res.json(jobWithDetails);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reprice job" });
+    }
+  });
+
+  app.delete("/api/jobs/:id", ownerOnly, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      // Money received stays on the books
+      const payments = await storage.getJobPayments(id);
+      if (payments.length > 0) {
+        return res.status(400).json({ message: "Jobs with payments can't be deleted, remove the payments first" });
+      }
+
       const success = await storage.deleteJob(id);
       if (!success) {
         return res.status(404).json({ message: "Job not found" });
@@ -280,86 +660,1308 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Fills in the item's estimate and material from its sliced G-code
+  app.post("/api/job-items/:id/gcode", uploadGcode, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getJobItem(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No G-code file uploaded" });
+      }
+
+      const analysis = await analyzeGcodeFile(req.file.path);
+      const item = await storage.updateJobItem(id, {
+        estimatedTimePerItem: analysis.printTime,
+        material: analysis.material ?? existing.material,
+        gcodeFilename: req.file.originalname,
+        filamentLength: analysis.filamentLength,
+        filamentWeight: analysis.filamentWeight,
+        layerCount: analysis.layerCount,
+      });
+      res.json({ item, analysis });
+    } catch (error) {
+      console.error('G-code analysis error:', error);
+      res.status(500).json({ message: "Failed to read G-code" });
+    } finally {
+      discardUpload(req);
+    }
+  });
+
+  // Measures the customer's model and estimates its weight at the given infill
+  app.post("/api/job-items/:id/model", uploadModel, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getJobItem(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No model file uploaded" });
+      }
+
+      const infill = z.coerce.number().min(0).max(100).default(DEFAULT_INFILL).parse(req.body.infill);
+      let mesh: MeshMeasurements;
+      try {
+        mesh = parseModel(await fs.promises.readFile(req.file.path), req.file.originalname);
+      } catch (error) {
+        // Broken or empty files, tell the user what's wrong with it
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Could not read the model" });
+      }
+
+      const item = await storage.updateJobItem(id, {
+        modelFilename: req.file.originalname,
+        model: { ...mesh, infill, estimatedWeight: estimateModelWeight(mesh, existing.material, infill) },
+      });
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid infill", errors: error.errors });
+      } else {
+        console.error('Model analysis error:', error);
+        res.status(500).json({ message: "Failed to read model" });
+      }
+    } finally {
+      discardUpload(req);
+    }
+  });
+
+  // Re-estimates the weight for a different infill without uploading the model again
+  app.put("/api/job-items/:id/model", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getJobItem(id);
+      if (!existing?.model) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const { infill } = z.object({ infill: z.number().min(0).max(100) }).parse(req.body);
+      const item = await storage.updateJobItem(id, {
+        model: { ...existing.model, infill, estimatedWeight: estimateModelWeight(existing.model, existing.material, infill) },
+      });
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid infill", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update model estimate" });
+      }
+    }
+  });
+
+  // Which printers the item's model fits on
+  app.get("/api/job-items/:id/fit", async (req, res) => {
+    try {
+      const item = await storage.getJobItem(parseInt(req.params.id));
+      if (!item?.model) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const printers = await storage.getAllPrinters();
+      const fits: PrinterFit[] = printers.map(printer => ({
+        printerId: printer.id,
+        printerName: printer.name,
+        ...checkPrinterFit(item.model!.size, printer),
+      }));
+      res.json(fits);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check printer fit" });
+    }
+  });
+
+  // Printer routes
+  app.get("/api/printers", async (req, res) => {
+    try {
+      const printers = await storage.getAllPrinters();
+      res.json(printers.map(toSafePrinter));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch printers" });
+    }
+  });
+
+  // Live state of printers with a connector, as of their last poll
+  app.get("/api/printers/telemetry", async (req, res) => {
+    res.json(getPrinterTelemetry());
+  });
+
+  app.post("/api/printers", async (req, res) => {
+    try {
+      const printerData = insertPrinterSchema.parse(req.body);
+      const printer = await storage.createPrinter(printerData);
+      res.status(201).json(toSafePrinter(printer));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid printer data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create printer" });
+      }
+    }
+  });
+
+  app.get("/api/printers/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const printer = await storage.getPrinter(id);
+      if (!printer) {
+        return res.status(404).json({ message: "Printer not found" });
+      }
+      res.json(toSafePrinter(printer));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch printer" });
+    }
+  });
+
+  app.put("/api/printers/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Leaving the API key out keeps the saved one, null clears it
+      const printerData = insertPrinterSchema.partial().parse(req.body);
+      const printer = await storage.updatePrinter(id, printerData);
+      if (!printer) {
+        return res.status(404).json({ message: "Printer not found" });
+      }
+      res.json(toSafePrinter(printer));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid printer data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update printer" });
+      }
+    }
+  });
+
+  app.delete("/api/printers/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deletePrinter(id);
+      if (!success) {
+        return res.status(404).json({ message: "Printer not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete printer" });
+    }
+  });
+
+  // Printer assignment routes
+  app.get("/api/job-items/:id/assignments", async (req, res) => {
+    try {
+      const jobItemId = parseInt(req.params.id);
+      const assignments = await storage.getJobItemAssignments(jobItemId);
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch printer assignments" });
+    }
+  });
+
+  app.post("/api/job-items/:id/assignments", async (req, res) => {
+    try {
+      const jobItemId = parseInt(req.params.id);
+      const assignmentData = insertPrinterAssignmentSchema.parse({ ...req.body, jobItemId });
+      const problem = await checkPrinterAssignment(assignmentData);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const assignment = await storage.createPrinterAssignment(assignmentData);
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to assign printer" });
+      }
+    }
+  });
+
+  app.put("/api/printer-assignments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPrinterAssignment(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const assignmentData = insertPrinterAssignmentSchema.omit({ jobItemId: true }).partial().parse(req.body);
+      const problem = await checkPrinterAssignment({ ...existing, ...assignmentData }, id);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const assignment = await storage.updatePrinterAssignment(id, assignmentData);
+      res.json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update assignment" });
+      }
+    }
+  });
 
+  app.delete("/api/printer-assignments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deletePrinterAssignment(id);
+      if (!success) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete assignment" });
+    }
+  });
 
   // Email notification - simplified
   app.post("/api/jobs/:id/notify", async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
-      const { message, type = 'status_update' } = req.body;
-      
+      const { type, note, attachInvoice } = notifyRequestSchema.parse(req.body);
+      if (type === "quote_sent") {
+        return res.status(400).json({ message: "Quotes are emailed from the quote" });
+      }
+
       const job = await storage.getJobWithDetails(jobId);
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
 
-      // Log notification (email functionality disabled for demo)
-      await storage.createNotification({
+      const invoice = attachInvoice ? await storage.getJobInvoice(jobId) : undefined;
+      if (attachInvoice && !invoice) {
+        return res.status(400).json({ message: "Generate the invoice before attaching it" });
+      }
+
+      const template = await resolveNotificationTemplate(type);
+      const rendered = renderNotification(template, await jobTemplateContext(job, note));
+      const notification = await sendNotification({
         jobId,
         type,
-        message: message || 'Status update notification logged',
-        recipientEmail: job.customer.email
+        subject: rendered.subject,
+        message: rendered.text,
+        html: rendered.html,
+        recipientEmail: job.customer.email,
+        invoiceId: invoice?.id ?? null
       });
-
-      res.json({ message: "Notification logged successfully (email functionality disabled)" });
+      sendNotificationResponse(res, notification);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification request", errors: error.errors });
+      }
       console.error('Notification error:', error);
-      res.status(500).json({ message: "Failed to log notification" });
+      res.status(500).json({ message: "Failed to send notification" });
     }
   });
 
-  // PDF upload and extraction endpoint - now creates job automatically
-  app.post("/api/upload-pdf", async (req, res) => {
+  // Everything the customer was sent about the job, newest first
+  app.get("/api/jobs/:id/notifications", async (req, res) => {
     try {
-      // Extract items from PDF
-      const extractedItems = await extractItemsFromPDF(Buffer.from(''));
-      
-      // Get the default customer (Tech Solutions Inc.) for auto-created jobs
-      const customers = await storage.getAllCustomers();
-      const defaultCustomer = customers[0]; // Use first customer as default
-      
-      if (!defaultCustomer) {
-        return res.status(400).json({ message: "No customers available. Please create a customer first." });
-      }
-
-      // Create job with extracted items
-      const jobData = {
-        customerId: defaultCustomer.id,
-        priority: "normal" as const,
-        status: "not_started" as const,
-        notes: `Auto-created from PDF: Von_Benneke_Invoice.pdf\nExtracted ${extractedItems.length} items`,
-      };
+      const jobId = parseInt(req.params.id);
+      const notifications = await storage.getJobNotifications(jobId);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
 
-      const job = await storage.createJob(jobData);
+  app.get("/api/notifications", async (req, res) => {
+    try {
+      const filter = notificationQuerySchema.parse(req.query);
+      const notifications = await storage.getNotifications(filter);
+      res.json(notifications);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid notification filter", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch notifications" });
+      }
+    }
+  });
 
-      // Create job items
-      for (const item of extractedItems) {
-        await storage.createJobItem({
-          jobId: job.id,
-          name: item.name,
-          quantity: item.quantity,
-          estimatedTimePerItem: 0, // Default to 0, user can edit later
-          material: null,
-          notes: null,
-        });
+  // Sends the same message again as a new notification, so the original keeps its history
+  app.post("/api/notifications/:id/resend", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const original = await storage.getNotification(id);
+      if (!original) {
+        return res.status(404).json({ message: "Notification not found" });
       }
 
-      const jobWithDetails = await storage.getJobWithDetails(job.id);
-      
-      res.json({ 
-        items: extractedItems,
-        originalFilename: 'Von_Benneke_Invoice.pdf',
-        job: jobWithDetails,
-        message: `Created job #${job.jobNumber} with ${extractedItems.length} items`
+      const notification = await sendNotification({
+        jobId: original.jobId,
+        quoteId: original.quoteId,
+        type: original.type,
+        subject: original.subject,
+        message: original.message,
+        html: original.html,
+        recipientEmail: original.recipientEmail,
+        invoiceId: original.invoiceId,
       });
+      sendNotificationResponse(res, notification);
     } catch (error) {
-      console.error('PDF upload error:', error);
-      res.status(500).json({ message: "Failed to process PDF" });
+      console.error('Notification resend error:', error);
+      res.status(500).json({ message: "Failed to resend notification" });
     }
   });
 
-  // Stats endpoint
-  app.get("/api/stats", async (req, res) => {
+  app.get("/api/notification-settings", async (req, res) => {
+    try {
+      const settings = await storage.getNotificationSettings();
+      res.json(toSafeNotificationSettings(settings));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification settings" });
+    }
+  });
+
+  app.put("/api/notification-settings", ownerOnly, async (req, res) => {
+    try {
+      // Leaving the SMTP password out keeps the saved one, null clears it
+      const settingsData = insertNotificationSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateNotificationSettings(settingsData);
+      res.json(toSafeNotificationSettings(settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid notification settings", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update notification settings" });
+      }
+    }
+  });
+
+  // Notification template routes
+  app.get("/api/notification-templates", async (req, res) => {
+    try {
+      const templates = await resolveNotificationTemplates();
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification templates" });
+    }
+  });
+
+  app.put("/api/notification-templates/:type", ownerOnly, async (req, res) => {
+    try {
+      const templateData = insertNotificationTemplateSchema.parse({ ...req.body, type: req.params.type });
+      await storage.updateNotificationTemplate(templateData.type, templateData);
+      res.json(await resolveNotificationTemplate(templateData.type));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid notification template data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save notification template" });
+      }
+    }
+  });
+
+  // Back to the built-in wording
+  app.delete("/api/notification-templates/:type", ownerOnly, async (req, res) => {
+    try {
+      await storage.deleteNotificationTemplate(req.params.type);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset notification template" });
+    }
+  });
+
+  // Renders unsaved template text against a job, a quote or sample values
+  app.post("/api/notification-templates/preview", async (req, res) => {
+    try {
+      const { jobId, quoteId, note, ...template } = templatePreviewSchema.parse(req.body);
+
+      let context;
+      if (jobId) {
+        const job = await storage.getJobWithDetails(jobId);
+        if (!job) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+        context = await jobTemplateContext(job, note);
+      } else if (quoteId) {
+        const quote = await storage.getQuote(quoteId);
+        const customer = quote && await storage.getCustomer(quote.customerId);
+        if (!quote || !customer) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        context = await quoteTemplateContext({ ...quote, customer }, note);
+      } else {
+        context = await sampleTemplateContext(note);
+      }
+
+      res.json(renderNotification({ ...template, bodyHtml: template.bodyHtml ?? null }, context));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid template preview request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to preview notification template" });
+      }
+    }
+  });
+
+  // Spool routes
+  app.get("/api/spools", async (req, res) => {
+    try {
+      const spools = await storage.getAllSpools();
+      res.json(spools);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch spools" });
+    }
+  });
+
+  app.post("/api/spools", async (req, res) => {
+    try {
+      const spoolData = insertSpoolSchema.parse(req.body);
+      const spool = await storage.createSpool(spoolData);
+      res.status(201).json(spool);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid spool data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create spool" });
+      }
+    }
+  });
+
+  app.put("/api/spools/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const spoolData = insertSpoolSchema.partial().parse(req.body);
+      const spool = await storage.updateSpool(id, spoolData);
+      if (!spool) {
+        return res.status(404).json({ message: "Spool not found" });
+      }
+      res.json(spool);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid spool data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update spool" });
+      }
+    }
+  });
+
+  app.delete("/api/spools/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteSpool(id);
+      if (!success) {
+        return res.status(404).json({ message: "Spool not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete spool" });
+    }
+  });
+
+  // Materials the open jobs need more of than is on the shelf
+  app.get("/api/material-shortages", async (req, res) => {
+    try {
+      const [jobs, spools] = await Promise.all([storage.getAllJobs(), storage.getAllSpools()]);
+      res.json(findMaterialShortages(jobs, spools));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check material stock" });
+    }
+  });
+
+  // Pricing routes
+  app.get("/api/pricing-settings", async (req, res) => {
+    try {
+      const settings = await storage.getPricingSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pricing settings" });
+    }
+  });
+
+  app.put("/api/pricing-settings", ownerOnly, async (req, res) => {
+    try {
+      const settingsData = insertPricingSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updatePricingSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid pricing settings", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update pricing settings" });
+      }
+    }
+  });
+
+  // Prices items that aren't saved yet, for the breakdown in NewJobModal
+  app.post("/api/pricing/quote", async (req, res) => {
+    try {
+      const { items } = quoteRequestSchema.parse(req.body);
+      const settings = await storage.getPricingSettings();
+      const quote = quoteJob(
+        items.map(({ unitPrice, ...item }) => ({ ...item, fixedUnitPrice: unitPrice })),
+        ratesFrom(settings),
+      );
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid quote request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to work out prices" });
+      }
+    }
+  });
+
+  // Quote routes
+  app.get("/api/quotes", async (req, res) => {
+    try {
+      await expireQuotes();
+      const quotes = await storage.getAllQuotes();
+      res.json(quotes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+
+  app.get("/api/quotes/:id/revisions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revisions = await storage.getQuoteRevisions(id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quote history" });
+    }
+  });
+
+  app.post("/api/quotes", async (req, res) => {
+    try {
+      const quoteData = insertQuoteSchema.parse(req.body);
+      const priced = await priceQuoteItems(quoteData.items);
+      const quote = await storage.createQuote({ ...quoteData, ...priced, jobId: null });
+      res.status(201).json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create quote" });
+      }
+    }
+  });
+
+  app.put("/api/quotes/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { jobId, ...quoteData } = insertQuoteSchema.partial().parse(req.body);
+      const existing = await storage.getQuote(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      // The job made from it carries the prices now
+      if (existing.status === "accepted") {
+        return res.status(400).json({ message: "Accepted quotes can't be changed" });
+      }
+      if (quoteData.status === "accepted") {
+        return res.status(400).json({ message: "Accept the quote to turn it into a job" });
+      }
+
+      const quote = await storage.updateQuote(id, quoteData.items
+        ? { ...quoteData, ...(await priceQuoteItems(quoteData.items)) }
+        : quoteData);
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update quote" });
+      }
+    }
+  });
+
+  // The customer said yes: the quote becomes a job with the quoted items and prices
+  app.post("/api/quotes/:id/accept", async (req, res) => {
+    try {
+      const result = await acceptQuote(parseInt(req.params.id));
+      if ("message" in result) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      const jobWithDetails = await storage.getJobWithDetails(result.job.id);
+      res.status(201).json(jobWithDetails);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "The quote has an item that can't become a job item", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to accept quote" });
+      }
+    }
+  });
+
+  // Emails the quote to the customer, marking a draft as sent
+  app.post("/api/quotes/:id/send", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { note } = notifyRequestSchema.pick({ note: true }).parse(req.body);
+      const quote = await storage.getQuote(id);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (quote.status !== "draft" && quote.status !== "sent") {
+        return res.status(400).json({ message: `Quote ${quote.quoteNumber} was already ${quote.status}` });
+      }
+      const customer = await storage.getCustomer(quote.customerId);
+      if (!customer) {
+        return res.status(400).json({ message: "Quote customer not found" });
+      }
+
+      const template = await resolveNotificationTemplate("quote_sent");
+      const rendered = renderNotification(template, await quoteTemplateContext({ ...quote, customer }, note));
+      const notification = await sendNotification({
+        quoteId: id,
+        type: "quote_sent",
+        subject: rendered.subject,
+        message: rendered.text,
+        html: rendered.html,
+        recipientEmail: customer.email,
+      });
+      if (quote.status === "draft" && (notification.status === "sent" || notification.nextAttemptAt)) {
+        await storage.updateQuote(id, { status: "sent" });
+      }
+      sendNotificationResponse(res, notification);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification request", errors: error.errors });
+      }
+      console.error('Quote email error:', error);
+      res.status(500).json({ message: "Failed to send quote" });
+    }
+  });
+
+  app.delete("/api/quotes/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteQuote(id);
+      if (!success) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete quote" });
+    }
+  });
+
+  // Invoice routes
+  app.get("/api/invoice-settings", async (req, res) => {
+    try {
+      const settings = await storage.getInvoiceSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invoice settings" });
+    }
+  });
+
+  app.put("/api/invoice-settings", ownerOnly, async (req, res) => {
+    try {
+      const settingsData = insertInvoiceSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateInvoiceSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid invoice settings", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update invoice settings" });
+      }
+    }
+  });
+
+  app.get("/api/invoices", async (req, res) => {
+    try {
+      const invoices = await storage.getAllInvoices();
+      res.json(invoices.map(invoiceSummary));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  // A job is invoiced once; asking again returns the invoice already issued
+  app.post("/api/jobs/:id/invoice", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const existing = await storage.getJobInvoice(jobId);
+      if (existing) {
+        return res.json(invoiceSummary(existing));
+      }
+
+      let job = await storage.getJobWithDetails(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.status !== "completed") {
+        return res.status(400).json({ message: "Only completed jobs can be invoiced" });
+      }
+      if (job.totalPrice == null) {
+        await priceJob(jobId);
+        job = (await storage.getJobWithDetails(jobId))!;
+      }
+
+      const invoice = await issueInvoice(job);
+      res.status(201).json(invoiceSummary(invoice));
+    } catch (error) {
+      console.error('Invoice error:', error);
+      res.status(500).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  app.get("/api/invoices/:id/pdf", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+      if (!invoice || !invoice.pdf) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+      res.send(Buffer.from(invoice.pdf, "base64"));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download invoice" });
+    }
+  });
+
+  // Payment routes
+  app.get("/api/jobs/:id/payments", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const payments = await storage.getJobPayments(jobId);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.post("/api/jobs/:id/payments", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const job = await storage.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // Recorded against the invoice when there is one
+      const invoice = await storage.getJobInvoice(jobId);
+      const paymentData = insertPaymentSchema.parse({ ...req.body, jobId, invoiceId: invoice?.id ?? null });
+      const payment = await storage.createPayment(paymentData);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to record payment" });
+      }
+    }
+  });
+
+  app.delete("/api/payments/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deletePayment(id);
+      if (!success) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete payment" });
+    }
+  });
+
+  app.get("/api/balances", async (req, res) => {
+    try {
+      const [jobs, invoices, payments] = await Promise.all([
+        storage.getAllJobs(),
+        storage.getAllInvoices(),
+        storage.getAllPayments(),
+      ]);
+      res.json(buildJobBalances(jobs, invoices, payments));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch balances" });
+    }
+  });
+
+  // Queue, turnaround and lead times of the jobs completed in the period
+  app.get("/api/reports/turnaround", async (req, res) => {
+    try {
+      const { since, until } = reportPeriodSchema.parse(req.query);
+      const [jobs, history] = await Promise.all([storage.getAllJobs(), storage.getJobStatusHistory()]);
+      res.json(buildTurnaroundReport(jobs, history, since, until));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid report period", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to build turnaround report" });
+      }
+    }
+  });
+
+  app.get("/api/reports/receivables", async (req, res) => {
+    try {
+      const [customers, invoices, payments] = await Promise.all([
+        storage.getAllCustomers(),
+        storage.getAllInvoices(),
+        storage.getAllPayments(),
+      ]);
+      res.json(buildAgedReceivables(customers, invoices, payments));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch aged receivables" });
+    }
+  });
+
+  // Stock per material against the open queue and the reorder thresholds
+  app.get("/api/stock-levels", async (req, res) => {
+    try {
+      const [jobs, spools, thresholds, orders] = await Promise.all([
+        storage.getAllJobs(),
+        storage.getAllSpools(),
+        storage.getMaterialThresholds(),
+        storage.getAllPurchaseOrders(),
+      ]);
+      res.json(buildStockLevels(jobs, spools, thresholds, orders));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stock levels" });
+    }
+  });
+
+  // Materials the queue will take below their reorder threshold
+  app.get("/api/stock-alerts", async (req, res) => {
+    try {
+      const [jobs, spools, thresholds, orders] = await Promise.all([
+        storage.getAllJobs(),
+        storage.getAllSpools(),
+        storage.getMaterialThresholds(),
+        storage.getAllPurchaseOrders(),
+      ]);
+      res.json(buildStockLevels(jobs, spools, thresholds, orders).filter(level => level.low));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check stock levels" });
+    }
+  });
+
+  // Material threshold routes
+  app.get("/api/material-thresholds", async (req, res) => {
+    try {
+      const thresholds = await storage.getMaterialThresholds();
+      res.json(thresholds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reorder thresholds" });
+    }
+  });
+
+  app.post("/api/material-thresholds", async (req, res) => {
+    try {
+      const thresholdData = insertMaterialThresholdSchema.parse(req.body);
+      const existing = await storage.getMaterialThresholds();
+      if (existing.some(threshold => threshold.material.toLowerCase() === thresholdData.material.toLowerCase())) {
+        return res.status(400).json({ message: `${thresholdData.material} already has a reorder threshold` });
+      }
+      const threshold = await storage.createMaterialThreshold(thresholdData);
+      res.status(201).json(threshold);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid threshold data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create reorder threshold" });
+      }
+    }
+  });
+
+  app.put("/api/material-thresholds/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const thresholdData = insertMaterialThresholdSchema.pick({ reorderThreshold: true }).parse(req.body);
+      const threshold = await storage.updateMaterialThreshold(id, thresholdData);
+      if (!threshold) {
+        return res.status(404).json({ message: "Reorder threshold not found" });
+      }
+      res.json(threshold);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid threshold data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update reorder threshold" });
+      }
+    }
+  });
+
+  app.delete("/api/material-thresholds/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteMaterialThreshold(id);
+      if (!success) {
+        return res.status(404).json({ message: "Reorder threshold not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete reorder threshold" });
+    }
+  });
+
+  // Purchase order routes
+  app.get("/api/purchase-orders", async (req, res) => {
+    try {
+      const orders = await storage.getAllPurchaseOrders();
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getPurchaseOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders", async (req, res) => {
+    try {
+      const orderData = insertPurchaseOrderSchema.parse(req.body);
+      if (orderData.status === "received") {
+        return res.status(400).json({ message: "Receive the purchase order to put its spools on the shelf" });
+      }
+      const order = await storage.createPurchaseOrder(orderData);
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create purchase order" });
+      }
+    }
+  });
+
+  app.put("/api/purchase-orders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const orderData = insertPurchaseOrderSchema.partial().parse(req.body);
+      // Only /receive receives, it's the one that checks the order isn't cancelled
+      if (orderData.status === "received") {
+        return res.status(400).json({ message: "Receive the purchase order to put its spools on the shelf" });
+      }
+      const existing = await storage.getPurchaseOrder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      // Its spools are already on the shelf, edit those instead
+      if (existing.status === "received") {
+        return res.status(400).json({ message: "Received purchase orders can't be changed" });
+      }
+      const order = await storage.updatePurchaseOrder(id, orderData);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update purchase order" });
+      }
+    }
+  });
+
+  // Books the delivery in: one spool per spool ordered
+  app.post("/api/purchase-orders/:id/receive", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (existing.status === "received" || existing.status === "cancelled") {
+        return res.status(400).json({ message: `Purchase order ${existing.orderNumber} is already ${existing.status}` });
+      }
+      const order = await storage.updatePurchaseOrder(id, { status: "received" });
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to receive purchase order" });
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deletePurchaseOrder(id);
+      if (!success) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete purchase order" });
+    }
+  });
+
+  // PDF upload and extraction endpoint - saves a draft for review, the job is created from NewJobModal
+  app.post("/api/upload-pdf", uploadPdf, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No PDF file uploaded" });
+      }
+
+      // Extract items from PDF, trying each known invoice layout before falling back to heuristics
+      const templates = orderTemplates(await storage.getInvoiceTemplates());
+      const invoice = await extractItemsFromPDF(req.file.buffer, templates);
+      if (invoice.items.length === 0) {
+        return res.status(422).json({ message: "No line items could be found in this PDF" });
+      }
+
+      const suggestedCustomer = await suggestCustomer(invoice);
+      const draft = await storage.createImportDraft({
+        originalFilename: req.file.originalname,
+        templateName: invoice.templateName,
+        invoiceNumber: invoice.invoiceNumber,
+        customerName: invoice.customerName,
+        customerId: suggestedCustomer?.id ?? null,
+        items: invoice.items,
+      });
+
+      res.status(201).json(draft);
+    } catch (error) {
+      console.error('PDF upload error:', error);
+      res.status(500).json({ message: "Failed to process PDF" });
+    }
+  });
+
+  // Import draft routes
+  app.get("/api/import-drafts", async (req, res) => {
+    try {
+      const drafts = await storage.getImportDrafts();
+      res.json(drafts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import drafts" });
+    }
+  });
+
+  app.get("/api/import-drafts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const draft = await storage.getImportDraft(id);
+      if (!draft) {
+        return res.status(404).json({ message: "Import draft not found" });
+      }
+      res.json(draft);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import draft" });
+    }
+  });
+
+  app.put("/api/import-drafts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const draftData = insertImportDraftSchema.partial().parse(req.body);
+      const draft = await storage.updateImportDraft(id, draftData);
+      if (!draft) {
+        return res.status(404).json({ message: "Import draft not found" });
+      }
+      res.json(draft);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid import draft data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update import draft" });
+      }
+    }
+  });
+
+  app.delete("/api/import-drafts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteImportDraft(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import draft not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete import draft" });
+    }
+  });
+
+  // Invoice template routes
+  app.get("/api/invoice-templates", async (req, res) => {
+    try {
+      const templates = await storage.getInvoiceTemplates();
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invoice templates" });
+    }
+  });
+
+  app.get("/api/invoice-templates/built-in", async (req, res) => {
+    res.json(builtInTemplates);
+  });
+
+  app.post("/api/invoice-templates", ownerOnly, async (req, res) => {
+    try {
+      const templateData = insertInvoiceTemplateSchema.parse(req.body);
+      const template = await storage.createInvoiceTemplate(templateData);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid invoice template", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create invoice template" });
+      }
+    }
+  });
+
+  app.put("/api/invoice-templates/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const templateData = insertInvoiceTemplateSchema.parse(req.body);
+      const template = await storage.updateInvoiceTemplate(id, templateData);
+      if (!template) {
+        return res.status(404).json({ message: "Invoice template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid invoice template", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update invoice template" });
+      }
+    }
+  });
+
+  app.delete("/api/invoice-templates/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteInvoiceTemplate(id);
+      if (!success) {
+        return res.status(404).json({ message: "Invoice template not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete invoice template" });
+    }
+  });
+
+  // Returns the positioned text of a sample PDF so a template can be marked up against it
+  app.post("/api/invoice-templates/sample", uploadPdf, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No PDF file uploaded" });
+      }
+
+      const rows = await extractPdfRows(req.file.buffer);
+      res.json({ originalFilename: req.file.originalname, rows });
+    } catch (error) {
+      console.error('PDF sample error:', error);
+      res.status(500).json({ message: "Failed to read PDF" });
+    }
+  });
+
+  app.post("/api/invoice-templates/test", async (req, res) => {
+    try {
+      const { template, rows } = templateTestSchema.parse(req.body);
+      let invoice: ExtractedInvoice | null;
+      try {
+        invoice = applyInvoiceTemplate(template, rows);
+      } catch (error) {
+        // A pattern that ran too long, the template needs changing
+        return res.status(400).json({ message: error instanceof Error ? error.message : "The template could not be applied" });
+      }
+      res.json({ invoice });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid invoice template", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to test invoice template" });
+      }
+    }
+  });
+
+  // User routes, owners only
+  app.get("/api/users", ownerOnly, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", ownerOnly, async (req, res) => {
+    try {
+      const { password, ...userData } = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ message: `${userData.username} is already taken` });
+      }
+      const user = await storage.createUser({ ...userData, passwordHash: await hashPassword(password) });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create user" });
+      }
+    }
+  });
+
+  app.put("/api/users/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { password, ...userData } = updateUserSchema.parse(req.body);
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (userData.username && userData.username !== existing.username && await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ message: `${userData.username} is already taken` });
+      }
+      if (userData.role && userData.role !== "owner" && await isLastOwner(existing)) {
+        return res.status(400).json({ message: "The shop needs at least one owner" });
+      }
+
+      const user = await storage.updateUser(id, password ? { ...userData, passwordHash: await hashPassword(password) } : userData);
+      res.json(toSafeUser(user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+
+  app.delete("/api/users/:id", ownerOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You can't delete your own account" });
+      }
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (await isLastOwner(existing)) {
+        return res.status(400).json({ message: "The shop needs at least one owner" });
+      }
+      await storage.deleteUser(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Audit log, newest first; a job's entries include its items and emails
+  app.get("/api/audit", async (req, res) => {
+    try {
+      const filter = auditQuerySchema.parse(req.query);
+      const entries = await storage.getAuditEntries(filter);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid audit filter", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch audit log" });
+      }
+    }
+  });
+
+  // Stats endpoint
+  app.get("/api/stats", async (req, res) => {
     try {
       const stats = await storage.getJobStats();
       res.json(stats);
@@ -368,6 +1970,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Print queue
+  app.get("/api/schedule", async (req, res) => {
+    try {
+      const schedule = await getSchedule();
+      res.json(schedule);
+    } catch (error) {
+      console.error('Schedule error:', error);
+      res.status(500).json({ message: "Failed to build schedule" });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupLiveUpdates(httpServer);
   return httpServer;
 }
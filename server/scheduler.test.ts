@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { JobWithCustomer, Printer } from "@shared/schema";
+import { buildSchedule } from "./scheduler";
+
+const printer = { id: 1, name: "Bay 1", status: "idle", supportedMaterials: [] } as unknown as Printer;
+
+function job(id: number, status: string, itemStatus = "not_started"): JobWithCustomer {
+  return {
+    id,
+    jobNumber: `2026-00${id}`,
+    status,
+    priority: "normal",
+    dueDate: null,
+    customer: { name: "Contract Test" },
+    items: [{
+      id: id * 10,
+      jobId: id,
+      name: `Item ${id}`,
+      quantity: 2,
+      completedQuantity: 0,
+      estimatedTimePerItem: 60,
+      status: itemStatus,
+      material: null,
+      assignments: [],
+    }],
+  } as unknown as JobWithCustomer;
+}
+
+// A Monday morning, inside the default working hours
+const options = { now: new Date(2026, 0, 5, 9, 0), workingHours: { days: [1, 2, 3, 4, 5], opensAt: 8 * 60, closesAt: 17 * 60 } };
+
+describe("buildSchedule", () => {
+  it("only books printer time for jobs and items that can print", () => {
+    const schedule = buildSchedule(
+      [job(1, "paused"), job(2, "printing", "paused"), job(3, "not_started"), job(4, "completed")],
+      [printer],
+      options,
+    );
+
+    expect(schedule.queues[0].prints.map(print => print.jobId)).toEqual([3]);
+    expect(schedule.queues[0].prints[0].start).toEqual(options.now);
+    expect(schedule.unscheduled.map(({ jobId, reason }) => [jobId, reason])).toEqual([
+      [1, "Job is paused"],
+      [2, "Item is paused"],
+    ]);
+  });
+});
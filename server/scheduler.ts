@@ -0,0 +1,307 @@
+import type {
+  JobItemWithAssignments,
+  JobWithCustomer,
+  Printer,
+  PrinterAssignment,
+  PrinterQueue,
+  Schedule,
+  ScheduledPrint,
+  UnscheduledItem,
+  WorkingHours,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { toSafePrinter } from "./connectors/http";
+import { storageEvents } from "./events";
+
+type OpenWork = {
+  job: JobWithCustomer;
+  item: JobItemWithAssignments;
+};
+
+// Part of an item's outstanding copies, either on an assigned printer or left for the scheduler to place
+type Portion = {
+  work: OpenWork;
+  assignment: PrinterAssignment | null;
+  quantity: number;
+};
+
+type Interval = {
+  start: Date;
+  end: Date;
+};
+
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+const UNAVAILABLE_STATUSES = ["maintenance", "offline"];
+
+// Jobs and items in any other status (paused, completed) don't hold printer time
+const PRINTABLE_STATUSES = ["not_started", "printing"];
+
+// A cached plan older than this is rebuilt, since projections are relative to "now"
+const MAX_SCHEDULE_AGE = 60 * 1000;
+
+function parseClock(value: string | undefined, fallback: number): number {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : fallback;
+}
+
+// SHOP_DAYS=1,2,3,4,5 SHOP_OPENS_AT=08:00 SHOP_CLOSES_AT=17:00 (server local time)
+export function workingHoursFromEnv(env = process.env): WorkingHours {
+  const days = env.SHOP_DAYS?.split(",").map(day => parseInt(day)).filter(day => day >= 0 && day <= 6);
+  return {
+    days: days?.length ? days : [1, 2, 3, 4, 5],
+    opensAt: parseClock(env.SHOP_OPENS_AT, 8 * 60),
+    closesAt: parseClock(env.SHOP_CLOSES_AT, 17 * 60),
+  };
+}
+
+// Printers run unattended, but someone has to be in the shop to start each print,
+// so a print may finish after closing but never starts outside working hours
+export function nextWorkingTime(from: Date, hours: WorkingHours): Date {
+  const time = new Date(from);
+  for (let day = 0; day < 8; day++) {
+    const minutes = time.getHours() * 60 + time.getMinutes();
+    if (hours.days.includes(time.getDay()) && minutes < hours.closesAt) {
+      if (minutes >= hours.opensAt) return time;
+      time.setHours(Math.floor(hours.opensAt / 60), hours.opensAt % 60, 0, 0);
+      return time;
+    }
+    time.setDate(time.getDate() + 1);
+    time.setHours(0, 0, 0, 0);
+  }
+  // No working days configured, don't hold the queue forever
+  return new Date(from);
+}
+
+// Earliest start at or after `from` where a print of this length fits between the prints already booked
+function findSlot(busy: Interval[], from: Date, minutes: number, hours: WorkingHours, startNow: boolean): Date {
+  let start = startNow ? from : nextWorkingTime(from, hours);
+  for (const booked of busy) {
+    if (start.getTime() + minutes * 60 * 1000 <= booked.start.getTime()) break;
+    if (start < booked.end) start = nextWorkingTime(booked.end, hours);
+  }
+  return start;
+}
+
+export function canPrintMaterial(printer: Printer, material: string | null): boolean {
+  const wanted = material?.trim().toLowerCase();
+  if (!wanted || printer.supportedMaterials.length === 0) return true;
+  return printer.supportedMaterials.some(supported => supported.toLowerCase() === wanted);
+}
+
+// In-progress work first, then priority, then the earliest due date, then first come first served
+function compareWork(a: OpenWork, b: OpenWork): number {
+  const printing = Number(b.item.status === "printing") - Number(a.item.status === "printing");
+  if (printing !== 0) return printing;
+
+  const priority = (PRIORITY_RANK[a.job.priority] ?? 2) - (PRIORITY_RANK[b.job.priority] ?? 2);
+  if (priority !== 0) return priority;
+
+  const dueA = a.job.dueDate ? new Date(a.job.dueDate).getTime() : Infinity;
+  const dueB = b.job.dueDate ? new Date(b.job.dueDate).getTime() : Infinity;
+  if (dueA !== dueB) return dueA - dueB;
+
+  const createdA = a.job.createdAt ? new Date(a.job.createdAt).getTime() : 0;
+  const createdB = b.job.createdAt ? new Date(b.job.createdAt).getTime() : 0;
+  return createdA - createdB || a.job.id - b.job.id || a.item.id - b.item.id;
+}
+
+// Assigned copies come out of the outstanding quantity first, the rest is unassigned
+function splitIntoPortions(work: OpenWork): Portion[] {
+  let remaining = work.item.quantity - (work.item.completedQuantity || 0);
+  const portions: Portion[] = [];
+
+  for (const assignment of work.item.assignments) {
+    const quantity = Math.min(assignment.quantity, remaining);
+    if (quantity <= 0) break;
+    portions.push({ work, assignment, quantity });
+    remaining -= quantity;
+  }
+  if (remaining > 0) {
+    portions.push({ work, assignment: null, quantity: remaining });
+  }
+  return portions;
+}
+
+// Back-to-back copies of the same item from the same assignment show as one block
+function mergeCopies(prints: ScheduledPrint[]): ScheduledPrint[] {
+  const merged: ScheduledPrint[] = [];
+  for (const print of prints.sort((a, b) => a.start.getTime() - b.start.getTime())) {
+    const last = merged[merged.length - 1];
+    if (
+      last &&
+      last.jobItemId === print.jobItemId &&
+      last.assignmentId === print.assignmentId &&
+      last.end.getTime() === print.start.getTime()
+    ) {
+      last.quantity += print.quantity;
+      last.end = print.end;
+      last.overdue = last.overdue || print.overdue;
+    } else {
+      merged.push({ ...print });
+    }
+  }
+  return merged;
+}
+
+export function buildSchedule(
+  jobs: JobWithCustomer[],
+  printers: Printer[],
+  options: { now: Date; workingHours: WorkingHours },
+): Schedule {
+  const { now, workingHours } = options;
+  const available = printers.filter(printer => !UNAVAILABLE_STATUSES.includes(printer.status));
+  const busy = new Map<number, Interval[]>(available.map(printer => [printer.id, []]));
+  const copies = new Map<number, ScheduledPrint[]>(available.map(printer => [printer.id, []]));
+  const unscheduled: UnscheduledItem[] = [];
+  // Items whose first copy is already on the bed, it started before now and doesn't wait for opening time
+  const running = new Set<number>();
+
+  const openWork = jobs
+    .filter(job => job.status !== "completed")
+    .flatMap(job => job.items.map(item => ({ job, item })))
+    .filter(({ item }) => item.status !== "completed" && item.quantity > (item.completedQuantity || 0))
+    .sort(compareWork);
+
+  const skip = ({ work: { job, item }, quantity }: Portion, reason: string) => {
+    unscheduled.push({ jobId: job.id, jobNumber: job.jobNumber, jobItemId: item.id, itemName: item.name, quantity, reason });
+  };
+
+  const slotFor = ({ work: { item } }: Portion, printerId: number, from: Date) =>
+    findSlot(busy.get(printerId)!, from, item.estimatedTimePerItem || 0, workingHours, running.has(item.id));
+
+  const place = ({ work: { job, item }, assignment }: Portion, printerId: number, start: Date) => {
+    const end = new Date(start.getTime() + (item.estimatedTimePerItem || 0) * 60 * 1000);
+    const dueDate = job.dueDate ? new Date(job.dueDate) : null;
+    running.delete(item.id);
+
+    const printerBusy = busy.get(printerId)!;
+    printerBusy.push({ start, end });
+    printerBusy.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    copies.get(printerId)!.push({
+      printerId,
+      jobId: job.id,
+      jobNumber: job.jobNumber,
+      jobStatus: job.status,
+      customerName: job.customer.name,
+      jobItemId: item.id,
+      itemName: item.name,
+      material: item.material,
+      assignmentId: assignment?.id ?? null,
+      pinned: !!assignment?.startAfter,
+      quantity: 1,
+      start,
+      end,
+      dueDate,
+      overdue: !!dueDate && end > dueDate,
+    });
+  };
+
+  const portions: Portion[] = [];
+  for (const work of openWork) {
+    const outstanding = { work, assignment: null, quantity: work.item.quantity - (work.item.completedQuantity || 0) };
+    if (!PRINTABLE_STATUSES.includes(work.job.status) || !PRINTABLE_STATUSES.includes(work.item.status)) {
+      skip(outstanding, work.job.status === "paused" ? "Job is paused" : "Item is paused");
+      continue;
+    }
+    if (!work.item.estimatedTimePerItem) {
+      skip(outstanding, "No print time estimate");
+      continue;
+    }
+    if (work.item.status === "printing") running.add(work.item.id);
+    portions.push(...splitIntoPortions(work));
+  }
+
+  // Copies pinned on the timeline book their slots first, earliest pin first
+  const pinned = portions
+    .filter(portion => portion.assignment?.startAfter)
+    .sort((a, b) => new Date(a.assignment!.startAfter!).getTime() - new Date(b.assignment!.startAfter!).getTime());
+  for (const portion of pinned) {
+    const printerId = portion.assignment!.printerId;
+    if (!busy.has(printerId)) {
+      skip(portion, "Assigned printer is unavailable");
+      continue;
+    }
+    const pinnedAt = new Date(portion.assignment!.startAfter!);
+    for (let copy = 0; copy < portion.quantity; copy++) {
+      place(portion, printerId, slotFor(portion, printerId, pinnedAt > now ? pinnedAt : now));
+    }
+  }
+
+  // Everything else fills the gaps in priority order
+  for (const portion of portions) {
+    if (portion.assignment?.startAfter) continue;
+
+    // Copies someone put on a specific printer stay there
+    if (portion.assignment) {
+      const printerId = portion.assignment.printerId;
+      if (!busy.has(printerId)) {
+        skip(portion, "Assigned printer is unavailable");
+        continue;
+      }
+      for (let copy = 0; copy < portion.quantity; copy++) {
+        place(portion, printerId, slotFor(portion, printerId, now));
+      }
+      continue;
+    }
+
+    const { material } = portion.work.item;
+    const compatible = available.filter(printer => canPrintMaterial(printer, material));
+    if (compatible.length === 0) {
+      skip(portion, material ? `No available printer takes ${material}` : "No printers available");
+      continue;
+    }
+
+    // One copy at a time to whichever compatible printer can start it soonest
+    for (let copy = 0; copy < portion.quantity; copy++) {
+      const [best] = compatible
+        .map(printer => ({ printer, start: slotFor(portion, printer.id, now) }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+      place(portion, best.printer.id, best.start);
+    }
+  }
+
+  const queues: PrinterQueue[] = printers.map(printer => ({
+    printer: toSafePrinter(printer),
+    prints: mergeCopies(copies.get(printer.id) ?? []),
+  }));
+
+  return { generatedAt: now, workingHours, queues, unscheduled };
+}
+
+let currentSchedule: Schedule | null = null;
+let changeCount = 0;
+let refreshTimer: NodeJS.Timeout | null = null;
+
+async function refreshSchedule(): Promise<Schedule> {
+  const startedAfter = changeCount;
+  const [jobs, printers] = await Promise.all([storage.getAllJobs(), storage.getAllPrinters()]);
+  const schedule = buildSchedule(jobs, printers, { now: new Date(), workingHours: workingHoursFromEnv() });
+
+  // Don't cache a plan that was built from data changed while it was being read
+  if (startedAfter === changeCount) {
+    currentSchedule = schedule;
+  }
+  return schedule;
+}
+
+export async function getSchedule(): Promise<Schedule> {
+  if (currentSchedule && Date.now() - currentSchedule.generatedAt.getTime() < MAX_SCHEDULE_AGE) {
+    return currentSchedule;
+  }
+  return refreshSchedule();
+}
+
+// Any change to jobs, items, printers or assignments can reshuffle the plan. Rebuild
+// once a burst of writes (a job and all its items) has settled
+storageEvents.onChange(() => {
+  changeCount++;
+  currentSchedule = null;
+
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshSchedule().catch(error => console.error('Schedule refresh error:', error));
+  }, 100);
+});
@@ -0,0 +1,289 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Customer } from "@shared/schema";
+import { DatabaseStorage, MemStorage, withAuditLog, withChangeEvents, type IStorage } from "./storage";
+import { storageEvents, type StorageChange } from "./events";
+import { createTestDatabase } from "./test-db";
+
+// Both implementations have to behave the same; each gets its own fresh store
+const implementations: Array<[string, () => Promise<IStorage>]> = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => new DatabaseStorage(await createTestDatabase())],
+];
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let customer: Customer;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+    customer = await storage.createCustomer({ name: "Contract Test", email: "Contract@Example.com" });
+  });
+
+  const createJob = () => storage.createJob({ customerId: customer.id, priority: "normal", status: "not_started" });
+
+  describe("customers", () => {
+    it("finds a customer by email regardless of case", async () => {
+      expect((await storage.getCustomerByEmail("contract@example.com"))?.id).toBe(customer.id);
+    });
+
+    it("updates and deletes customers", async () => {
+      const created = await storage.createCustomer({ name: "Short Lived", email: "short@example.com" });
+      expect((await storage.updateCustomer(created.id, { company: "Lived Co." }))?.company).toBe("Lived Co.");
+      expect(await storage.deleteCustomer(created.id)).toBe(true);
+      expect(await storage.getCustomer(created.id)).toBeUndefined();
+      expect(await storage.deleteCustomer(created.id)).toBe(false);
+    });
+  });
+
+  describe("jobs", () => {
+    it("numbers jobs within the year", async () => {
+      const first = await createJob();
+      const second = await createJob();
+      const year = new Date().getFullYear();
+
+      expect(first.jobNumber).toMatch(new RegExp(`^${year}-\\d{3,}$`));
+      expect(Number(second.jobNumber.split("-")[1])).toBe(Number(first.jobNumber.split("-")[1]) + 1);
+    });
+
+    it("gives jobs created at the same time different numbers", async () => {
+      const created = await Promise.all(Array.from({ length: 5 }, () => createJob()));
+      expect(new Set(created.map(job => job.jobNumber)).size).toBe(5);
+    });
+
+    it("returns a job with its customer and items", async () => {
+      const job = await createJob();
+      const item = await storage.createJobItem({ jobId: job.id, name: "Bracket", quantity: 2, estimatedTimePerItem: 30 });
+
+      const details = await storage.getJobWithDetails(job.id);
+      expect(details?.customer.id).toBe(customer.id);
+      expect(details?.items.map(detail => detail.id)).toEqual([item.id]);
+      expect((await storage.getAllJobs()).some(listed => listed.id === job.id)).toBe(true);
+    });
+
+    it("keeps the estimated time and progress in step with the items", async () => {
+      const job = await createJob();
+      const item = await storage.createJobItem({ jobId: job.id, name: "Gear", quantity: 4, estimatedTimePerItem: 30 });
+      await storage.createJobItem({ jobId: job.id, name: "Axle", quantity: 1, estimatedTimePerItem: 60 });
+      expect((await storage.getJob(job.id))?.totalEstimatedTime).toBe(180);
+
+      await storage.updateJobItem(item.id, { completedQuantity: 1 });
+      expect((await storage.getJob(job.id))?.progress).toBe(20);
+    });
+
+    it("counts queued and active jobs in the stats", async () => {
+      const before = await storage.getJobStats();
+      const queued = await createJob();
+      const active = await createJob();
+      await storage.updateJob(active.id, { status: "printing" });
+
+      const after = await storage.getJobStats();
+      expect(after.queueLength).toBe(before.queueLength + 1);
+      expect(after.activeJobs).toBe(before.activeJobs + 1);
+      await storage.deleteJob(queued.id);
+      expect((await storage.getJobStats()).queueLength).toBe(before.queueLength);
+    });
+
+    it("starts a job when its first copy is printed", async () => {
+      const job = await createJob();
+      const item = await storage.createJobItem({ jobId: job.id, name: "Hinge", quantity: 2, estimatedTimePerItem: 20 });
+
+      await storage.updateJobItem(item.id, { completedQuantity: 1 });
+      expect((await storage.getJob(job.id))?.status).toBe("printing");
+    });
+
+    it("keeps a paused job paused while its items change", async () => {
+      const job = await createJob();
+      const item = await storage.createJobItem({ jobId: job.id, name: "Clip", quantity: 4, estimatedTimePerItem: 15 });
+      await storage.updateJobItem(item.id, { completedQuantity: 1 });
+      await storage.updateJob(job.id, { status: "paused" });
+
+      await storage.updateJobItem(item.id, { completedQuantity: 2 });
+      await storage.createJobItem({ jobId: job.id, name: "Spacer", quantity: 1, estimatedTimePerItem: 5 });
+
+      const updated = await storage.getJob(job.id);
+      expect(updated?.status).toBe("paused");
+      expect(updated?.progress).toBe(40);
+    });
+
+    it("leaves completing a job whose items are all printed to someone", async () => {
+      const job = await createJob();
+      const item = await storage.createJobItem({ jobId: job.id, name: "Knob", quantity: 3, estimatedTimePerItem: 10 });
+
+      await storage.updateJobItem(item.id, { completedQuantity: 3 });
+
+      const updated = await storage.getJob(job.id);
+      expect(updated?.progress).toBe(100);
+      expect(updated?.status).toBe("printing");
+      expect(updated?.completedAt).toBeNull();
+    });
+
+    it("recalculates progress and estimated time when an item is deleted", async () => {
+      const job = await createJob();
+      const done = await storage.createJobItem({ jobId: job.id, name: "Lid", quantity: 2, estimatedTimePerItem: 30 });
+      const pending = await storage.createJobItem({ jobId: job.id, name: "Base", quantity: 2, estimatedTimePerItem: 45 });
+      await storage.updateJobItem(done.id, { completedQuantity: 2 });
+      expect((await storage.getJob(job.id))?.progress).toBe(50);
+
+      expect(await storage.deleteJobItem(pending.id)).toBe(true);
+
+      const updated = await storage.getJob(job.id);
+      expect(updated?.progress).toBe(100);
+      expect(updated?.totalEstimatedTime).toBe(60);
+      expect(updated?.status).toBe("printing");
+    });
+
+    it("deletes a job together with its items", async () => {
+      const job = await createJob();
+      const item = await storage.createJobItem({ jobId: job.id, name: "Panel", quantity: 1, estimatedTimePerItem: 10 });
+
+      expect(await storage.deleteJob(job.id)).toBe(true);
+      expect(await storage.getJob(job.id)).toBeUndefined();
+      expect(await storage.getJobItem(item.id)).toBeUndefined();
+      expect(await storage.deleteJob(job.id)).toBe(false);
+    });
+  });
+
+  describe("pricing settings", () => {
+    it("keeps rates finer than a cent", async () => {
+      const settings = await storage.updatePricingSettings({ materialCostPerGram: 0.0275, setupFee: 7.5 });
+      expect([settings.materialCostPerGram, settings.setupFee]).toEqual([0.0275, 7.5]);
+      expect((await storage.getPricingSettings()).materialCostPerGram).toBe(0.0275);
+    });
+  });
+
+  describe("spools", () => {
+    it("keeps the cost per kg to the cent", async () => {
+      const spool = await storage.createSpool({ material: "PETG", diameter: 1.75, initialWeight: 1000, remainingWeight: 1000, costPerKg: 24.99 });
+      expect((await storage.getSpool(spool.id))?.costPerKg).toBe(24.99);
+    });
+  });
+
+  describe("purchase orders", () => {
+    const order = { supplier: "Filament Co.", status: "ordered", lines: [{ material: "PLA", spoolWeight: 1000, quantity: 2 }] };
+
+    it("gives orders created at the same time different numbers", async () => {
+      const created = await Promise.all(Array.from({ length: 5 }, () => storage.createPurchaseOrder(order)));
+      expect(new Set(created.map(created => created.orderNumber)).size).toBe(5);
+    });
+
+    it("puts the spools on the shelf once however often it's received", async () => {
+      const created = await storage.createPurchaseOrder(order);
+      const before = (await storage.getAllSpools()).length;
+
+      await Promise.all([
+        storage.updatePurchaseOrder(created.id, { status: "received" }),
+        storage.updatePurchaseOrder(created.id, { status: "received" }),
+      ]);
+      expect((await storage.getAllSpools()).length).toBe(before + 2);
+    });
+  });
+
+  describe("quotes", () => {
+    it("gives quotes created at the same time different numbers", async () => {
+      const created = await Promise.all(Array.from({ length: 5 }, () =>
+        storage.createQuote({ customerId: customer.id, status: "draft", items: [] })));
+      expect(new Set(created.map(quote => quote.quoteNumber)).size).toBe(5);
+      expect((await storage.lockQuote(created[0].id))?.id).toBe(created[0].id);
+    });
+  });
+
+  describe("invoices", () => {
+    it("keeps totals to the cent", async () => {
+      const job = await createJob();
+      const invoice = await storage.createInvoice({
+        jobId: job.id,
+        customerId: customer.id,
+        lines: [{ description: "Bracket", quantity: 3, unitPrice: 33.33, amount: 99.99 }],
+        subtotal: 99.99,
+        taxRate: 15,
+        tax: 15,
+        total: 114.99,
+      });
+
+      const stored = await storage.getInvoice(invoice.id);
+      expect([stored?.subtotal, stored?.tax, stored?.total]).toEqual([99.99, 15, 114.99]);
+    });
+
+    it("gives invoices issued at the same time different numbers", async () => {
+      const jobs = await Promise.all(Array.from({ length: 5 }, () => createJob()));
+      const created = await Promise.all(jobs.map(job => storage.createInvoice({
+        jobId: job.id,
+        customerId: customer.id,
+        lines: [],
+        subtotal: 0,
+        taxRate: 0,
+        tax: 0,
+        total: 0,
+      })));
+      expect(new Set(created.map(invoice => invoice.invoiceNumber)).size).toBe(5);
+    });
+  });
+
+  describe("payments", () => {
+    it("keeps amounts to the cent", async () => {
+      const job = await createJob();
+      await storage.createPayment({ jobId: job.id, amount: 1234.57, method: "cash", paidAt: new Date("2026-01-05") });
+      await storage.createPayment({ jobId: job.id, amount: 0.1, method: "card", paidAt: new Date("2026-01-06") });
+
+      const amounts = (await storage.getJobPayments(job.id)).map(payment => payment.amount);
+      expect(amounts).toEqual([1234.57, 0.1]);
+    });
+  });
+
+  describe("audit log", () => {
+    it("records the items deleted along with their job", async () => {
+      const audited = withAuditLog(storage);
+      const job = await audited.createJob({ customerId: customer.id, priority: "normal", status: "not_started" });
+      const item = await audited.createJobItem({ jobId: job.id, name: "Shelf", quantity: 1, estimatedTimePerItem: 10 });
+
+      await audited.deleteJob(job.id);
+
+      const deletes = await storage.getAuditEntries({ jobId: job.id, action: "delete" });
+      expect(deletes.map(entry => [entry.entity, entry.entityId])).toEqual([["job", job.id], ["jobItem", item.id]]);
+    });
+
+    it("fails the write when its audit entry can't be saved", async () => {
+      vi.spyOn(storage, "createAuditEntry").mockRejectedValueOnce(new Error("Audit log unavailable"));
+
+      await expect(withAuditLog(storage).createCustomer({ name: "Unaudited", email: "unaudited@example.com" }))
+        .rejects.toThrow("Audit log unavailable");
+    });
+
+    it("doesn't announce audit entries as changes", async () => {
+      const changes: StorageChange[] = [];
+      const stop = storageEvents.onChange(change => changes.push(change));
+      await withChangeEvents(withAuditLog(storage)).createCustomer({ name: "Announced", email: "announced@example.com" });
+      stop();
+
+      expect(changes.map(change => change.entity)).toEqual(["customer"]);
+    });
+  });
+});
+
+describe("DatabaseStorage audit log", () => {
+  it("rolls back a write whose audit entry fails", async () => {
+    const storage = new DatabaseStorage(await createTestDatabase());
+    vi.spyOn(storage, "createAuditEntry").mockRejectedValueOnce(new Error("Audit log unavailable"));
+
+    await expect(withAuditLog(storage).createCustomer({ name: "Unaudited", email: "unaudited@example.com" }))
+      .rejects.toThrow();
+    expect(await storage.getCustomerByEmail("unaudited@example.com")).toBeUndefined();
+  });
+});
+
+describe("DatabaseStorage invoices", () => {
+  it("takes back a numbered invoice when the rest of its transaction fails", async () => {
+    const storage = new DatabaseStorage(await createTestDatabase());
+    const customer = await storage.createCustomer({ name: "Contract Test", email: "contract@example.com" });
+    const job = await storage.createJob({ customerId: customer.id, priority: "normal", status: "completed" });
+    const invoice = { jobId: job.id, customerId: customer.id, lines: [], subtotal: 0, taxRate: 0, tax: 0, total: 0 };
+
+    await expect(storage.transaction(async () => {
+      await storage.createInvoice(invoice);
+      throw new Error("Rendering failed");
+    })).rejects.toThrow("Rendering failed");
+
+    expect(await storage.getJobInvoice(job.id)).toBeUndefined();
+    expect((await storage.createInvoice(invoice)).invoiceNumber).toMatch(/-001$/);
+  });
+});
@@ -3,17 +3,88 @@ import {
   jobs, 
   jobItems, 
   notifications,
+  printers,
+  printerAssignments,
+  spools,
+  materialThresholds,
+  purchaseOrders,
+  pricingSettings,
+  quotes,
+  quoteRevisions,
+  invoiceSettings,
+  invoices,
+  payments,
+  invoiceTemplates,
+  notificationTemplates,
+  notificationSettings,
+  importDrafts,
+  users,
+  auditLog,
+  jobStatusHistory,
   type Customer, 
   type InsertCustomer,
   type Job,
   type InsertJob,
+  type JobStatus,
+  type JobStatusChange,
   type JobItem,
   type InsertJobItem,
+  type JobItemWithAssignments,
+  type Printer,
+  type InsertPrinter,
+  type PrinterAssignment,
+  type InsertPrinterAssignment,
+  type Spool,
+  type InsertSpool,
+  type MaterialThreshold,
+  type InsertMaterialThreshold,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PricingSettings,
+  type InsertPricingSettings,
+  type Quote,
+  type InsertQuote,
+  type QuoteRevision,
+  type QuoteWithCustomer,
+  type InvoiceSettings,
+  type InsertInvoiceSettings,
+  type Invoice,
+  type InsertInvoice,
+  type Payment,
+  type InsertPayment,
   type Notification,
   type InsertNotification,
+  type InvoiceTemplate,
+  type InsertInvoiceTemplate,
+  type NotificationTemplate,
+  type InsertNotificationTemplate,
+  type NotificationSettings,
+  type NotificationFilter,
+  type InsertNotificationSettings,
+  type ImportDraft,
+  type InsertImportDraft,
+  type User,
+  type NewUser,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type AuditFilter,
+  type AuditEntity,
   type JobWithCustomer,
   type JobStats
 } from "@shared/schema";
+import { AsyncLocalStorage } from "async_hooks";
+import { and, desc, eq, gte, ilike, inArray, like, lte, sql, type SQL } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+import { storageEvents, type StorageChange } from "./events";
+import { currentActor, diffRecords } from "./audit";
+import { filamentConsumed, spoolsFromPurchaseOrder } from "./inventory";
+import { DEFAULT_INVOICE_SETTINGS } from "./invoices";
+import { DEFAULT_PRICING } from "./pricing";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "./email/rules";
+
+export type JobUpdateOptions = {
+  forced?: boolean;
+};
 
 export interface IStorage {
   // Customers
@@ -30,45 +101,285 @@ export interface IStorage {
   getAllJobs(): Promise<JobWithCustomer[]>;
   getJobsByStatus(status: string): Promise<JobWithCustomer[]>;
   createJob(job: InsertJob): Promise<Job>;
-  updateJob(id: number, job: Partial<InsertJob>): Promise<Job | undefined>;
+  // A status change is added to the job's status history; forced marks one the state
+  // machine wouldn't allow
+  updateJob(id: number, job: Partial<InsertJob>, options?: JobUpdateOptions): Promise<Job | undefined>;
   deleteJob(id: number): Promise<boolean>;
-  generateJobNumber(): string;
+  generateJobNumber(): Promise<string>;
+  // Oldest first; every job's when no job is given
+  getJobStatusHistory(jobId?: number): Promise<JobStatusChange[]>;
 
   // Job Items
+  getJobItem(id: number): Promise<JobItem | undefined>;
   getJobItems(jobId: number): Promise<JobItem[]>;
   createJobItem(item: InsertJobItem): Promise<JobItem>;
   updateJobItem(id: number, item: Partial<InsertJobItem>): Promise<JobItem | undefined>;
   deleteJobItem(id: number): Promise<boolean>;
 
+  // Printers
+  getAllPrinters(): Promise<Printer[]>;
+  getPrinter(id: number): Promise<Printer | undefined>;
+  createPrinter(printer: InsertPrinter): Promise<Printer>;
+  updatePrinter(id: number, printer: Partial<InsertPrinter>): Promise<Printer | undefined>;
+  deletePrinter(id: number): Promise<boolean>;
+
+  // Printer Assignments
+  getJobItemAssignments(jobItemId: number): Promise<PrinterAssignment[]>;
+  getPrinterAssignment(id: number): Promise<PrinterAssignment | undefined>;
+  createPrinterAssignment(assignment: InsertPrinterAssignment): Promise<PrinterAssignment>;
+  updatePrinterAssignment(id: number, assignment: Partial<InsertPrinterAssignment>): Promise<PrinterAssignment | undefined>;
+  deletePrinterAssignment(id: number): Promise<boolean>;
+
+  // Spools
+  getAllSpools(): Promise<Spool[]>;
+  getSpool(id: number): Promise<Spool | undefined>;
+  createSpool(spool: InsertSpool): Promise<Spool>;
+  updateSpool(id: number, spool: Partial<InsertSpool>): Promise<Spool | undefined>;
+  deleteSpool(id: number): Promise<boolean>;
+
+  // Material Thresholds
+  getMaterialThresholds(): Promise<MaterialThreshold[]>;
+  createMaterialThreshold(threshold: InsertMaterialThreshold): Promise<MaterialThreshold>;
+  updateMaterialThreshold(id: number, threshold: Partial<InsertMaterialThreshold>): Promise<MaterialThreshold | undefined>;
+  deleteMaterialThreshold(id: number): Promise<boolean>;
+
+  // Purchase Orders
+  getAllPurchaseOrders(): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined>;
+  createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: number, order: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined>;
+  deletePurchaseOrder(id: number): Promise<boolean>;
+
+  // Pricing
+  getPricingSettings(): Promise<PricingSettings>;
+  updatePricingSettings(settings: Partial<InsertPricingSettings>): Promise<PricingSettings>;
+
+  // Quotes
+  getAllQuotes(): Promise<QuoteWithCustomer[]>;
+  getQuote(id: number): Promise<Quote | undefined>;
+  // Reads the quote and holds it until the surrounding transaction ends, so no one else
+  // can accept or change it in the meantime
+  lockQuote(id: number): Promise<Quote | undefined>;
+  getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]>;
+  createQuote(quote: InsertQuote): Promise<Quote>;
+  updateQuote(id: number, quote: Partial<InsertQuote>): Promise<Quote | undefined>;
+  deleteQuote(id: number): Promise<boolean>;
+
+  // Invoices
+  getInvoiceSettings(): Promise<InvoiceSettings>;
+  updateInvoiceSettings(settings: Partial<InsertInvoiceSettings>): Promise<InvoiceSettings>;
+  getAllInvoices(): Promise<Invoice[]>;
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getJobInvoice(jobId: number): Promise<Invoice | undefined>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined>;
+
+  // Payments
+  getAllPayments(): Promise<Payment[]>;
+  getJobPayments(jobId: number): Promise<Payment[]>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  deletePayment(id: number): Promise<boolean>;
+
   // Notifications
   createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: number, notification: Partial<InsertNotification>): Promise<Notification | undefined>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotifications(filter: NotificationFilter): Promise<Notification[]>;
   getJobNotifications(jobId: number): Promise<Notification[]>;
+  getDueNotifications(now: Date): Promise<Notification[]>;
+
+  // Automatic notification settings, a single row
+  getNotificationSettings(): Promise<NotificationSettings>;
+  updateNotificationSettings(settings: Partial<InsertNotificationSettings>): Promise<NotificationSettings>;
+
+  // Notification Templates, one per type; updating a type that has none creates it
+  getNotificationTemplates(): Promise<NotificationTemplate[]>;
+  getNotificationTemplate(type: string): Promise<NotificationTemplate | undefined>;
+  updateNotificationTemplate(type: string, template: InsertNotificationTemplate): Promise<NotificationTemplate>;
+  deleteNotificationTemplate(type: string): Promise<boolean>;
+
+  // Invoice Templates
+  getInvoiceTemplates(): Promise<InvoiceTemplate[]>;
+  getInvoiceTemplate(id: number): Promise<InvoiceTemplate | undefined>;
+  createInvoiceTemplate(template: InsertInvoiceTemplate): Promise<InvoiceTemplate>;
+  updateInvoiceTemplate(id: number, template: Partial<InsertInvoiceTemplate>): Promise<InvoiceTemplate | undefined>;
+  deleteInvoiceTemplate(id: number): Promise<boolean>;
+
+  // Import Drafts
+  getImportDrafts(): Promise<ImportDraft[]>;
+  getImportDraft(id: number): Promise<ImportDraft | undefined>;
+  createImportDraft(draft: InsertImportDraft): Promise<ImportDraft>;
+  updateImportDraft(id: number, draft: Partial<InsertImportDraft>): Promise<ImportDraft | undefined>;
+  deleteImportDraft(id: number): Promise<boolean>;
+
+  // Users; passwords arrive already hashed
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  createUser(user: NewUser): Promise<User>;
+  updateUser(id: number, user: Partial<NewUser>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+
+  // Audit log, append-only; entries are written by withAuditLog, newest first
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(filter: AuditFilter): Promise<AuditEntry[]>;
+
+  // Runs every storage call fn makes as one unit, so a failure part way through leaves
+  // nothing half written. Only the database can roll back; in memory the writes stay
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
 
   // Stats
   getJobStats(): Promise<JobStats>;
 }
 
+function computeJobStats(allJobs: Job[]): JobStats {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const activeJobs = allJobs.filter(job => 
+    job.status === 'printing' || job.status === 'paused'
+  ).length;
+
+  const completedToday = allJobs.filter(job => 
+    job.status === 'completed' && 
+    job.completedAt && 
+    new Date(job.completedAt) >= today
+  ).length;
+
+  const totalPrintTime = Math.round(allJobs.reduce((sum, job) => {
+    return sum + (job.totalEstimatedTime || 0);
+  }, 0) / 60); // Convert to hours
+
+  const queueLength = allJobs.filter(job => job.status === 'not_started').length;
+
+  return {
+    activeJobs,
+    completedToday,
+    totalPrintTime,
+    queueLength
+  };
+}
+
+// Progress always follows the items, the status only as far as starting the job. Anything
+// else was somebody's decision: a paused job stays paused until it's resumed, and a job
+// whose items are all done waits for someone to complete it
+function reconcileJobProgress(job: Job, items: JobItem[]): { progress: number; status?: JobStatus } {
+  const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
+  const completedItems = items.reduce((sum, item) => sum + (item.completedQuantity || 0), 0);
+
+  const progress = totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0;
+
+  if (job.status === "not_started" && progress > 0) {
+    return { progress, status: "printing" };
+  }
+  return { progress };
+}
+
+function calculateJobTotalTime(items: JobItem[]): number {
+  return items.reduce((sum, item) => {
+    return sum + (item.estimatedTimePerItem || 0) * item.quantity;
+  }, 0);
+}
+
+// Changing any of these makes a new revision of the quote; status changes don't
+function changesQuoteContent(update: Partial<InsertQuote>): boolean {
+  return (["customerId", "validUntil", "items", "total", "setupFee", "notes"] as const)
+    .some(field => update[field] !== undefined);
+}
+
 export class MemStorage implements IStorage {
   private customers: Map<number, Customer>;
   private jobs: Map<number, Job>;
   private jobItems: Map<number, JobItem>;
   private notifications: Map<number, Notification>;
+  private printers: Map<number, Printer>;
+  private printerAssignments: Map<number, PrinterAssignment>;
+  private spools: Map<number, Spool>;
+  private materialThresholds: Map<number, MaterialThreshold>;
+  private purchaseOrders: Map<number, PurchaseOrder>;
+  private pricingSettings: PricingSettings;
+  private quotes: Map<number, Quote>;
+  private quoteRevisions: Map<number, QuoteRevision>;
+  private invoiceSettings: InvoiceSettings;
+  private notificationSettings: NotificationSettings;
+  private invoices: Map<number, Invoice>;
+  private payments: Map<number, Payment>;
+  private invoiceTemplates: Map<number, InvoiceTemplate>;
+  private notificationTemplates: Map<string, NotificationTemplate>;
+  private importDrafts: Map<number, ImportDraft>;
+  private users: Map<number, User>;
+  private auditLog: AuditEntry[];
+  private jobStatusHistory: JobStatusChange[];
   private currentCustomerId: number;
   private currentJobId: number;
   private currentJobItemId: number;
   private currentNotificationId: number;
+  private currentPrinterId: number;
+  private currentPrinterAssignmentId: number;
+  private currentSpoolId: number;
+  private currentMaterialThresholdId: number;
+  private currentPurchaseOrderId: number;
+  private currentQuoteId: number;
+  private currentQuoteRevisionId: number;
+  private currentInvoiceId: number;
+  private currentPaymentId: number;
+  private currentInvoiceTemplateId: number;
+  private currentNotificationTemplateId: number;
+  private currentImportDraftId: number;
+  private currentUserId: number;
+  private currentAuditEntryId: number;
+  private currentJobStatusChangeId: number;
   private jobCounter: number;
+  private purchaseOrderCounter: number;
+  private quoteCounter: number;
+  private invoiceCounter: number;
 
   constructor() {
     this.customers = new Map();
     this.jobs = new Map();
     this.jobItems = new Map();
     this.notifications = new Map();
+    this.printers = new Map();
+    this.printerAssignments = new Map();
+    this.spools = new Map();
+    this.materialThresholds = new Map();
+    this.purchaseOrders = new Map();
+    this.pricingSettings = { ...DEFAULT_PRICING, id: 1, updatedAt: new Date() };
+    this.quotes = new Map();
+    this.quoteRevisions = new Map();
+    this.invoiceSettings = { ...DEFAULT_INVOICE_SETTINGS, address: null, email: null, phone: null, taxNumber: null, footer: null, id: 1, updatedAt: new Date() };
+    this.notificationSettings = { ...DEFAULT_NOTIFICATION_SETTINGS, smtpHost: null, smtpPort: null, smtpSecure: null, smtpUser: null, smtpPassword: null, mailFrom: null, id: 1, updatedAt: new Date() };
+    this.invoices = new Map();
+    this.payments = new Map();
+    this.invoiceTemplates = new Map();
+    this.notificationTemplates = new Map();
+    this.importDrafts = new Map();
+    this.users = new Map();
+    this.auditLog = [];
+    this.jobStatusHistory = [];
     this.currentCustomerId = 1;
     this.currentJobId = 1;
     this.currentJobItemId = 1;
     this.currentNotificationId = 1;
+    this.currentPrinterId = 1;
+    this.currentPrinterAssignmentId = 1;
+    this.currentSpoolId = 1;
+    this.currentMaterialThresholdId = 1;
+    this.currentPurchaseOrderId = 1;
+    this.currentQuoteId = 1;
+    this.currentQuoteRevisionId = 1;
+    this.currentInvoiceId = 1;
+    this.currentPaymentId = 1;
+    this.currentInvoiceTemplateId = 1;
+    this.currentNotificationTemplateId = 1;
+    this.currentImportDraftId = 1;
+    this.currentUserId = 1;
+    this.currentAuditEntryId = 1;
+    this.currentJobStatusChangeId = 1;
     this.jobCounter = 1;
+    this.purchaseOrderCounter = 1;
+    this.quoteCounter = 1;
+    this.invoiceCounter = 1;
 
     // Add some initial data
     this.initializeData();
@@ -98,7 +409,7 @@ export class MemStorage implements IStorage {
     });
   }
 
-  generateJobNumber(): string {
+  async generateJobNumber(): Promise<string> {
     const year = new Date().getFullYear();
     const number = String(this.jobCounter++).padStart(3, '0');
     return `${year}-${number}`;
@@ -110,7 +421,7 @@ export class MemStorage implements IStorage {
   }
 
   async getCustomerByEmail(email: string): Promise<Customer | undefined> {
-    return Array.from(this.customers.values()).find(customer => customer.email === email);
+    return Array.from(this.customers.values()).find(customer => customer.email.toLowerCase() === email.toLowerCase());
   }
 
   async getAllCustomers(): Promise<Customer[]> {
@@ -123,7 +434,9 @@ export class MemStorage implements IStorage {
       ...insertCustomer, 
       id,
       phone: insertCustomer.phone ?? null,
-      company: insertCustomer.company ?? null
+      company: insertCustomer.company ?? null,
+      autoNotify: insertCustomer.autoNotify ?? true,
+      mutedNotificationRules: insertCustomer.mutedNotificationRules ?? []
     };
     this.customers.set(id, customer);
     return customer;
@@ -155,7 +468,7 @@ export class MemStorage implements IStorage {
     const customer = this.customers.get(job.customerId);
     if (!customer) return undefined;
 
-    const items = Array.from(this.jobItems.values()).filter(item => item.jobId === id);
+    const items = this.withAssignments(Array.from(this.jobItems.values()).filter(item => item.jobId === id));
 
     return {
       ...job,
@@ -170,7 +483,7 @@ export class MemStorage implements IStorage {
     for (const job of Array.from(this.jobs.values())) {
       const customer = this.customers.get(job.customerId);
       if (customer) {
-        const items = Array.from(this.jobItems.values()).filter(item => item.jobId === job.id);
+        const items = this.withAssignments(Array.from(this.jobItems.values()).filter(item => item.jobId === job.id));
         jobsWithDetails.push({
           ...job,
           customer,
@@ -192,48 +505,93 @@ export class MemStorage implements IStorage {
     return allJobs.filter(job => job.status === status);
   }
 
+  private withAssignments(items: JobItem[]): JobItemWithAssignments[] {
+    const assignments = Array.from(this.printerAssignments.values());
+    return items.map(item => ({
+      ...item,
+      assignments: assignments.filter(assignment => assignment.jobItemId === item.id)
+    }));
+  }
+
   async createJob(insertJob: InsertJob): Promise<Job> {
     const id = this.currentJobId++;
-    const jobNumber = this.generateJobNumber();
+    const jobNumber = await this.generateJobNumber();
     const job: Job = { 
       ...insertJob, 
       id, 
       jobNumber,
       createdAt: new Date(),
       completedAt: null,
+      statusChangedAt: new Date(),
       dueDate: insertJob.dueDate ?? null,
       notes: insertJob.notes ?? null,
+      invoiceNumber: insertJob.invoiceNumber ?? null,
       totalEstimatedTime: insertJob.totalEstimatedTime ?? null,
       actualTime: insertJob.actualTime ?? null,
-      progress: insertJob.progress ?? null
+      progress: insertJob.progress ?? null,
+      totalPrice: insertJob.totalPrice ?? null,
+      setupFee: insertJob.setupFee ?? null,
+      pricedAt: insertJob.pricedAt ?? null
     };
     this.jobs.set(id, job);
+    this.recordStatusChange(id, null, job.status, false);
     return job;
   }
 
-  async updateJob(id: number, jobUpdate: Partial<InsertJob>): Promise<Job | undefined> {
+  async updateJob(id: number, jobUpdate: Partial<InsertJob>, options: JobUpdateOptions = {}): Promise<Job | undefined> {
     const existing = this.jobs.get(id);
     if (!existing) return undefined;
 
+    // completedAt is when it was completed, not when it was last saved as completed
+    const statusChanged = jobUpdate.status !== undefined && jobUpdate.status !== existing.status;
     const updated: Job = { 
       ...existing, 
       ...jobUpdate,
-      completedAt: jobUpdate.status === 'completed' ? new Date() : existing.completedAt
+      completedAt: statusChanged ? (jobUpdate.status === 'completed' ? new Date() : null) : existing.completedAt,
+      statusChangedAt: statusChanged ? new Date() : existing.statusChangedAt
     };
     this.jobs.set(id, updated);
+    if (statusChanged) {
+      this.recordStatusChange(id, existing.status, updated.status, options.forced ?? false);
+    }
     return updated;
   }
 
+  async getJobStatusHistory(jobId?: number): Promise<JobStatusChange[]> {
+    return this.jobStatusHistory.filter(change => jobId === undefined || change.jobId === jobId);
+  }
+
+  private recordStatusChange(jobId: number, fromStatus: string | null, toStatus: string, forced: boolean): void {
+    const { userId, userName } = currentActor();
+    this.jobStatusHistory.push({
+      id: this.currentJobStatusChangeId++,
+      jobId,
+      fromStatus,
+      toStatus,
+      forced,
+      userId,
+      userName,
+      changedAt: new Date(),
+    });
+  }
+
   async deleteJob(id: number): Promise<boolean> {
     // Delete associated job items first
     const jobItems = Array.from(this.jobItems.values()).filter(item => item.jobId === id);
-    jobItems.forEach(item => this.jobItems.delete(item.id));
+    jobItems.forEach(item => {
+      this.deleteItemAssignments(item.id);
+      this.jobItems.delete(item.id);
+    });
 
     // Delete the job
     return this.jobs.delete(id);
   }
 
   // Job Item methods
+  async getJobItem(id: number): Promise<JobItem | undefined> {
+    return this.jobItems.get(id);
+  }
+
   async getJobItems(jobId: number): Promise<JobItem[]> {
     return Array.from(this.jobItems.values()).filter(item => item.jobId === jobId);
   }
@@ -248,7 +606,17 @@ export class MemStorage implements IStorage {
       material: insertItem.material ?? null,
       status: insertItem.status ?? "not_started",
       completedQuantity: insertItem.completedQuantity ?? 0,
-      actualTimePerItem: insertItem.actualTimePerItem ?? null
+      actualTimePerItem: insertItem.actualTimePerItem ?? null,
+      gcodeFilename: insertItem.gcodeFilename ?? null,
+      filamentLength: insertItem.filamentLength ?? null,
+      filamentWeight: insertItem.filamentWeight ?? null,
+      layerCount: insertItem.layerCount ?? null,
+      modelFilename: insertItem.modelFilename ?? null,
+      model: insertItem.model ?? null,
+      spoolId: insertItem.spoolId ?? null,
+      unitPrice: insertItem.unitPrice ?? null,
+      totalPrice: insertItem.totalPrice ?? null,
+      priceBreakdown: insertItem.priceBreakdown ?? null
     };
     this.jobItems.set(id, item);
 
@@ -266,6 +634,13 @@ export class MemStorage implements IStorage {
     const updated: JobItem = { ...existing, ...itemUpdate };
     this.jobItems.set(id, updated);
 
+    // Finished copies use up filament from the item's spool
+    const consumed = filamentConsumed(existing, updated);
+    const spool = updated.spoolId ? this.spools.get(updated.spoolId) : undefined;
+    if (spool && consumed !== 0) {
+      this.spools.set(spool.id, { ...spool, remainingWeight: Math.max(0, spool.remainingWeight - consumed) });
+    }
+
     // Update job total estimated time and progress
     await this.updateJobTotalTime(existing.jobId);
     await this.updateJobProgress(existing.jobId);
@@ -278,39 +653,412 @@ export class MemStorage implements IStorage {
     if (!item) return false;
 
     this.jobItems.delete(id);
+    this.deleteItemAssignments(id);
 
-    // Update job total estimated time
+    // Update job total estimated time and progress
     await this.updateJobTotalTime(item.jobId);
+    await this.updateJobProgress(item.jobId);
 
     return true;
   }
 
   private async updateJobTotalTime(jobId: number): Promise<void> {
     const items = await this.getJobItems(jobId);
-    const totalTime = items.reduce((sum, item) => {
-      return sum + (item.estimatedTimePerItem || 0) * item.quantity;
-    }, 0);
-
-    await this.updateJob(jobId, { totalEstimatedTime: totalTime });
+    await this.updateJob(jobId, { totalEstimatedTime: calculateJobTotalTime(items) });
   }
 
   private async updateJobProgress(jobId: number): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job) return;
     const items = await this.getJobItems(jobId);
-    
-    const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-    const completedItems = items.reduce((sum, item) => sum + (item.completedQuantity || 0), 0);
-    
-    const progress = totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0;
-    
-    // Update job status based on progress
-    let status = "not_started";
-    if (progress > 0 && progress < 100) {
-      status = "printing";
-    } else if (progress === 100) {
-      status = "completed";
+    await this.updateJob(jobId, reconcileJobProgress(job, items));
+  }
+
+  private deleteItemAssignments(jobItemId: number): void {
+    Array.from(this.printerAssignments.values())
+      .filter(assignment => assignment.jobItemId === jobItemId)
+      .forEach(assignment => this.printerAssignments.delete(assignment.id));
+  }
+
+  // Printer methods
+  async getAllPrinters(): Promise<Printer[]> {
+    return Array.from(this.printers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPrinter(id: number): Promise<Printer | undefined> {
+    return this.printers.get(id);
+  }
+
+  async createPrinter(insertPrinter: InsertPrinter): Promise<Printer> {
+    const id = this.currentPrinterId++;
+    const printer: Printer = {
+      ...insertPrinter,
+      id,
+      model: insertPrinter.model ?? null,
+      notes: insertPrinter.notes ?? null,
+      connectorType: insertPrinter.connectorType ?? null,
+      connectorUrl: insertPrinter.connectorUrl ?? null,
+      connectorApiKey: insertPrinter.connectorApiKey ?? null,
+      createdAt: new Date()
+    };
+    this.printers.set(id, printer);
+    return printer;
+  }
+
+  async updatePrinter(id: number, printerUpdate: Partial<InsertPrinter>): Promise<Printer | undefined> {
+    const existing = this.printers.get(id);
+    if (!existing) return undefined;
+
+    const updated: Printer = { ...existing, ...printerUpdate };
+    this.printers.set(id, updated);
+    return updated;
+  }
+
+  async deletePrinter(id: number): Promise<boolean> {
+    // Work assigned to a removed printer goes back to being unassigned
+    Array.from(this.printerAssignments.values())
+      .filter(assignment => assignment.printerId === id)
+      .forEach(assignment => this.printerAssignments.delete(assignment.id));
+
+    return this.printers.delete(id);
+  }
+
+  // Printer assignment methods
+  async getJobItemAssignments(jobItemId: number): Promise<PrinterAssignment[]> {
+    return Array.from(this.printerAssignments.values()).filter(assignment => assignment.jobItemId === jobItemId);
+  }
+
+  async getPrinterAssignment(id: number): Promise<PrinterAssignment | undefined> {
+    return this.printerAssignments.get(id);
+  }
+
+  async createPrinterAssignment(insertAssignment: InsertPrinterAssignment): Promise<PrinterAssignment> {
+    const id = this.currentPrinterAssignmentId++;
+    const assignment: PrinterAssignment = {
+      ...insertAssignment,
+      id,
+      startAfter: insertAssignment.startAfter ?? null,
+      createdAt: new Date()
+    };
+    this.printerAssignments.set(id, assignment);
+    return assignment;
+  }
+
+  async updatePrinterAssignment(id: number, assignmentUpdate: Partial<InsertPrinterAssignment>): Promise<PrinterAssignment | undefined> {
+    const existing = this.printerAssignments.get(id);
+    if (!existing) return undefined;
+
+    const updated: PrinterAssignment = { ...existing, ...assignmentUpdate };
+    this.printerAssignments.set(id, updated);
+    return updated;
+  }
+
+  async deletePrinterAssignment(id: number): Promise<boolean> {
+    return this.printerAssignments.delete(id);
+  }
+
+  // Spool methods
+  async getAllSpools(): Promise<Spool[]> {
+    return Array.from(this.spools.values()).sort((a, b) =>
+      a.material.localeCompare(b.material) || (a.colour ?? "").localeCompare(b.colour ?? "")
+    );
+  }
+
+  async getSpool(id: number): Promise<Spool | undefined> {
+    return this.spools.get(id);
+  }
+
+  async createSpool(insertSpool: InsertSpool): Promise<Spool> {
+    const id = this.currentSpoolId++;
+    const spool: Spool = {
+      ...insertSpool,
+      id,
+      colour: insertSpool.colour ?? null,
+      brand: insertSpool.brand ?? null,
+      costPerKg: insertSpool.costPerKg ?? null,
+      location: insertSpool.location ?? null,
+      notes: insertSpool.notes ?? null,
+      createdAt: new Date()
+    };
+    this.spools.set(id, spool);
+    return spool;
+  }
+
+  async updateSpool(id: number, spoolUpdate: Partial<InsertSpool>): Promise<Spool | undefined> {
+    const existing = this.spools.get(id);
+    if (!existing) return undefined;
+
+    const updated: Spool = { ...existing, ...spoolUpdate };
+    this.spools.set(id, updated);
+    return updated;
+  }
+
+  async deleteSpool(id: number): Promise<boolean> {
+    // Items that were taking from this spool no longer are
+    Array.from(this.jobItems.values())
+      .filter(item => item.spoolId === id)
+      .forEach(item => this.jobItems.set(item.id, { ...item, spoolId: null }));
+
+    return this.spools.delete(id);
+  }
+
+  // Material threshold methods
+  async getMaterialThresholds(): Promise<MaterialThreshold[]> {
+    return Array.from(this.materialThresholds.values()).sort((a, b) => a.material.localeCompare(b.material));
+  }
+
+  async createMaterialThreshold(insertThreshold: InsertMaterialThreshold): Promise<MaterialThreshold> {
+    const id = this.currentMaterialThresholdId++;
+    const threshold: MaterialThreshold = { ...insertThreshold, id };
+    this.materialThresholds.set(id, threshold);
+    return threshold;
+  }
+
+  async updateMaterialThreshold(id: number, thresholdUpdate: Partial<InsertMaterialThreshold>): Promise<MaterialThreshold | undefined> {
+    const existing = this.materialThresholds.get(id);
+    if (!existing) return undefined;
+
+    const updated: MaterialThreshold = { ...existing, ...thresholdUpdate };
+    this.materialThresholds.set(id, updated);
+    return updated;
+  }
+
+  async deleteMaterialThreshold(id: number): Promise<boolean> {
+    return this.materialThresholds.delete(id);
+  }
+
+  // Purchase order methods
+  private generatePurchaseOrderNumber(): string {
+    const year = new Date().getFullYear();
+    const number = String(this.purchaseOrderCounter++).padStart(3, '0');
+    return `PO-${year}-${number}`;
+  }
+
+  async getAllPurchaseOrders(): Promise<PurchaseOrder[]> {
+    return Array.from(this.purchaseOrders.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    return this.purchaseOrders.get(id);
+  }
+
+  async createPurchaseOrder(insertOrder: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    const id = this.currentPurchaseOrderId++;
+    const order: PurchaseOrder = {
+      ...insertOrder,
+      id,
+      orderNumber: this.generatePurchaseOrderNumber(),
+      expectedDate: insertOrder.expectedDate ?? null,
+      notes: insertOrder.notes ?? null,
+      createdAt: new Date(),
+      receivedAt: null
+    };
+    this.purchaseOrders.set(id, order);
+    return order;
+  }
+
+  async updatePurchaseOrder(id: number, orderUpdate: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined> {
+    const existing = this.purchaseOrders.get(id);
+    if (!existing) return undefined;
+
+    const updated: PurchaseOrder = { ...existing, ...orderUpdate };
+    const receiving = updated.status === "received" && existing.status !== "received";
+    if (receiving) {
+      updated.receivedAt = new Date();
+    }
+    // Stored before the spools are, so a receive running meanwhile sees it received
+    this.purchaseOrders.set(id, updated);
+
+    // Receiving the order puts its spools on the shelf
+    if (receiving) {
+      for (const spool of spoolsFromPurchaseOrder(updated)) {
+        await this.createSpool(spool);
+      }
+    }
+    return updated;
+  }
+
+  async deletePurchaseOrder(id: number): Promise<boolean> {
+    return this.purchaseOrders.delete(id);
+  }
+
+  // Pricing methods
+  async getPricingSettings(): Promise<PricingSettings> {
+    return this.pricingSettings;
+  }
+
+  async updatePricingSettings(settingsUpdate: Partial<InsertPricingSettings>): Promise<PricingSettings> {
+    this.pricingSettings = { ...this.pricingSettings, ...settingsUpdate, updatedAt: new Date() };
+    return this.pricingSettings;
+  }
+
+  // Quote methods
+  private generateQuoteNumber(): string {
+    const year = new Date().getFullYear();
+    const number = String(this.quoteCounter++).padStart(3, '0');
+    return `Q-${year}-${number}`;
+  }
+
+  async getAllQuotes(): Promise<QuoteWithCustomer[]> {
+    const quotesWithCustomer: QuoteWithCustomer[] = [];
+
+    for (const quote of Array.from(this.quotes.values())) {
+      const customer = this.customers.get(quote.customerId);
+      if (customer) {
+        quotesWithCustomer.push({ ...quote, customer });
+      }
+    }
+
+    return quotesWithCustomer.sort((a, b) => b.id - a.id);
+  }
+
+  async getQuote(id: number): Promise<Quote | undefined> {
+    return this.quotes.get(id);
+  }
+
+  async lockQuote(id: number): Promise<Quote | undefined> {
+    return this.quotes.get(id);
+  }
+
+  async getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]> {
+    return Array.from(this.quoteRevisions.values())
+      .filter(revision => revision.quoteId === quoteId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
+  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    const id = this.currentQuoteId++;
+    const quote: Quote = {
+      ...insertQuote,
+      id,
+      quoteNumber: this.generateQuoteNumber(),
+      validUntil: insertQuote.validUntil ?? null,
+      total: insertQuote.total ?? null,
+      setupFee: insertQuote.setupFee ?? null,
+      notes: insertQuote.notes ?? null,
+      revision: 1,
+      jobId: insertQuote.jobId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.quotes.set(id, quote);
+    return quote;
+  }
+
+  async updateQuote(id: number, quoteUpdate: Partial<InsertQuote>): Promise<Quote | undefined> {
+    const existing = this.quotes.get(id);
+    if (!existing) return undefined;
+
+    let updated: Quote = { ...existing, ...quoteUpdate };
+
+    // Keep the version being replaced
+    if (changesQuoteContent(quoteUpdate)) {
+      const revisionId = this.currentQuoteRevisionId++;
+      this.quoteRevisions.set(revisionId, {
+        id: revisionId,
+        quoteId: id,
+        revision: existing.revision,
+        customerId: existing.customerId,
+        validUntil: existing.validUntil,
+        items: existing.items,
+        total: existing.total,
+        notes: existing.notes,
+        createdAt: existing.updatedAt
+      });
+      updated = { ...updated, revision: existing.revision + 1, updatedAt: new Date() };
     }
-    
-    await this.updateJob(jobId, { progress, status });
+
+    this.quotes.set(id, updated);
+    return updated;
+  }
+
+  async deleteQuote(id: number): Promise<boolean> {
+    Array.from(this.quoteRevisions.values())
+      .filter(revision => revision.quoteId === id)
+      .forEach(revision => this.quoteRevisions.delete(revision.id));
+
+    return this.quotes.delete(id);
+  }
+
+  // Invoice methods
+  private generateInvoiceNumber(): string {
+    const year = new Date().getFullYear();
+    const number = String(this.invoiceCounter++).padStart(3, '0');
+    return `INV-${year}-${number}`;
+  }
+
+  async getInvoiceSettings(): Promise<InvoiceSettings> {
+    return this.invoiceSettings;
+  }
+
+  async updateInvoiceSettings(settingsUpdate: Partial<InsertInvoiceSettings>): Promise<InvoiceSettings> {
+    this.invoiceSettings = { ...this.invoiceSettings, ...settingsUpdate, updatedAt: new Date() };
+    return this.invoiceSettings;
+  }
+
+  async getAllInvoices(): Promise<Invoice[]> {
+    return Array.from(this.invoices.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+
+  async getJobInvoice(jobId: number): Promise<Invoice | undefined> {
+    return Array.from(this.invoices.values()).find(invoice => invoice.jobId === jobId);
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    const id = this.currentInvoiceId++;
+    const invoice: Invoice = {
+      ...insertInvoice,
+      id,
+      invoiceNumber: this.generateInvoiceNumber(),
+      pdf: insertInvoice.pdf ?? null,
+      issuedAt: new Date(),
+      dueDate: insertInvoice.dueDate ?? null
+    };
+    this.invoices.set(id, invoice);
+    return invoice;
+  }
+
+  async updateInvoice(id: number, invoiceUpdate: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    const existing = this.invoices.get(id);
+    if (!existing) return undefined;
+
+    const updated: Invoice = { ...existing, ...invoiceUpdate };
+    this.invoices.set(id, updated);
+    return updated;
+  }
+
+  // Payment methods
+  async getAllPayments(): Promise<Payment[]> {
+    return Array.from(this.payments.values());
+  }
+
+  async getJobPayments(jobId: number): Promise<Payment[]> {
+    return Array.from(this.payments.values())
+      .filter(payment => payment.jobId === jobId)
+      .sort((a, b) => new Date(a.paidAt).getTime() - new Date(b.paidAt).getTime());
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const id = this.currentPaymentId++;
+    const payment: Payment = {
+      ...insertPayment,
+      id,
+      invoiceId: insertPayment.invoiceId ?? null,
+      paidAt: insertPayment.paidAt ?? new Date(),
+      reference: insertPayment.reference ?? null,
+      notes: insertPayment.notes ?? null,
+      createdAt: new Date()
+    };
+    this.payments.set(id, payment);
+    return payment;
+  }
+
+  async deletePayment(id: number): Promise<boolean> {
+    return this.payments.delete(id);
   }
 
   // Notification methods
@@ -319,12 +1067,53 @@ export class MemStorage implements IStorage {
     const notification: Notification = { 
       ...insertNotification, 
       id,
+      jobId: insertNotification.jobId ?? null,
+      quoteId: insertNotification.quoteId ?? null,
+      subject: insertNotification.subject ?? null,
+      html: insertNotification.html ?? null,
+      invoiceId: insertNotification.invoiceId ?? null,
+      status: insertNotification.status ?? "queued",
+      attempts: insertNotification.attempts ?? 0,
+      nextAttemptAt: insertNotification.nextAttemptAt ?? null,
+      lastError: insertNotification.lastError ?? null,
+      messageId: insertNotification.messageId ?? null,
+      deliveredAt: insertNotification.deliveredAt ?? null,
+      rule: insertNotification.rule ?? null,
       sentAt: new Date()
     };
     this.notifications.set(id, notification);
     return notification;
   }
 
+  async updateNotification(id: number, notificationUpdate: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const existing = this.notifications.get(id);
+    if (!existing) return undefined;
+
+    const updated: Notification = { ...existing, ...notificationUpdate };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotifications(filter: NotificationFilter): Promise<Notification[]> {
+    const recipient = filter.recipient?.toLowerCase();
+    return Array.from(this.notifications.values())
+      .filter(notification =>
+        (filter.jobId === undefined || notification.jobId === filter.jobId) &&
+        (filter.quoteId === undefined || notification.quoteId === filter.quoteId) &&
+        (filter.status === undefined || notification.status === filter.status) &&
+        (filter.type === undefined || notification.type === filter.type) &&
+        (recipient === undefined || notification.recipientEmail.toLowerCase().includes(recipient)) &&
+        (filter.since === undefined || (notification.sentAt != null && notification.sentAt >= filter.since)) &&
+        (filter.until === undefined || (notification.sentAt != null && notification.sentAt <= filter.until))
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit);
+  }
+
   async getJobNotifications(jobId: number): Promise<Notification[]> {
     return Array.from(this.notifications.values())
       .filter(notification => notification.jobId === jobId)
@@ -335,35 +1124,1207 @@ export class MemStorage implements IStorage {
       });
   }
 
-  // Stats methods
-  async getJobStats(): Promise<JobStats> {
-    const allJobs = Array.from(this.jobs.values());
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async getDueNotifications(now: Date): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.nextAttemptAt && new Date(notification.nextAttemptAt) <= now)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Notification settings methods
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    return this.notificationSettings;
+  }
+
+  async updateNotificationSettings(settingsUpdate: Partial<InsertNotificationSettings>): Promise<NotificationSettings> {
+    this.notificationSettings = { ...this.notificationSettings, ...settingsUpdate, updatedAt: new Date() };
+    return this.notificationSettings;
+  }
 
-    const activeJobs = allJobs.filter(job => 
-      job.status === 'printing' || job.status === 'paused'
-    ).length;
+  // Notification template methods
+  async getNotificationTemplates(): Promise<NotificationTemplate[]> {
+    return Array.from(this.notificationTemplates.values());
+  }
 
-    const completedToday = allJobs.filter(job => 
-      job.status === 'completed' && 
-      job.completedAt && 
-      new Date(job.completedAt) >= today
-    ).length;
+  async getNotificationTemplate(type: string): Promise<NotificationTemplate | undefined> {
+    return this.notificationTemplates.get(type);
+  }
 
-    const totalPrintTime = Math.round(allJobs.reduce((sum, job) => {
-      return sum + (job.totalEstimatedTime || 0);
-    }, 0) / 60); // Convert to hours
+  async updateNotificationTemplate(type: string, insertTemplate: InsertNotificationTemplate): Promise<NotificationTemplate> {
+    const existing = this.notificationTemplates.get(type);
+    const template: NotificationTemplate = {
+      ...insertTemplate,
+      id: existing?.id ?? this.currentNotificationTemplateId++,
+      type,
+      bodyHtml: insertTemplate.bodyHtml ?? null,
+      updatedAt: new Date(),
+    };
+    this.notificationTemplates.set(type, template);
+    return template;
+  }
 
-    const queueLength = allJobs.filter(job => job.status === 'not_started').length;
+  async deleteNotificationTemplate(type: string): Promise<boolean> {
+    return this.notificationTemplates.delete(type);
+  }
 
-    return {
-      activeJobs,
-      completedToday,
-      totalPrintTime,
-      queueLength
+  // Invoice template methods
+  async getInvoiceTemplates(): Promise<InvoiceTemplate[]> {
+    return Array.from(this.invoiceTemplates.values())
+      .sort((a, b) => a.priority - b.priority || a.id - b.id);
+  }
+
+  async getInvoiceTemplate(id: number): Promise<InvoiceTemplate | undefined> {
+    return this.invoiceTemplates.get(id);
+  }
+
+  async createInvoiceTemplate(insertTemplate: InsertInvoiceTemplate): Promise<InvoiceTemplate> {
+    const id = this.currentInvoiceTemplateId++;
+    const template: InvoiceTemplate = {
+      ...insertTemplate,
+      id,
+      priority: insertTemplate.priority ?? 100,
+      enabled: insertTemplate.enabled ?? true,
+      invoiceNumberPattern: insertTemplate.invoiceNumberPattern ?? null,
+      customerNamePattern: insertTemplate.customerNamePattern ?? null,
+      tableStartPattern: insertTemplate.tableStartPattern ?? null,
+      tableEndPattern: insertTemplate.tableEndPattern ?? null,
+      lineItemPattern: insertTemplate.lineItemPattern ?? null,
+      columns: insertTemplate.columns ?? null,
+      createdAt: new Date()
+    };
+    this.invoiceTemplates.set(id, template);
+    return template;
+  }
+
+  async updateInvoiceTemplate(id: number, templateUpdate: Partial<InsertInvoiceTemplate>): Promise<InvoiceTemplate | undefined> {
+    const existing = this.invoiceTemplates.get(id);
+    if (!existing) return undefined;
+
+    const updated: InvoiceTemplate = { ...existing, ...templateUpdate };
+    this.invoiceTemplates.set(id, updated);
+    return updated;
+  }
+
+  async deleteInvoiceTemplate(id: number): Promise<boolean> {
+    return this.invoiceTemplates.delete(id);
+  }
+
+  // Import draft methods
+  async getImportDrafts(): Promise<ImportDraft[]> {
+    return Array.from(this.importDrafts.values())
+      .sort((a, b) => {
+        const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+        const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+        return dateB - dateA;
+      });
+  }
+
+  async getImportDraft(id: number): Promise<ImportDraft | undefined> {
+    return this.importDrafts.get(id);
+  }
+
+  async createImportDraft(insertDraft: InsertImportDraft): Promise<ImportDraft> {
+    const id = this.currentImportDraftId++;
+    const draft: ImportDraft = {
+      ...insertDraft,
+      id,
+      templateName: insertDraft.templateName ?? null,
+      invoiceNumber: insertDraft.invoiceNumber ?? null,
+      customerName: insertDraft.customerName ?? null,
+      customerId: insertDraft.customerId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date()
     };
+    this.importDrafts.set(id, draft);
+    return draft;
+  }
+
+  async updateImportDraft(id: number, draftUpdate: Partial<InsertImportDraft>): Promise<ImportDraft | undefined> {
+    const existing = this.importDrafts.get(id);
+    if (!existing) return undefined;
+
+    const updated: ImportDraft = { ...existing, ...draftUpdate, updatedAt: new Date() };
+    this.importDrafts.set(id, updated);
+    return updated;
+  }
+
+  async deleteImportDraft(id: number): Promise<boolean> {
+    return this.importDrafts.delete(id);
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
   }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async createUser(newUser: NewUser): Promise<User> {
+    const id = this.currentUserId++;
+    const user: User = {
+      ...newUser,
+      id,
+      role: newUser.role ?? "viewer",
+      createdAt: new Date()
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: number, userUpdate: Partial<NewUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated: User = { ...existing, ...userUpdate };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  // Audit log methods
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      ...insertEntry,
+      id: this.currentAuditEntryId++,
+      jobId: insertEntry.jobId ?? null,
+      userId: insertEntry.userId ?? null,
+      changes: insertEntry.changes as AuditEntry["changes"],
+      createdAt: new Date()
+    };
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  async getAuditEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+    return this.auditLog
+      .filter(entry =>
+        (filter.entity === undefined || entry.entity === filter.entity) &&
+        (filter.entityId === undefined || entry.entityId === filter.entityId) &&
+        (filter.jobId === undefined || entry.jobId === filter.jobId) &&
+        (filter.userId === undefined || entry.userId === filter.userId) &&
+        (filter.action === undefined || entry.action === filter.action) &&
+        (filter.since === undefined || (entry.createdAt != null && entry.createdAt >= filter.since)) &&
+        (filter.until === undefined || (entry.createdAt != null && entry.createdAt <= filter.until))
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit);
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
+
+  // Stats methods
+  async getJobStats(): Promise<JobStats> {
+    return computeJobStats(Array.from(this.jobs.values()));
+  }
+}
+
+// Postgres' unique_violation error code
+const UNIQUE_VIOLATION = "23505";
+const NUMBERING_ATTEMPTS = 10;
+
+function isUniqueViolation(error: unknown, constraint: string): boolean {
+  const { code, constraint: violated } = (error ?? {}) as { code?: string; constraint?: string };
+  return code === UNIQUE_VIOLATION && violated === constraint;
+}
+
+// Numbers are the highest so far plus one, so two records created at the same moment can
+// pick the same one. The number's unique index refuses the second insert, which then takes
+// the next. insert has to run in its own transaction, so inside a caller's transaction the
+// refused insert rolls back to a savepoint instead of aborting everything
+async function insertNumbered<T>(
+  constraint: string,
+  generate: () => Promise<string>,
+  insert: (number: string) => Promise<T>,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await insert(await generate());
+    } catch (error) {
+      if (attempt >= NUMBERING_ATTEMPTS || !isUniqueViolation(error, constraint)) throw error;
+    }
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  // The transaction the current call runs in, if any. Methods go through db, so they
+  // join it without being passed it
+  private readonly activeTransaction = new AsyncLocalStorage<Database>();
+
+  constructor(private database: Database) {}
+
+  private get db(): Database {
+    return this.activeTransaction.getStore() ?? this.database;
+  }
+
+  async generateJobNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const [{ last }] = await this.db
+      .select({ last: sql<number>`coalesce(max(split_part(${jobs.jobNumber}, '-', 2)::integer), 0)` })
+      .from(jobs)
+      .where(like(jobs.jobNumber, `${year}-%`));
+    const number = String(Number(last) + 1).padStart(3, '0');
+    return `${year}-${number}`;
+  }
+
+  // Customer methods
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomerByEmail(email: string): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .select()
+      .from(customers)
+      .where(sql`lower(${customers.email}) = lower(${email})`);
+    return customer;
+  }
+
+  async getAllCustomers(): Promise<Customer[]> {
+    return this.db.select().from(customers).orderBy(customers.id);
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await this.db.insert(customers).values(insertCustomer).returning();
+    return customer;
+  }
+
+  async updateCustomer(id: number, customerUpdate: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .update(customers)
+      .set(customerUpdate)
+      .where(eq(customers.id, id))
+      .returning();
+    return customer;
+  }
+
+  async deleteCustomer(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(customers).where(eq(customers.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Job methods
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobWithDetails(id: number): Promise<JobWithCustomer | undefined> {
+    const [jobWithDetails] = await this.getJobsWithDetails(eq(jobs.id, id));
+    return jobWithDetails;
+  }
+
+  async getAllJobs(): Promise<JobWithCustomer[]> {
+    return this.getJobsWithDetails();
+  }
+
+  async getJobsByStatus(status: string): Promise<JobWithCustomer[]> {
+    return this.getJobsWithDetails(eq(jobs.status, status));
+  }
+
+  private async getJobsWithDetails(where?: SQL): Promise<JobWithCustomer[]> {
+    const rows = await this.db
+      .select({ job: jobs, customer: customers })
+      .from(jobs)
+      .innerJoin(customers, eq(jobs.customerId, customers.id))
+      .where(where)
+      .orderBy(desc(jobs.createdAt), desc(jobs.id));
+
+    if (rows.length === 0) return [];
+
+    const items = await this.db
+      .select()
+      .from(jobItems)
+      .where(inArray(jobItems.jobId, rows.map(row => row.job.id)))
+      .orderBy(jobItems.id);
+
+    const assignments = items.length === 0 ? [] : await this.db
+      .select()
+      .from(printerAssignments)
+      .where(inArray(printerAssignments.jobItemId, items.map(item => item.id)))
+      .orderBy(printerAssignments.id);
+
+    return rows.map(({ job, customer }) => ({
+      ...job,
+      customer,
+      items: items
+        .filter(item => item.jobId === job.id)
+        .map(item => ({
+          ...item,
+          assignments: assignments.filter(assignment => assignment.jobItemId === item.id)
+        }))
+    }));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const { userId, userName } = currentActor();
+    return insertNumbered("jobs_job_number_unique", () => this.generateJobNumber(), (jobNumber) => this.db.transaction(async (tx) => {
+      const [job] = await tx
+        .insert(jobs)
+        .values({ ...insertJob, jobNumber })
+        .returning();
+      await tx.insert(jobStatusHistory).values({ jobId: job.id, fromStatus: null, toStatus: job.status, userId, userName });
+      return job;
+    }));
+  }
+
+  async updateJob(id: number, jobUpdate: Partial<InsertJob>, options: JobUpdateOptions = {}): Promise<Job | undefined> {
+    const { userId, userName } = currentActor();
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(jobs).where(eq(jobs.id, id)).for("update");
+      if (!existing) return undefined;
+
+      // completedAt is when it was completed, not when it was last saved as completed
+      const statusChanged = jobUpdate.status !== undefined && jobUpdate.status !== existing.status;
+      const [job] = await tx
+        .update(jobs)
+        .set({
+          ...jobUpdate,
+          ...(statusChanged ? {
+            completedAt: jobUpdate.status === 'completed' ? new Date() : null,
+            statusChangedAt: new Date(),
+          } : {})
+        })
+        .where(eq(jobs.id, id))
+        .returning();
+
+      if (statusChanged) {
+        await tx.insert(jobStatusHistory).values({
+          jobId: id,
+          fromStatus: existing.status,
+          toStatus: job.status,
+          forced: options.forced ?? false,
+          userId,
+          userName,
+        });
+      }
+      return job;
+    });
+  }
+
+  async getJobStatusHistory(jobId?: number): Promise<JobStatusChange[]> {
+    return this.db
+      .select()
+      .from(jobStatusHistory)
+      .where(jobId !== undefined ? eq(jobStatusHistory.jobId, jobId) : undefined)
+      .orderBy(jobStatusHistory.changedAt, jobStatusHistory.id);
+  }
+
+  async deleteJob(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Delete associated job items first
+      const deletedItems = await tx.delete(jobItems).where(eq(jobItems.jobId, id)).returning();
+      if (deletedItems.length > 0) {
+        await tx
+          .delete(printerAssignments)
+          .where(inArray(printerAssignments.jobItemId, deletedItems.map(item => item.id)));
+      }
+
+      const deleted = await tx.delete(jobs).where(eq(jobs.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Job Item methods
+  async getJobItem(id: number): Promise<JobItem | undefined> {
+    const [item] = await this.db.select().from(jobItems).where(eq(jobItems.id, id));
+    return item;
+  }
+
+  async getJobItems(jobId: number): Promise<JobItem[]> {
+    return this.db.select().from(jobItems).where(eq(jobItems.jobId, jobId)).orderBy(jobItems.id);
+  }
+
+  async createJobItem(insertItem: InsertJobItem): Promise<JobItem> {
+    const [item] = await this.db.insert(jobItems).values(insertItem).returning();
+
+    // Update job total estimated time and progress
+    await this.updateJobTotalTime(item.jobId);
+    await this.updateJobProgress(item.jobId);
+
+    return item;
+  }
+
+  async updateJobItem(id: number, itemUpdate: Partial<InsertJobItem>): Promise<JobItem | undefined> {
+    const item = await this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(jobItems).where(eq(jobItems.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(jobItems)
+        .set(itemUpdate)
+        .where(eq(jobItems.id, id))
+        .returning();
+
+      // Finished copies use up filament from the item's spool
+      const consumed = filamentConsumed(existing, updated);
+      if (updated.spoolId && consumed !== 0) {
+        await tx
+          .update(spools)
+          .set({ remainingWeight: sql`greatest(0, ${spools.remainingWeight} - ${consumed})` })
+          .where(eq(spools.id, updated.spoolId));
+      }
+      return updated;
+    });
+    if (!item) return undefined;
+
+    // Update job total estimated time and progress
+    await this.updateJobTotalTime(item.jobId);
+    await this.updateJobProgress(item.jobId);
+
+    return item;
+  }
+
+  async deleteJobItem(id: number): Promise<boolean> {
+    const [item] = await this.db.delete(jobItems).where(eq(jobItems.id, id)).returning();
+    if (!item) return false;
+
+    await this.db.delete(printerAssignments).where(eq(printerAssignments.jobItemId, id));
+
+    // Update job total estimated time and progress
+    await this.updateJobTotalTime(item.jobId);
+    await this.updateJobProgress(item.jobId);
+
+    return true;
+  }
+
+  private async updateJobTotalTime(jobId: number): Promise<void> {
+    const items = await this.getJobItems(jobId);
+    await this.updateJob(jobId, { totalEstimatedTime: calculateJobTotalTime(items) });
+  }
+
+  private async updateJobProgress(jobId: number): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job) return;
+    const items = await this.getJobItems(jobId);
+    await this.updateJob(jobId, reconcileJobProgress(job, items));
+  }
+
+  // Printer methods
+  async getAllPrinters(): Promise<Printer[]> {
+    return this.db.select().from(printers).orderBy(printers.name);
+  }
+
+  async getPrinter(id: number): Promise<Printer | undefined> {
+    const [printer] = await this.db.select().from(printers).where(eq(printers.id, id));
+    return printer;
+  }
+
+  async createPrinter(insertPrinter: InsertPrinter): Promise<Printer> {
+    const [printer] = await this.db.insert(printers).values(insertPrinter).returning();
+    return printer;
+  }
+
+  async updatePrinter(id: number, printerUpdate: Partial<InsertPrinter>): Promise<Printer | undefined> {
+    const [printer] = await this.db
+      .update(printers)
+      .set(printerUpdate)
+      .where(eq(printers.id, id))
+      .returning();
+    return printer;
+  }
+
+  async deletePrinter(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Work assigned to a removed printer goes back to being unassigned
+      await tx.delete(printerAssignments).where(eq(printerAssignments.printerId, id));
+
+      const deleted = await tx.delete(printers).where(eq(printers.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Printer assignment methods
+  async getJobItemAssignments(jobItemId: number): Promise<PrinterAssignment[]> {
+    return this.db
+      .select()
+      .from(printerAssignments)
+      .where(eq(printerAssignments.jobItemId, jobItemId))
+      .orderBy(printerAssignments.id);
+  }
+
+  async getPrinterAssignment(id: number): Promise<PrinterAssignment | undefined> {
+    const [assignment] = await this.db.select().from(printerAssignments).where(eq(printerAssignments.id, id));
+    return assignment;
+  }
+
+  async createPrinterAssignment(insertAssignment: InsertPrinterAssignment): Promise<PrinterAssignment> {
+    const [assignment] = await this.db.insert(printerAssignments).values(insertAssignment).returning();
+    return assignment;
+  }
+
+  async updatePrinterAssignment(id: number, assignmentUpdate: Partial<InsertPrinterAssignment>): Promise<PrinterAssignment | undefined> {
+    const [assignment] = await this.db
+      .update(printerAssignments)
+      .set(assignmentUpdate)
+      .where(eq(printerAssignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async deletePrinterAssignment(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(printerAssignments).where(eq(printerAssignments.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Spool methods
+  async getAllSpools(): Promise<Spool[]> {
+    return this.db.select().from(spools).orderBy(spools.material, spools.colour);
+  }
+
+  async getSpool(id: number): Promise<Spool | undefined> {
+    const [spool] = await this.db.select().from(spools).where(eq(spools.id, id));
+    return spool || undefined;
+  }
+
+  async createSpool(insertSpool: InsertSpool): Promise<Spool> {
+    const [spool] = await this.db.insert(spools).values(insertSpool).returning();
+    return spool;
+  }
+
+  async updateSpool(id: number, spoolUpdate: Partial<InsertSpool>): Promise<Spool | undefined> {
+    const [spool] = await this.db
+      .update(spools)
+      .set(spoolUpdate)
+      .where(eq(spools.id, id))
+      .returning();
+    return spool || undefined;
+  }
+
+  async deleteSpool(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Items that were taking from this spool no longer are
+      await tx.update(jobItems).set({ spoolId: null }).where(eq(jobItems.spoolId, id));
+
+      const deleted = await tx.delete(spools).where(eq(spools.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Material threshold methods
+  async getMaterialThresholds(): Promise<MaterialThreshold[]> {
+    return this.db.select().from(materialThresholds).orderBy(materialThresholds.material);
+  }
+
+  async createMaterialThreshold(insertThreshold: InsertMaterialThreshold): Promise<MaterialThreshold> {
+    const [threshold] = await this.db.insert(materialThresholds).values(insertThreshold).returning();
+    return threshold;
+  }
+
+  async updateMaterialThreshold(id: number, thresholdUpdate: Partial<InsertMaterialThreshold>): Promise<MaterialThreshold | undefined> {
+    const [threshold] = await this.db
+      .update(materialThresholds)
+      .set(thresholdUpdate)
+      .where(eq(materialThresholds.id, id))
+      .returning();
+    return threshold || undefined;
+  }
+
+  async deleteMaterialThreshold(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(materialThresholds).where(eq(materialThresholds.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Purchase order methods
+  private async generatePurchaseOrderNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const [{ last }] = await this.db
+      .select({ last: sql<number>`coalesce(max(split_part(${purchaseOrders.orderNumber}, '-', 3)::integer), 0)` })
+      .from(purchaseOrders)
+      .where(like(purchaseOrders.orderNumber, `PO-${year}-%`));
+    const number = String(Number(last) + 1).padStart(3, '0');
+    return `PO-${year}-${number}`;
+  }
+
+  async getAllPurchaseOrders(): Promise<PurchaseOrder[]> {
+    return this.db.select().from(purchaseOrders).orderBy(desc(purchaseOrders.id));
+  }
+
+  async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    const [order] = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return order || undefined;
+  }
+
+  async createPurchaseOrder(insertOrder: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    return insertNumbered("purchase_orders_order_number_unique", () => this.generatePurchaseOrderNumber(), (orderNumber) =>
+      this.db.transaction(async (tx) => {
+        const [order] = await tx
+          .insert(purchaseOrders)
+          .values({ ...insertOrder, orderNumber })
+          .returning();
+        return order;
+      }));
+  }
+
+  async updatePurchaseOrder(id: number, orderUpdate: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locked so two receives at once can't both see it unreceived and shelve its spools twice
+      const [existing] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+      if (!existing) return undefined;
+
+      // Receiving the order puts its spools on the shelf
+      const receiving = orderUpdate.status === "received" && existing.status !== "received";
+      const [order] = await tx
+        .update(purchaseOrders)
+        .set(receiving ? { ...orderUpdate, receivedAt: new Date() } : orderUpdate)
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      const received = receiving ? spoolsFromPurchaseOrder(order) : [];
+      if (received.length > 0) {
+        await tx.insert(spools).values(received);
+      }
+      return order;
+    });
+  }
+
+  async deletePurchaseOrder(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(purchaseOrders).where(eq(purchaseOrders.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Pricing methods
+  async getPricingSettings(): Promise<PricingSettings> {
+    const [settings] = await this.db.select().from(pricingSettings).limit(1);
+    if (settings) return settings;
+
+    const [created] = await this.db.insert(pricingSettings).values(DEFAULT_PRICING).returning();
+    return created;
+  }
+
+  async updatePricingSettings(settingsUpdate: Partial<InsertPricingSettings>): Promise<PricingSettings> {
+    const existing = await this.getPricingSettings();
+    const [settings] = await this.db
+      .update(pricingSettings)
+      .set({ ...settingsUpdate, updatedAt: new Date() })
+      .where(eq(pricingSettings.id, existing.id))
+      .returning();
+    return settings;
+  }
+
+  // Quote methods
+  private async generateQuoteNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const [{ last }] = await this.db
+      .select({ last: sql<number>`coalesce(max(split_part(${quotes.quoteNumber}, '-', 3)::integer), 0)` })
+      .from(quotes)
+      .where(like(quotes.quoteNumber, `Q-${year}-%`));
+    const number = String(Number(last) + 1).padStart(3, '0');
+    return `Q-${year}-${number}`;
+  }
+
+  async getAllQuotes(): Promise<QuoteWithCustomer[]> {
+    const rows = await this.db
+      .select({ quote: quotes, customer: customers })
+      .from(quotes)
+      .innerJoin(customers, eq(quotes.customerId, customers.id))
+      .orderBy(desc(quotes.id));
+    return rows.map(row => ({ ...row.quote, customer: row.customer }));
+  }
+
+  async getQuote(id: number): Promise<Quote | undefined> {
+    const [quote] = await this.db.select().from(quotes).where(eq(quotes.id, id));
+    return quote || undefined;
+  }
+
+  async lockQuote(id: number): Promise<Quote | undefined> {
+    const [quote] = await this.db.select().from(quotes).where(eq(quotes.id, id)).for("update");
+    return quote || undefined;
+  }
+
+  async getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]> {
+    return this.db
+      .select()
+      .from(quoteRevisions)
+      .where(eq(quoteRevisions.quoteId, quoteId))
+      .orderBy(desc(quoteRevisions.revision));
+  }
+
+  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    return insertNumbered("quotes_quote_number_unique", () => this.generateQuoteNumber(), (quoteNumber) =>
+      this.db.transaction(async (tx) => {
+        const [quote] = await tx
+          .insert(quotes)
+          .values({ ...insertQuote, quoteNumber })
+          .returning();
+        return quote;
+      }));
+  }
+
+  async updateQuote(id: number, quoteUpdate: Partial<InsertQuote>): Promise<Quote | undefined> {
+    if (!changesQuoteContent(quoteUpdate)) {
+      const [quote] = await this.db
+        .update(quotes)
+        .set(quoteUpdate)
+        .where(eq(quotes.id, id))
+        .returning();
+      return quote || undefined;
+    }
+
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(quotes).where(eq(quotes.id, id));
+      if (!existing) return undefined;
+
+      // Keep the version being replaced
+      await tx.insert(quoteRevisions).values({
+        quoteId: id,
+        revision: existing.revision,
+        customerId: existing.customerId,
+        validUntil: existing.validUntil,
+        items: existing.items,
+        total: existing.total,
+        notes: existing.notes,
+        createdAt: existing.updatedAt
+      });
+
+      const [quote] = await tx
+        .update(quotes)
+        .set({ ...quoteUpdate, revision: existing.revision + 1, updatedAt: new Date() })
+        .where(eq(quotes.id, id))
+        .returning();
+      return quote;
+    });
+  }
+
+  async deleteQuote(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(quoteRevisions).where(eq(quoteRevisions.quoteId, id));
+
+      const deleted = await tx.delete(quotes).where(eq(quotes.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Invoice methods
+  private async generateInvoiceNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const [{ last }] = await this.db
+      .select({ last: sql<number>`coalesce(max(split_part(${invoices.invoiceNumber}, '-', 3)::integer), 0)` })
+      .from(invoices)
+      .where(like(invoices.invoiceNumber, `INV-${year}-%`));
+    const number = String(Number(last) + 1).padStart(3, '0');
+    return `INV-${year}-${number}`;
+  }
+
+  async getInvoiceSettings(): Promise<InvoiceSettings> {
+    const [settings] = await this.db.select().from(invoiceSettings).limit(1);
+    if (settings) return settings;
+
+    const [created] = await this.db.insert(invoiceSettings).values(DEFAULT_INVOICE_SETTINGS).returning();
+    return created;
+  }
+
+  async updateInvoiceSettings(settingsUpdate: Partial<InsertInvoiceSettings>): Promise<InvoiceSettings> {
+    const existing = await this.getInvoiceSettings();
+    const [settings] = await this.db
+      .update(invoiceSettings)
+      .set({ ...settingsUpdate, updatedAt: new Date() })
+      .where(eq(invoiceSettings.id, existing.id))
+      .returning();
+    return settings;
+  }
+
+  async getAllInvoices(): Promise<Invoice[]> {
+    return this.db.select().from(invoices).orderBy(desc(invoices.id));
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice || undefined;
+  }
+
+  async getJobInvoice(jobId: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.jobId, jobId));
+    return invoice || undefined;
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    return insertNumbered("invoices_invoice_number_unique", () => this.generateInvoiceNumber(), (invoiceNumber) =>
+      this.db.transaction(async (tx) => {
+        const [invoice] = await tx
+          .insert(invoices)
+          .values({ ...insertInvoice, invoiceNumber })
+          .returning();
+        return invoice;
+      }));
+  }
+
+  async updateInvoice(id: number, invoiceUpdate: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    const [invoice] = await this.db
+      .update(invoices)
+      .set(invoiceUpdate)
+      .where(eq(invoices.id, id))
+      .returning();
+    return invoice || undefined;
+  }
+
+  // Payment methods
+  async getAllPayments(): Promise<Payment[]> {
+    return this.db.select().from(payments);
+  }
+
+  async getJobPayments(jobId: number): Promise<Payment[]> {
+    return this.db.select().from(payments).where(eq(payments.jobId, jobId)).orderBy(payments.paidAt);
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const [payment] = await this.db.insert(payments).values(insertPayment).returning();
+    return payment;
+  }
+
+  async deletePayment(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(payments).where(eq(payments.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Notification methods
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async updateNotification(id: number, notificationUpdate: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set(notificationUpdate)
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification || undefined;
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification || undefined;
+  }
+
+  async getNotifications(filter: NotificationFilter): Promise<Notification[]> {
+    const conditions: SQL[] = [];
+    if (filter.jobId !== undefined) conditions.push(eq(notifications.jobId, filter.jobId));
+    if (filter.quoteId !== undefined) conditions.push(eq(notifications.quoteId, filter.quoteId));
+    if (filter.status !== undefined) conditions.push(eq(notifications.status, filter.status));
+    if (filter.type !== undefined) conditions.push(eq(notifications.type, filter.type));
+    if (filter.recipient !== undefined) conditions.push(ilike(notifications.recipientEmail, `%${filter.recipient}%`));
+    if (filter.since !== undefined) conditions.push(gte(notifications.sentAt, filter.since));
+    if (filter.until !== undefined) conditions.push(lte(notifications.sentAt, filter.until));
+
+    const query = this.db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.id));
+    return filter.limit !== undefined ? query.limit(filter.limit) : query;
+  }
+
+  async getJobNotifications(jobId: number): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.jobId, jobId))
+      .orderBy(desc(notifications.sentAt));
+  }
+
+  async getDueNotifications(now: Date): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(lte(notifications.nextAttemptAt, now))
+      .orderBy(notifications.id);
+  }
+
+  // Notification settings methods
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    const [settings] = await this.db.select().from(notificationSettings).limit(1);
+    if (settings) return settings;
+
+    const [created] = await this.db.insert(notificationSettings).values(DEFAULT_NOTIFICATION_SETTINGS).returning();
+    return created;
+  }
+
+  async updateNotificationSettings(settingsUpdate: Partial<InsertNotificationSettings>): Promise<NotificationSettings> {
+    const existing = await this.getNotificationSettings();
+    const [settings] = await this.db
+      .update(notificationSettings)
+      .set({ ...settingsUpdate, updatedAt: new Date() })
+      .where(eq(notificationSettings.id, existing.id))
+      .returning();
+    return settings;
+  }
+
+  // Notification template methods
+  async getNotificationTemplates(): Promise<NotificationTemplate[]> {
+    return this.db.select().from(notificationTemplates);
+  }
+
+  async getNotificationTemplate(type: string): Promise<NotificationTemplate | undefined> {
+    const [template] = await this.db.select().from(notificationTemplates).where(eq(notificationTemplates.type, type));
+    return template || undefined;
+  }
+
+  async updateNotificationTemplate(type: string, insertTemplate: InsertNotificationTemplate): Promise<NotificationTemplate> {
+    const values = { ...insertTemplate, type, updatedAt: new Date() };
+    const [template] = await this.db
+      .insert(notificationTemplates)
+      .values(values)
+      .onConflictDoUpdate({ target: notificationTemplates.type, set: values })
+      .returning();
+    return template;
+  }
+
+  async deleteNotificationTemplate(type: string): Promise<boolean> {
+    const deleted = await this.db.delete(notificationTemplates).where(eq(notificationTemplates.type, type)).returning();
+    return deleted.length > 0;
+  }
+
+  // Invoice template methods
+  async getInvoiceTemplates(): Promise<InvoiceTemplate[]> {
+    return this.db.select().from(invoiceTemplates).orderBy(invoiceTemplates.priority, invoiceTemplates.id);
+  }
+
+  async getInvoiceTemplate(id: number): Promise<InvoiceTemplate | undefined> {
+    const [template] = await this.db.select().from(invoiceTemplates).where(eq(invoiceTemplates.id, id));
+    return template;
+  }
+
+  async createInvoiceTemplate(insertTemplate: InsertInvoiceTemplate): Promise<InvoiceTemplate> {
+    const [template] = await this.db.insert(invoiceTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateInvoiceTemplate(id: number, templateUpdate: Partial<InsertInvoiceTemplate>): Promise<InvoiceTemplate | undefined> {
+    const [template] = await this.db
+      .update(invoiceTemplates)
+      .set(templateUpdate)
+      .where(eq(invoiceTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteInvoiceTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(invoiceTemplates).where(eq(invoiceTemplates.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Import draft methods
+  async getImportDrafts(): Promise<ImportDraft[]> {
+    return this.db.select().from(importDrafts).orderBy(desc(importDrafts.createdAt));
+  }
+
+  async getImportDraft(id: number): Promise<ImportDraft | undefined> {
+    const [draft] = await this.db.select().from(importDrafts).where(eq(importDrafts.id, id));
+    return draft;
+  }
+
+  async createImportDraft(insertDraft: InsertImportDraft): Promise<ImportDraft> {
+    const [draft] = await this.db.insert(importDrafts).values(insertDraft).returning();
+    return draft;
+  }
+
+  async updateImportDraft(id: number, draftUpdate: Partial<InsertImportDraft>): Promise<ImportDraft | undefined> {
+    const [draft] = await this.db
+      .update(importDrafts)
+      .set({ ...draftUpdate, updatedAt: new Date() })
+      .where(eq(importDrafts.id, id))
+      .returning();
+    return draft;
+  }
+
+  async deleteImportDraft(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(importDrafts).where(eq(importDrafts.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+
+  async createUser(newUser: NewUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(newUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, userUpdate: Partial<NewUser>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(userUpdate).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Audit log methods
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await this.db
+      .insert(auditLog)
+      .values({ ...insertEntry, changes: insertEntry.changes as AuditEntry["changes"] })
+      .returning();
+    return entry;
+  }
+
+  async getAuditEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+    const conditions: SQL[] = [];
+    if (filter.entity !== undefined) conditions.push(eq(auditLog.entity, filter.entity));
+    if (filter.entityId !== undefined) conditions.push(eq(auditLog.entityId, filter.entityId));
+    if (filter.jobId !== undefined) conditions.push(eq(auditLog.jobId, filter.jobId));
+    if (filter.userId !== undefined) conditions.push(eq(auditLog.userId, filter.userId));
+    if (filter.action !== undefined) conditions.push(eq(auditLog.action, filter.action));
+    if (filter.since !== undefined) conditions.push(gte(auditLog.createdAt, filter.since));
+    if (filter.until !== undefined) conditions.push(lte(auditLog.createdAt, filter.until));
+
+    const query = this.db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.id));
+    return filter.limit !== undefined ? query.limit(filter.limit) : query;
+  }
+
+  // Nested calls become savepoints of the outer transaction
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => this.activeTransaction.run(tx, fn));
+  }
+
+  // Stats methods
+  async getJobStats(): Promise<JobStats> {
+    return computeJobStats(await this.db.select().from(jobs));
+  }
+}
+
+const WRITE_METHOD = /^(create|update|delete)([A-Z]\w*)$/;
+// Audit entries are a record of other writes, nothing derives state from them
+const UNANNOUNCED_ENTITIES = ["AuditEntry"];
+
+// Announces every successful create/update/delete on storageEvents. Methods run against
+// the real instance, so recalculations a write triggers internally aren't reported twice
+export function withChangeEvents(target: IStorage): IStorage {
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      const match = typeof prop === "string" && typeof value === "function" ? prop.match(WRITE_METHOD) : null;
+      if (!match || UNANNOUNCED_ENTITIES.includes(match[2])) return value;
+
+      const action = match[1] as StorageChange["action"];
+      const entity = match[2].charAt(0).toLowerCase() + match[2].slice(1);
+      return async (...args: unknown[]) => {
+        const result = await value.apply(obj, args);
+        if (result) {
+          const id = typeof result === "object" && "id" in result ? result.id : args[0];
+          storageEvents.emitChange({ entity, action, id: typeof id === "number" ? id : undefined });
+        }
+        return result;
+      };
+    },
+  });
+}
+
+type AuditedRecord = { id: number; jobId?: number | null };
+
+// The audited entities, and how to read one before it's written
+const AUDITED_ENTITIES: Record<AuditEntity, (target: IStorage, id: number) => Promise<AuditedRecord | undefined>> = {
+  customer: (target, id) => target.getCustomer(id),
+  job: (target, id) => target.getJob(id),
+  jobItem: (target, id) => target.getJobItem(id),
+  notification: (target, id) => target.getNotification(id),
+};
+
+function auditedJobId(entity: AuditEntity, record: AuditedRecord): number | null {
+  if (entity === "job") return record.id;
+  return record.jobId ?? null;
+}
+
+async function recordAudit(
+  target: IStorage,
+  entity: AuditEntity,
+  action: StorageChange["action"],
+  before: AuditedRecord | undefined,
+  after: AuditedRecord | undefined,
+): Promise<void> {
+  const record = after ?? before;
+  if (!record) return;
+  const changes = diffRecords(before, after);
+  if (action === "update" && Object.keys(changes).length === 0) return;
+
+  const { userId, userName } = currentActor();
+  await target.createAuditEntry({
+    entity,
+    entityId: record.id,
+    action,
+    jobId: auditedJobId(entity, record),
+    userId,
+    userName,
+    changes,
+  });
+}
+
+// Records every create/update/delete of the audited entities with who made it and what
+// changed, in the same transaction as the write so neither is kept without the other.
+// Item writes recalculate their job inside storage, so the job's own before and after are
+// compared too, and deleting a job records the deletes of the items that go with it
+export function withAuditLog(target: IStorage): IStorage {
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      const match = typeof prop === "string" && typeof value === "function" ? prop.match(WRITE_METHOD) : null;
+      const entity = match ? match[2].charAt(0).toLowerCase() + match[2].slice(1) : null;
+      if (!match || !entity || !(entity in AUDITED_ENTITIES)) return value;
+
+      const audited = entity as AuditEntity;
+      const action = match[1] as StorageChange["action"];
+      const lookup = AUDITED_ENTITIES[audited];
+      return (...args: unknown[]) => obj.transaction(async () => {
+        const id = typeof args[0] === "number" ? args[0] : undefined;
+        const before = action !== "create" && id !== undefined ? await lookup(obj, id) : undefined;
+        const parentJobId = audited === "jobItem"
+          ? before?.jobId ?? (args[0] as { jobId?: number } | undefined)?.jobId
+          : undefined;
+        const jobBefore = parentJobId !== undefined ? await obj.getJob(parentJobId) : undefined;
+        const itemsBefore = audited === "job" && action === "delete" && id !== undefined
+          ? await obj.getJobItems(id)
+          : [];
+
+        const result = await value.apply(obj, args);
+        if (!result) return result;
+
+        for (const item of itemsBefore) {
+          await recordAudit(obj, "jobItem", "delete", item, undefined);
+        }
+
+        const after = action === "delete" ? undefined
+          : typeof result === "object" ? result as AuditedRecord
+          : id !== undefined ? await lookup(obj, id) : undefined;
+        await recordAudit(obj, audited, action, before, after);
+
+        if (jobBefore) {
+          await recordAudit(obj, "job", "update", jobBefore, await obj.getJob(jobBefore.id));
+        }
+        return result;
+      });
+    },
+  });
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// Persist to Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = withChangeEvents(withAuditLog(process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage()));
@@ -0,0 +1,21 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+// drizzle-kit's ESM build can't load its own dependencies, the CommonJS one can
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api",
+) as typeof import("drizzle-kit/api");
+
+// A throwaway in-memory Postgres with the current schema, for testing DatabaseStorage
+// without a database server
+export async function createTestDatabase(): Promise<Database> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return drizzle(client, { schema });
+}
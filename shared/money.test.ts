@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { formatMoney } from "./money";
+
+describe("formatMoney", () => {
+  it("puts the currency symbol before the amount, to the cent", () => {
+    expect(formatMoney(1234.5, "R")).toBe("R1234.50");
+    expect(formatMoney(0.1 + 0.2, "$")).toBe("$0.30");
+  });
+
+  it("puts the sign before the symbol", () => {
+    expect(formatMoney(-5, "€")).toBe("-€5.00");
+  });
+});
@@ -0,0 +1,7 @@
+// Until the shop sets its own in the invoice settings
+export const DEFAULT_CURRENCY_SYMBOL = "R";
+
+// 1234.5 reads as "R1234.50", -5 as "-R5.00"
+export function formatMoney(value: number, currencySymbol: string = DEFAULT_CURRENCY_SYMBOL): string {
+  return `${value < 0 ? "-" : ""}${currencySymbol}${Math.abs(value).toFixed(2)}`;
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { hasNestedRepetition } from "./patterns";
+
+describe("hasNestedRepetition", () => {
+  it("catches unbounded repeats inside unbounded repeats", () => {
+    expect(hasNestedRepetition("^(a+)+$")).toBe(true);
+    expect(hasNestedRepetition(String.raw`(\w+\s?)*x`)).toBe(true);
+    expect(hasNestedRepetition("((ab*)c){2,}")).toBe(true);
+  });
+
+  it("allows bounded and escaped repeats", () => {
+    expect(hasNestedRepetition(String.raw`^(?<description>[^\t]+)\t(?<quantity>\d+(?:\.\d+)?)\t`)).toBe(false);
+    expect(hasNestedRepetition(String.raw`Invoice Number\n(?:[^\n]*\t)?(\S+)$`)).toBe(false);
+    expect(hasNestedRepetition(String.raw`(\d{1,3}[ ,]?){1,4}`)).toBe(false);
+    expect(hasNestedRepetition(String.raw`\(a+\)+|[(+]+`)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+// Invoice templates hold regexes typed in by the shop. These checks run when a template
+// is saved; the server also stops any single match that runs too long
+
+export const MAX_PATTERN_LENGTH = 500;
+
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Unbounded repetition of something that itself repeats without bound, like "(a+)+" or
+// "(\w+\s?)*", can backtrack for practically forever on a line that almost matches.
+// Bounded repeats ("?", "{2,4}") are fine
+export function hasNestedRepetition(pattern: string): boolean {
+  // Whether each open group, innermost last, contains an unbounded repeat
+  const groups: boolean[] = [false];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i++];
+    let atomRepeats = false;
+
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+      i++;
+    } else if (char === "(") {
+      groups.push(false);
+      continue;
+    } else if (char === ")" && groups.length > 1) {
+      atomRepeats = groups.pop()!;
+      groups[groups.length - 1] ||= atomRepeats;
+    }
+
+    const quantifier = pattern.slice(i).match(/^(?:[*+?]|\{\d+(?:,\d*)?\})\??/);
+    if (!quantifier) continue;
+    i += quantifier[0].length;
+
+    if (/^(?:[*+]|\{\d+,\})/.test(quantifier[0])) {
+      if (atomRepeats) return true;
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
@@ -1,6 +1,16 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, real, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_CURRENCY_SYMBOL } from "./money";
+import { MAX_PATTERN_LENGTH, hasNestedRepetition, isValidRegex } from "./patterns";
+
+// Amounts of money, stored exactly as numeric and handled as numbers of currency units.
+// Postgres returns numeric as a string, which is converted here so nothing else has to
+const money = customType<{ data: number; driverData: string; config: { scale?: number } }>({
+  dataType: (config) => `numeric(12, ${config?.scale ?? 2})`,
+  fromDriver: (value) => Number(value),
+  toDriver: (value) => String(value),
+});
 
 export const customers = pgTable("customers", {
   id: serial("id").primaryKey(),
@@ -8,6 +18,8 @@ export const customers = pgTable("customers", {
   email: text("email").notNull(),
   phone: text("phone"),
   company: text("company"),
+  autoNotify: boolean("auto_notify").notNull().default(true), // false opts out of every automatic email
+  mutedNotificationRules: jsonb("muted_notification_rules").$type<NotificationRule[]>().notNull().default([]),
 });
 
 export const jobs = pgTable("jobs", {
@@ -18,11 +30,28 @@ export const jobs = pgTable("jobs", {
   priority: text("priority").notNull().default("normal"), // normal, high, urgent
   dueDate: timestamp("due_date"),
   notes: text("notes"),
+  invoiceNumber: text("invoice_number"),
   totalEstimatedTime: integer("total_estimated_time").default(0), // in minutes
   actualTime: integer("actual_time"), // in minutes
   progress: integer("progress").default(0), // percentage 0-100
+  totalPrice: money("total_price"), // sum of the item prices and the setup fee, raised to the minimum order
+  setupFee: money("setup_fee"), // charged once per job, included in totalPrice
+  pricedAt: timestamp("priced_at"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
+  statusChangedAt: timestamp("status_changed_at").defaultNow(),
+});
+
+// Every status a job has been in, written whenever its status changes
+export const jobStatusHistory = pgTable("job_status_history", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  fromStatus: text("from_status"), // null when the job was created
+  toStatus: text("to_status").notNull(),
+  forced: boolean("forced").notNull().default(false), // pushed past the state machine's rules
+  userId: integer("user_id"), // null when the server changed it by itself
+  userName: text("user_name").notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
 });
 
 export const jobItems = pgTable("job_items", {
@@ -36,30 +65,349 @@ export const jobItems = pgTable("job_items", {
   status: text("status").notNull().default("not_started"), // not_started, printing, paused, completed
   completedQuantity: integer("completed_quantity").default(0),
   actualTimePerItem: integer("actual_time_per_item"), // in minutes
+  // Read from the item's sliced G-code, see server/gcode-parser.ts
+  gcodeFilename: text("gcode_filename"),
+  filamentLength: real("filament_length"), // in mm, per item
+  filamentWeight: real("filament_weight"), // in grams, per item
+  layerCount: integer("layer_count"),
+  // Read from the customer's STL/3MF, see server/model-parser.ts
+  modelFilename: text("model_filename"),
+  model: jsonb("model").$type<ModelAnalysis>(),
+  spoolId: integer("spool_id"), // the spool finished copies are taken from
+  // Priced when the job is created or repriced, kept so later rate changes don't rewrite old jobs
+  unitPrice: money("unit_price"),
+  totalPrice: money("total_price"),
+  priceBreakdown: jsonb("price_breakdown").$type<PriceBreakdown>(), // null for prices typed in or taken from an invoice
 });
 
-export const notifications = pgTable("notifications", {
+export const printers = pgTable("printers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  model: text("model"),
+  buildVolumeX: integer("build_volume_x").notNull(), // in mm
+  buildVolumeY: integer("build_volume_y").notNull(), // in mm
+  buildVolumeZ: integer("build_volume_z").notNull(), // in mm
+  nozzleSize: real("nozzle_size").notNull().default(0.4), // in mm
+  supportedMaterials: text("supported_materials").array().notNull().default([]),
+  status: text("status").notNull().default("idle"), // idle, printing, maintenance, offline
+  notes: text("notes"),
+  // Where to poll the printer's own API for progress; no connector means progress is entered by hand
+  connectorType: text("connector_type"), // octoprint, moonraker
+  connectorUrl: text("connector_url"),
+  connectorApiKey: text("connector_api_key"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Which printer runs how many of a job item; an item can be split across printers
+export const printerAssignments = pgTable("printer_assignments", {
+  id: serial("id").primaryKey(),
+  jobItemId: integer("job_item_id").notNull(),
+  printerId: integer("printer_id").notNull(),
+  quantity: integer("quantity").notNull(),
+  startAfter: timestamp("start_after"), // pinned on the timeline, the scheduler won't start these copies earlier
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A roll of filament on the shelf
+export const spools = pgTable("spools", {
+  id: serial("id").primaryKey(),
+  material: text("material").notNull(), // PLA, PETG, ... matched against jobItems.material
+  colour: text("colour"),
+  brand: text("brand"),
+  diameter: real("diameter").notNull().default(1.75), // in mm
+  initialWeight: real("initial_weight").notNull().default(1000), // net grams when new
+  remainingWeight: real("remaining_weight").notNull(), // in grams
+  costPerKg: money("cost_per_kg"),
+  location: text("location"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A price offered to a customer before they commit; accepting it creates the job
+export const quotes = pgTable("quotes", {
+  id: serial("id").primaryKey(),
+  quoteNumber: text("quote_number").notNull().unique(),
+  customerId: integer("customer_id").notNull(),
+  status: text("status").notNull().default("draft"), // draft, sent, accepted, rejected, expired
+  validUntil: timestamp("valid_until"),
+  items: jsonb("items").$type<QuoteItem[]>().notNull(),
+  total: money("total"), // sum of the item prices and the setup fee, raised to the minimum order
+  setupFee: money("setup_fee"), // charged once per quote, included in total
+  notes: text("notes"),
+  revision: integer("revision").notNull().default(1),
+  jobId: integer("job_id"), // set once accepted
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Earlier versions of a quote, saved each time its items, price or terms change
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull(),
+  revision: integer("revision").notNull(),
+  customerId: integer("customer_id").notNull(),
+  validUntil: timestamp("valid_until"),
+  items: jsonb("items").$type<QuoteItem[]>().notNull(),
+  total: money("total"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(), // when this version was made
+});
+
+// The rates quotes are worked out from; a single row
+export const pricingSettings = pgTable("pricing_settings", {
+  id: serial("id").primaryKey(),
+  materialCostPerGram: money("material_cost_per_gram", { scale: 4 }).notNull().default(0.025),
+  machineHourlyRate: money("machine_hourly_rate").notNull().default(1.5), // wear, maintenance and depreciation
+  printerPowerWatts: real("printer_power_watts").notNull().default(150),
+  electricityCostPerKwh: money("electricity_cost_per_kwh", { scale: 4 }).notNull().default(0.15),
+  labourHourlyRate: money("labour_hourly_rate").notNull().default(20),
+  postProcessingMinutes: real("post_processing_minutes").notNull().default(5), // per copy
+  setupFee: money("setup_fee").notNull().default(5), // per job
+  markupPercent: real("markup_percent").notNull().default(30),
+  minimumOrder: money("minimum_order").notNull().default(10), // per job
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Shop details and tax printed on invoices; a single row
+export const invoiceSettings = pgTable("invoice_settings", {
+  id: serial("id").primaryKey(),
+  shopName: text("shop_name").notNull().default("PrintTracker"),
+  address: text("address"), // printed as typed, one line per line
+  email: text("email"),
+  phone: text("phone"),
+  taxNumber: text("tax_number"),
+  taxName: text("tax_name").notNull().default("Tax"), // e.g. VAT, GST
+  taxRate: real("tax_rate").notNull().default(0), // percent
+  paymentTermsDays: integer("payment_terms_days").notNull().default(14),
+  currencySymbol: text("currency_symbol").notNull().default(DEFAULT_CURRENCY_SYMBOL), // put before every amount, e.g. R, $, €
+  footer: text("footer"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// The invoice issued for a completed job, with the PDF as it was sent
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  invoiceNumber: text("invoice_number").notNull().unique(),
+  jobId: integer("job_id").notNull().unique(),
+  customerId: integer("customer_id").notNull(),
+  lines: jsonb("lines").$type<InvoiceLine[]>().notNull(),
+  subtotal: money("subtotal").notNull(),
+  taxRate: real("tax_rate").notNull(), // percent, as it was when issued
+  tax: money("tax").notNull(),
+  total: money("total").notNull(),
+  pdf: text("pdf"), // base64, null until rendered
+  issuedAt: timestamp("issued_at").defaultNow(),
+  dueDate: timestamp("due_date"),
+});
+
+// Money received for a job: a deposit before it's invoiced, or payment of the invoice
+export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
   jobId: integer("job_id").notNull(),
-  type: text("type").notNull(), // status_update, completion, delay
-  message: text("message").notNull(),
-  sentAt: timestamp("sent_at").defaultNow(),
+  invoiceId: integer("invoice_id"), // the job's invoice, if issued when the payment came in
+  amount: money("amount").notNull(),
+  method: text("method").notNull(), // cash, card, bank_transfer, other
+  paidAt: timestamp("paid_at").notNull().defaultNow(),
+  reference: text("reference"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock level below which a material should be reordered
+export const materialThresholds = pgTable("material_thresholds", {
+  id: serial("id").primaryKey(),
+  material: text("material").notNull().unique(), // matched case-insensitively against spools.material
+  reorderThreshold: real("reorder_threshold").notNull(), // in grams
+});
+
+// Filament ordered from a supplier; receiving it puts its spools on the shelf
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  orderNumber: text("order_number").notNull().unique(),
+  supplier: text("supplier").notNull(),
+  status: text("status").notNull().default("draft"), // draft, ordered, received, cancelled
+  expectedDate: timestamp("expected_date"),
+  lines: jsonb("lines").$type<PurchaseOrderLine[]>().notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  receivedAt: timestamp("received_at"),
+});
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id"), // null when it's about a quote
+  quoteId: integer("quote_id"),
+  type: text("type").notNull(), // status_update, completion, delay, quote_sent, ready_for_pickup
+  subject: text("subject"),
+  message: text("message").notNull(), // plain-text body
+  html: text("html"), // HTML body, when the template has one
+  sentAt: timestamp("sent_at").defaultNow(), // when it was queued
   recipientEmail: text("recipient_email").notNull(),
+  invoiceId: integer("invoice_id"), // attached invoice, if any
+  status: text("status").notNull().default("queued"), // queued, sent, failed, bounced
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // null once sent, bounced or given up on
+  lastError: text("last_error"),
+  messageId: text("message_id"), // from the SMTP server
+  deliveredAt: timestamp("delivered_at"),
+  rule: text("rule"), // the automatic rule that sent it, null when sent by hand
+});
+
+// When customers are emailed automatically as their jobs move along
+export const notificationSettings = pgTable("notification_settings", {
+  id: serial("id").primaryKey(),
+  enabledRules: jsonb("enabled_rules").$type<NotificationRule[]>().notNull(),
+  pausedAfterHours: real("paused_after_hours").notNull().default(4),
+  atRiskMarginHours: real("at_risk_margin_hours").notNull().default(0), // finishing this close to the due date counts as at risk
+  settleMinutes: integer("settle_minutes").notNull().default(2), // a new status has to hold this long before it's announced
+  // The mail server; each one left empty falls back to its environment variable
+  smtpHost: text("smtp_host"),
+  smtpPort: integer("smtp_port"),
+  smtpSecure: boolean("smtp_secure"), // true for port 465
+  smtpUser: text("smtp_user"),
+  smtpPassword: text("smtp_password"), // write-only through the API
+  mailFrom: text("mail_from"), // sender, e.g. "Print Shop <jobs@example.com>"
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Wording for each notification type; types without a row use the built-in default
+export const notificationTemplates = pgTable("notification_templates", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull().unique(),
+  subject: text("subject").notNull(),
+  bodyText: text("body_text").notNull(),
+  bodyHtml: text("body_html"), // null sends plain text only
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type InvoiceTemplateColumn = {
+  field: "description" | "quantity" | "unitPrice" | "amount";
+  fromX: number; // PDF x coordinate where the column starts
+  toX: number | null; // null runs to the right edge of the page
+};
+
+export const invoiceTemplates = pgTable("invoice_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  priority: integer("priority").notNull().default(100), // lower runs first
+  enabled: boolean("enabled").notNull().default(true),
+  identifierPattern: text("identifier_pattern").notNull(), // regex the document text must match
+  invoiceNumberPattern: text("invoice_number_pattern"), // regex, first capture group is the number
+  customerNamePattern: text("customer_name_pattern"), // regex, first capture group is the name
+  tableStartPattern: text("table_start_pattern"), // regex for the row just above the first item
+  tableEndPattern: text("table_end_pattern"), // regex for the row just below the last item
+  lineItemPattern: text("line_item_pattern"), // regex with description, quantity, unitPrice, amount groups
+  columns: jsonb("columns").$type<InvoiceTemplateColumn[]>(), // used instead of lineItemPattern when set
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// An uploaded invoice waiting for someone to check it before it becomes a job
+export const importDrafts = pgTable("import_drafts", {
+  id: serial("id").primaryKey(),
+  originalFilename: text("original_filename").notNull(),
+  templateName: text("template_name"), // invoice layout used, null for the generic heuristics
+  invoiceNumber: text("invoice_number"),
+  customerName: text("customer_name"), // as printed on the invoice
+  customerId: integer("customer_id"), // suggested match, then whatever the reviewer picked
+  items: jsonb("items").$type<ImportDraftItem[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// People who can sign in; the role decides what they may change
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt, see server/auth.ts
+  name: text("name").notNull(),
+  role: text("role").notNull().default("viewer"), // owner, operator, viewer
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Append-only trail of changes to customers, jobs, job items and notifications
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entity: text("entity").notNull(), // customer, job, jobItem, notification
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete
+  jobId: integer("job_id"), // the job it belongs to, for the job's history
+  userId: integer("user_id"), // null when the server made the change by itself
+  userName: text("user_name").notNull(), // as it was at the time
+  changes: jsonb("changes").$type<AuditChanges>().notNull(), // only the fields that changed
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Automatic customer emails, see server/email/auto-notify.ts
+export const notificationRules = ["job_started", "job_completed", "job_paused", "due_date_at_risk"] as const;
+
 export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
+}).extend({
+  mutedNotificationRules: z.array(z.enum(notificationRules)).optional(),
 });
 
+export const jobStatuses = ["not_started", "printing", "paused", "completed"] as const;
+
+// Where a job may go from each status. Anything else, such as reopening a completed job,
+// has to be forced
+export const jobStatusTransitions: Record<JobStatus, readonly JobStatus[]> = {
+  not_started: ["printing", "completed"],
+  printing: ["paused", "completed"],
+  paused: ["printing", "completed"],
+  completed: [],
+};
+
 export const insertJobSchema = createInsertSchema(jobs).omit({
   id: true,
   jobNumber: true,
   createdAt: true,
   completedAt: true,
+  statusChangedAt: true,
 }).extend({
   customerId: z.number(),
   priority: z.string().default("normal"),
-  status: z.string().default("not_started"),
+  status: z.enum(jobStatuses).default("not_started"),
+  dueDate: z.coerce.date().nullish(), // arrives as an ISO string over JSON
+  totalPrice: z.number().nullish(),
+  setupFee: z.number().nullish(),
+  pricedAt: z.coerce.date().nullish(),
+});
+
+export const modelAnalysisSchema = z.object({
+  format: z.enum(["stl", "3mf"]),
+  triangleCount: z.number().int(),
+  volume: z.number(),
+  surfaceArea: z.number(),
+  size: z.object({ x: z.number(), y: z.number(), z: z.number() }),
+  infill: z.number().min(0).max(100),
+  estimatedWeight: z.number(),
+});
+
+export const insertPricingSettingsSchema = createInsertSchema(pricingSettings).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  materialCostPerGram: z.number().min(0),
+  machineHourlyRate: z.number().min(0),
+  printerPowerWatts: z.number().min(0),
+  electricityCostPerKwh: z.number().min(0),
+  labourHourlyRate: z.number().min(0),
+  postProcessingMinutes: z.number().min(0),
+  setupFee: z.number().min(0),
+  markupPercent: z.number().min(0),
+  minimumOrder: z.number().min(0),
+});
+
+export const priceBreakdownSchema = z.object({
+  grams: z.number(), // per copy
+  hours: z.number(), // per copy
+  material: z.number(), // per copy
+  machine: z.number(), // per copy
+  electricity: z.number(), // per copy
+  labour: z.number(), // per copy
+  setup: z.number().optional(), // per line, only on items priced before the setup fee was charged per job
+  markup: z.number(), // per line
+  rates: insertPricingSettingsSchema, // what the rates were when priced
 });
 
 export const insertJobItemSchema = createInsertSchema(jobItems).omit({
@@ -67,11 +415,288 @@ export const insertJobItemSchema = createInsertSchema(jobItems).omit({
 }).extend({
   status: z.string().default("not_started"),
   completedQuantity: z.number().default(0),
+  model: modelAnalysisSchema.nullish(),
+  unitPrice: z.number().min(0).nullish(),
+  totalPrice: z.number().min(0).nullish(),
+  priceBreakdown: priceBreakdownSchema.nullish(),
+});
+
+export const printerStatuses = ["idle", "printing", "maintenance", "offline"] as const;
+
+export const printerConnectorTypes = ["octoprint", "moonraker"] as const;
+
+export const insertPrinterSchema = createInsertSchema(printers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Printer name is required"),
+  buildVolumeX: z.number().int().positive(),
+  buildVolumeY: z.number().int().positive(),
+  buildVolumeZ: z.number().int().positive(),
+  nozzleSize: z.number().positive().default(0.4),
+  supportedMaterials: z.array(z.string()).default([]),
+  status: z.enum(printerStatuses).default("idle"),
+  connectorType: z.enum(printerConnectorTypes).nullish(),
+  connectorUrl: z.string().url("Enter the printer's address, e.g. http://192.168.1.20").nullish(),
+  connectorApiKey: z.string().nullish(),
+});
+
+export const insertPrinterAssignmentSchema = createInsertSchema(printerAssignments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  startAfter: z.coerce.date().nullish(),
+});
+
+export const insertSpoolSchema = createInsertSchema(spools).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  material: z.string().trim().min(1, "Material is required"),
+  diameter: z.number().positive().default(1.75),
+  initialWeight: z.number().positive().default(1000),
+  remainingWeight: z.number().min(0),
+  costPerKg: z.number().min(0).nullish(),
+});
+
+export const quoteStatuses = ["draft", "sent", "accepted", "rejected", "expired"] as const;
+
+export const quoteItemSchema = z.object({
+  name: z.string().trim().min(1, "Item name is required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  estimatedTimePerItem: z.number().int().min(0).default(0), // in minutes
+  material: z.string().nullish(),
+  filamentWeight: z.number().min(0).nullish(), // in grams, per copy
+  notes: z.string().nullish(),
+  unitPrice: z.number().min(0).nullish(),
+  totalPrice: z.number().min(0).nullish(),
+  priceBreakdown: priceBreakdownSchema.nullish(), // null when the price was typed in
+});
+
+export const insertQuoteSchema = createInsertSchema(quotes).omit({
+  id: true,
+  quoteNumber: true,
+  revision: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  customerId: z.number().min(1, "Please select a customer"),
+  status: z.enum(quoteStatuses).default("draft"),
+  validUntil: z.coerce.date().nullish(),
+  items: z.array(quoteItemSchema).min(1, "At least one item is required"),
+  total: z.number().nullish(),
+  setupFee: z.number().nullish(),
+});
+
+export const insertInvoiceSettingsSchema = createInsertSchema(invoiceSettings).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  shopName: z.string().trim().min(1, "Shop name is required"),
+  email: z.string().email().nullish().or(z.literal("")),
+  taxName: z.string().trim().min(1, "Tax name is required"),
+  taxRate: z.number().min(0).max(100),
+  paymentTermsDays: z.number().int().min(0),
+  currencySymbol: z.string().trim().min(1, "Currency symbol is required").max(5),
+});
+
+export const invoiceLineSchema = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  unitPrice: z.number(),
+  amount: z.number(),
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  invoiceNumber: true,
+  issuedAt: true,
+}).extend({
+  lines: z.array(invoiceLineSchema),
+  subtotal: z.number(),
+  tax: z.number(),
+  total: z.number(),
+  dueDate: z.coerce.date().nullish(),
+});
+
+export const paymentMethods = ["cash", "card", "bank_transfer", "other"] as const;
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  amount: z.number().positive("Amount must be more than 0"),
+  method: z.enum(paymentMethods),
+  paidAt: z.coerce.date().optional(),
+});
+
+export const insertMaterialThresholdSchema = createInsertSchema(materialThresholds).omit({
+  id: true,
+}).extend({
+  material: z.string().trim().min(1, "Material is required"),
+  reorderThreshold: z.number().min(0),
+});
+
+export const purchaseOrderStatuses = ["draft", "ordered", "received", "cancelled"] as const;
+
+export const purchaseOrderLineSchema = z.object({
+  material: z.string().trim().min(1, "Material is required"),
+  colour: z.string().nullish(),
+  brand: z.string().nullish(),
+  spoolWeight: z.number().positive().default(1000), // net grams per spool
+  quantity: z.number().int().min(1, "Quantity must be at least 1"), // spools
+  unitPrice: z.number().min(0).nullish(), // per spool
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  orderNumber: true,
+  createdAt: true,
+  receivedAt: true,
+}).extend({
+  supplier: z.string().trim().min(1, "Supplier is required"),
+  status: z.enum(purchaseOrderStatuses).default("draft"),
+  expectedDate: z.coerce.date().nullish(),
+  lines: z.array(purchaseOrderLineSchema).min(1, "At least one line is required"),
 });
 
+export const notificationStatuses = ["queued", "sent", "failed", "bounced"] as const;
+export const notificationTypes = ["status_update", "completion", "delay", "quote_sent", "ready_for_pickup"] as const;
+
+// Placeholders templates can use, as {{name}}. {{#name}}...{{/name}} only shows its
+// contents when the value isn't empty
+export const notificationTemplateVariables = [
+  { name: "customer.name", description: "Customer name" },
+  { name: "customer.company", description: "Customer company" },
+  { name: "customer.email", description: "Customer email" },
+  { name: "job.jobNumber", description: "Job number" },
+  { name: "job.status", description: "Job status, e.g. Printing" },
+  { name: "job.progress", description: "Percent complete" },
+  { name: "job.dueDate", description: "Due date" },
+  { name: "job.total", description: "Job price" },
+  { name: "job.invoiceNumber", description: "Invoice number, once issued" },
+  { name: "quote.quoteNumber", description: "Quote number (quote emails)" },
+  { name: "quote.total", description: "Quoted price (quote emails)" },
+  { name: "quote.validUntil", description: "Quote expiry date (quote emails)" },
+  { name: "items", description: "Table of the items, with quantity and material" },
+  { name: "eta", description: "Projected completion from the print schedule" },
+  { name: "note", description: "Extra message typed when sending" },
+  { name: "shop.name", description: "Shop name from the invoice settings" },
+  { name: "shop.email", description: "Shop email" },
+  { name: "shop.phone", description: "Shop phone" },
+] as const;
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   sentAt: true,
+}).extend({
+  status: z.enum(notificationStatuses).optional(),
+});
+
+export const insertNotificationSettingsSchema = createInsertSchema(notificationSettings).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  enabledRules: z.array(z.enum(notificationRules)),
+  pausedAfterHours: z.number().min(0),
+  atRiskMarginHours: z.number().min(0),
+  settleMinutes: z.number().int().min(0),
+  smtpHost: z.string().trim().nullish(),
+  smtpPort: z.number().int().min(1).max(65535).nullish(),
+  smtpSecure: z.boolean().nullish(),
+  smtpUser: z.string().trim().nullish(),
+  smtpPassword: z.string().nullish(),
+  mailFrom: z.string().trim().nullish(),
+});
+
+export const insertNotificationTemplateSchema = createInsertSchema(notificationTemplates).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  type: z.enum(notificationTypes),
+  subject: z.string().trim().min(1, "Subject is required"),
+  bodyText: z.string().trim().min(1, "Plain-text body is required"),
+});
+
+const regexPattern = z.string()
+  .max(MAX_PATTERN_LENGTH, `Keep patterns under ${MAX_PATTERN_LENGTH} characters`)
+  .refine(isValidRegex, "Invalid regular expression")
+  .refine(pattern => !hasNestedRepetition(pattern), "Nested repeats like (a+)+ can take too long to match");
+
+export const invoiceTemplateColumnSchema = z.object({
+  field: z.enum(["description", "quantity", "unitPrice", "amount"]),
+  fromX: z.number(),
+  toX: z.number().nullable(),
+});
+
+export const insertInvoiceTemplateSchema = createInsertSchema(invoiceTemplates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Template name is required"),
+  identifierPattern: regexPattern.pipe(z.string().min(1, "Identifier pattern is required")),
+  invoiceNumberPattern: regexPattern.nullish(),
+  customerNamePattern: regexPattern.nullish(),
+  tableStartPattern: regexPattern.nullish(),
+  tableEndPattern: regexPattern.nullish(),
+  lineItemPattern: regexPattern.nullish(),
+  columns: z.array(invoiceTemplateColumnSchema).nullish(),
+}).refine(
+  (template) => !!template.lineItemPattern || !!template.columns?.length,
+  { message: "Either a line item pattern or column positions are required", path: ["lineItemPattern"] },
+);
+
+export const importDraftItemSchema = z.object({
+  name: z.string(),
+  quantity: z.number(),
+  unitPrice: z.number().nullish(),
+  confidence: z.number().min(0).max(1).nullish(),
+  estimatedTimePerItem: z.string().optional(),
+  material: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export const insertImportDraftSchema = createInsertSchema(importDrafts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  items: z.array(importDraftItemSchema),
+});
+
+// Owners manage users, settings and deletions, operators run the shop, viewers only look
+export const userRoles = ["owner", "operator", "viewer"] as const;
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  passwordHash: true,
+  createdAt: true,
+}).extend({
+  username: z.string().trim().min(1, "Username is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  role: z.enum(userRoles).optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const updateUserSchema = insertUserSchema.partial();
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// What the audit log records, see withAuditLog in server/storage.ts
+export const auditEntities = ["customer", "job", "jobItem", "notification"] as const;
+export const auditActions = ["create", "update", "delete"] as const;
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  entity: z.enum(auditEntities),
+  action: z.enum(auditActions),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })),
 });
 
 export type Customer = typeof customers.$inferSelect;
@@ -80,21 +705,360 @@ export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Job = typeof jobs.$inferSelect;
 export type InsertJob = z.infer<typeof insertJobSchema>;
 
+export type JobStatus = typeof jobStatuses[number];
+export type JobStatusChange = typeof jobStatusHistory.$inferSelect;
+
 export type JobItem = typeof jobItems.$inferSelect;
 export type InsertJobItem = z.infer<typeof insertJobItemSchema>;
 
+export type Spool = typeof spools.$inferSelect;
+export type InsertSpool = z.infer<typeof insertSpoolSchema>;
+
+export type PricingSettings = typeof pricingSettings.$inferSelect;
+export type InsertPricingSettings = z.infer<typeof insertPricingSettingsSchema>;
+export type PriceBreakdown = z.infer<typeof priceBreakdownSchema>;
+
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type QuoteItem = z.infer<typeof quoteItemSchema>;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+
+export type InvoiceSettings = typeof invoiceSettings.$inferSelect;
+export type InsertInvoiceSettings = z.infer<typeof insertInvoiceSettingsSchema>;
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+
+export type MaterialThreshold = typeof materialThresholds.$inferSelect;
+export type InsertMaterialThreshold = z.infer<typeof insertMaterialThresholdSchema>;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrderLine = z.infer<typeof purchaseOrderLineSchema>;
+
+export type Printer = typeof printers.$inferSelect;
+export type InsertPrinter = z.infer<typeof insertPrinterSchema>;
+
+export type PrinterAssignment = typeof printerAssignments.$inferSelect;
+export type InsertPrinterAssignment = z.infer<typeof insertPrinterAssignmentSchema>;
+
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
+export type NotificationType = typeof notificationTypes[number];
+export type NotificationRule = typeof notificationRules[number];
+export type NotificationSettings = typeof notificationSettings.$inferSelect;
+export type InsertNotificationSettings = z.infer<typeof insertNotificationSettingsSchema>;
+export type NotificationTemplate = typeof notificationTemplates.$inferSelect;
+export type InsertNotificationTemplate = z.infer<typeof insertNotificationTemplateSchema>;
+
+export type InvoiceTemplate = typeof invoiceTemplates.$inferSelect;
+export type InsertInvoiceTemplate = z.infer<typeof insertInvoiceTemplateSchema>;
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type UserRole = typeof userRoles[number];
+// A user as stored, with the password already hashed
+export type NewUser = Omit<InsertUser, "password"> & { passwordHash: string };
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+export type AuditEntity = typeof auditEntities[number];
+// Field name to its value before and after; creates have no before, deletes no after
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type ImportDraft = typeof importDrafts.$inferSelect;
+export type InsertImportDraft = z.infer<typeof insertImportDraftSchema>;
+
 // Extended types for API responses
+// A user as the API returns it, never with the password hash
+export type SafeUser = Omit<User, "passwordHash">;
+
+// Notification settings as the API returns them, without the SMTP password
+export type SafeNotificationSettings = Omit<NotificationSettings, "smtpPassword"> & { hasSmtpPassword: boolean };
+
+// A printer as the API returns it. The connector API key is write-only, the form only
+// needs to know whether one is set
+export type SafePrinter = Omit<Printer, "connectorApiKey"> & { hasConnectorApiKey: boolean };
+
+export type JobItemWithAssignments = JobItem & {
+  assignments: PrinterAssignment[];
+};
+
 export type JobWithCustomer = Job & {
   customer: Customer;
-  items: JobItem[];
+  items: JobItemWithAssignments[];
+};
+
+export type QuoteWithCustomer = Quote & {
+  customer: Customer;
 };
 
+// Invoice as listed and returned by the API; the PDF itself is downloaded separately
+export type InvoiceSummary = Omit<Invoice, "pdf">;
+
 export type JobStats = {
   activeJobs: number;
   completedToday: number;
   totalPrintTime: number;
   queueLength: number;
 };
+
+// Pushed to every signed-in browser over /ws as the data changes, see server/live.ts
+export type LiveUpdate =
+  | { type: "job"; job: JobWithCustomer }
+  | { type: "jobDeleted"; jobId: number }
+  | { type: "jobs"; jobs: JobWithCustomer[] } // the whole list, when it's unclear which job changed
+  | { type: "customer"; customer: Customer }
+  | { type: "customerDeleted"; customerId: number }
+  | { type: "notification"; notification: Notification }
+  | { type: "stats"; stats: JobStats };
+
+// One or more consecutive copies of a job item on a printer
+export type ScheduledPrint = {
+  printerId: number;
+  jobId: number;
+  jobNumber: string;
+  jobStatus: string;
+  customerName: string;
+  jobItemId: number;
+  itemName: string;
+  material: string | null;
+  assignmentId: number | null; // null when the scheduler picked the printer
+  pinned: boolean; // placed by hand on the timeline
+  quantity: number;
+  start: Date;
+  end: Date;
+  dueDate: Date | null;
+  overdue: boolean; // projected to finish after the job's due date
+};
+
+export type PrinterQueue = {
+  printer: SafePrinter;
+  prints: ScheduledPrint[]; // in the order they will run
+};
+
+export type UnscheduledItem = {
+  jobId: number;
+  jobNumber: string;
+  jobItemId: number;
+  itemName: string;
+  quantity: number;
+  reason: string;
+};
+
+export type WorkingHours = {
+  days: number[]; // 0 = Sunday
+  opensAt: number; // minutes after midnight
+  closesAt: number; // minutes after midnight
+};
+
+export type Schedule = {
+  generatedAt: Date;
+  workingHours: WorkingHours;
+  queues: PrinterQueue[];
+  unscheduled: UnscheduledItem[];
+};
+
+// What a connected printer reported on its last poll
+export type PrinterTelemetry = {
+  printerId: number;
+  state: "idle" | "printing" | "paused" | "complete" | "error" | "offline";
+  fileName: string | null;
+  progress: number | null; // percent
+  timeRemaining: number | null; // in minutes
+  jobItemId: number | null; // the job item the current print was matched to
+  polledAt: Date;
+  error: string | null;
+};
+
+// What an uploaded G-code file says about the print, per copy
+export type GcodeAnalysis = {
+  slicer: string | null;
+  source: "header" | "simulated"; // where the print time came from
+  printTime: number; // in minutes
+  filamentLength: number; // in mm
+  filamentWeight: number; // in grams
+  layerCount: number;
+  material: string | null;
+};
+
+// Mesh measurements of an uploaded STL/3MF: volume in mm³, surface area in mm²,
+// size in mm, infill in percent (what estimatedWeight in grams assumes)
+export type ModelAnalysis = z.infer<typeof modelAnalysisSchema>;
+
+export type PrinterFit = {
+  printerId: number;
+  printerName: string;
+  fits: boolean;
+  rotated: boolean; // fits only turned 90° on the bed
+};
+
+// Open work that needs more of a material than the spools on the shelf hold
+export type MaterialShortage = {
+  material: string;
+  needed: number; // in grams
+  onHand: number; // in grams
+  jobs: Array<{ id: number; jobNumber: string }>;
+};
+
+// Prices worked out for items that aren't saved yet, see POST /api/pricing/quote
+export type ItemQuote = {
+  unitPrice: number;
+  totalPrice: number;
+  breakdown: PriceBreakdown | null; // null when the price was given rather than worked out
+};
+
+export type JobQuote = {
+  items: ItemQuote[];
+  subtotal: number; // the items only
+  setupFee: number; // once per job, when any item is worked out from the rates
+  minimumOrderAdjustment: number; // added to reach the minimum order
+  total: number;
+};
+
+// Stock of one material against what the open queue will use
+export type StockLevel = {
+  material: string;
+  onHand: number; // in grams, across all spools
+  spoolCount: number;
+  queued: number; // grams the open job items still need
+  projected: number; // onHand - queued
+  onOrder: number; // grams on purchase orders that are ordered but not received
+  thresholdId: number | null;
+  reorderThreshold: number | null;
+  low: boolean; // projected stock falls below the reorder threshold
+};
+
+// What a job is owed against what's been paid. The invoice total (with tax) once there's
+// an invoice, the job price before that; null while the job isn't priced
+export type JobBalance = {
+  jobId: number;
+  invoiceId: number | null;
+  invoiceNumber: string | null;
+  amountDue: number | null;
+  amountPaid: number;
+  outstanding: number | null; // negative when overpaid
+};
+
+// Days past the invoice due date
+export type AgingBucket = "current" | "days1to30" | "days31to60" | "days61to90" | "over90";
+
+export type ReceivableInvoice = {
+  invoiceId: number;
+  invoiceNumber: string;
+  jobId: number;
+  dueDate: Date | null;
+  outstanding: number;
+  daysOverdue: number;
+  bucket: AgingBucket;
+};
+
+export type CustomerReceivables = Record<AgingBucket, number> & {
+  customerId: number;
+  customerName: string;
+  total: number;
+  invoices: ReceivableInvoice[];
+};
+
+// Unpaid invoice balances per customer, by how overdue they are
+export type AgedReceivables = {
+  customers: CustomerReceivables[];
+  totals: Record<AgingBucket, number> & { total: number };
+};
+
+// How long a job took, worked out from its status history. Durations are in hours, null
+// until the job has reached the point they're measured to
+export type JobTimings = {
+  jobId: number;
+  jobNumber: string;
+  createdAt: Date | null;
+  startedAt: Date | null; // first time it went to printing
+  completedAt: Date | null; // the last completion, if it was reopened
+  queueHours: number | null; // created to first started
+  turnaroundHours: number | null; // first started to completed
+  leadTimeHours: number | null; // created to completed
+  printingHours: number; // time spent printing, up to now for open jobs
+  pausedHours: number;
+  reopened: boolean; // completed more than once
+};
+
+export type TurnaroundReport = {
+  jobs: JobTimings[]; // jobs completed in the period
+  averages: {
+    queueHours: number | null;
+    turnaroundHours: number | null;
+    leadTimeHours: number | null;
+    printingHours: number | null;
+    pausedHours: number | null;
+  };
+};
+
+// Narrows GET /api/notifications; unset fields don't filter
+export type NotificationFilter = {
+  jobId?: number;
+  quoteId?: number;
+  status?: string;
+  type?: string;
+  recipient?: string; // part of the email address
+  since?: Date;
+  until?: Date;
+  limit?: number;
+};
+
+// Narrows GET /api/audit; unset fields don't filter
+export type AuditFilter = {
+  entity?: string;
+  entityId?: number;
+  jobId?: number;
+  userId?: number;
+  action?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+};
+
+// The template a notification type currently uses, saved or built in
+export type ResolvedNotificationTemplate = InsertNotificationTemplate & {
+  customized: boolean;
+};
+
+export type RenderedNotification = {
+  subject: string;
+  text: string;
+  html: string | null;
+};
+
+// Extracted rows below this confidence are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export type ExtractedInvoiceItem = {
+  name: string;
+  quantity: number;
+  unitPrice: number | null;
+  confidence: number; // 0-1
+};
+
+export type ExtractedInvoice = {
+  templateName: string | null; // null when the generic heuristics were used
+  invoiceNumber: string | null;
+  customerName: string | null;
+  emails: string[]; // every address on the invoice, used to recognise the customer
+  items: ExtractedInvoiceItem[];
+};
+
+// Extracted items plus whatever the reviewer filled in before saving the draft for later
+export type ImportDraftItem = {
+  name: string;
+  quantity: number;
+  unitPrice?: number | null;
+  confidence?: number | null; // null or missing for rows the reviewer added by hand
+  estimatedTimePerItem?: string;
+  material?: string;
+  notes?: string;
+};
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Setting up a PGlite database takes a few seconds
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});